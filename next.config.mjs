@@ -2,7 +2,9 @@
 const nextConfig = {
   images: {
     remotePatterns: [
-      { hostname: "images.pexels.com" }
+      { hostname: "images.pexels.com" },
+      { hostname: "res.cloudinary.com" },
+      { hostname: "img.clerk.com" },
     ],
   },
 
@@ -0,0 +1,92 @@
+/**
+ * API ENDPOINT: Export a list page
+ *
+ * Endpoint: GET /api/export/[table]?format=csv|xlsx&<list page params>
+ *
+ * Purpose:
+ * Download the rows of a /list page (students, exams, events, ...) as a
+ * spreadsheet. Every other query param is the list page's own URL filter
+ * (`search`, `classId`, ...), so the file holds exactly what the page
+ * shows across all of its pages. See lib/listExports.ts.
+ *
+ * Access: admins and teachers (`canExport`). Tables that scope rows to the
+ * caller (attendance) are scoped here too.
+ *
+ * Response:
+ * - Success (200): the file, as an attachment
+ * - Error (400): { error, code: "BAD_REQUEST" }  (unknown table or format)
+ * - Error (401): { error, code: "UNAUTHENTICATED" }
+ * - Error (403): { error, code: "FORBIDDEN" }
+ * - Error (405): { error, code: "METHOD_NOT_ALLOWED" }
+ * - Error (500): { error, code: "INTERNAL_ERROR" }
+ */
+
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getApiCaller } from "@/lib/apiAuth";
+import { sendApiError } from "@/lib/apiErrors";
+import { toCsv } from "@/lib/csv";
+import { buildListExport, isExportTable } from "@/lib/listExports";
+import { ListParams } from "@/lib/listQueries";
+import { findLinkedPerson } from "@/lib/personLink";
+import { canExport } from "@/lib/roles";
+import { toXlsx } from "@/lib/xlsx";
+
+const FORMATS = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+} as const;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return sendApiError(res, "METHOD_NOT_ALLOWED", "Method not allowed");
+  }
+
+  const { table, format = "csv", page: _page, ...query } = req.query;
+
+  if (!isExportTable(table)) {
+    return sendApiError(res, "BAD_REQUEST", "Unknown list");
+  }
+  if (format !== "csv" && format !== "xlsx") {
+    return sendApiError(res, "BAD_REQUEST", "Format must be csv or xlsx");
+  }
+
+  try {
+    const { userId, role } = await getApiCaller(req);
+    if (!userId) {
+      return sendApiError(res, "UNAUTHENTICATED", "You must be signed in");
+    }
+    if (!canExport(role)) {
+      return sendApiError(res, "FORBIDDEN", "You are not allowed to export");
+    }
+
+    // Same shape as a page's searchParams: repeated params keep the last value
+    const params: ListParams = Object.fromEntries(
+      Object.entries(query).map(([key, value]) => [
+        key,
+        Array.isArray(value) ? value[value.length - 1] : value,
+      ])
+    );
+
+    const person =
+      role && role !== "admin" ? await findLinkedPerson(userId, role) : null;
+    const { header, rows } = await buildListExport(table, params, role, person);
+
+    const fileName = `${table}-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader("Content-Type", FORMATS[format]);
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.setHeader("Cache-Control", "no-store");
+
+    if (format === "xlsx") {
+      return res.status(200).send(toXlsx(table, header, rows));
+    }
+    // BOM so Excel opens the UTF-8 CSV with the right encoding
+    return res.status(200).send("\uFEFF" + toCsv(header, rows));
+  } catch (error) {
+    console.error(`Error exporting ${table}:`, error);
+    return sendApiError(res, "INTERNAL_ERROR", "Internal server error");
+  }
+}
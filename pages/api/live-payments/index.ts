@@ -0,0 +1,105 @@
+/**
+ * API ENDPOINT: Live class payments of the signed-in student
+ *
+ * Endpoint:
+ * - GET  /api/live-payments  what the student's class costs and how long
+ *                            their access lasts
+ * - POST /api/live-payments  start a payment: returns the reference, amount
+ *                            and email to hand to Paystack's inline popup
+ *
+ * Purpose:
+ * The amount and reference come from here (lib/liveAccess.ts), not from the
+ * browser. Paying grants nothing by itself: /api/live-payments/verify or the
+ * Paystack webhook confirms the charge with Paystack first.
+ *
+ * Access:
+ * - students linked to a school record
+ *
+ * Response:
+ * - Success (200, GET): { name, className, amount, currency, entitledUntil }
+ * - Success (201, POST): { reference, amount, currency, email }
+ * - Error (400): { error, code: "BAD_REQUEST" }  (no email to pay with)
+ * - Error (401): { error, code: "UNAUTHENTICATED" }
+ * - Error (403): { error, code: "FORBIDDEN" }
+ * - Error (405): { error, code: "METHOD_NOT_ALLOWED" }
+ * - Error (500): { error, code: "INTERNAL_ERROR" }
+ */
+
+import type { NextApiRequest, NextApiResponse } from "next";
+import prisma from "@/lib/prisma";
+import { getApiCaller } from "@/lib/apiAuth";
+import { sendApiError } from "@/lib/apiErrors";
+import { findLinkedPerson } from "@/lib/personLink";
+import { getLiveEntitlement, startLivePayment } from "@/lib/liveAccess";
+import { CURRENCY, LIVE_CLASS } from "@/lib/settings";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    return sendApiError(res, "METHOD_NOT_ALLOWED", "Method not allowed");
+  }
+
+  try {
+    const { userId, role } = await getApiCaller(req);
+    if (!userId) {
+      return sendApiError(res, "UNAUTHENTICATED", "You must be signed in");
+    }
+
+    const person = role === "student" ? await findLinkedPerson(userId, role) : null;
+    if (!person) {
+      return sendApiError(
+        res,
+        "FORBIDDEN",
+        "Only students linked to a school record pay for live classes"
+      );
+    }
+
+    const student = await prisma.student.findUniqueOrThrow({
+      where: { id: person.id },
+      select: {
+        id: true,
+        name: true,
+        surname: true,
+        email: true,
+        classId: true,
+        class: { select: { name: true } },
+        parent: { select: { email: true } },
+      },
+    });
+
+    if (req.method === "GET") {
+      const entitlement = await getLiveEntitlement(student.id, student.classId);
+      return res.status(200).json({
+        name: `${student.name} ${student.surname}`,
+        className: student.class.name,
+        amount: LIVE_CLASS.fee,
+        currency: CURRENCY.code,
+        entitledUntil: entitlement?.validUntil ?? null,
+      });
+    }
+
+    // Paystack needs an email for the receipt it sends
+    const email = student.email ?? student.parent.email;
+    if (!email) {
+      return sendApiError(
+        res,
+        "BAD_REQUEST",
+        "Add an email to your or your parent's record before paying"
+      );
+    }
+
+    const payment = await startLivePayment(student);
+    return res.status(201).json({
+      reference: payment.reference,
+      amount: payment.amount,
+      currency: CURRENCY.code,
+      email,
+    });
+  } catch (error) {
+    console.error("Error handling live class payment:", error);
+    return sendApiError(res, "INTERNAL_ERROR", "Internal server error");
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * API ENDPOINT: Confirm a live class payment with Paystack
+ *
+ * Endpoint: POST /api/live-payments/verify  { reference }
+ *
+ * Purpose:
+ * Called by the student's browser once Paystack's popup reports success.
+ * The server asks Paystack about the reference itself and grants the
+ * entitlement only if the charge really went through (lib/liveAccess.ts).
+ * The Paystack webhook does the same, so a closed tab loses nothing.
+ *
+ * Access:
+ * - the student who started the payment
+ *
+ * Response:
+ * - Success (200): { outcome: "granted", validUntil }
+ *                  or { outcome: "pending" | "rejected" }
+ * - Error (400): { error, code: "BAD_REQUEST" }  (no reference)
+ * - Error (401): { error, code: "UNAUTHENTICATED" }
+ * - Error (403): { error, code: "FORBIDDEN" }
+ * - Error (404): { error, code: "NOT_FOUND" }
+ * - Error (405): { error, code: "METHOD_NOT_ALLOWED" }
+ * - Error (500): { error, code: "INTERNAL_ERROR" }
+ */
+
+import type { NextApiRequest, NextApiResponse } from "next";
+import prisma from "@/lib/prisma";
+import { getApiCaller } from "@/lib/apiAuth";
+import { sendApiError } from "@/lib/apiErrors";
+import { findLinkedPerson } from "@/lib/personLink";
+import { settleLivePayment } from "@/lib/liveAccess";
+import { verifyTransaction } from "@/lib/paystack";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return sendApiError(res, "METHOD_NOT_ALLOWED", "Method not allowed");
+  }
+
+  const reference = req.body?.reference;
+  if (typeof reference !== "string" || !reference) {
+    return sendApiError(res, "BAD_REQUEST", "Pass a reference");
+  }
+
+  try {
+    const { userId, role } = await getApiCaller(req);
+    if (!userId) {
+      return sendApiError(res, "UNAUTHENTICATED", "You must be signed in");
+    }
+
+    const payment = await prisma.liveClassPayment.findUnique({
+      where: { reference },
+      select: { studentId: true },
+    });
+    if (!payment) return sendApiError(res, "NOT_FOUND", "Payment not found");
+
+    const person = role ? await findLinkedPerson(userId, role) : null;
+    if (person?.role !== "student" || person.id !== payment.studentId) {
+      return sendApiError(res, "FORBIDDEN", "This is not your payment");
+    }
+
+    const transaction = await verifyTransaction(reference);
+    if (!transaction) {
+      // Paystack has not seen it yet: the popup was closed before paying
+      return res.status(200).json({ outcome: "pending" });
+    }
+
+    const result = await settleLivePayment(transaction);
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error("Error verifying live class payment:", error);
+    return sendApiError(res, "INTERNAL_ERROR", "Internal server error");
+  }
+}
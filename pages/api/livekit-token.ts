@@ -13,35 +13,117 @@
    GNU General Public License for more details.
 */
 
+/**
+ * API ENDPOINT: LiveKit access tokens
+ *
+ * Endpoint: POST /api/livekit-token  { sessionId }
+ *
+ * Purpose:
+ * A token for the room of one live session (lib/liveSessions.ts), while it
+ * is open. Who the caller is comes from their Clerk session, never from the
+ * body: the token's identity is their Clerk user id and its name their
+ * school record's name. Tokens expire after `LIVE_CLASS.tokenTtlMinutes`.
+ *
+ * Access:
+ * - the session's teacher and co-teachers, who may publish
+ * - students of the session's class with a paid, unexpired live class
+ *   entitlement (lib/liveAccess.ts), who may only watch and chat
+ *
+ * Response:
+ * - Success (200): { token, canPublish }
+ * - Error (400): { error, code: "BAD_REQUEST" }  (no sessionId)
+ * - Error (401): { error, code: "UNAUTHENTICATED" }
+ * - Error (403): { error, code: "FORBIDDEN" }  (not in the class, not paid,
+ *                session not open)
+ * - Error (404): { error, code: "NOT_FOUND" }
+ * - Error (405): { error, code: "METHOD_NOT_ALLOWED" }
+ * - Error (500): { error, code: "INTERNAL_ERROR" }
+ */
+
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { AccessToken } from 'livekit-server-sdk';
+import prisma from '@/lib/prisma';
+import { getApiCaller } from '@/lib/apiAuth';
+import { sendApiError } from '@/lib/apiErrors';
+import { findLinkedPerson } from '@/lib/personLink';
+import { getLiveEntitlement } from '@/lib/liveAccess';
+import { isOpen, isSessionTeacher } from '@/lib/liveSessions';
+import { LIVE_CLASS } from '@/lib/settings';
 
 const LIVEKIT_API_KEY = process.env.LIVEKIT_API_KEY!;
 const LIVEKIT_API_SECRET = process.env.LIVEKIT_API_SECRET!;
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
+    res.setHeader('Allow', 'POST');
+    return sendApiError(res, 'METHOD_NOT_ALLOWED', 'Method not allowed');
   }
 
-  const { identity, name, room, isTeacher } = req.body;
-  if (!identity || !room) {
-    return res.status(400).json({ error: 'Missing identity or room' });
+  const sessionId = Number(req.body?.sessionId) || null;
+  if (!sessionId) {
+    return sendApiError(res, 'BAD_REQUEST', 'Pass a sessionId');
   }
 
-  const at = new AccessToken(LIVEKIT_API_KEY, LIVEKIT_API_SECRET, {
-    identity,
-    name,
-  });
-
-  at.addGrant({
-    room,
-    roomJoin: true,
-    canPublish: !!isTeacher, // Only teacher can publish video/audio
-    canSubscribe: true,
-    canPublishData: true, // Allow chat for all
-  });
-
-  const token = await at.toJwt();
-  res.status(200).json({ token });
-}
\ No newline at end of file
+  try {
+    const { userId, role } = await getApiCaller(req);
+    if (!userId) {
+      return sendApiError(res, 'UNAUTHENTICATED', 'You must be signed in');
+    }
+
+    const session = await prisma.liveSession.findUnique({
+      where: { id: sessionId },
+      include: { coTeachers: { select: { id: true } } },
+    });
+    if (!session) return sendApiError(res, 'NOT_FOUND', 'Live session not found');
+
+    const person = role ? await findLinkedPerson(userId, role) : null;
+    let canPublish = false;
+
+    if (person?.role === 'teacher' && isSessionTeacher(session, person.id)) {
+      canPublish = true;
+    } else if (person?.role === 'student') {
+      const student = await prisma.student.findUnique({
+        where: { id: person.id },
+        select: { classId: true },
+      });
+      if (student?.classId !== session.classId) {
+        return sendApiError(res, 'FORBIDDEN', 'This live session is for another class');
+      }
+      // Viewers pay: the student's entitlement to the session's class
+      const entitlement = await getLiveEntitlement(person.id, session.classId);
+      if (!entitlement) {
+        return sendApiError(res, 'FORBIDDEN', 'Pay for live classes to join');
+      }
+    } else {
+      return sendApiError(
+        res,
+        'FORBIDDEN',
+        'Only the class and its teachers can join this live session'
+      );
+    }
+
+    if (!isOpen(session)) {
+      return sendApiError(res, 'FORBIDDEN', 'This live session is not open');
+    }
+
+    const at = new AccessToken(LIVEKIT_API_KEY, LIVEKIT_API_SECRET, {
+      identity: userId,
+      name: person.name,
+      ttl: LIVE_CLASS.tokenTtlMinutes * 60,
+    });
+
+    at.addGrant({
+      room: session.roomName,
+      roomJoin: true,
+      canPublish, // Only the session's teachers can publish video/audio
+      canSubscribe: true,
+      canPublishData: true, // Allow chat for all
+    });
+
+    const token = await at.toJwt();
+    return res.status(200).json({ token, canPublish });
+  } catch (error) {
+    console.error('Error issuing LiveKit token:', error);
+    return sendApiError(res, 'INTERNAL_ERROR', 'Internal server error');
+  }
+}
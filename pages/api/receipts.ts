@@ -0,0 +1,76 @@
+/**
+ * API ENDPOINT: Payment receipts as PDF
+ *
+ * Endpoint: GET /api/receipts?paymentId=<id>
+ *
+ * Purpose:
+ * Download the receipt of one fee payment. See lib/receipt.ts.
+ *
+ * Access:
+ * - admins
+ * - the student the invoice is for, and their parent
+ *
+ * Response:
+ * - Success (200): the PDF, as an attachment
+ * - Error (400): { error, code: "BAD_REQUEST" }  (no paymentId)
+ * - Error (401): { error, code: "UNAUTHENTICATED" }
+ * - Error (403): { error, code: "FORBIDDEN" }
+ * - Error (404): { error, code: "NOT_FOUND" }
+ * - Error (405): { error, code: "METHOD_NOT_ALLOWED" }
+ * - Error (500): { error, code: "INTERNAL_ERROR" }
+ */
+
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getApiCaller } from "@/lib/apiAuth";
+import { sendApiError } from "@/lib/apiErrors";
+import { findLinkedPerson } from "@/lib/personLink";
+import { getReceipt, receiptPdf } from "@/lib/receipt";
+
+const single = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[value.length - 1] : value;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return sendApiError(res, "METHOD_NOT_ALLOWED", "Method not allowed");
+  }
+
+  const paymentId = Number(single(req.query.paymentId)) || null;
+  if (!paymentId) {
+    return sendApiError(res, "BAD_REQUEST", "Pass a paymentId");
+  }
+
+  try {
+    const { userId, role } = await getApiCaller(req);
+    if (!userId) {
+      return sendApiError(res, "UNAUTHENTICATED", "You must be signed in");
+    }
+
+    const receipt = await getReceipt(paymentId);
+    if (!receipt) return sendApiError(res, "NOT_FOUND", "Payment not found");
+
+    if (role !== "admin") {
+      const person = role ? await findLinkedPerson(userId, role) : null;
+      const allowed =
+        (person?.role === "student" && person.id === receipt.student.id) ||
+        (person?.role === "parent" && person.id === receipt.student.parentId);
+      if (!allowed) {
+        return sendApiError(res, "FORBIDDEN", "You may not view this receipt");
+      }
+    }
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="receipt-${receipt.number.toLowerCase()}.pdf"`
+    );
+    res.setHeader("Cache-Control", "no-store");
+    return res.status(200).send(receiptPdf(receipt));
+  } catch (error) {
+    console.error("Error building receipt:", error);
+    return sendApiError(res, "INTERNAL_ERROR", "Internal server error");
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * API ENDPOINT: Report cards as PDF
+ *
+ * Endpoint: GET /api/report-cards?studentId=<id>|classId=<id>[&termId=<id>]
+ *
+ * Purpose:
+ * Download the end-of-term report card of one student, or of every student
+ * in a class as one merged PDF (a page each) for printing. The term
+ * defaults to the current term. See lib/reportCard.ts.
+ *
+ * Access:
+ * - a student's card: admins and teachers, the student, their parent
+ * - a class's cards: admins and teachers (`canExport`)
+ *
+ * Response:
+ * - Success (200): the PDF, as an attachment
+ * - Error (400): { error, code: "BAD_REQUEST" }  (no student/class or term)
+ * - Error (401): { error, code: "UNAUTHENTICATED" }
+ * - Error (403): { error, code: "FORBIDDEN" }
+ * - Error (404): { error, code: "NOT_FOUND" }
+ * - Error (405): { error, code: "METHOD_NOT_ALLOWED" }
+ * - Error (500): { error, code: "INTERNAL_ERROR" }
+ */
+
+import type { NextApiRequest, NextApiResponse } from "next";
+import prisma from "@/lib/prisma";
+import { getApiCaller } from "@/lib/apiAuth";
+import { sendApiError } from "@/lib/apiErrors";
+import { findLinkedPerson } from "@/lib/personLink";
+import { getReportCards, reportCardsPdf } from "@/lib/reportCard";
+import { canExport } from "@/lib/roles";
+import { getCurrentTerm, termLabel } from "@/lib/terms";
+
+const single = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[value.length - 1] : value;
+
+// "2025/26 First Term" → "2025-26-first-term"
+const slug = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return sendApiError(res, "METHOD_NOT_ALLOWED", "Method not allowed");
+  }
+
+  const studentId = single(req.query.studentId);
+  const classId = Number(single(req.query.classId)) || null;
+  const termParam = Number(single(req.query.termId)) || null;
+  if (!studentId && !classId) {
+    return sendApiError(res, "BAD_REQUEST", "Pass a studentId or a classId");
+  }
+
+  try {
+    const { userId, role } = await getApiCaller(req);
+    if (!userId) {
+      return sendApiError(res, "UNAUTHENTICATED", "You must be signed in");
+    }
+
+    const term = termParam
+      ? await prisma.term.findUnique({
+          where: { id: termParam },
+          include: { academicYear: { select: { id: true, name: true } } },
+        })
+      : await getCurrentTerm();
+    if (!term) {
+      return sendApiError(res, "BAD_REQUEST", "No term selected");
+    }
+
+    let studentIds: string[];
+    let fileName: string;
+    if (studentId) {
+      const student = await prisma.student.findUnique({
+        where: { id: studentId },
+        select: { username: true, parentId: true },
+      });
+      if (!student) return sendApiError(res, "NOT_FOUND", "Student not found");
+
+      if (!canExport(role)) {
+        const person = role ? await findLinkedPerson(userId, role) : null;
+        const allowed =
+          (person?.role === "student" && person.id === studentId) ||
+          (person?.role === "parent" && person.id === student.parentId);
+        if (!allowed) {
+          return sendApiError(res, "FORBIDDEN", "You may not view this report card");
+        }
+      }
+      studentIds = [studentId];
+      fileName = `report-card-${slug(student.username)}-${slug(termLabel(term))}.pdf`;
+    } else {
+      if (!canExport(role)) {
+        return sendApiError(res, "FORBIDDEN", "You may not print class report cards");
+      }
+      const klass = await prisma.class.findUnique({
+        where: { id: classId! },
+        select: {
+          name: true,
+          students: {
+            where: { status: "ACTIVE" },
+            select: { id: true },
+            orderBy: [{ surname: "asc" }, { name: "asc" }],
+          },
+        },
+      });
+      if (!klass) return sendApiError(res, "NOT_FOUND", "Class not found");
+
+      studentIds = klass.students.map((s) => s.id);
+      fileName = `report-cards-${slug(klass.name)}-${slug(termLabel(term))}.pdf`;
+    }
+
+    const cards = await getReportCards(studentIds, term.id);
+    if (cards.length === 0) {
+      return sendApiError(res, "NOT_FOUND", "No students to report on");
+    }
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.setHeader("Cache-Control", "no-store");
+    return res
+      .status(200)
+      .send(reportCardsPdf(`Report cards - ${termLabel(term)}`, cards));
+  } catch (error) {
+    console.error("Error building report cards:", error);
+    return sendApiError(res, "INTERNAL_ERROR", "Internal server error");
+  }
+}
@@ -1,78 +1,64 @@
 /**
- * API ENDPOINT: Fetch User Role
+ * API ENDPOINT: Fetch Current User Role
  * 
- * Endpoint: POST /api/user/role
+ * Endpoint: GET|POST /api/user/role
  * 
  * Purpose:
- * Fetch the authenticated user's role from the database.
- * Used by the client-side RouteProtector component to validate
- * whether the user has access to the dashboard they're trying to visit.
+ * Return the signed-in user's own role from the database.
+ * Used by client code that needs to confirm which dashboard the user
+ * may visit.
  * 
- * Request Body:
- * {
- *   userId: string (Clerk user ID)
- * }
+ * The caller is taken from the Clerk session (`getAuth`), never from the
+ * request body, so a user can only ever read their own role. Any `userId`
+ * in the body is ignored.
  * 
  * Response:
  * - Success (200): { role: "admin" | "teacher" | "student" | "parent" }
- * - Error (400): { error: "User ID is required" }
- * - Error (404): { error: "User not found" }
- * - Error (500): { error: "Internal server error" }
+ * - Error (401): { error, code: "UNAUTHENTICATED" }
+ * - Error (404): { error, code: "NOT_FOUND" }  (no User row yet)
+ * - Error (405): { error, code: "METHOD_NOT_ALLOWED" }
+ * - Error (500): { error, code: "INTERNAL_ERROR" }
  * 
- * Security:
- * - This endpoint should only be called by authenticated clients
- * - Users can only request their own role (validated via Clerk)
- * - No sensitive data beyond role is exposed
+ * User rows are created by the Clerk webhook (pages/api/webhooks/clerk.ts).
+ * This endpoint no longer auto-creates them, so it cannot be used to seed
+ * records for arbitrary IDs.
  */
 
 import type { NextApiRequest, NextApiResponse } from "next";
 import prisma from "@/lib/prisma";
+import { getAuth } from "@clerk/nextjs/server";
+import { ApiError, sendApiError } from "@/lib/apiErrors";
+import { Role } from "@/lib/roles";
 
-type ResponseData = 
-  | { role: string }
-  | { error: string };
+type ResponseData = { role: Role } | ApiError;
 
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ResponseData>
 ) {
-  // Only accept POST requests
-  if (req.method !== "POST") {
-    return res.status(405).json({ error: "Method not allowed" });
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    return sendApiError(res, "METHOD_NOT_ALLOWED", "Method not allowed");
   }
 
   try {
-    const { userId } = req.body;
-
-    // Validate userId is provided
-    if (!userId || typeof userId !== "string") {
-      return res.status(400).json({ error: "User ID is required" });
+    const { userId } = getAuth(req);
+    if (!userId) {
+      return sendApiError(res, "UNAUTHENTICATED", "You must be signed in");
     }
 
-    // Fetch user from database
-    let user = await prisma.user.findUnique({
+    const user = await prisma.user.findUnique({
       where: { id: userId },
       select: { role: true },
     });
 
-    // If user doesn't exist, create them with default role "student"
-    // This handles cases where Clerk user was created but webhook didn't fire
     if (!user) {
-      user = await prisma.user.create({
-        data: {
-          id: userId,
-          email: "", // Will be updated by webhook later
-          role: "student", // Default role
-        },
-        select: { role: true },
-      });
-      console.log(`Auto-created user ${userId} with role: student`);
+      return sendApiError(res, "NOT_FOUND", "User not found");
     }
 
-    // Return user's role
-    return res.status(200).json({ role: user.role });
+    return res.status(200).json({ role: user.role as Role });
   } catch (error) {
     console.error("Error fetching user role:", error);
-    return res.status(500).json({ error: "Internal server error" });
+    return sendApiError(res, "INTERNAL_ERROR", "Internal server error");
   }
 }
@@ -7,46 +7,75 @@
  * Update a user's role in both Prisma and Clerk.
  * When admin changes a user's role, this syncs it to Clerk's custom claims.
  * 
+ * After the change the user is linked to the record for their new role
+ * when one has the same email (see lib/personLink.ts).
+ * 
+ * Access:
+ * Admins only. The caller is taken from the Clerk session (`getAuth`) and
+ * their role from Clerk `publicMetadata`. Every change is recorded in the
+ * audit log (lib/audit.ts) with the admin who made it and the old/new role.
+ * 
  * Request Body:
  * {
- *   userId: string (Clerk user ID)
+ *   userId: string (Clerk user ID of the user to change)
  *   newRole: string ("admin" | "teacher" | "student" | "parent")
  * }
  * 
  * Response:
  * - Success (200): { role: "admin" | "teacher" | "student" | "parent" }
- * - Error (400): { error: "..." }
- * - Error (500): { error: "Internal server error" }
+ * - Error (400): { error, code: "BAD_REQUEST" }
+ * - Error (401): { error, code: "UNAUTHENTICATED" }
+ * - Error (403): { error, code: "FORBIDDEN" }
+ * - Error (404): { error, code: "NOT_FOUND" }
+ * - Error (405): { error, code: "METHOD_NOT_ALLOWED" }
+ * - Error (500): { error, code: "INTERNAL_ERROR" }
  */
 
 import type { NextApiRequest, NextApiResponse } from "next";
 import prisma from "@/lib/prisma";
 import { clerkClient } from "@clerk/nextjs/server";
-import { auth } from "@clerk/nextjs/server";
+import { getApiCaller } from "@/lib/apiAuth";
+import { ApiError, sendApiError } from "@/lib/apiErrors";
+import { Role, isRole } from "@/lib/roles";
+import { linkClerkUser } from "@/lib/personLink";
+import { audit } from "@/lib/audit";
 
-type ResponseData = 
-  | { role: string }
-  | { error: string };
+type ResponseData = { role: Role } | ApiError;
 
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ResponseData>
 ) {
-  // Only accept POST requests
   if (req.method !== "POST") {
-    return res.status(405).json({ error: "Method not allowed" });
+    res.setHeader("Allow", "POST");
+    return sendApiError(res, "METHOD_NOT_ALLOWED", "Method not allowed");
   }
 
   try {
-    const { userId, newRole } = req.body;
+    const caller = await getApiCaller(req);
+    if (!caller.userId) {
+      return sendApiError(res, "UNAUTHENTICATED", "You must be signed in");
+    }
+    if (caller.role !== "admin") {
+      return sendApiError(res, "FORBIDDEN", "Only admins can change roles");
+    }
+
+    const { userId, newRole } = req.body ?? {};
 
     // Validate inputs
     if (!userId || typeof userId !== "string") {
-      return res.status(400).json({ error: "User ID is required" });
+      return sendApiError(res, "BAD_REQUEST", "User ID is required");
+    }
+    if (!isRole(newRole)) {
+      return sendApiError(res, "BAD_REQUEST", "Valid role is required");
     }
 
-    if (!newRole || !["admin", "teacher", "student", "parent"].includes(newRole)) {
-      return res.status(400).json({ error: "Valid role is required" });
+    const existing = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, email: true },
+    });
+    if (!existing) {
+      return sendApiError(res, "NOT_FOUND", "User not found");
     }
 
     // Update role in Prisma database
@@ -58,18 +87,25 @@ export default async function handler(
 
     // Also update in Clerk's custom metadata
     // This syncs the role to the JWT token for middleware
-    const clerkClientInstance = await clerkClient();
-    await clerkClientInstance.users.updateUserMetadata(userId, {
+    const client = await clerkClient();
+    await client.users.updateUserMetadata(userId, {
       publicMetadata: {
         role: newRole,
       },
     });
 
-    console.log(`Updated user ${userId} role to: ${newRole}`);
+    // Attach the user to their record for the new role, if one matches
+    await linkClerkUser(userId, existing.email, newRole);
+
+    await audit(
+      "role-change",
+      `Changed user ${userId} role from ${existing.role} to ${newRole}`,
+      caller.userId
+    );
 
-    return res.status(200).json({ role: updatedUser.role });
+    return res.status(200).json({ role: updatedUser.role as Role });
   } catch (error) {
     console.error("Error updating user role:", error);
-    return res.status(500).json({ error: "Internal server error" });
+    return sendApiError(res, "INTERNAL_ERROR", "Internal server error");
   }
 }
@@ -16,9 +16,13 @@
  * 5. We return success (200) so Clerk knows we processed it
  *
  * Events We Handle:
- * - user.created: User signed up → Create User record with role "student" (default)
- * - user.updated: User updated email → Update User record
- * - user.deleted: User deleted account → Delete User record
+ * - user.created: User signed up → Create User record and link it to the
+ *   Teacher/Parent/Student record with the same email (that record's table
+ *   decides the role; "student" when nothing matches). Only a VERIFIED
+ *   primary email is matched: anyone can type a staff member's address
+ * - user.updated: User updated email → Update User record, link if unlinked
+ *   (again only by a verified primary email)
+ * - user.deleted: User deleted account → Unlink records, delete User record
  *
  * Setup Instructions:
  * 1. Go to https://dashboard.clerk.com
@@ -42,6 +46,28 @@ import { Webhook } from "svix";
 import { headers } from "next/headers";
 import prisma from "@/lib/prisma";
 import { Prisma } from "@prisma/client";
+import { findRoleByEmail, linkClerkUser, unlinkClerkUser } from "@/lib/personLink";
+import { isRole } from "@/lib/roles";
+
+type ClerkEmail = {
+  id: string;
+  email_address: string;
+  verification?: { status?: string } | null;
+};
+
+// The user's primary email, and whether Clerk has verified they own it
+const primaryEmail = (data: {
+  email_addresses?: ClerkEmail[];
+  primary_email_address_id?: string | null;
+}) => {
+  const primary =
+    data.email_addresses?.find((e) => e.id === data.primary_email_address_id) ??
+    data.email_addresses?.[0];
+  return {
+    email: primary?.email_address,
+    verified: primary?.verification?.status === "verified",
+  };
+};
 
 /**
  * Import Clerk's backend API for setting custom claims
@@ -124,25 +150,31 @@ export async function POST(req: Request) {
     // What: Extract their email and create a User record in our database
     // Why: We need to track users in our system for the school app
     if (eventType === "user.created") {
-      const { email_addresses, first_name } = evt.data;
-      const email = email_addresses?.[0]?.email_address; // Get primary email
+      const { email, verified } = primaryEmail(evt.data);
 
       // Validate we have an email
       if (!email) {
         return new Response("Email not found", { status: 400 });
       }
 
+      // If a Teacher/Parent/Student record already has this email, and the
+      // user proved they own it, the user is that person: start them with
+      // that role. Otherwise default to "student" (admin can change this
+      // later and link the record from its edit form)
+      const role = (verified && (await findRoleByEmail(email))) || "student";
+
       // Create the user record in our database
-      // Initially set role to "student" (admin can change this later)
-      // Admin should update the role to "teacher", "admin", "parent" as needed
       const newUser = await prisma.user.create({
         data: {
           id, // Use Clerk's user ID as our primary key
           email, // Store their email
-          role: "student", // Default role - admin assigns correct role
+          role,
         },
       });
 
+      // Attach the Clerk user to the matching school record
+      await linkClerkUser(id, verified ? email : null, role);
+
       // Also set the role as a custom claim in Clerk
       // This allows middleware to read the role without hitting the database
       const clerkClientInstance = await clerkClient();
@@ -152,7 +184,7 @@ export async function POST(req: Request) {
         },
       });
 
-      console.log(`User created in database: ${email} with role: student`);
+      console.log(`User created in database: ${email} with role: ${role}`);
     }
 
     // =====================================================================
@@ -162,16 +194,20 @@ export async function POST(req: Request) {
     // What: Update the email in our User record
     // Why: Keep database in sync with Clerk
     if (eventType === "user.updated") {
-      const { email_addresses } = evt.data;
-      const email = email_addresses?.[0]?.email_address;
+      const { email, verified } = primaryEmail(evt.data);
 
       // Only update if email changed
       if (email) {
-        await prisma.user.update({
+        const user = await prisma.user.update({
           where: { id }, // Find by Clerk user ID
           data: { email }, // Update email field
         });
         console.log(`User updated in database: ${email}`);
+
+        // The new email may now match a record that was waiting for a link
+        if (isRole(user.role) && verified) {
+          await linkClerkUser(id, email, user.role);
+        }
       }
     }
 
@@ -182,6 +218,9 @@ export async function POST(req: Request) {
     // What: Remove the User record from our database
     // Why: Clean up - user no longer has access to the app
     if (eventType === "user.deleted") {
+      // Free the school records so they can be linked to another account
+      await unlinkClerkUser(id);
+
       await prisma.user.delete({
         where: { id }, // Find by Clerk user ID
       });
@@ -0,0 +1,88 @@
+/**
+ * ============================================================================
+ * LIVEKIT WEBHOOK HANDLER: Who was in a live session's room, and when
+ * ============================================================================
+ *
+ * Purpose:
+ * LiveKit calls this as participants join and leave rooms. Joins and leaves
+ * of students in a live session's room are stored as stays
+ * (lib/liveAttendance.ts); the teacher later reviews the attendance
+ * suggested from them. Other events are acknowledged and ignored.
+ *
+ * Setup Instructions:
+ * 1. LiveKit Cloud → Settings → Webhooks (or `webhook.urls` in livekit.yaml)
+ * 2. URL: https://yourapp.com/api/webhooks/livekit
+ * 3. Signed with LIVEKIT_API_KEY / LIVEKIT_API_SECRET, the same keys that
+ *    sign the access tokens
+ *
+ * Security:
+ * - The `Authorization` header is a JWT signed with the API secret carrying
+ *   a hash of the body; requests that fail the check are rejected with 401
+ * - The body parser is off so the hash is checked on the exact bytes
+ * - The route is public in the middleware: LiveKit has no Clerk session
+ *
+ * ============================================================================
+ */
+
+import type { NextApiRequest, NextApiResponse } from "next";
+import { WebhookReceiver } from "livekit-server-sdk";
+import { sendApiError } from "@/lib/apiErrors";
+import { recordJoin, recordLeave } from "@/lib/liveAttendance";
+
+export const config = { api: { bodyParser: false } };
+
+const receiver = new WebhookReceiver(
+  process.env.LIVEKIT_API_KEY!,
+  process.env.LIVEKIT_API_SECRET!
+);
+
+const readRawBody = async (req: NextApiRequest) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return sendApiError(res, "METHOD_NOT_ALLOWED", "Method not allowed");
+  }
+
+  let event;
+  try {
+    event = await receiver.receive(await readRawBody(req), req.headers.authorization);
+  } catch (error) {
+    return sendApiError(res, "UNAUTHENTICATED", "Invalid signature");
+  }
+
+  try {
+    const roomName = event.room?.name;
+    const identity = event.participant?.identity;
+    // createdAt is in seconds; when it happened, not when it arrived
+    const at = event.createdAt ? new Date(Number(event.createdAt) * 1000) : new Date();
+
+    if (roomName && identity) {
+      switch (event.event) {
+        case "participant_joined":
+          await recordJoin(roomName, identity, at);
+          break;
+        case "participant_left":
+        case "participant_connection_aborted":
+          await recordLeave(roomName, identity, at);
+          break;
+        default:
+          break;
+      }
+    }
+
+    return res.status(200).json({ received: true });
+  } catch (error) {
+    console.error("Error handling LiveKit webhook:", error);
+    return sendApiError(res, "INTERNAL_ERROR", "Internal server error");
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * ============================================================================
+ * PAYSTACK WEBHOOK HANDLER: Confirms live class payments
+ * ============================================================================
+ *
+ * Purpose:
+ * Paystack calls this when a charge succeeds, whether or not the student's
+ * browser is still open. `charge.success` settles the payment exactly like
+ * /api/live-payments/verify does (lib/liveAccess.ts); whichever arrives
+ * second changes nothing. Other events are acknowledged and ignored.
+ *
+ * Setup Instructions:
+ * 1. Paystack dashboard → Settings → API Keys & Webhooks
+ * 2. Webhook URL: https://yourapp.com/api/webhooks/paystack
+ * 3. PAYSTACK_SECRET_KEY in .env is also the signing key
+ *
+ * Security:
+ * - `x-paystack-signature` is an HMAC-SHA512 of the raw body with the
+ *   secret key; requests that fail the check are rejected with 401
+ * - The body parser is off so the signature is checked on the exact bytes
+ * - The route is public in the middleware: Paystack has no Clerk session
+ *
+ * Testing locally: `node scripts/paystack-stub.js webhook <reference>` sends
+ * a signed charge.success for a payment started from the live class page.
+ *
+ * ============================================================================
+ */
+
+import type { NextApiRequest, NextApiResponse } from "next";
+import { sendApiError } from "@/lib/apiErrors";
+import { settleLivePayment } from "@/lib/liveAccess";
+import { isValidSignature, toTransaction } from "@/lib/paystack";
+
+export const config = { api: { bodyParser: false } };
+
+const readRawBody = async (req: NextApiRequest) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return sendApiError(res, "METHOD_NOT_ALLOWED", "Method not allowed");
+  }
+
+  try {
+    const rawBody = await readRawBody(req);
+    const signature = req.headers["x-paystack-signature"];
+    if (!isValidSignature(rawBody, typeof signature === "string" ? signature : undefined)) {
+      return sendApiError(res, "UNAUTHENTICATED", "Invalid signature");
+    }
+
+    const event = JSON.parse(rawBody.toString("utf8"));
+    if (event.event === "charge.success" && event.data?.reference) {
+      const result = await settleLivePayment(toTransaction(event.data));
+      // Not ours (e.g. a charge from another integration on the same account)
+      if (result.outcome === "unknown") {
+        console.warn(`[paystack-webhook] unknown reference ${event.data.reference}`);
+      }
+    }
+
+    // Anything but 200 makes Paystack retry
+    return res.status(200).json({ received: true });
+  } catch (error) {
+    console.error("Error handling Paystack webhook:", error);
+    return sendApiError(res, "INTERNAL_ERROR", "Internal server error");
+  }
+}
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "MessageThread" (
+    "id" SERIAL NOT NULL,
+    "subject" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MessageThread_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ThreadParticipant" (
+    "id" SERIAL NOT NULL,
+    "threadId" INTEGER NOT NULL,
+    "personId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "unreadCount" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "ThreadParticipant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Message" (
+    "id" SERIAL NOT NULL,
+    "threadId" INTEGER NOT NULL,
+    "senderId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Message_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ThreadParticipant_personId_idx" ON "ThreadParticipant"("personId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ThreadParticipant_threadId_personId_key" ON "ThreadParticipant"("threadId", "personId");
+
+-- CreateIndex
+CREATE INDEX "Message_threadId_createdAt_idx" ON "Message"("threadId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ThreadParticipant" ADD CONSTRAINT "ThreadParticipant_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "MessageThread"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Message" ADD CONSTRAINT "Message_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "MessageThread"("id") ON DELETE CASCADE ON UPDATE CASCADE;
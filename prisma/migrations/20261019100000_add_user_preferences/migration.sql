@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "UserPreference" (
+    "userId" TEXT NOT NULL,
+    "theme" TEXT NOT NULL DEFAULT 'light',
+    "landingPage" TEXT,
+    "emailNotifications" BOOLEAN NOT NULL DEFAULT true,
+    "messageNotifications" BOOLEAN NOT NULL DEFAULT true,
+    "announcementNotifications" BOOLEAN NOT NULL DEFAULT true,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UserPreference_pkey" PRIMARY KEY ("userId")
+);
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Admin" ADD COLUMN "clerkUserId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Student" ADD COLUMN "clerkUserId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Teacher" ADD COLUMN "clerkUserId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Parent" ADD COLUMN "clerkUserId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Admin_clerkUserId_key" ON "Admin"("clerkUserId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Student_clerkUserId_key" ON "Student"("clerkUserId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Teacher_clerkUserId_key" ON "Teacher"("clerkUserId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Parent_clerkUserId_key" ON "Parent"("clerkUserId");
+
+-- Teachers, students and parents are not backfilled by email: "User"."email"
+-- may not be verified. They are linked on sign-in by a verified email
+-- (src/lib/personLink.ts) or by an admin from the edit forms.
+
+-- Admin rows have no email; link those created with the Clerk id as their id
+UPDATE "Admin" a SET "clerkUserId" = u."id"
+FROM "User" u
+WHERE u."role" = 'admin' AND a."id" = u."id";
@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "SchoolPeriod" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "start" INTEGER NOT NULL,
+    "end" INTEGER NOT NULL,
+
+    CONSTRAINT "SchoolPeriod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SubjectRequirement" (
+    "id" SERIAL NOT NULL,
+    "gradeId" INTEGER NOT NULL,
+    "subjectId" INTEGER NOT NULL,
+    "periodsPerWeek" INTEGER NOT NULL,
+
+    CONSTRAINT "SubjectRequirement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TeacherUnavailability" (
+    "id" SERIAL NOT NULL,
+    "teacherId" TEXT NOT NULL,
+    "day" "Day" NOT NULL,
+    "periodId" INTEGER,
+
+    CONSTRAINT "TeacherUnavailability_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SchoolPeriod_start_key" ON "SchoolPeriod"("start");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SubjectRequirement_gradeId_subjectId_key" ON "SubjectRequirement"("gradeId", "subjectId");
+
+-- CreateIndex
+CREATE INDEX "TeacherUnavailability_teacherId_idx" ON "TeacherUnavailability"("teacherId");
+
+-- AddForeignKey
+ALTER TABLE "SubjectRequirement" ADD CONSTRAINT "SubjectRequirement_gradeId_fkey" FOREIGN KEY ("gradeId") REFERENCES "Grade"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SubjectRequirement" ADD CONSTRAINT "SubjectRequirement_subjectId_fkey" FOREIGN KEY ("subjectId") REFERENCES "Subject"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TeacherUnavailability" ADD CONSTRAINT "TeacherUnavailability_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "Teacher"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TeacherUnavailability" ADD CONSTRAINT "TeacherUnavailability_periodId_fkey" FOREIGN KEY ("periodId") REFERENCES "SchoolPeriod"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- AlterTable
+ALTER TABLE "Exam" ADD COLUMN "termId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Assignment" ADD COLUMN "termId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Attendance" ADD COLUMN "termId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "AcademicYear" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AcademicYear_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Term" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "academicYearId" INTEGER NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "isCurrent" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "Term_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AcademicYear_name_key" ON "AcademicYear"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Term_academicYearId_name_key" ON "Term"("academicYearId", "name");
+
+-- AddForeignKey
+ALTER TABLE "Exam" ADD CONSTRAINT "Exam_termId_fkey" FOREIGN KEY ("termId") REFERENCES "Term"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Assignment" ADD CONSTRAINT "Assignment_termId_fkey" FOREIGN KEY ("termId") REFERENCES "Term"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Attendance" ADD CONSTRAINT "Attendance_termId_fkey" FOREIGN KEY ("termId") REFERENCES "Term"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Term" ADD CONSTRAINT "Term_academicYearId_fkey" FOREIGN KEY ("academicYearId") REFERENCES "AcademicYear"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "Grade" ADD COLUMN "gradingSchemeId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "GradingScheme" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "GradingScheme_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GradeBand" (
+    "id" SERIAL NOT NULL,
+    "schemeId" INTEGER NOT NULL,
+    "grade" TEXT NOT NULL,
+    "minScore" DOUBLE PRECISION NOT NULL,
+    "remark" TEXT,
+    "gpa" DOUBLE PRECISION,
+
+    CONSTRAINT "GradeBand_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GradingScheme_name_key" ON "GradingScheme"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GradeBand_schemeId_grade_key" ON "GradeBand"("schemeId", "grade");
+
+-- AddForeignKey
+ALTER TABLE "Grade" ADD CONSTRAINT "Grade_gradingSchemeId_fkey" FOREIGN KEY ("gradingSchemeId") REFERENCES "GradingScheme"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GradeBand" ADD CONSTRAINT "GradeBand_schemeId_fkey" FOREIGN KEY ("schemeId") REFERENCES "GradingScheme"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Exam" ADD COLUMN "componentId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Assignment" ADD COLUMN "componentId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "AssessmentComponent" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "subjectId" INTEGER NOT NULL,
+    "termId" INTEGER NOT NULL,
+    "weight" DOUBLE PRECISION NOT NULL,
+    "maxScore" INTEGER NOT NULL,
+
+    CONSTRAINT "AssessmentComponent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AssessmentComponent_subjectId_termId_name_key" ON "AssessmentComponent"("subjectId", "termId", "name");
+
+-- AddForeignKey
+ALTER TABLE "Exam" ADD CONSTRAINT "Exam_componentId_fkey" FOREIGN KEY ("componentId") REFERENCES "AssessmentComponent"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Assignment" ADD CONSTRAINT "Assignment_componentId_fkey" FOREIGN KEY ("componentId") REFERENCES "AssessmentComponent"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AssessmentComponent" ADD CONSTRAINT "AssessmentComponent_subjectId_fkey" FOREIGN KEY ("subjectId") REFERENCES "Subject"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AssessmentComponent" ADD CONSTRAINT "AssessmentComponent_termId_fkey" FOREIGN KEY ("termId") REFERENCES "Term"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "RankingCache" (
+    "id" SERIAL NOT NULL,
+    "classId" INTEGER NOT NULL,
+    "termId" INTEGER NOT NULL,
+    "rankings" JSONB NOT NULL,
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RankingCache_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RankingCache_classId_termId_key" ON "RankingCache"("classId", "termId");
+
+-- AddForeignKey
+ALTER TABLE "RankingCache" ADD CONSTRAINT "RankingCache_classId_fkey" FOREIGN KEY ("classId") REFERENCES "Class"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RankingCache" ADD CONSTRAINT "RankingCache_termId_fkey" FOREIGN KEY ("termId") REFERENCES "Term"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "ReportCardRemark" (
+    "id" SERIAL NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "termId" INTEGER NOT NULL,
+    "teacherRemark" TEXT,
+    "principalRemark" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReportCardRemark_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReportCardRemark_studentId_termId_key" ON "ReportCardRemark"("studentId", "termId");
+
+-- AddForeignKey
+ALTER TABLE "ReportCardRemark" ADD CONSTRAINT "ReportCardRemark_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportCardRemark" ADD CONSTRAINT "ReportCardRemark_termId_fkey" FOREIGN KEY ("termId") REFERENCES "Term"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "PromotionOutcome" AS ENUM ('PROMOTED', 'REPEATED', 'GRADUATED');
+
+-- CreateEnum
+CREATE TYPE "StudentStatus" AS ENUM ('ACTIVE', 'ALUMNI');
+
+-- AlterTable
+ALTER TABLE "Student" ADD COLUMN     "status" "StudentStatus" NOT NULL DEFAULT 'ACTIVE',
+ADD COLUMN     "graduatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "PromotionRun" (
+    "id" SERIAL NOT NULL,
+    "academicYearId" INTEGER NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PromotionRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PromotionRecord" (
+    "id" SERIAL NOT NULL,
+    "runId" INTEGER NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "outcome" "PromotionOutcome" NOT NULL,
+    "fromClass" TEXT NOT NULL,
+    "fromGradeLevel" INTEGER NOT NULL,
+    "toClass" TEXT,
+    "toGradeLevel" INTEGER,
+
+    CONSTRAINT "PromotionRecord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromotionRun_academicYearId_key" ON "PromotionRun"("academicYearId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromotionRecord_runId_studentId_key" ON "PromotionRecord"("runId", "studentId");
+
+-- AddForeignKey
+ALTER TABLE "PromotionRun" ADD CONSTRAINT "PromotionRun_academicYearId_fkey" FOREIGN KEY ("academicYearId") REFERENCES "AcademicYear"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromotionRecord" ADD CONSTRAINT "PromotionRecord_runId_fkey" FOREIGN KEY ("runId") REFERENCES "PromotionRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromotionRecord" ADD CONSTRAINT "PromotionRecord_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- AlterEnum
+ALTER TYPE "StudentStatus" ADD VALUE 'WAITLISTED';
+
+-- CreateTable
+CREATE TABLE "WaitlistEntry" (
+    "id" SERIAL NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "classId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "offeredAt" TIMESTAMP(3),
+
+    CONSTRAINT "WaitlistEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WaitlistEntry_studentId_key" ON "WaitlistEntry"("studentId");
+
+-- CreateIndex
+CREATE INDEX "WaitlistEntry_classId_createdAt_idx" ON "WaitlistEntry"("classId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "WaitlistEntry" ADD CONSTRAINT "WaitlistEntry_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WaitlistEntry" ADD CONSTRAINT "WaitlistEntry_classId_fkey" FOREIGN KEY ("classId") REFERENCES "Class"("id") ON DELETE CASCADE ON UPDATE CASCADE;
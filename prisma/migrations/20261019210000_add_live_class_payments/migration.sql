@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "LivePaymentStatus" AS ENUM ('PENDING', 'SUCCESS', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "LiveClassPayment" (
+    "id" SERIAL NOT NULL,
+    "reference" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "classId" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "status" "LivePaymentStatus" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "paidAt" TIMESTAMP(3),
+
+    CONSTRAINT "LiveClassPayment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LiveClassEntitlement" (
+    "id" SERIAL NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "classId" INTEGER NOT NULL,
+    "paymentId" INTEGER NOT NULL,
+    "validUntil" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LiveClassEntitlement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LiveClassPayment_reference_key" ON "LiveClassPayment"("reference");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LiveClassEntitlement_paymentId_key" ON "LiveClassEntitlement"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "LiveClassEntitlement_studentId_classId_idx" ON "LiveClassEntitlement"("studentId", "classId");
+
+-- AddForeignKey
+ALTER TABLE "LiveClassPayment" ADD CONSTRAINT "LiveClassPayment_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LiveClassPayment" ADD CONSTRAINT "LiveClassPayment_classId_fkey" FOREIGN KEY ("classId") REFERENCES "Class"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LiveClassEntitlement" ADD CONSTRAINT "LiveClassEntitlement_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LiveClassEntitlement" ADD CONSTRAINT "LiveClassEntitlement_classId_fkey" FOREIGN KEY ("classId") REFERENCES "Class"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LiveClassEntitlement" ADD CONSTRAINT "LiveClassEntitlement_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "LiveClassPayment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "_LiveSessionCoTeachers" (
+    "A" INTEGER NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_LiveSessionCoTeachers_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "_LiveSessionCoTeachers_B_index" ON "_LiveSessionCoTeachers"("B");
+
+-- AddForeignKey
+ALTER TABLE "_LiveSessionCoTeachers" ADD CONSTRAINT "_LiveSessionCoTeachers_A_fkey" FOREIGN KEY ("A") REFERENCES "LiveSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_LiveSessionCoTeachers" ADD CONSTRAINT "_LiveSessionCoTeachers_B_fkey" FOREIGN KEY ("B") REFERENCES "Teacher"("id") ON DELETE CASCADE ON UPDATE CASCADE;
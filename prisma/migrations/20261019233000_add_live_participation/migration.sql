@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "LiveSession" ADD COLUMN     "attendanceTakenAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "LiveParticipation" (
+    "id" SERIAL NOT NULL,
+    "sessionId" INTEGER NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "joinedAt" TIMESTAMP(3) NOT NULL,
+    "leftAt" TIMESTAMP(3),
+
+    CONSTRAINT "LiveParticipation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LiveParticipation_sessionId_studentId_idx" ON "LiveParticipation"("sessionId", "studentId");
+
+-- AddForeignKey
+ALTER TABLE "LiveParticipation" ADD CONSTRAINT "LiveParticipation_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "LiveSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LiveParticipation" ADD CONSTRAINT "LiveParticipation_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -169,6 +169,35 @@ async function main() {
     lessonsIds.push(lesson.id);
   }
 
+  // Academic year around today with three terms; the term containing today is current
+  const now = new Date();
+  const startYear = now.getMonth() >= 8 ? now.getFullYear() : now.getFullYear() - 1;
+  const day = (year: number, month: number, date: number) => new Date(Date.UTC(year, month - 1, date));
+  const academicYear = await prisma.academicYear.upsert({
+    where: { name: `${startYear}/${String(startYear + 1).slice(2)}` },
+    update: {},
+    create: {
+      name: `${startYear}/${String(startYear + 1).slice(2)}`,
+      startDate: day(startYear, 9, 1),
+      endDate: day(startYear + 1, 7, 31),
+    },
+  });
+  const termsData = [
+    { name: 'First Term', startDate: day(startYear, 9, 1), endDate: day(startYear, 12, 19) },
+    { name: 'Second Term', startDate: day(startYear + 1, 1, 5), endDate: day(startYear + 1, 4, 10) },
+    { name: 'Third Term', startDate: day(startYear + 1, 4, 27), endDate: day(startYear + 1, 7, 31) },
+  ];
+  let currentTermId: number | null = null;
+  for (const term of termsData) {
+    const isCurrent = term.startDate <= now && now < new Date(term.endDate.getTime() + 24 * 60 * 60 * 1000);
+    const saved = await prisma.term.upsert({
+      where: { academicYearId_name: { academicYearId: academicYear.id, name: term.name } },
+      update: { startDate: term.startDate, endDate: term.endDate, isCurrent },
+      create: { ...term, academicYearId: academicYear.id, isCurrent },
+    });
+    if (isCurrent) currentTermId = saved.id;
+  }
+
   // Exams (bulk)
   const examsData = Array.from({ length: 10 }, (_, idx) => {
     const i = idx + 1;
@@ -177,6 +206,7 @@ async function main() {
       startTime: new Date(new Date().setHours(new Date().getHours() + 1)),
       endTime: new Date(new Date().setHours(new Date().getHours() + 2)),
       lessonId: lessonsIds[(i - 1) % lessonsIds.length],
+      termId: currentTermId,
     } as any;
   });
   await prisma.exam.createMany({ data: examsData });
@@ -189,6 +219,7 @@ async function main() {
       startDate: new Date(new Date().setHours(new Date().getHours() + 1)),
       dueDate: new Date(new Date().setDate(new Date().getDate() + 1)),
       lessonId: lessonsIds[(i - 1) % lessonsIds.length],
+      termId: currentTermId,
     } as any;
   });
   await prisma.assignment.createMany({ data: assignmentsData });
@@ -214,6 +245,7 @@ async function main() {
       present: true,
       studentId: `student${i}`,
       lessonId: lessonsIds[(i - 1) % lessonsIds.length],
+      termId: currentTermId,
     } as any;
   });
   await prisma.attendance.createMany({ data: attendanceData });
@@ -0,0 +1,86 @@
+// Local stand-in for Paystack, to test live class payments without it.
+//
+// Serve the verify endpoint (then set PAYSTACK_BASE_URL=http://localhost:4010):
+//   node scripts/paystack-stub.js
+//   - GET /transaction/verify/<reference> answers "success" for STUB_AMOUNT
+//     kobo (default 100000, the live class fee), "failed" for references
+//     starting with "fail"
+//
+// Send a signed charge.success webhook to the app:
+//   node scripts/paystack-stub.js webhook <reference> [amount]
+//   - signed with PAYSTACK_SECRET_KEY, posted to APP_URL (default
+//     http://localhost:3000)/api/webhooks/paystack
+//
+// The reference must come from a payment started on the live class page.
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = Number(process.env.STUB_PORT || 4010);
+const AMOUNT = Number(process.env.STUB_AMOUNT || 100000);
+const APP_URL = (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+const transaction = (reference, amount = AMOUNT) => {
+  const failed = reference.startsWith('fail');
+  return {
+    reference,
+    status: failed ? 'failed' : 'success',
+    amount,
+    currency: 'NGN',
+    paid_at: failed ? null : new Date().toISOString(),
+  };
+};
+
+function serve() {
+  http
+    .createServer((req, res) => {
+      const match = req.url.match(/^\/transaction\/verify\/([^/?]+)/);
+      res.setHeader('Content-Type', 'application/json');
+      if (req.method !== 'GET' || !match) {
+        res.statusCode = 404;
+        return res.end(JSON.stringify({ status: false, message: 'Not found' }));
+      }
+      if (!req.headers.authorization?.startsWith('Bearer ')) {
+        res.statusCode = 401;
+        return res.end(JSON.stringify({ status: false, message: 'No secret key' }));
+      }
+      const reference = decodeURIComponent(match[1]);
+      console.log('verify', reference);
+      res.end(
+        JSON.stringify({
+          status: true,
+          message: 'Verification successful',
+          data: transaction(reference),
+        })
+      );
+    })
+    .listen(PORT, () => console.log(`Paystack stub on http://localhost:${PORT}`));
+}
+
+async function sendWebhook(reference, amount) {
+  const secret = process.env.PAYSTACK_SECRET_KEY;
+  if (!reference || !secret) {
+    console.error('Usage: PAYSTACK_SECRET_KEY=... node scripts/paystack-stub.js webhook <reference> [amount]');
+    process.exit(1);
+  }
+  const body = JSON.stringify({
+    event: 'charge.success',
+    data: transaction(reference, amount ? Number(amount) : AMOUNT),
+  });
+  const signature = crypto.createHmac('sha512', secret).update(body).digest('hex');
+  try {
+    const response = await fetch(`${APP_URL}/api/webhooks/paystack`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-paystack-signature': signature },
+      body,
+    });
+    console.log(response.status, await response.text());
+  } catch (e) {
+    console.error('ERROR', e.message || e);
+    process.exitCode = 1;
+  }
+}
+
+const [mode, reference, amount] = process.argv.slice(2);
+if (mode === 'webhook') sendWebhook(reference, amount);
+else serve();
@@ -4,8 +4,13 @@ import CountChart from "@/components/CountChart"
 import EventCalendar from "@/components/EventCalendar"
 import FinanceChart from "@/components/FinanceChart"
 import UserCard from "@/components/UserCard"
+import { getCurrentTerm } from "@/lib/terms"
+import { monthlyIncome } from "@/lib/fees"
+
+const AdminPage = async () => {
+  const [term, income] = await Promise.all([getCurrentTerm(), monthlyIncome()])
+  const year = term?.academicYear.name
 
-const AdminPage = () => {
   return (
 
     /*  PAGE MAIN CONTAINER */
@@ -18,10 +23,10 @@ const AdminPage = () => {
         <div className=" flex gap-4 justify-between flex-wrap">
           
           { /* USER CARDS */ }
-          <UserCard type="student"/>
-          <UserCard type="teacher"/>
-          <UserCard type="parent"/>
-          <UserCard type="staff"/>
+          <UserCard type="student" year={year}/>
+          <UserCard type="teacher" year={year}/>
+          <UserCard type="parent" year={year}/>
+          <UserCard type="staff" year={year}/>
 
         </div>
 
@@ -48,7 +53,7 @@ const AdminPage = () => {
         <div className=" w-full h-[500px]">
 
           { /* COMPONENTS */ }
-          <FinanceChart/>
+          <FinanceChart data={income}/>
         </div>
 
       </div>
@@ -7,6 +7,7 @@ import DashboardShell from "@/components/DashboardShell";
 import PageLoader from "@/components/PageLoader";
 import { Analytics } from "@vercel/analytics/next";
 import { SpeedInsights } from "@vercel/speed-insights/next";
+import { Toaster } from "sonner";
 
 /**
  * DASHBOARD LAYOUT: Main layout for authenticated dashboard routes
@@ -204,6 +205,9 @@ export default function DashboardLayout({
         {!isLoading && children}
       </DashboardShell>
 
+      {/* TOASTS: Success/failure feedback from form server actions */}
+      <Toaster richColors position="bottom-right" />
+
       {/* ANALYTICS: Vercel Analytics integration for performance tracking */}
       <Analytics />
       
@@ -1,12 +1,14 @@
-import FormModal from "@/components/FormModal";
+import FormContainer from "@/components/FormContainer";
 import Pagination from "@/components/Pagination";
 import Table from "@/components/Table";
 import TableSearch from "@/components/TableSearch";
 import ListHeader from "@/components/ListHeader";
-import { announcementsData, role } from "@/lib/data";
-import { Announcement, Class, Prisma } from "@prisma/client";
+import { announcementsData } from "@/lib/data";
+import { Announcement, Class } from "@prisma/client";
 import prisma from "@/lib/prisma";
+import { announcementListInclude, announcementListWhere } from "@/lib/listQueries";
 import { ITEMS_PER_PAGE } from "@/lib/settings";
+import { Role, canMutate, getCurrentRole } from "@/lib/serverAuth";
 
 {
   /* DATA TYPE FOR ANNOUNCEMENT */
@@ -39,7 +41,7 @@ const columns = [
   },
 ];
 
-const renderRow = (item: AnnouncementList) => (
+const renderRow = (item: AnnouncementList, role: Role | null) => (
   <tr
     key={item.id}
     className=" border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-PatoPurple/10 transition-all duration-145"
@@ -54,11 +56,11 @@ const renderRow = (item: AnnouncementList) => (
 
     <td>
       <div className="flex items-center gap-2">
-        {role === "admin" && (
+        {canMutate(role, "announcement") && (
           <>
-            <FormModal table="announcement" type="update" data={item} />
+            <FormContainer table="announcement" type="update" data={item} />
 
-            <FormModal table="announcement" type="delete" id={item.id} />
+            <FormContainer table="announcement" type="delete" id={item.id} />
           </>
         )}
       </div>
@@ -75,33 +77,16 @@ const AnnouncementListPage = async ({
 
   const p = page ? parseInt(page) : 1;
 
+  const role = await getCurrentRole();
+
   // URL PARAMS CONDITION
 
-  const query: Prisma.AnnouncementWhereInput = {};
-
-  if (queryParams) {
-    for (const [key, value] of Object.entries(queryParams)) {
-      if (value !== undefined) {
-        switch (key) {
-          case "search":
-            query.title = {
-              contains: value,
-              mode: "insensitive",
-            };
-            break;
-          default:
-            break;
-        }
-      }
-    }
-  }
+  const query = announcementListWhere(queryParams);
 
   const [data, count] = await prisma.$transaction([
     prisma.announcement.findMany({
       where: query,
-      include: {
-        class: true,
-      },
+      include: announcementListInclude,
       take: ITEMS_PER_PAGE,
       skip: ITEMS_PER_PAGE * (p - 1),
     }),
@@ -114,11 +99,12 @@ const AnnouncementListPage = async ({
     <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
       <ListHeader
         title="All Announcements"
-        createTable={role === "admin" ? "announcement" : null}
+        exportTable="announcements"
+        createTable="announcement"
       />
 
       {/* LIST  LINK */}
-      <Table columns={columns} renderRow={renderRow} data={data} />
+      <Table columns={columns} renderRow={(item) => renderRow(item, role)} data={data} />
 
       {/* PAGINATION  LINK */}
       <Pagination page={p} count={count} />
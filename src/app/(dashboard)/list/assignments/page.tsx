@@ -1,14 +1,17 @@
-import FormModal from "@/components/FormModal";
+import FormContainer from "@/components/FormContainer";
 import Pagination from "@/components/Pagination";
 import Table from "@/components/Table";
 import TableSearch from "@/components/TableSearch";
 import ListHeader from "@/components/ListHeader";
-import { assignmentsData, examsData, role } from "@/lib/data";
+import { assignmentsData, examsData } from "@/lib/data";
 import Image from "next/image";
 import Link from "next/link";
-import { Assignment, Class, Prisma, Subject, Teacher } from "@prisma/client";
+import { Assignment, Class, Subject, Teacher } from "@prisma/client";
 import prisma from "@/lib/prisma";
+import { assignmentListInclude, assignmentListWhere } from "@/lib/listQueries";
 import { ITEMS_PER_PAGE } from "@/lib/settings";
+import { withCurrentTerm } from "@/lib/terms";
+import { Role, canMutate, getCurrentRole } from "@/lib/serverAuth";
 
 {
   /* DATA TYPE FOR EXAM */
@@ -53,7 +56,7 @@ const columns = [
   },
 ];
 
-const renderRow = (item: AssignmentList) => (
+const renderRow = (item: AssignmentList, role: Role | null) => (
   <tr
     key={item.id}
     className=" border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-PatoPurple/10 transition-all duration-145"
@@ -72,10 +75,10 @@ const renderRow = (item: AssignmentList) => (
 
     <td>
       <div className="flex items-center gap-2">
-        {role === "admin" && (
+        {canMutate(role, "assignment") && (
           <>
-            <FormModal table="assignment" type="update" data={item} />
-            <FormModal table="assignment" type="delete" id={item.id} />
+            <FormContainer table="assignment" type="update" data={item} />
+            <FormContainer table="assignment" type="delete" id={item.id} />
           </>
         )}
       </div>
@@ -92,45 +95,16 @@ const AssignmentListPage = async ({
 
   const p = page ? parseInt(page) : 1;
 
+  const role = await getCurrentRole();
+
   // URL PARAMS CONDITION
 
-  const query: Prisma.AssignmentWhereInput = {};
-
-  if (queryParams) {
-    for (const [key, value] of Object.entries(queryParams)) {
-      if (value !== undefined) {
-        switch (key) {
-          case "classId":
-            query.lesson = { classId: parseInt(value) };
-            break;
-          case "teacherId":
-            query.lesson = { teacherId: value };
-            break;
-          case "search":
-            query.lesson = {
-              subject: { name: { contains: value, mode: "insensitive" } },
-              teacher: { name: { contains: value, mode: "insensitive" } },
-            };
-            break;
-          default:
-            break;
-        }
-      }
-    }
-  }
+  const query = assignmentListWhere(await withCurrentTerm(queryParams));
 
   const [data, count] = await prisma.$transaction([
     prisma.assignment.findMany({
       where: query,
-      include: {
-        lesson: {
-          select: {
-            subject: { select: { name: true } },
-            teacher: { select: { name: true, surname: true } },
-            class: { select: { name: true } },
-          },
-        },
-      },
+      include: assignmentListInclude,
       take: ITEMS_PER_PAGE,
       skip: ITEMS_PER_PAGE * (p - 1),
     }),
@@ -143,11 +117,13 @@ const AssignmentListPage = async ({
     <div className="bg-white bg-dark p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
       <ListHeader
         title="All Assignments"
-        createTable={role === "admin" ? "assignment" : null}
+        exportTable="assignments"
+        termFilter
+        createTable="assignment"
       />
 
       {/* LIST  LINK */}
-      <Table columns={columns} renderRow={renderRow} data={data} />
+      <Table columns={columns} renderRow={(item) => renderRow(item, role)} data={data} />
 
       {/* PAGINATION  LINK */}
       <Pagination page={p} count={count} />
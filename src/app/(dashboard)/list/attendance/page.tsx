@@ -0,0 +1,205 @@
+import FormContainer from "@/components/FormContainer";
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import ListHeader from "@/components/ListHeader";
+import AttendanceFilters from "@/components/AttendanceFilters";
+import Link from "next/link";
+import prisma from "@/lib/prisma";
+import {
+  attendanceListInclude,
+  attendanceListOrderBy,
+  attendanceListWhere,
+} from "@/lib/listQueries";
+import { ITEMS_PER_PAGE } from "@/lib/settings";
+import { withCurrentTerm } from "@/lib/terms";
+import {
+  Role,
+  canMutate,
+  getCurrentPerson,
+  getCurrentRole,
+} from "@/lib/serverAuth";
+import { FaClipboardCheck } from "react-icons/fa";
+
+{
+  /* DATA TYPE FOR ATTENDANCE */
+}
+type AttendanceList = {
+  id: number;
+  date: Date;
+  present: boolean;
+  student: { name: string; surname: string };
+  lesson: {
+    name: string;
+    subject: { name: string };
+    class: { name: string };
+    teacher: { name: string; surname: string };
+  };
+};
+
+{
+  /* TABLE HEAD ARRAY STRUCTURE */
+}
+const columns = [
+  {
+    header: "Student",
+    accessor: "student",
+  },
+
+  {
+    header: "Status",
+    accessor: "status",
+  },
+
+  {
+    header: "Lesson",
+    accessor: "lesson",
+    className: " hidden md:table-cell ",
+  },
+
+  {
+    header: "Class",
+    accessor: "class",
+    className: " hidden md:table-cell ",
+  },
+
+  {
+    header: "Teacher",
+    accessor: "teacher",
+    className: " hidden lg:table-cell ",
+  },
+
+  {
+    header: "Date",
+    accessor: "date",
+    className: " hidden md:table-cell ",
+  },
+
+  {
+    header: "Actions",
+    accessor: "action",
+  },
+];
+
+const renderRow = (item: AttendanceList, role: Role | null) => (
+  <tr
+    key={item.id}
+    className=" border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-PatoPurple/10 transition-all duration-145"
+  >
+    <td className=" flex items-center gap-4 p-4">
+      {item.student.name + " " + item.student.surname}
+    </td>
+
+    <td>
+      <span
+        className={`py-1 px-2 rounded-full text-xs ${
+          item.present ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700"
+        }`}
+      >
+        {item.present ? "Present" : "Absent"}
+      </span>
+    </td>
+
+    <td className=" hidden md:table-cell">{item.lesson.subject.name}</td>
+
+    <td className=" hidden md:table-cell">{item.lesson.class.name}</td>
+
+    <td className=" hidden lg:table-cell">
+      {item.lesson.teacher.name + " " + item.lesson.teacher.surname}
+    </td>
+
+    <td className=" hidden md:table-cell">
+      {new Intl.DateTimeFormat("en-UK", { timeZone: "UTC" }).format(item.date)}
+    </td>
+
+    <td>
+      <div className="flex items-center gap-2">
+        {canMutate(role, "attendance") && (
+          <FormContainer table="attendance" type="delete" id={item.id} />
+        )}
+      </div>
+    </td>
+  </tr>
+);
+
+const AttendanceListPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const { page, ...queryParams } = searchParams;
+
+  const p = page ? parseInt(page) : 1;
+
+  const role = await getCurrentRole();
+
+  // URL PARAMS + ROLE CONDITION
+
+  const person = role === "admin" ? null : await getCurrentPerson();
+  const query = attendanceListWhere(await withCurrentTerm(queryParams), role, person);
+
+  const [data, count, classes, students] = await prisma.$transaction([
+    prisma.attendance.findMany({
+      where: query,
+      include: attendanceListInclude,
+      orderBy: attendanceListOrderBy,
+      take: ITEMS_PER_PAGE,
+      skip: ITEMS_PER_PAGE * (p - 1),
+    }),
+
+    prisma.attendance.count({ where: query }),
+
+    prisma.class.findMany({
+      select: { id: true, name: true },
+      orderBy: { name: "asc" },
+    }),
+
+    prisma.student.findMany({
+      select: { id: true, name: true, surname: true, classId: true },
+      orderBy: [{ surname: "asc" }, { name: "asc" }],
+    }),
+  ]);
+
+  const showFilters = role === "admin" || role === "teacher";
+
+  return (
+    /* TOP  CONTAINER*/
+    <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+      <ListHeader
+        title="All Attendance"
+        exportTable="attendance"
+        termFilter
+        actions={
+          canMutate(role, "attendance") && (
+            <Link
+              href="/list/attendance/roll-call"
+              className=" w-8 h-8 flex items-center justify-center rounded-full bg-PatoYellow "
+              title="Take roll call"
+            >
+              <FaClipboardCheck className="text-gray-600" size={14} />
+            </Link>
+          )
+        }
+      />
+
+      {/* FILTERS */}
+      {showFilters && (
+        <AttendanceFilters
+          classes={classes.map((c) => ({ value: c.id, label: c.name }))}
+          students={students.map((s) => ({
+            value: s.id,
+            label: s.name + " " + s.surname,
+            classId: s.classId,
+          }))}
+        />
+      )}
+
+      {/* LIST  LINK */}
+      <Table columns={columns} renderRow={(item) => renderRow(item, role)} data={data} />
+
+      {/* PAGINATION  LINK */}
+      <Pagination page={p} count={count} />
+    </div>
+  );
+};
+
+export default AttendanceListPage;
@@ -0,0 +1,123 @@
+import AttendanceRollCall from "@/components/AttendanceRollCall";
+import prisma from "@/lib/prisma";
+import {
+  canMutate,
+  getCurrentPerson,
+  getCurrentRole,
+} from "@/lib/serverAuth";
+import { nextDay, parseDateOnly, toDateInputValue } from "@/lib/utils";
+import { Prisma } from "@prisma/client";
+import Link from "next/link";
+
+/**
+ * Roll call for one lesson on one day.
+ * Teachers only see the lessons they teach; admins see every lesson.
+ * Students are read from the lesson's class and pre-filled with any marks
+ * already saved for that day (everyone defaults to present otherwise).
+ */
+const RollCallPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const role = await getCurrentRole();
+
+  if (!canMutate(role, "attendance")) {
+    return (
+      <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+        <h1 className="text-lg font-semibold">Roll Call</h1>
+        <p className="text-sm text-gray-500 mt-4">
+          Only teachers and admins can take attendance.
+        </p>
+      </div>
+    );
+  }
+
+  // LESSONS THE CALLER MAY TAKE ATTENDANCE FOR
+
+  const lessonWhere: Prisma.LessonWhereInput = {};
+  if (role === "teacher") {
+    const person = await getCurrentPerson();
+    lessonWhere.teacherId = person?.id ?? "";
+  }
+
+  const lessons = await prisma.lesson.findMany({
+    where: lessonWhere,
+    select: {
+      id: true,
+      name: true,
+      day: true,
+      subject: { select: { name: true } },
+      class: { select: { name: true } },
+    },
+    orderBy: [{ day: "asc" }, { startTime: "asc" }],
+  });
+
+  // SELECTED LESSON AND DATE (defaults to today)
+
+  const lessonId = searchParams.lessonId ? parseInt(searchParams.lessonId) : NaN;
+  const selected = lessons.find((l) => l.id === lessonId);
+
+  const date =
+    parseDateOnly(searchParams.date) ??
+    parseDateOnly(toDateInputValue(new Date()))!;
+  const dateValue = date.toISOString().slice(0, 10);
+
+  // ROSTER FROM Class.students + EXISTING MARKS
+
+  let roster: { id: string; name: string; surname: string; present: boolean }[] = [];
+  let alreadyTaken = false;
+
+  if (selected) {
+    const [students, existing] = await prisma.$transaction([
+      prisma.student.findMany({
+        where: {
+          status: "ACTIVE",
+          class: { lessons: { some: { id: selected.id } } },
+        },
+        select: { id: true, name: true, surname: true },
+        orderBy: [{ surname: "asc" }, { name: "asc" }],
+      }),
+      prisma.attendance.findMany({
+        where: {
+          lessonId: selected.id,
+          date: { gte: date, lt: nextDay(date) },
+        },
+        select: { studentId: true, present: true },
+      }),
+    ]);
+
+    const marks = new Map(existing.map((a) => [a.studentId, a.present]));
+    alreadyTaken = existing.length > 0;
+    roster = students.map((s) => ({ ...s, present: marks.get(s.id) ?? true }));
+  }
+
+  return (
+    /* TOP  CONTAINER*/
+    <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+      <div className="flex items-center justify-between gap-3">
+        <h1 className="text-lg font-semibold">Roll Call</h1>
+        <Link href="/list/attendance" className="text-xs text-gray-500 underline">
+          Back to attendance
+        </Link>
+      </div>
+
+      <AttendanceRollCall
+        key={`${selected?.id ?? "none"}-${dateValue}`}
+        lessons={lessons.map((l) => ({
+          id: l.id,
+          name: l.name,
+          day: l.day,
+          subject: l.subject.name,
+          className: l.class.name,
+        }))}
+        lessonId={selected?.id}
+        date={dateValue}
+        roster={roster}
+        alreadyTaken={alreadyTaken}
+      />
+    </div>
+  );
+};
+
+export default RollCallPage;
@@ -1,19 +1,25 @@
-import FormModal from "@/components/FormModal";
+import FormContainer from "@/components/FormContainer";
 import Pagination from "@/components/Pagination";
 import Table from "@/components/Table";
 import TableSearch from "@/components/TableSearch";
 import ListHeader from "@/components/ListHeader";
-import { classesData, role } from "@/lib/data";
+import { classesData } from "@/lib/data";
 import Image from "next/image";
 import Link from "next/link";
-import { Class, Prisma, Teacher } from "@prisma/client";
+import { Class, Teacher } from "@prisma/client";
 import prisma from "@/lib/prisma";
+import { classListInclude, classListWhere } from "@/lib/listQueries";
 import { ITEMS_PER_PAGE } from "@/lib/settings";
+import { Role, canExport, canMutate, getCurrentRole } from "@/lib/serverAuth";
+import { FaFilePdf } from "react-icons/fa";
 
 {
   /* DATA TYPE FOR CLASS */
 }
-type ClassList = Class & { supervisor: Teacher };
+type ClassList = Class & {
+  supervisor: Teacher;
+  _count: { students: number; waitlist: number }; // students: enrolled
+};
 
 {
   /* TABLE HEAD ARRAY STRUCTURE */
@@ -24,7 +30,7 @@ const columns = [
     accessor: "className",
   },
   {
-    header: "Capacity",
+    header: "Enrolled",
     accessor: "capacity",
     className: " hidden md:table-cell ",
   },
@@ -44,14 +50,30 @@ const columns = [
   },
 ];
 
-const renderRow = (item: ClassList) => (
+const renderRow = (item: ClassList, role: Role | null) => (
   <tr
     key={item.id}
     className=" border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-PatoPurple/10 transition-all duration-145"
   >
     <td className=" flex items-center gap-4 p-4">{item.name}</td>
 
-    <td className=" hidden md:table-cell">{item.capacity}</td>
+    <td className=" hidden md:table-cell">
+      <span
+        className={
+          item._count.students >= item.capacity ? "text-red-500 font-semibold" : ""
+        }
+      >
+        {item._count.students}/{item.capacity}
+      </span>
+      {item._count.waitlist > 0 && (
+        <Link
+          href="/list/waitlist"
+          className="block text-xs text-gray-500 underline"
+        >
+          {item._count.waitlist} waiting
+        </Link>
+      )}
+    </td>
 
     <td className=" hidden md:table-cell">{item.name[0]}</td>
 
@@ -61,11 +83,21 @@ const renderRow = (item: ClassList) => (
 
     <td>
       <div className="flex items-center gap-2">
-        {role === "admin" && (
+        {canExport(role) && (
+          <a
+            href={`/api/report-cards?classId=${item.id}`}
+            download
+            title="Report cards (current term)"
+            className=" w-7 h-7 flex items-center justify-center rounded-full bg-PatoSky "
+          >
+            <FaFilePdf size={12} className="text-gray-600" />
+          </a>
+        )}
+        {canMutate(role, "class") && (
           <>
-            <FormModal table="class" type="update" data={item} />
+            <FormContainer table="class" type="update" data={item} />
 
-            <FormModal table="class" type="delete" id={item.id} />
+            <FormContainer table="class" type="delete" id={item.id} />
           </>
         )}
       </div>
@@ -81,36 +113,16 @@ const ClassListPage = async ({
 
   const p = page ? parseInt(page) : 1;
 
+  const role = await getCurrentRole();
+
   // URL PARAMS CONDITION
 
-  const query: Prisma.ClassWhereInput = {};
-
-  if (queryParams) {
-    for (const [key, value] of Object.entries(queryParams)) {
-      if (value !== undefined) {
-        switch (key) {
-          case "supervisorId":
-            query.supervisorId = value;
-            break;
-          case "search":
-            query.name = {
-              contains: value,
-              mode: "insensitive",
-            };
-            break;
-          default:
-            break;
-        }
-      }
-    }
-  }
+  const query = classListWhere(queryParams);
 
   const [data, count] = await prisma.$transaction([
     prisma.class.findMany({
       where: query,
-      include: {
-        supervisor: true,
-      },
+      include: classListInclude,
       take: ITEMS_PER_PAGE,
       skip: ITEMS_PER_PAGE * (p - 1),
     }),
@@ -122,11 +134,12 @@ const ClassListPage = async ({
     <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
       <ListHeader
         title="All Classes"
-        createTable={role === "admin" ? "class" : null}
+        exportTable="classes"
+        createTable="class"
       />
 
       {/* LIST  LINK */}
-      <Table columns={columns} renderRow={renderRow} data={data} />
+      <Table columns={columns} renderRow={(item) => renderRow(item, role)} data={data} />
 
       {/* PAGINATION  LINK */}
       <Pagination page={p} count={count} />
@@ -0,0 +1,203 @@
+import FormContainer from "@/components/FormContainer";
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import ListHeader from "@/components/ListHeader";
+import prisma from "@/lib/prisma";
+import {
+  assessmentComponentListInclude,
+  assessmentComponentListOrderBy,
+  assessmentComponentListWhere,
+} from "@/lib/listQueries";
+import { ITEMS_PER_PAGE } from "@/lib/settings";
+import { termLabel, withCurrentTerm } from "@/lib/terms";
+import { Role, canMutate, getCurrentRole } from "@/lib/serverAuth";
+import { Prisma } from "@prisma/client";
+
+{
+  /*DATA TYPE FOR ASSESSMENT COMPONENT */
+}
+type ComponentList = Prisma.AssessmentComponentGetPayload<{
+  include: typeof assessmentComponentListInclude;
+}>;
+
+{
+  /* TABLE HEAD ARRAY STRUCTURE */
+}
+const columns = [
+  {
+    header: "Subject",
+    accessor: "subject",
+  },
+
+  {
+    header: "Component",
+    accessor: "name",
+  },
+
+  {
+    header: "Weight",
+    accessor: "weight",
+  },
+
+  {
+    header: "Marked Out Of",
+    accessor: "maxScore",
+    className: " hidden md:table-cell ",
+  },
+
+  {
+    header: "Term",
+    accessor: "term",
+    className: " hidden md:table-cell ",
+  },
+
+  {
+    header: "Assessments",
+    accessor: "assessments",
+    className: " hidden lg:table-cell ",
+  },
+
+  {
+    header: "Actions",
+    accessor: "action",
+  },
+];
+
+// subject|term → sum of its components' weights
+const weightKey = (item: { subjectId: number; termId: number }) =>
+  `${item.subjectId}|${item.termId}`;
+
+const renderRow = (
+  item: ComponentList,
+  role: Role | null,
+  subjectWeights: Map<string, number>
+) => {
+  const subjectWeight = subjectWeights.get(weightKey(item)) ?? 0;
+
+  return (
+    <tr
+      key={item.id}
+      className=" border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-PatoPurple/10 transition-all duration-145"
+    >
+      <td className=" flex items-center gap-4  p-4">{item.subject.name}</td>
+
+      <td>{item.name}</td>
+
+      <td>
+        {item.weight}
+        <span
+          className={`ml-2 text-xs ${subjectWeight === 100 ? "text-gray-400" : "text-red-500"}`}
+          title="Weights of the subject's components in this term"
+        >
+          ({subjectWeight} of 100)
+        </span>
+      </td>
+
+      <td className=" hidden md:table-cell">{item.maxScore}</td>
+
+      <td className=" hidden md:table-cell">{termLabel(item.term)}</td>
+
+      <td className=" hidden lg:table-cell">
+        {item._count.exams + item._count.assignments}
+      </td>
+
+      <td>
+        <div className="flex items-center gap-2">
+          {canMutate(role, "assessmentComponent") && (
+            <>
+              <FormContainer table="assessmentComponent" type="update" data={item} />
+
+              <FormContainer table="assessmentComponent" type="delete" id={item.id} />
+            </>
+          )}
+        </div>
+      </td>
+    </tr>
+  );
+};
+
+/**
+ * Assessment components (CA1, CA2, Exam...) of every subject per term.
+ * Subjects without components use the default CA/Exam split
+ * (see lib/assessment.ts).
+ */
+const AssessmentComponentListPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const { page, ...queryParams } = searchParams;
+
+  const p = page ? parseInt(page) : 1;
+
+  const role = await getCurrentRole();
+
+  if (role !== "admin" && role !== "teacher") {
+    return (
+      <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+        <h1 className="text-lg font-semibold">Assessment Components</h1>
+        <p className="text-sm text-gray-500 mt-4">
+          Only staff can view assessment components.
+        </p>
+      </div>
+    );
+  }
+
+  // URL PARAMS CONDITION
+
+  const query = assessmentComponentListWhere(await withCurrentTerm(queryParams));
+
+  const [data, count] = await prisma.$transaction([
+    prisma.assessmentComponent.findMany({
+      where: query,
+      include: assessmentComponentListInclude,
+      orderBy: assessmentComponentListOrderBy,
+      take: ITEMS_PER_PAGE,
+      skip: ITEMS_PER_PAGE * (p - 1),
+    }),
+
+    prisma.assessmentComponent.count({ where: query }),
+  ]);
+
+  // Whole-subject sums, whatever the search matched
+  const weights = await prisma.assessmentComponent.groupBy({
+    by: ["subjectId", "termId"],
+    where: {
+      subjectId: { in: data.map((item) => item.subjectId) },
+      termId: { in: data.map((item) => item.termId) },
+    },
+    _sum: { weight: true },
+  });
+
+  const subjectWeights = new Map(
+    weights.map((w) => [weightKey(w), w._sum.weight ?? 0])
+  );
+
+  return (
+    /* TOP  CONTAINER*/
+    <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+      <ListHeader
+        title="Assessment Components"
+        createTable="assessmentComponent"
+        termFilter
+      />
+
+      <p className="text-xs text-gray-500 mt-2">
+        A subject&apos;s components add up to its total out of 100. Subjects
+        without components count assignments as CA and exams as the exam.
+      </p>
+
+      {/* LIST  LINK */}
+      <Table
+        columns={columns}
+        renderRow={(item) => renderRow(item, role, subjectWeights)}
+        data={data}
+      />
+
+      {/* PAGINATION  LINK */}
+      <Pagination page={p} count={count} />
+    </div>
+  );
+};
+
+export default AssessmentComponentListPage;
@@ -1,14 +1,16 @@
-import FormModal from "@/components/FormModal";
+import FormContainer from "@/components/FormContainer";
 import Pagination from "@/components/Pagination";
 import Table from "@/components/Table";
 import TableSearch from "@/components/TableSearch";
 import ListHeader from "@/components/ListHeader";
-import { eventsData, role } from "@/lib/data";
+import { eventsData } from "@/lib/data";
 import Image from "next/image";
 import Link from "next/link";
 import prisma from "@/lib/prisma";
+import { eventListInclude, eventListWhere } from "@/lib/listQueries";
 import { ITEMS_PER_PAGE } from "@/lib/settings";
-import { Class, Event, Prisma } from "@prisma/client";
+import { Role, canMutate, getCurrentRole } from "@/lib/serverAuth";
+import { Class, Event } from "@prisma/client";
 
 {
   /*DATA TYPE FOR EVENT */
@@ -53,7 +55,7 @@ const columns = [
   },
 ];
 
-const renderRow = (item: EventList) => (
+const renderRow = (item: EventList, role: Role | null) => (
   <tr
     key={item.id}
     className=" border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-PatoPurple/10 transition-all duration-145"
@@ -84,11 +86,11 @@ const renderRow = (item: EventList) => (
 
     <td>
       <div className="flex items-center gap-2">
-        {role === "admin" && (
+        {canMutate(role, "event") && (
           <>
-            <FormModal table="event" type="update" data={item} />
+            <FormContainer table="event" type="update" data={item} />
 
-            <FormModal table="event" type="delete" id={item.id} />
+            <FormContainer table="event" type="delete" id={item.id} />
           </>
         )}
       </div>
@@ -105,33 +107,16 @@ const EventListPage = async ({
 
   const p = page ? parseInt(page) : 1;
 
+  const role = await getCurrentRole();
+
   // URL PARAMS CONDITION
 
-  const query: Prisma.EventWhereInput = {};
-
-  if (queryParams) {
-    for (const [key, value] of Object.entries(queryParams)) {
-      if (value !== undefined) {
-        switch (key) {
-          case "search":
-            query.title = {
-              contains: value,
-              mode: "insensitive",
-            };
-            break;
-          default:
-            break;
-        }
-      }
-    }
-  }
+  const query = eventListWhere(queryParams);
 
   const [data, count] = await prisma.$transaction([
     prisma.event.findMany({
       where: query,
-      include: {
-        class: true,
-      },
+      include: eventListInclude,
       take: ITEMS_PER_PAGE,
       skip: ITEMS_PER_PAGE * (p - 1),
     }),
@@ -144,11 +129,12 @@ const EventListPage = async ({
     <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
       <ListHeader
         title="All Events"
-        createTable={role === "admin" ? "event" : null}
+        exportTable="events"
+        createTable="event"
       />
 
       {/* LIST  LINK */}
-      <Table columns={columns} renderRow={renderRow} data={data} />
+      <Table columns={columns} renderRow={(item) => renderRow(item, role)} data={data} />
 
       {/* PAGINATION  LINK */}
       <Pagination page={p} count={count} />
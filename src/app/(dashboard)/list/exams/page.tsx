@@ -1,12 +1,15 @@
-import FormModal from "@/components/FormModal";
+import FormContainer from "@/components/FormContainer";
 import Pagination from "@/components/Pagination";
 import Table from "@/components/Table";
 import TableSearch from "@/components/TableSearch";
 import ListHeader from "@/components/ListHeader";
-import { examsData, role } from "@/lib/data";
+import { examsData } from "@/lib/data";
 import prisma from "@/lib/prisma";
+import { examListInclude, examListWhere } from "@/lib/listQueries";
 import { ITEMS_PER_PAGE } from "@/lib/settings";
-import { Class, Exam, Prisma, Subject, Teacher } from "@prisma/client";
+import { withCurrentTerm } from "@/lib/terms";
+import { Role, canMutate, getCurrentRole } from "@/lib/serverAuth";
+import { Class, Exam, Subject, Teacher } from "@prisma/client";
 
 {
   /*DATA TYPE FOR EXAM */
@@ -51,7 +54,7 @@ const columns = [
   },
 ];
 
-const renderRow = (item: ExamList) => (
+const renderRow = (item: ExamList, role: Role | null) => (
   <tr
     key={item.id}
     className=" border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-PatoPurple/10 transition-all duration-145"
@@ -72,11 +75,11 @@ const renderRow = (item: ExamList) => (
 
     <td>
       <div className="flex items-center gap-2">
-        {role === "admin" && (
+        {canMutate(role, "exam") && (
           <>
-            <FormModal table="exam" type="update" data={item} />
+            <FormContainer table="exam" type="update" data={item} />
 
-            <FormModal table="exam" type="delete" id={item.id} />
+            <FormContainer table="exam" type="delete" id={item.id} />
           </>
         )}
       </div>
@@ -93,45 +96,16 @@ const ExamListPage = async ({
 
   const p = page ? parseInt(page) : 1;
 
+  const role = await getCurrentRole();
+
   // URL PARAMS CONDITION
 
-  const query: Prisma.ExamWhereInput = {};
-
-  if (queryParams) {
-    for (const [key, value] of Object.entries(queryParams)) {
-      if (value !== undefined) {
-        switch (key) {
-          case "classId":
-            query.lesson = { classId: parseInt(value) };
-            break;
-          case "teacherId":
-            query.lesson = { teacherId: value };
-            break;
-          case "search":
-            query.lesson = {
-              subject: { name: { contains: value, mode: "insensitive" } },
-              teacher: { name: { contains: value, mode: "insensitive" } },
-            };
-            break;
-          default:
-            break;
-        }
-      }
-    }
-  }
+  const query = examListWhere(await withCurrentTerm(queryParams));
 
   const [data, count] = await prisma.$transaction([
     prisma.exam.findMany({
       where: query,
-      include: {
-        lesson: {
-          select: {
-            subject: { select: { name: true } },
-            teacher: { select: { name: true, surname: true } },
-            class: { select: { name: true } },
-          },
-        },
-      },
+      include: examListInclude,
       take: ITEMS_PER_PAGE,
       skip: ITEMS_PER_PAGE * (p - 1),
     }),
@@ -144,11 +118,13 @@ const ExamListPage = async ({
     <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
       <ListHeader
         title="All Examinations"
-        createTable={role === "admin" ? "exam" : null}
+        exportTable="exams"
+        termFilter
+        createTable="exam"
       />
 
       {/* LIST  LINK */}
-      <Table columns={columns} renderRow={renderRow} data={data} />
+      <Table columns={columns} renderRow={(item) => renderRow(item, role)} data={data} />
 
       {/* PAGINATION  LINK */}
       <Pagination page={p} count={count} />
@@ -0,0 +1,194 @@
+import Link from "next/link";
+import FormContainer from "@/components/FormContainer";
+import GenerateInvoices from "@/components/GenerateInvoices";
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import ListHeader from "@/components/ListHeader";
+import prisma from "@/lib/prisma";
+import {
+  ALL_TERMS,
+  feeStructureListInclude,
+  feeStructureListOrderBy,
+  feeStructureListWhere,
+} from "@/lib/listQueries";
+import { ITEMS_PER_PAGE } from "@/lib/settings";
+import { termLabel, withCurrentTerm } from "@/lib/terms";
+import { formatMoney, fromMinor } from "@/lib/fees";
+import { canMutate, getCurrentRole } from "@/lib/serverAuth";
+import { Prisma } from "@prisma/client";
+
+{
+  /*DATA TYPE FOR FEE STRUCTURE */
+}
+type FeeList = Prisma.FeeStructureGetPayload<{
+  include: typeof feeStructureListInclude;
+}>;
+
+{
+  /* TABLE HEAD ARRAY STRUCTURE */
+}
+const columns = [
+  {
+    header: "Grade",
+    accessor: "grade",
+  },
+
+  {
+    header: "Fee",
+    accessor: "name",
+  },
+
+  {
+    header: "Amount",
+    accessor: "amount",
+  },
+
+  {
+    header: "Term",
+    accessor: "term",
+    className: " hidden md:table-cell ",
+  },
+
+  {
+    header: "Actions",
+    accessor: "action",
+  },
+];
+
+const renderRow = (item: FeeList) => (
+  <tr
+    key={item.id}
+    className=" border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-PatoPurple/10 transition-all duration-145"
+  >
+    <td className=" flex items-center gap-4  p-4">Grade {item.grade.level}</td>
+
+    <td>{item.name}</td>
+
+    <td>{formatMoney(item.amount)}</td>
+
+    <td className=" hidden md:table-cell">{termLabel(item.term)}</td>
+
+    <td>
+      <div className="flex items-center gap-2">
+        {/* The form edits naira, the database holds kobo */}
+        <FormContainer
+          table="feeStructure"
+          type="update"
+          data={{ ...item, amount: fromMinor(item.amount) }}
+        />
+
+        <FormContainer table="feeStructure" type="delete" id={item.id} />
+      </div>
+    </td>
+  </tr>
+);
+
+/**
+ * What each grade level pays per term, item by item. Invoices are issued
+ * from these for the selected term (see lib/fees.ts).
+ */
+const FeeStructureListPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const { page, ...queryParams } = searchParams;
+
+  const p = page ? parseInt(page) : 1;
+
+  const role = await getCurrentRole();
+
+  if (!canMutate(role, "feeStructure")) {
+    return (
+      <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+        <h1 className="text-lg font-semibold">Fee Structures</h1>
+        <p className="text-sm text-gray-500 mt-4">
+          Only admins can manage fees.
+        </p>
+      </div>
+    );
+  }
+
+  // URL PARAMS CONDITION
+
+  const params = await withCurrentTerm(queryParams);
+  const query = feeStructureListWhere(params);
+  const termId =
+    params.termId && params.termId !== ALL_TERMS ? parseInt(params.termId) : null;
+
+  const [data, count, totals, term] = await Promise.all([
+    prisma.feeStructure.findMany({
+      where: query,
+      include: feeStructureListInclude,
+      orderBy: feeStructureListOrderBy,
+      take: ITEMS_PER_PAGE,
+      skip: ITEMS_PER_PAGE * (p - 1),
+    }),
+
+    prisma.feeStructure.count({ where: query }),
+
+    // Per grade level, whatever page is shown
+    termId
+      ? prisma.feeStructure.groupBy({
+          by: ["gradeId"],
+          where: { termId },
+          _sum: { amount: true },
+        })
+      : [],
+
+    termId
+      ? prisma.term.findUnique({
+          where: { id: termId },
+          include: { academicYear: { select: { name: true } } },
+        })
+      : null,
+  ]);
+
+  const grades = await prisma.grade.findMany({
+    where: { id: { in: totals.map((t) => t.gradeId) } },
+    select: { id: true, level: true },
+    orderBy: { level: "asc" },
+  });
+
+  return (
+    /* TOP  CONTAINER*/
+    <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+      <ListHeader title="Fee Structures" createTable="feeStructure" termFilter />
+
+      {term && (
+        <div className="flex flex-wrap items-center justify-between gap-3 mt-4">
+          <p className="text-xs text-gray-500">
+            {grades.length > 0
+              ? grades
+                  .map(
+                    (grade) =>
+                      `Grade ${grade.level}: ${formatMoney(
+                        totals.find((t) => t.gradeId === grade.id)?._sum.amount ?? 0
+                      )}`
+                  )
+                  .join(" · ")
+              : "No fees for this term yet."}
+          </p>
+          {grades.length > 0 && (
+            <GenerateInvoices termId={term.id} term={termLabel(term)} />
+          )}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500 mt-2">
+        Issued invoices keep the fees they were issued with.{" "}
+        <Link href="/list/invoices" className="underline">
+          See invoices
+        </Link>
+      </p>
+
+      {/* LIST  LINK */}
+      <Table columns={columns} renderRow={renderRow} data={data} />
+
+      {/* PAGINATION  LINK */}
+      <Pagination page={p} count={count} />
+    </div>
+  );
+};
+
+export default FeeStructureListPage;
@@ -0,0 +1,101 @@
+import FormContainer from "@/components/FormContainer";
+import ListHeader from "@/components/ListHeader";
+import prisma from "@/lib/prisma";
+import { canMutate, getCurrentRole } from "@/lib/serverAuth";
+import { DEFAULT_GRADING_SCHEME } from "@/lib/settings";
+
+/**
+ * Grading schemes and their bands. Each grade level uses the scheme it is
+ * assigned here, or the default one (see lib/grading.ts).
+ */
+const GradingListPage = async () => {
+  const role = await getCurrentRole();
+
+  if (!canMutate(role, "gradingScheme")) {
+    return (
+      <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+        <h1 className="text-lg font-semibold">Grading Schemes</h1>
+        <p className="text-sm text-gray-500 mt-4">
+          Only admins can manage grading schemes.
+        </p>
+      </div>
+    );
+  }
+
+  const schemes = await prisma.gradingScheme.findMany({
+    include: {
+      bands: { orderBy: { minScore: "desc" } },
+      grades: { select: { id: true, level: true }, orderBy: { level: "asc" } },
+    },
+    orderBy: { name: "asc" },
+  });
+  const hasDefault = schemes.some((scheme) => scheme.isDefault);
+
+  return (
+    /* TOP  CONTAINER*/
+    <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+      <ListHeader title="Grading Schemes" createTable="gradingScheme" />
+
+      {!hasDefault && (
+        <p className="text-sm text-gray-500 mt-4">
+          No default scheme yet: grades without a scheme use the built-in{" "}
+          {DEFAULT_GRADING_SCHEME.name} bands (
+          {DEFAULT_GRADING_SCHEME.bands
+            .map((band) => `${band.grade} ≥ ${band.minScore}`)
+            .join(", ")}
+          ).
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mt-6">
+        {schemes.map((scheme) => (
+          <div key={scheme.id} className="rounded-md ring-1 ring-gray-200 p-4">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <h2 className="font-semibold">{scheme.name}</h2>
+                {scheme.isDefault && (
+                  <span className="py-1 px-2 rounded-full text-xs bg-green-100 text-green-700">
+                    Default
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <FormContainer table="gradingScheme" type="update" data={scheme} />
+                <FormContainer table="gradingScheme" type="delete" id={scheme.id} />
+              </div>
+            </div>
+
+            <p className="text-xs text-gray-500 mt-1">
+              {scheme.grades.length
+                ? `Used by ${scheme.grades.map((g) => `Grade ${g.level}`).join(", ")}`
+                : "Not assigned to a grade"}
+            </p>
+
+            <table className="w-full mt-3 text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 text-xs">
+                  <th className="p-2">Grade</th>
+                  <th className="p-2">From</th>
+                  <th className="p-2">Remark</th>
+                  <th className="p-2">GPA</th>
+                </tr>
+              </thead>
+              <tbody>
+                {scheme.bands.map((band) => (
+                  <tr key={band.id} className="border-b border-gray-200 even:bg-slate-50">
+                    <td className="p-2 font-semibold">{band.grade}</td>
+                    <td className="p-2">{band.minScore}</td>
+                    <td className="p-2">{band.remark ?? "-"}</td>
+                    <td className="p-2">{band.gpa ?? "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GradingListPage;
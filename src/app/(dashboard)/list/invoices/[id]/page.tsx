@@ -0,0 +1,184 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { FaFilePdf } from "react-icons/fa";
+import FormContainer from "@/components/FormContainer";
+import prisma from "@/lib/prisma";
+import { termLabel } from "@/lib/terms";
+import {
+  INVOICE_STATUS_LABELS,
+  PAYMENT_METHOD_LABELS,
+  balanceOf,
+  formatMoney,
+  fromMinor,
+  invoiceNumber,
+  invoiceStatus,
+  receiptNumber,
+} from "@/lib/fees";
+import { canMutate, getCurrentPerson, getCurrentRole } from "@/lib/serverAuth";
+
+const formatDate = (date: Date) => new Intl.DateTimeFormat("en-UK").format(date);
+
+/**
+ * One invoice: its items, the payments made against it with their
+ * receipts, and the balance. Admins record and remove payments here.
+ */
+const SingleInvoicePage = async ({
+  params: { id },
+}: {
+  params: { id: string };
+}) => {
+  const [role, person] = await Promise.all([getCurrentRole(), getCurrentPerson()]);
+
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: Number(id) || -1 },
+    include: {
+      student: {
+        select: {
+          id: true,
+          parentId: true,
+          name: true,
+          surname: true,
+          username: true,
+          class: { select: { name: true } },
+        },
+      },
+      term: { include: { academicYear: { select: { name: true } } } },
+      items: { orderBy: { id: "asc" } },
+      payments: { orderBy: [{ paidAt: "asc" }, { id: "asc" }] },
+    },
+  });
+  if (!invoice) notFound();
+
+  // Same reach as the invoice list: admins, the student, their parent
+  const allowed =
+    role === "admin" ||
+    (person?.role === "student" && person.id === invoice.student.id) ||
+    (person?.role === "parent" && person.id === invoice.student.parentId);
+  if (!allowed) notFound();
+
+  const balance = balanceOf(invoice);
+  const canRecord = canMutate(role, "payment");
+
+  return (
+    /* TOP  CONTAINER*/
+    <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6 flex flex-col gap-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-lg font-semibold">Invoice {invoiceNumber(invoice.id)}</h1>
+          <p className="text-xs text-gray-500">
+            {invoice.student.name} {invoice.student.surname} ({invoice.student.username})
+            · {invoice.student.class.name} · {termLabel(invoice.term)}
+          </p>
+        </div>
+        <Link href="/list/invoices" className="text-xs text-gray-500 underline">
+          Back to invoices
+        </Link>
+      </div>
+
+      {/* SUMMARY */}
+      <div className="flex flex-wrap gap-6 text-sm">
+        <div>
+          <p className="text-xs text-gray-500">Issued</p>
+          <p>{formatDate(invoice.issuedAt)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Due</p>
+          <p>{invoice.dueDate ? formatDate(invoice.dueDate) : "-"}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Status</p>
+          <p>{INVOICE_STATUS_LABELS[invoiceStatus(invoice)]}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Balance</p>
+          <p className={`font-semibold ${balance ? "text-red-500" : "text-green-600"}`}>
+            {formatMoney(balance)}
+          </p>
+        </div>
+      </div>
+
+      {/* ITEMS */}
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500">
+            <th className="p-2">Item</th>
+            <th className="p-2 text-right">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {invoice.items.map((item) => (
+            <tr key={item.id} className="border-b border-gray-200">
+              <td className="p-2">{item.description}</td>
+              <td className="p-2 text-right">{formatMoney(item.amount)}</td>
+            </tr>
+          ))}
+          <tr className="font-semibold">
+            <td className="p-2">Total</td>
+            <td className="p-2 text-right">{formatMoney(invoice.total)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* PAYMENTS */}
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center justify-between gap-3">
+          <h2 className="text-sm font-semibold">Payments</h2>
+          {canRecord && balance > 0 && (
+            <FormContainer
+              table="payment"
+              type="create"
+              data={{ invoiceId: invoice.id, balance: fromMinor(balance) }}
+            />
+          )}
+        </div>
+
+        {invoice.payments.length === 0 ? (
+          <p className="text-sm text-gray-500">No payments yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500">
+                <th className="p-2">Receipt</th>
+                <th className="p-2">Date</th>
+                <th className="p-2 hidden md:table-cell">Method</th>
+                <th className="p-2 hidden md:table-cell">Reference</th>
+                <th className="p-2 text-right">Amount</th>
+                <th className="p-2">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {invoice.payments.map((payment) => (
+                <tr key={payment.id} className="border-b border-gray-200">
+                  <td className="p-2">{receiptNumber(payment.id)}</td>
+                  <td className="p-2">{formatDate(payment.paidAt)}</td>
+                  <td className="p-2 hidden md:table-cell">
+                    {PAYMENT_METHOD_LABELS[payment.method]}
+                  </td>
+                  <td className="p-2 hidden md:table-cell">{payment.reference ?? "-"}</td>
+                  <td className="p-2 text-right">{formatMoney(payment.amount)}</td>
+                  <td className="p-2">
+                    <div className="flex items-center gap-2">
+                      <a
+                        href={`/api/receipts?paymentId=${payment.id}`}
+                        download
+                        title="Download receipt"
+                        className="w-7 h-7 flex items-center justify-center rounded-full hover:bg-PatoSky"
+                      >
+                        <FaFilePdf size={14} />
+                      </a>
+                      {canRecord && (
+                        <FormContainer table="payment" type="delete" id={payment.id} />
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SingleInvoicePage;
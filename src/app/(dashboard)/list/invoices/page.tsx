@@ -0,0 +1,265 @@
+import Link from "next/link";
+import FormContainer from "@/components/FormContainer";
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import ListHeader from "@/components/ListHeader";
+import prisma from "@/lib/prisma";
+import {
+  invoiceListInclude,
+  invoiceListOrderBy,
+  invoiceListWhere,
+} from "@/lib/listQueries";
+import { ITEMS_PER_PAGE } from "@/lib/settings";
+import { termLabel } from "@/lib/terms";
+import {
+  INVOICE_STATUS_LABELS,
+  InvoiceStatus,
+  balanceOf,
+  formatMoney,
+  getBalances,
+  invoiceNumber,
+  invoiceStatus,
+} from "@/lib/fees";
+import { Role, canMutate, getCurrentPerson, getCurrentRole } from "@/lib/serverAuth";
+import { Prisma } from "@prisma/client";
+
+{
+  /*DATA TYPE FOR INVOICE */
+}
+type InvoiceList = Prisma.InvoiceGetPayload<{
+  include: typeof invoiceListInclude;
+}>;
+
+const STATUS_STYLES: Record<InvoiceStatus, string> = {
+  PAID: "bg-green-100 text-green-700",
+  PARTLY_PAID: "bg-yellow-100 text-yellow-700",
+  UNPAID: "bg-red-100 text-red-700",
+};
+
+{
+  /* TABLE HEAD ARRAY STRUCTURE */
+}
+const columns = [
+  {
+    header: "Invoice",
+    accessor: "invoice",
+  },
+
+  {
+    header: "Student",
+    accessor: "student",
+  },
+
+  {
+    header: "Term",
+    accessor: "term",
+    className: " hidden md:table-cell ",
+  },
+
+  {
+    header: "Total",
+    accessor: "total",
+    className: " hidden md:table-cell ",
+  },
+
+  {
+    header: "Paid",
+    accessor: "paid",
+    className: " hidden lg:table-cell ",
+  },
+
+  {
+    header: "Balance",
+    accessor: "balance",
+  },
+
+  {
+    header: "Status",
+    accessor: "status",
+    className: " hidden md:table-cell ",
+  },
+
+  {
+    header: "Actions",
+    accessor: "action",
+  },
+];
+
+const renderRow = (item: InvoiceList, role: Role | null) => {
+  const status = invoiceStatus(item);
+
+  return (
+    <tr
+      key={item.id}
+      className=" border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-PatoPurple/10 transition-all duration-145"
+    >
+      <td className=" p-4">
+        <Link href={`/list/invoices/${item.id}`} className="underline">
+          {invoiceNumber(item.id)}
+        </Link>
+      </td>
+
+      <td>
+        {item.student.name} {item.student.surname}
+        <p className="text-xs text-gray-500">{item.student.class.name}</p>
+      </td>
+
+      <td className=" hidden md:table-cell">{termLabel(item.term)}</td>
+
+      <td className=" hidden md:table-cell">{formatMoney(item.total)}</td>
+
+      <td className=" hidden lg:table-cell">{formatMoney(item.amountPaid)}</td>
+
+      <td className="font-semibold">{formatMoney(balanceOf(item))}</td>
+
+      <td className=" hidden md:table-cell">
+        <span className={`py-1 px-2 rounded-full text-xs ${STATUS_STYLES[status]}`}>
+          {INVOICE_STATUS_LABELS[status]}
+        </span>
+      </td>
+
+      <td>
+        <div className="flex items-center gap-2">
+          <Link
+            href={`/list/invoices/${item.id}`}
+            className="py-1 px-2 rounded-full text-xs ring-[1.5px] ring-gray-300 hover:bg-PatoSky/30"
+          >
+            View
+          </Link>
+          {canMutate(role, "invoice") && item.amountPaid === 0 && (
+            <FormContainer table="invoice" type="delete" id={item.id} />
+          )}
+        </div>
+      </td>
+    </tr>
+  );
+};
+
+/**
+ * Fee invoices. Admins see and search every invoice; parents see their
+ * children's and students their own, with what is still owed on top
+ * ("my balance").
+ */
+const InvoiceListPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const { page, ...queryParams } = searchParams;
+
+  const p = page ? parseInt(page) : 1;
+
+  const [role, person] = await Promise.all([getCurrentRole(), getCurrentPerson()]);
+
+  if (role === "teacher") {
+    return (
+      <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+        <h1 className="text-lg font-semibold">Invoices</h1>
+        <p className="text-sm text-gray-500 mt-4">
+          Fees are handled by admins, parents and students.
+        </p>
+      </div>
+    );
+  }
+
+  // URL PARAMS CONDITION
+
+  const query = invoiceListWhere(queryParams, role, person);
+  const outstanding = queryParams.status === "outstanding";
+
+  const [data, count] = await prisma.$transaction([
+    prisma.invoice.findMany({
+      where: query,
+      include: invoiceListInclude,
+      orderBy: invoiceListOrderBy,
+      take: ITEMS_PER_PAGE,
+      skip: ITEMS_PER_PAGE * (p - 1),
+    }),
+
+    prisma.invoice.count({ where: query }),
+  ]);
+
+  // "My balance": every child of a parent, or the student themself
+  const own =
+    person?.role === "parent"
+      ? await prisma.student.findMany({
+          where: { parentId: person.id },
+          select: { id: true, name: true, surname: true },
+          orderBy: { name: "asc" },
+        })
+      : person?.role === "student"
+      ? await prisma.student.findMany({
+          where: { id: person.id },
+          select: { id: true, name: true, surname: true },
+        })
+      : [];
+  const balances = await getBalances(own.map((s) => s.id));
+
+  return (
+    /* TOP  CONTAINER*/
+    <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+      <ListHeader
+        title={role === "admin" ? "Invoices" : "My Balance"}
+        actions={
+          <>
+            <Link
+              href={outstanding ? "/list/invoices" : "/list/invoices?status=outstanding"}
+              className="text-xs text-gray-500 underline"
+            >
+              {outstanding ? "All invoices" : "Outstanding"}
+            </Link>
+            {canMutate(role, "feeStructure") && (
+              <Link href="/list/fees" className="text-xs text-gray-500 underline">
+                Fee structures
+              </Link>
+            )}
+          </>
+        }
+      />
+
+      {/* BALANCES */}
+      {own.length > 0 && (
+        <div className="flex flex-wrap gap-4 mt-4">
+          {own.map((student) => {
+            const balance = balances.get(student.id);
+            return (
+              <div
+                key={student.id}
+                className="rounded-md ring-[1.5px] ring-gray-200 p-4 min-w-[200px]"
+              >
+                <p className="text-xs text-gray-500">
+                  {student.name} {student.surname}
+                </p>
+                <p
+                  className={`text-xl font-semibold ${
+                    balance?.balance ? "text-red-500" : "text-green-600"
+                  }`}
+                >
+                  {formatMoney(balance?.balance ?? 0)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  outstanding · {formatMoney(balance?.paid ?? 0)} paid of{" "}
+                  {formatMoney(balance?.total ?? 0)}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {role !== "admin" && !person && (
+        <p className="text-sm text-gray-500 mt-4">
+          Your account is not linked to a school record yet.
+        </p>
+      )}
+
+      {/* LIST  LINK */}
+      <Table columns={columns} renderRow={(item) => renderRow(item, role)} data={data} />
+
+      {/* PAGINATION  LINK */}
+      <Pagination page={p} count={count} />
+    </div>
+  );
+};
+
+export default InvoiceListPage;
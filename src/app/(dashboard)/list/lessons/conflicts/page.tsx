@@ -0,0 +1,82 @@
+import Link from "next/link";
+import { canMutate, getCurrentRole } from "@/lib/serverAuth";
+import { LessonConflict, findAllLessonConflicts } from "@/lib/lessonConflicts";
+
+const KIND_LABELS: Record<LessonConflict["kind"], string> = {
+  teacher: "Teacher double-booked",
+  class: "Class double-booked",
+  hours: "Outside school hours",
+};
+
+/**
+ * Conflict report for the saved timetable: every pair of lessons that
+ * double-books a teacher or a class, and every lesson outside school hours.
+ * Admins only (they are the ones who can fix lessons).
+ */
+const LessonConflictsPage = async () => {
+  const role = await getCurrentRole();
+
+  if (!canMutate(role, "lesson")) {
+    return (
+      <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+        <h1 className="text-lg font-semibold">Timetable Conflicts</h1>
+        <p className="text-sm text-gray-500 mt-4">
+          Only admins can review timetable conflicts.
+        </p>
+      </div>
+    );
+  }
+
+  const conflicts = await findAllLessonConflicts();
+
+  return (
+    /* TOP  CONTAINER*/
+    <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+      <div className="flex items-center justify-between gap-3">
+        <h1 className="text-lg font-semibold">
+          Timetable Conflicts ({conflicts.length})
+        </h1>
+        <Link href="/list/lessons" className="text-xs text-gray-500 underline">
+          Back to lessons
+        </Link>
+      </div>
+
+      {conflicts.length === 0 ? (
+        <p className="text-sm text-gray-500 mt-4">
+          No conflicts: no teacher or class is double-booked and every lesson
+          is within school hours.
+        </p>
+      ) : (
+        <table className="w-full mt-4 text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 text-xs">
+              <th className="p-2">Problem</th>
+              <th className="p-2">Lesson</th>
+              <th className="p-2 hidden md:table-cell">Details</th>
+            </tr>
+          </thead>
+          <tbody>
+            {conflicts.map((conflict, i) => (
+              <tr
+                key={i}
+                className="border-b border-gray-200 even:bg-slate-50 align-top"
+              >
+                <td className="p-2">
+                  <span className="py-1 px-2 rounded-full text-xs bg-red-100 text-red-700 whitespace-nowrap">
+                    {KIND_LABELS[conflict.kind]}
+                  </span>
+                </td>
+                <td className="p-2">{conflict.lesson?.label}</td>
+                <td className="p-2 hidden md:table-cell text-gray-600">
+                  {conflict.message}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default LessonConflictsPage;
@@ -1,14 +1,17 @@
-import FormModal from "@/components/FormModal";
+import FormContainer from "@/components/FormContainer";
 import Pagination from "@/components/Pagination";
 import Table from "@/components/Table";
 import TableSearch from "@/components/TableSearch";
 import ListHeader from "@/components/ListHeader";
-import { lessonsData, role } from "@/lib/data";
+import { lessonsData } from "@/lib/data";
 import Image from "next/image";
 import Link from "next/link";
-import { Class, Lesson, Prisma, Subject, Teacher } from "@prisma/client";
+import { Class, Lesson, Subject, Teacher } from "@prisma/client";
 import prisma from "@/lib/prisma";
+import { lessonListInclude, lessonListWhere } from "@/lib/listQueries";
 import { ITEMS_PER_PAGE } from "@/lib/settings";
+import { Role, canMutate, getCurrentRole } from "@/lib/serverAuth";
+import { FaExclamationTriangle, FaMagic } from "react-icons/fa";
 
 {
   /* TEMPOARY DATA TYPE FOR LESSON */
@@ -41,7 +44,7 @@ const columns = [
   },
 ];
 
-const renderRow = (item: LessonList) => (
+const renderRow = (item: LessonList, role: Role | null) => (
   <tr
     key={item.id}
     className=" border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-PatoPurple/10 transition-all duration-145"
@@ -56,11 +59,11 @@ const renderRow = (item: LessonList) => (
 
     <td>
       <div className="flex items-center gap-2">
-        {role === "admin" && (
+        {canMutate(role, "lesson") && (
           <>
-            <FormModal table="lesson" type="update" data={item} />
+            <FormContainer table="lesson" type="update" data={item} />
 
-            <FormModal table="lesson" type="delete" id={item.id} />
+            <FormContainer table="lesson" type="delete" id={item.id} />
           </>
         )}
       </div>
@@ -77,41 +80,16 @@ const LessonListPage = async ({
 
   const p = page ? parseInt(page) : 1;
 
+  const role = await getCurrentRole();
+
   // URL PARAMS CONDITION
 
-  const query: Prisma.LessonWhereInput = {};
-
-  if (queryParams) {
-    for (const [key, value] of Object.entries(queryParams)) {
-      if (value !== undefined) {
-        switch (key) {
-          case "classId":
-            query.classId = parseInt(value);
-            break;
-          case "teacherId":
-            query.teacherId = value;
-            break;
-          case "search":
-            query.OR = [
-              { subject: { name: { contains: value, mode: "insensitive" } } },
-              { teacher: { name: { contains: value, mode: "insensitive" } } },
-            ];
-            break;
-          default:
-            break;
-        }
-      }
-    }
-  }
+  const query = lessonListWhere(queryParams);
 
   const [data, count] = await prisma.$transaction([
     prisma.lesson.findMany({
       where: query,
-      include: {
-        subject: { select: { name: true } },
-        class: { select: { name: true } },
-        teacher: { select: { name: true, surname: true } },
-      },
+      include: lessonListInclude,
       take: ITEMS_PER_PAGE,
       skip: ITEMS_PER_PAGE * (p - 1),
     }),
@@ -124,11 +102,32 @@ const LessonListPage = async ({
     <div className="bg-white bg-dark p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
       <ListHeader
         title="All Lessons"
-        createTable={role === "admin" ? "lesson" : null}
+        exportTable="lessons"
+        createTable="lesson"
+        actions={
+          canMutate(role, "lesson") && (
+            <>
+              <Link
+                href="/list/timetable"
+                className=" w-8 h-8 flex items-center justify-center rounded-full bg-PatoYellow "
+                title="Generate timetable"
+              >
+                <FaMagic className="text-gray-600" size={14} />
+              </Link>
+              <Link
+                href="/list/lessons/conflicts"
+                className=" w-8 h-8 flex items-center justify-center rounded-full bg-PatoYellow "
+                title="Timetable conflicts"
+              >
+                <FaExclamationTriangle className="text-gray-600" size={14} />
+              </Link>
+            </>
+          )
+        }
       />
 
       {/* LIST  LINK */}
-      <Table columns={columns} renderRow={renderRow} data={data} />
+      <Table columns={columns} renderRow={(item) => renderRow(item, role)} data={data} />
 
       {/* PAGINATION  LINK */}
       <Pagination page={p} count={count} />
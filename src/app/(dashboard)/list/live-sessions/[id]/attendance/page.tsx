@@ -0,0 +1,64 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import LiveAttendanceReview from "@/components/LiveAttendanceReview";
+import { getLiveAttendanceReview } from "@/lib/liveAttendance";
+import { canMutate, getCurrentPerson, getCurrentRole } from "@/lib/serverAuth";
+
+const formatTime = (date: Date) =>
+  new Intl.DateTimeFormat("en-UK", { dateStyle: "medium", timeStyle: "short" }).format(date);
+
+/**
+ * Attendance for one live session, suggested from how long each student of
+ * the class was in the room (recorded by the LiveKit webhook). The teacher
+ * reviews the marks and saves them as the lesson's attendance for the day.
+ * Same reach as the roll call: the lesson's teacher, or an admin.
+ */
+const LiveSessionAttendancePage = async ({
+  params: { id },
+}: {
+  params: { id: string };
+}) => {
+  const [role, person] = await Promise.all([getCurrentRole(), getCurrentPerson()]);
+  if (!canMutate(role, "attendance")) notFound();
+
+  const now = new Date();
+  const review = await getLiveAttendanceReview(Number(id) || -1, now);
+  if (!review) notFound();
+
+  const { session, rows, minPresencePercent, requiredMinutes } = review;
+  if (role === "teacher" && person?.id !== session.lesson.teacherId) notFound();
+
+  return (
+    /* TOP  CONTAINER*/
+    <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-lg font-semibold">Live Session Attendance</h1>
+          <p className="text-xs text-gray-500">
+            {session.lesson.subject.name} · {session.class.name} · {formatTime(session.startTime)}
+            {" – "}
+            {new Intl.DateTimeFormat("en-UK", { timeStyle: "short" }).format(session.endTime)}
+          </p>
+        </div>
+        <Link href="/list/live-sessions?when=past" className="text-xs text-gray-500 underline">
+          Back to live sessions
+        </Link>
+      </div>
+
+      <p className="text-xs text-gray-500 mt-2">
+        Students are suggested present after {minPresencePercent}% of the
+        scheduled time in the room. Nothing is saved until you save the attendance.
+      </p>
+
+      <LiveAttendanceReview
+        sessionId={session.id}
+        rows={rows}
+        requiredMinutes={requiredMinutes}
+        ended={session.endTime <= now}
+        alreadyTaken={!!session.attendanceTakenAt}
+      />
+    </div>
+  );
+};
+
+export default LiveSessionAttendancePage;
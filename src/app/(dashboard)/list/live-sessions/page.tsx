@@ -0,0 +1,195 @@
+import Link from "next/link";
+import FormContainer from "@/components/FormContainer";
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import ListHeader from "@/components/ListHeader";
+import prisma from "@/lib/prisma";
+import { liveSessionListInclude, liveSessionListWhere } from "@/lib/listQueries";
+import { isOpen } from "@/lib/liveSessions";
+import { ITEMS_PER_PAGE } from "@/lib/settings";
+import { Person, Role, canMutate, getCurrentPerson, getCurrentRole } from "@/lib/serverAuth";
+import { Prisma } from "@prisma/client";
+
+{
+  /*DATA TYPE FOR LIVE SESSION */
+}
+type LiveSessionList = Prisma.LiveSessionGetPayload<{
+  include: typeof liveSessionListInclude;
+}>;
+
+const formatTime = (date: Date) =>
+  new Intl.DateTimeFormat("en-UK", { dateStyle: "medium", timeStyle: "short" }).format(date);
+
+{
+  /* TABLE HEAD ARRAY STRUCTURE */
+}
+const columns = [
+  {
+    header: "Subject",
+    accessor: "subject",
+  },
+
+  {
+    header: "Class",
+    accessor: "class",
+  },
+
+  {
+    header: "Teacher",
+    accessor: "teacher",
+    className: " hidden md:table-cell ",
+  },
+
+  {
+    header: "Time",
+    accessor: "time",
+  },
+
+  {
+    header: "Status",
+    accessor: "status",
+    className: " hidden md:table-cell ",
+  },
+
+  {
+    header: "Actions",
+    accessor: "action",
+  },
+];
+
+const renderRow = (
+  item: LiveSessionList,
+  role: Role | null,
+  person: Person | null
+) => {
+  const now = new Date();
+  // Attendance is the lesson teacher's, like the roll call; co-teachers only
+  // teach in the room
+  const takesAttendance =
+    canMutate(role, "attendance") && (role === "admin" || item.lesson.teacherId === person?.id);
+  const status =
+    item.endTime <= now ? "Ended" : isOpen(item, now) ? "Open now" : "Scheduled";
+
+  return (
+    <tr
+      key={item.id}
+      className=" border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-PatoPurple/10 transition-all duration-145"
+    >
+      <td className=" flex items-center gap-4  p-4">
+        {item.lesson.subject.name}
+      </td>
+
+      <td>{item.class.name}</td>
+
+      <td className=" hidden md:table-cell">
+        {item.teacher.name + " " + item.teacher.surname}
+        {item.coTeachers.length > 0 && (
+          <p className="text-xs text-gray-500">
+            with {item.coTeachers.map((t) => `${t.name} ${t.surname}`).join(", ")}
+          </p>
+        )}
+      </td>
+
+      <td>
+        {formatTime(item.startTime)}
+        <p className="text-xs text-gray-500">
+          until {new Intl.DateTimeFormat("en-UK", { timeStyle: "short" }).format(item.endTime)}
+        </p>
+      </td>
+
+      <td className=" hidden md:table-cell">{status}</td>
+
+      <td>
+        <div className="flex items-center gap-2">
+          {canMutate(role, "liveSession") && item.endTime > now && (
+            <>
+              <FormContainer table="liveSession" type="update" data={item} />
+
+              <FormContainer table="liveSession" type="delete" id={item.id} />
+            </>
+          )}
+          {takesAttendance && (item.startedAt || item.endTime <= now) && (
+            <Link
+              href={`/list/live-sessions/${item.id}/attendance`}
+              className="text-xs text-gray-500 underline"
+            >
+              {item.attendanceTakenAt ? "Attendance" : "Take attendance"}
+            </Link>
+          )}
+        </div>
+      </td>
+    </tr>
+  );
+};
+
+/**
+ * Scheduled live classes. Teachers schedule sessions for their lessons and
+ * start them from the live class page; students join their class's session
+ * while it is open.
+ */
+const LiveSessionListPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const { page, ...queryParams } = searchParams;
+
+  const p = page ? parseInt(page) : 1;
+
+  const [role, person] = await Promise.all([getCurrentRole(), getCurrentPerson()]);
+  const past = queryParams.when === "past";
+
+  // URL PARAMS CONDITION
+
+  const query = liveSessionListWhere(queryParams, role, person);
+
+  const [data, count] = await prisma.$transaction([
+    prisma.liveSession.findMany({
+      where: query,
+      include: liveSessionListInclude,
+      // Upcoming soonest first, past most recent first
+      orderBy: { startTime: past ? "desc" : "asc" },
+      take: ITEMS_PER_PAGE,
+      skip: ITEMS_PER_PAGE * (p - 1),
+    }),
+
+    prisma.liveSession.count({ where: query }),
+  ]);
+
+  return (
+    /* TOP  CONTAINER*/
+    <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+      <ListHeader
+        title={past ? "Past Live Sessions" : "Live Sessions"}
+        createTable="liveSession"
+        actions={
+          <>
+            <Link
+              href={past ? "/list/live-sessions" : "/list/live-sessions?when=past"}
+              className="text-xs text-gray-500 underline"
+            >
+              {past ? "Upcoming" : "Past sessions"}
+            </Link>
+            <Link href="/list/liveclass" className="text-xs text-gray-500 underline">
+              Live class
+            </Link>
+          </>
+        }
+      />
+
+      {role !== "admin" && !person && (
+        <p className="text-sm text-gray-500 mt-4">
+          Your account is not linked to a school record yet.
+        </p>
+      )}
+
+      {/* LIST  LINK */}
+      <Table columns={columns} renderRow={(item) => renderRow(item, role, person)} data={data} />
+
+      {/* PAGINATION  LINK */}
+      <Pagination page={p} count={count} />
+    </div>
+  );
+};
+
+export default LiveSessionListPage;
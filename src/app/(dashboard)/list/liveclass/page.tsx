@@ -2,9 +2,14 @@ import Announcements from "@/components/Announcements"
 import BigCalendar from "@/components/BigCalendar";
 import EventCalendar from "@/components/EventCalendar";
 import Link from "next/link"
-import { FaChalkboardTeacher, FaUserGraduate } from 'react-icons/fa';
+import { FaCalendarAlt, FaChalkboardTeacher, FaUserGraduate } from 'react-icons/fa';
+import { getCurrentPerson } from "@/lib/serverAuth";
+import { getSchedulesFor } from "@/lib/schedule";
+
+const LiveClass = async () => {
+  const person = await getCurrentPerson();
+  const [schedule] = await getSchedulesFor(person);
 
-const LiveClass = () => {
   return (
 
     /* PAGE MAIN CONTAINER  */
@@ -21,33 +26,50 @@ const LiveClass = () => {
           <div className=" mt-14 rounded-md p-4  ">
 
             <h1 className=" flex items-center justify-center text-gray-700 mb-6 mt-8 font-semibold  ">
-              Choose your role to join a live class
+              {person?.role === "teacher"
+                ? "Start your next live session"
+                : person?.role === "student"
+                ? "Join your class's live session"
+                : "Live sessions are run by teachers for their classes"}
             </h1>
           
 
             <div className="flex flex-col sm:flex-row items-center sm:justify-evenly gap-3 mt-10 mb-9 w-full">
 
+              {person?.role === "teacher" && (
               <Link className="w-full sm:w-auto max-w-xs flex items-center justify-center gap-2 px-6 py-3 bg-blue-400 text-white rounded-xl shadow hover:bg-blue-700 transition text-lg font-semibold focus:ring-2 focus:ring-PatoSkyLight outline-none " href="liveclass/teacherslive">
 
                 <FaChalkboardTeacher className="text-2xl outline-none" />
                 <span>Teacher</span>
 
               </Link>
+              )}
 
+              {person?.role === "student" && (
               <Link className="w-full sm:w-auto max-w-xs flex items-center justify-center gap-2 px-6 py-3 bg-purple-400 text-white rounded-xl shadow hover:bg-purple-700 transition text-lg font-semibold focus:outline-none focus:ring-2 focus:ring-lightpurple" href="liveclass/studentslive">
 
                 <FaUserGraduate className="text-2xl" />
                 <span>Student</span>
 
               </Link>
+              )}
 
-            </div>
+              <Link className="w-full sm:w-auto max-w-xs flex items-center justify-center gap-2 px-6 py-3 bg-gray-400 text-white rounded-xl shadow hover:bg-gray-600 transition text-lg font-semibold focus:outline-none focus:ring-2 focus:ring-PatoSkyLight " href="/list/live-sessions">
+
+                <FaCalendarAlt className="text-2xl" />
+                <span>Sessions</span>
+
+              </Link>
 
-            <div className=" mt-20 bg-white bg-dark rounded-md p-4 md:h-[800px] h-screen ">
-              <h1 className=" text-sm font-semibold text-gray-400 ">Extra Lesson&apos;s Schedule</h1>
-              <BigCalendar/>
             </div>
 
+            {schedule && (
+              <div className=" mt-20 bg-white bg-dark rounded-md p-4 md:h-[800px] h-screen ">
+                <h1 className=" text-sm font-semibold text-gray-400 ">Lesson Schedule ({schedule.label})</h1>
+                <BigCalendar {...schedule.calendar} />
+              </div>
+            )}
+
             
           </div>
 
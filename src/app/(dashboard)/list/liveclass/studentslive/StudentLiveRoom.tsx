@@ -0,0 +1,207 @@
+/*
+  * @license GPL-3.0
+  * Copyright (C) <2007>  [ Patrick Nnodu ]
+
+   This program is free software: you can redistribute it and/or modify
+   it under the terms of the GNU General Public License as published by
+   the Free Software Foundation, either version 3 of the License, or
+   (at your option) any later version.
+
+   This program is distributed in the hope that it will be useful,
+   but WITHOUT ANY WARRANTY; without even the implied warranty of
+   MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+   GNU General Public License for more details.
+*/
+
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import '@livekit/components-styles';
+import Script from "next/script";
+import { LiveKitRoom, VideoConference } from "@livekit/components-react";
+import dynamic from "next/dynamic";
+import { CURRENCY } from "@/lib/settings";
+
+const LiveKitChat = dynamic(() => import("@/components/LiveKitChat"), { ssr: false });
+
+const PAYSTACK_PUBLIC_KEY = process.env.NEXT_PUBLIC_PAYSTACK_PUBLIC_KEY || "";
+
+// GET /api/live-payments
+type LiveStatus = {
+  name: string;
+  className: string;
+  amount: number;
+  currency: string;
+  entitledUntil: string | null;
+};
+
+export type StudentSession = {
+  id: number;
+  subject: string;
+  teacher: string;
+  startTime: Date;
+  endTime: Date;
+};
+
+const formatTime = (date: Date) =>
+  new Intl.DateTimeFormat("en-UK", { timeStyle: "short" }).format(date);
+
+const formatFee = (minor: number, currency: string) =>
+  new Intl.NumberFormat(CURRENCY.locale, { style: "currency", currency }).format(
+    minor / CURRENCY.minorUnits
+  );
+
+/**
+ * "Join my class's live session now" (see page.tsx). Students pay for their
+ * class's live classes once per term. Paystack's popup takes the money;
+ * access is only granted once the server has confirmed the charge with
+ * Paystack (/api/live-payments/verify, or the Paystack webhook if the tab is
+ * closed first).
+ */
+export default function StudentLiveRoom({ session }: { session: StudentSession | null }) {
+  const [status, setStatus] = useState<LiveStatus | null>(null);
+  const [token, setToken] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState("");
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const res = await fetch("/api/live-payments", { cache: "no-store" });
+      const data = await res.json();
+      if (res.ok) setStatus(data);
+      else setError(data.error || "Could not load your live class access");
+    } catch (err) {
+      setError("Network error");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!status || !session) return;
+    setError("");
+    try {
+      const res = await fetch("/api/livekit-token", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId: session.id }),
+      });
+      const data = await res.json();
+      if (data.token) setToken(data.token);
+      else setError(data.error || "Failed to get token");
+    } catch (err) {
+      setError("Network error");
+    }
+  };
+
+  const paid = !!status?.entitledUntil;
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center p-8">
+      <Script src="https://js.paystack.co/v1/inline.js" strategy="beforeInteractive" />
+      <h1 className="text-2xl font-bold mb-4">Student Live Class</h1>
+      {!status ? (
+        error ? <p className="text-red-600">{error}</p> : <p className="text-gray-500">Loading...</p>
+      ) : !paid ? (
+        <div className="flex flex-col gap-4 w-full max-w-sm">
+          <p className="text-gray-600 dark:text-gray-300">
+            Live classes for {status.className} cost {formatFee(status.amount, status.currency)} for the term.
+          </p>
+          <button
+            onClick={handlePaystack}
+            disabled={pending}
+            className="bg-green-600 text-white px-4 py-2 rounded hover:bg-green-700 disabled:opacity-50"
+          >
+            {pending ? "Confirming payment..." : "Pay for Live Classes"}
+          </button>
+          {error && <p className="text-red-600">{error}</p>}
+        </div>
+      ) : !token ? (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4 w-full max-w-sm">
+          <p className="text-gray-600 dark:text-gray-300">
+            Paid until {new Intl.DateTimeFormat("en-UK").format(new Date(status.entitledUntil!))}.
+          </p>
+          {session ? (
+            <>
+              <p className="font-semibold">
+                {session.subject} with {session.teacher}, {formatTime(session.startTime)} – {formatTime(session.endTime)}
+              </p>
+              <button type="submit" className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 mt-4">Join My Class&apos;s Live Session</button>
+            </>
+          ) : (
+            <p className="text-gray-500">
+              {status.className} has no live session right now.{" "}
+              <Link href="/list/live-sessions" className="underline">See upcoming sessions</Link>
+            </p>
+          )}
+          {error && <p className="text-red-600">{error}</p>}
+        </form>
+      ) : (
+        <LiveKitRoom
+          token={token}
+          serverUrl={process.env.NEXT_PUBLIC_LIVEKIT_URL}
+          connect={true}
+          data-lk-theme="default"
+        >
+          <VideoConference />
+          <LiveKitChat name={status.name} />
+        </LiveKitRoom>
+      )}
+    </main>
+  );
+
+  async function handlePaystack() {
+    setError("");
+    try {
+      // The server decides the amount and reference
+      const res = await fetch("/api/live-payments", { method: "POST" });
+      const payment = await res.json();
+      if (!res.ok) {
+        setError(payment.error || "Could not start the payment");
+        return;
+      }
+      // @ts-ignore
+      const handler = window.PaystackPop && window.PaystackPop.setup({
+        key: PAYSTACK_PUBLIC_KEY,
+        email: payment.email,
+        amount: payment.amount,
+        currency: payment.currency,
+        ref: payment.reference,
+        callback: function () {
+          verify(payment.reference);
+        },
+        onClose: function () {
+          setError("Payment was not completed");
+        },
+      });
+      if (handler) handler.openIframe();
+      else setError("Paystack could not be loaded");
+    } catch (err) {
+      setError("Network error");
+    }
+  }
+
+  // Paystack's callback proves nothing: ask the server to check with Paystack
+  async function verify(reference: string) {
+    setPending(true);
+    try {
+      const res = await fetch("/api/live-payments/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reference }),
+      });
+      const data = await res.json();
+      if (!res.ok) setError(data.error || "Could not confirm the payment");
+      else if (data.outcome === "granted") await loadStatus();
+      else if (data.outcome === "rejected") setError("Paystack did not accept the payment");
+      else setError("Payment not confirmed yet. Refresh in a minute.");
+    } catch (err) {
+      setError("Network error");
+    } finally {
+      setPending(false);
+    }
+  }
+}
@@ -0,0 +1,161 @@
+/*
+  * @license GPL-3.0
+  * Copyright (C) <2007>  [ Patrick Nnodu ]
+
+   This program is free software: you can redistribute it and/or modify
+   it under the terms of the GNU General Public License as published by
+   the Free Software Foundation, either version 3 of the License, or
+   (at your option) any later version.
+
+   This program is distributed in the hope that it will be useful,
+   but WITHOUT ANY WARRANTY; without even the implied warranty of
+   MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+   GNU General Public License for more details.
+*/
+
+"use client";
+
+import React, { useState } from "react";
+import '@livekit/components-styles';
+import './livekit-overrides.css';
+import { LiveKitRoom, VideoConference, useParticipants } from "@livekit/components-react";
+import dynamic from "next/dynamic";
+import LivekitToolbarFix from './LivekitToolbarFix';
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { startLiveSession } from "@/lib/actions";
+import { LIVE_CLASS } from "@/lib/settings";
+
+const LiveKitChat = dynamic(() => import("@/components/LiveKitChat"), { ssr: false });
+
+export type TeacherSession = {
+  id: number;
+  subject: string;
+  className: string;
+  startTime: Date;
+  endTime: Date;
+};
+
+const formatTime = (date: Date) =>
+  new Intl.DateTimeFormat("en-UK", { dateStyle: "medium", timeStyle: "short" }).format(date);
+
+/**
+ * The signed-in teacher's next live session (see page.tsx). It can be
+ * started from `LIVE_CLASS.joinEarlyMinutes` before its scheduled start.
+ */
+export default function TeacherLiveRoom({
+  name,
+  session,
+}: {
+  name: string;
+  session: TeacherSession | null;
+}) {
+  const router = useRouter();
+  const [token, setToken] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session) return;
+    setError("");
+
+    const opensAt = session.startTime.getTime() - LIVE_CLASS.joinEarlyMinutes * 60 * 1000;
+    if (Date.now() < opensAt) {
+      setError(`You can start this session from ${formatTime(new Date(opensAt))}.`);
+      return;
+    }
+
+    setPending(true);
+    try {
+      const state = await startLiveSession(session.id);
+      if (!state.success) {
+        setError(state.message || "Could not start the session");
+        router.refresh();
+        return;
+      }
+      const res = await fetch("/api/livekit-token", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId: session.id }),
+      });
+      const data = await res.json();
+      if (data.token) setToken(data.token);
+      else setError(data.error || "Failed to get token");
+    } catch (err) {
+      setError("Network error");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen flex items-center justify-center p-4">
+  <div className="w-full max-w-5xl bg-card dark:bg-card rounded-3xl shadow-lg p-8 md:p-12 flex flex-col items-stretch border border-gray-200 dark:border-gray-700 bg-dark-2 ">
+        <div className="mb-8 text-center">
+          <h1 className="text-4xl font-bold text-gray-900 dark:text-gray-50 mb-2">Teacher Live Class</h1>
+          <p className="text-base text-gray-600 dark:text-gray-300">Start and manage your virtual classroom session</p>
+        </div>
+        {!session ? (
+          <div className="flex flex-col gap-4 w-full max-w-lg mx-auto text-center">
+            <p className="text-gray-600 dark:text-gray-300">You have no live sessions coming up.</p>
+            <Link href="/list/live-sessions" className="text-blue-600 underline">Schedule a live session</Link>
+          </div>
+        ) : !token ? (
+          <form onSubmit={handleSubmit} className="flex flex-col gap-6 w-full max-w-lg mx-auto">
+          <div className="space-y-1 text-center">
+            <p className="text-lg font-semibold text-gray-900 dark:text-gray-50">{session.subject} · {session.className}</p>
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              {formatTime(session.startTime)} – {new Intl.DateTimeFormat("en-UK", { timeStyle: "short" }).format(session.endTime)}
+            </p>
+          </div>
+          <button 
+            type="submit" 
+            disabled={pending}
+            className="w-full bg-gradient-to-r from-blue-600 to-blue-700 text-white font-semibold px-6 py-3 rounded-lg hover:from-blue-700 hover:to-blue-800 transition shadow-md mt-4 disabled:opacity-50"
+          >
+            {pending ? "Starting..." : "Start My Next Session"}
+          </button>
+          {error && <p className="text-red-500 dark:text-red-400 text-sm bg-red-50 dark:bg-red-900/20 p-3 rounded-lg">{error}</p>}
+        </form>
+      ) : (
+        <div className="w-full livekit-wrapper rounded-lg overflow-hidden">
+          <LivekitToolbarFix />
+          <LiveKitRoom
+            token={token}
+            serverUrl={process.env.NEXT_PUBLIC_LIVEKIT_URL}
+            connect={true}
+            data-lk-theme="default"
+          >
+            <VideoConference />
+            <ViewerList />
+            <LiveKitChat name={name} />
+          </LiveKitRoom>
+        </div>
+      )}
+      </div>
+    </main>
+  );
+
+// Custom component to show list of students watching
+function ViewerList() {
+  const participants = useParticipants();
+  // Filter out the teacher (local participant)
+  const viewers = Array.from(participants.values()).filter(p => !p.isLocal);
+  return (
+    <div className="w-full border border-gray-200 dark:border-gray-700 rounded-lg p-6 mt-6 bg-gray-50 dark:bg-gray-800/50">
+      <h2 className="font-bold text-lg text-gray-900 dark:text-gray-50 mb-4">Students Watching ({viewers.length})</h2>
+      <ul className="space-y-2">
+        {viewers.length === 0 && <li className="text-gray-600 dark:text-gray-400">No students watching yet.</li>}
+        {viewers.map((p) => (
+          <li key={p.identity} className="flex items-center gap-2 text-gray-800 dark:text-gray-200">
+            <span className="w-2 h-2 bg-green-500 rounded-full"></span>
+            {p.name || p.identity}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+}
+
@@ -0,0 +1,81 @@
+import MessageReply from "@/components/MessageReply";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import prisma from "@/lib/prisma";
+import { getCurrentParticipant } from "@/lib/messages";
+
+/**
+ * One conversation. Only participants can open it; opening it marks the
+ * caller's unread messages in this thread as read.
+ */
+const MessageThreadPage = async ({ params }: { params: { id: string } }) => {
+  const id = parseInt(params.id);
+  const me = await getCurrentParticipant();
+  if (!me || isNaN(id)) notFound();
+
+  const thread = await prisma.messageThread.findFirst({
+    where: { id, participants: { some: { personId: me.id } } },
+    include: {
+      participants: true,
+      messages: { orderBy: { createdAt: "asc" } },
+    },
+  });
+  if (!thread) notFound();
+
+  await prisma.threadParticipant.update({
+    where: { threadId_personId: { threadId: id, personId: me.id } },
+    data: { unreadCount: 0 },
+  });
+
+  const names = new Map(thread.participants.map((x) => [x.personId, x.name]));
+  const others = thread.participants.filter((x) => x.personId !== me.id);
+
+  return (
+    /* TOP  CONTAINER*/
+    <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+      {/* HEADER */}
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h1 className="text-lg font-semibold">{thread.subject}</h1>
+          <p className="text-xs text-gray-500 capitalize">
+            With {others.map((x) => `${x.name} (${x.role})`).join(", ")}
+          </p>
+        </div>
+        <Link href="/list/messages" className="text-xs text-gray-500 underline">
+          Back to inbox
+        </Link>
+      </div>
+
+      {/* MESSAGES */}
+      <ul className="flex flex-col gap-3 mt-6">
+        {thread.messages.map((message) => {
+          const mine = message.senderId === me.id;
+          return (
+            <li
+              key={message.id}
+              className={`max-w-[80%] p-3 rounded-md text-sm ${
+                mine ? "self-end bg-PatoSky/40" : "self-start bg-slate-100 dark:bg-gray-700"
+              }`}
+            >
+              <div className="flex items-center justify-between gap-4 text-xs text-gray-500 mb-1">
+                <span>{mine ? "You" : names.get(message.senderId) ?? "Unknown"}</span>
+                <span>
+                  {new Intl.DateTimeFormat("en-UK", {
+                    dateStyle: "short",
+                    timeStyle: "short",
+                  }).format(message.createdAt)}
+                </span>
+              </div>
+              <p className="whitespace-pre-wrap">{message.body}</p>
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* REPLY */}
+      <MessageReply threadId={thread.id} />
+    </div>
+  );
+};
+
+export default MessageThreadPage;
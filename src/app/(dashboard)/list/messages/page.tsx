@@ -0,0 +1,179 @@
+import Pagination from "@/components/Pagination";
+import Table from "@/components/Table";
+import ListHeader from "@/components/ListHeader";
+import ComposeMessage from "@/components/ComposeMessage";
+import Link from "next/link";
+import prisma from "@/lib/prisma";
+import { ITEMS_PER_PAGE } from "@/lib/settings";
+import { getCurrentParticipant } from "@/lib/messages";
+import { Prisma } from "@prisma/client";
+
+{
+  /* DATA TYPE FOR INBOX ROW */
+}
+type ThreadList = {
+  id: number;
+  subject: string;
+  updatedAt: Date;
+  with: string;
+  lastMessage: string;
+  unread: number;
+};
+
+{
+  /* TABLE HEAD ARRAY STRUCTURE */
+}
+const columns = [
+  {
+    header: "Conversation",
+    accessor: "subject",
+  },
+
+  {
+    header: "With",
+    accessor: "with",
+    className: " hidden md:table-cell ",
+  },
+
+  {
+    header: "Last Activity",
+    accessor: "updatedAt",
+    className: " hidden md:table-cell ",
+  },
+
+  {
+    header: "Unread",
+    accessor: "unread",
+  },
+];
+
+const renderRow = (item: ThreadList) => (
+  <tr
+    key={item.id}
+    className={`border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-PatoPurple/10 transition-all duration-145 ${
+      item.unread ? "font-semibold" : ""
+    }`}
+  >
+    <td className=" p-4">
+      <Link href={`/list/messages/${item.id}`} className=" flex flex-col">
+        <span>{item.subject}</span>
+        <span className=" text-xs text-gray-500 font-normal truncate max-w-[260px]">
+          {item.lastMessage}
+        </span>
+      </Link>
+    </td>
+
+    <td className=" hidden md:table-cell">{item.with}</td>
+
+    <td className=" hidden md:table-cell">
+      {new Intl.DateTimeFormat("en-UK", {
+        dateStyle: "short",
+        timeStyle: "short",
+      }).format(item.updatedAt)}
+    </td>
+
+    <td>
+      {item.unread > 0 && (
+        <span className=" py-1 px-2 rounded-full text-xs bg-PatoPurple text-white">
+          {item.unread}
+        </span>
+      )}
+    </td>
+  </tr>
+);
+
+const MessageListPage = async ({
+  searchParams,
+}: {
+  searchParams: { [key: string]: string | undefined };
+}) => {
+  const { page, ...queryParams } = searchParams;
+
+  const p = page ? parseInt(page) : 1;
+
+  const me = await getCurrentParticipant();
+
+  if (!me) {
+    return (
+      <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+        <h1 className="text-lg font-semibold">Messages</h1>
+        <p className="text-sm text-gray-500 mt-4">
+          Your account is not linked to a school record yet, so you have no
+          inbox. Ask an admin to link it.
+        </p>
+      </div>
+    );
+  }
+
+  // ONLY THREADS THE CALLER TAKES PART IN
+
+  const query: Prisma.MessageThreadWhereInput = {
+    participants: { some: { personId: me.id } },
+  };
+
+  // URL PARAMS CONDITION
+
+  if (queryParams) {
+    for (const [key, value] of Object.entries(queryParams)) {
+      if (value !== undefined) {
+        switch (key) {
+          case "search":
+            query.OR = [
+              { subject: { contains: value, mode: "insensitive" } },
+              {
+                participants: {
+                  some: { name: { contains: value, mode: "insensitive" } },
+                },
+              },
+            ];
+            break;
+          default:
+            break;
+        }
+      }
+    }
+  }
+
+  const [threads, count] = await prisma.$transaction([
+    prisma.messageThread.findMany({
+      where: query,
+      include: {
+        participants: true,
+        messages: { orderBy: { createdAt: "desc" }, take: 1 },
+      },
+      orderBy: { updatedAt: "desc" },
+      take: ITEMS_PER_PAGE,
+      skip: ITEMS_PER_PAGE * (p - 1),
+    }),
+
+    prisma.messageThread.count({ where: query }),
+  ]);
+
+  const data: ThreadList[] = threads.map((thread) => ({
+    id: thread.id,
+    subject: thread.subject,
+    updatedAt: thread.updatedAt,
+    with: thread.participants
+      .filter((x) => x.personId !== me.id)
+      .map((x) => x.name)
+      .join(", "),
+    lastMessage: thread.messages[0]?.body ?? "",
+    unread:
+      thread.participants.find((x) => x.personId === me.id)?.unreadCount ?? 0,
+  }));
+
+  return (
+    /* TOP  CONTAINER*/
+    <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+      <ListHeader title="Messages" actions={<ComposeMessage />} />
+
+      {/* LIST  LINK */}
+      <Table columns={columns} renderRow={renderRow} data={data} />
+
+      {/* PAGINATION  LINK */}
+      <Pagination page={p} count={count} />
+    </div>
+  );
+};
+
+export default MessageListPage;
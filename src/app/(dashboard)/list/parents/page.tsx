@@ -1,14 +1,17 @@
-import FormModal from "@/components/FormModal";
+import FormContainer from "@/components/FormContainer";
 import Pagination from "@/components/Pagination";
 import Table from "@/components/Table";
 import TableSearch from "@/components/TableSearch";
 import ListHeader from "@/components/ListHeader";
-import { parentsData, role } from "@/lib/data";
+import CsvImport from "@/components/CsvImport";
+import { parentsData } from "@/lib/data";
 import Image from "next/image";
 import Link from "next/link";
-import { Parent, Prisma, Student } from "@prisma/client";
+import { Parent, Student } from "@prisma/client";
 import prisma from "@/lib/prisma";
+import { parentListInclude, parentListWhere } from "@/lib/listQueries";
 import { ITEMS_PER_PAGE } from "@/lib/settings";
+import { Role, canMutate, getCurrentRole } from "@/lib/serverAuth";
 
 {
   /* DATA TYPE FOR PARENT */
@@ -44,7 +47,7 @@ const columns = [
   },
 ];
 
-const renderRow = (item: ParentList) => (
+const renderRow = (item: ParentList, role: Role | null) => (
   <tr
     key={item.id}
     className=" border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-PatoPurple/10 transition-all duration-145"
@@ -64,11 +67,11 @@ const renderRow = (item: ParentList) => (
 
     <td>
       <div className="flex items-center gap-2">
-        {role === "admin" && (
+        {canMutate(role, "parent") && (
           <>
-            <FormModal table="parent" type="update" data={item} />
+            <FormContainer table="parent" type="update" data={item} />
 
-            <FormModal table="parent" type="delete" id={item.id} />
+            <FormContainer table="parent" type="delete" id={item.id} />
           </>
         )}
       </div>
@@ -85,33 +88,16 @@ const ParentListPage = async ({
 
   const p = page ? parseInt(page) : 1;
 
+  const role = await getCurrentRole();
+
   // URL PARAMS CONDITION
 
-  const query: Prisma.ParentWhereInput = {};
-
-  if (queryParams) {
-    for (const [key, value] of Object.entries(queryParams)) {
-      if (value !== undefined) {
-        switch (key) {
-          case "search":
-            query.name = {
-              contains: value,
-              mode: "insensitive",
-            };
-            break;
-          default:
-            break;
-        }
-      }
-    }
-  }
+  const query = parentListWhere(queryParams);
 
   const [data, count] = await prisma.$transaction([
     prisma.parent.findMany({
       where: query,
-      include: {
-        students: true,
-      },
+      include: parentListInclude,
       take: ITEMS_PER_PAGE,
       skip: ITEMS_PER_PAGE * (p - 1),
     }),
@@ -124,11 +110,13 @@ const ParentListPage = async ({
     <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
       <ListHeader
         title="All Parents"
-        createTable={role === "admin" ? "parent" : null}
+        exportTable="parents"
+        createTable="parent"
+        actions={canMutate(role, "parent") && <CsvImport table="parent" />}
       />
 
       {/* LIST  LINK */}
-      <Table columns={columns} renderRow={renderRow} data={data} />
+      <Table columns={columns} renderRow={(item) => renderRow(item, role)} data={data} />
 
       {/* PAGINATION  LINK */}
       <Pagination page={p} count={count} />
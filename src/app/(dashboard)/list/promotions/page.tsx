@@ -0,0 +1,102 @@
+import Link from "next/link";
+import prisma from "@/lib/prisma";
+import { canMutate, getCurrentRole } from "@/lib/serverAuth";
+import { proposePromotion } from "@/lib/promotion";
+import PromotionWizard from "@/components/PromotionWizard";
+
+/**
+ * End-of-year promotion. Admins review the proposed move of every class to
+ * the next grade level, mark repeaters and apply it; past runs are listed
+ * below with their counts. See lib/promotion.ts.
+ */
+const PromotionPage = async () => {
+  const role = await getCurrentRole();
+
+  if (!canMutate(role, "student")) {
+    return (
+      <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+        <h1 className="text-lg font-semibold">Promotion</h1>
+        <p className="text-sm text-gray-500 mt-4">
+          Only admins can promote students.
+        </p>
+      </div>
+    );
+  }
+
+  const [classes, years, runs] = await Promise.all([
+    proposePromotion(),
+    prisma.academicYear.findMany({
+      select: { id: true, name: true, promotion: { select: { id: true } } },
+      orderBy: { startDate: "desc" },
+    }),
+    prisma.promotionRun.findMany({
+      include: { academicYear: { select: { name: true } } },
+      orderBy: { createdAt: "desc" },
+    }),
+  ]);
+  const outcomes = await prisma.promotionRecord.groupBy({
+    by: ["runId", "outcome"],
+    _count: { _all: true },
+  });
+  const countOf = (runId: number, outcome: string) =>
+    outcomes.find((o) => o.runId === runId && o.outcome === outcome)?._count
+      ._all ?? 0;
+
+  return (
+    /* TOP  CONTAINER*/
+    <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6 flex flex-col gap-8">
+      <div>
+        <div className="flex items-center justify-between gap-3">
+          <h1 className="text-lg font-semibold">End-of-Year Promotion</h1>
+          <Link href="/list/students?status=alumni" className="text-xs text-gray-500 underline">
+            View alumni
+          </Link>
+        </div>
+        {years.length === 0 ? (
+          <p className="text-sm text-gray-500 mt-4">
+            Add the academic year on <Link href="/list/terms" className="underline">Terms</Link> first.
+          </p>
+        ) : (
+          <PromotionWizard
+            classes={classes}
+            years={years.map((y) => ({ id: y.id, name: y.name, promoted: !!y.promotion }))}
+          />
+        )}
+      </div>
+
+      <div>
+        <h1 className="text-lg font-semibold">History</h1>
+        {runs.length === 0 ? (
+          <p className="text-sm text-gray-500 mt-4">No promotions yet.</p>
+        ) : (
+          <table className="w-full text-sm mt-4">
+            <thead>
+              <tr className="text-left text-xs text-gray-500">
+                <th className="p-2">Academic year</th>
+                <th className="p-2">Applied</th>
+                <th className="p-2">Promoted</th>
+                <th className="p-2">Repeating</th>
+                <th className="p-2">Graduated</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map((run) => (
+                <tr key={run.id} className="border-b border-gray-200">
+                  <td className="p-2">{run.academicYear.name}</td>
+                  <td className="p-2">
+                    {new Intl.DateTimeFormat("en-UK").format(run.createdAt)}
+                  </td>
+                  <td className="p-2">{countOf(run.id, "PROMOTED")}</td>
+                  <td className="p-2">{countOf(run.id, "REPEATED")}</td>
+                  <td className="p-2">{countOf(run.id, "GRADUATED")}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromotionPage;
@@ -1,19 +1,24 @@
-import FormModal from "@/components/FormModal";
+import FormContainer from "@/components/FormContainer";
 import Pagination from "@/components/Pagination";
 import Table from "@/components/Table";
 import TableSearch from "@/components/TableSearch";
 import ListHeader from "@/components/ListHeader";
-import { resultsData, role } from "@/lib/data";
+import { resultsData } from "@/lib/data";
 import Image from "next/image";
 import Link from "next/link";
 import prisma from "@/lib/prisma";
+import { resultListInclude, resultListWhere } from "@/lib/listQueries";
 import { ITEMS_PER_PAGE } from "@/lib/settings";
-import { Prisma } from "@prisma/client";
+import { withCurrentTerm } from "@/lib/terms";
+import { Role, canMutate, getCurrentRole } from "@/lib/serverAuth";
 {
   /* DATA TYPE FOR EXAM */
 }
 type ResultsList = {
   id: number;
+  studentId: string;
+  examId: number | null;
+  assignmentId: number | null;
   title: string;
   studentName: string;
   studentSurname: string;
@@ -68,7 +73,7 @@ const columns = [
   },
 ];
 
-const renderRow = (item: ResultsList) => (
+const renderRow = (item: ResultsList, role: Role | null) => (
   <tr
     key={item.id}
     className=" border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-PatoPurple/10 transition-all duration-145"
@@ -91,11 +96,11 @@ const renderRow = (item: ResultsList) => (
 
     <td>
       <div className="flex items-center gap-2">
-        {role === "admin" && (
+        {canMutate(role, "result") && (
           <>
-            <FormModal table="result" type="update" data={item} />
+            <FormContainer table="result" type="update" data={item} />
 
-            <FormModal table="result" type="delete" id={item.id} />
+            <FormContainer table="result" type="delete" id={item.id} />
           </>
         )}
       </div>
@@ -112,56 +117,16 @@ const ResultListPage = async ({
 
   const p = page ? parseInt(page) : 1;
 
+  const role = await getCurrentRole();
+
   // URL PARAMS CONDITION
 
-  const query: Prisma.ResultWhereInput = {};
-
-  if (queryParams) {
-    for (const [key, value] of Object.entries(queryParams)) {
-      if (value !== undefined) {
-        switch (key) {
-          case "StudentId":
-            query.studentId = value;
-            break;
-          case "search":
-            query.OR = [
-              { exam: { title: { contains: value, mode: "insensitive" } } },
-              { student: { name: { contains: value, mode: "insensitive" } } },
-            ];
-            break;
-          default:
-            break;
-        }
-      }
-    }
-  }
+  const query = resultListWhere(await withCurrentTerm(queryParams));
 
   const [dataRes, count] = await prisma.$transaction([
     prisma.result.findMany({
       where: query,
-      include: {
-        student: { select: { name: true, surname: true } },
-        exam: {
-          include: {
-            lesson: {
-              select: {
-                class: { select: { name: true } },
-                teacher: { select: { name: true, surname: true } },
-              },
-            },
-          },
-        },
-        assignment: {
-          include: {
-            lesson: {
-              select: {
-                class: { select: { name: true } },
-                teacher: { select: { name: true, surname: true } },
-              },
-            },
-          },
-        },
-      },
+      include: resultListInclude,
       take: ITEMS_PER_PAGE,
       skip: ITEMS_PER_PAGE * (p - 1),
     }),
@@ -178,6 +143,9 @@ const ResultListPage = async ({
 
     return {
       id: item.id,
+      studentId: item.studentId,
+      examId: item.examId,
+      assignmentId: item.assignmentId,
       title: assesment.title,
       studentName: item.student.name,
       studentSurname: item.student.surname,
@@ -194,11 +162,13 @@ const ResultListPage = async ({
     <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
       <ListHeader
         title="All Results"
-        createTable={role === "admin" ? "result" : null}
+        exportTable="results"
+        termFilter
+        createTable="result"
       />
 
       {/* LIST  LINK */}
-      <Table columns={columns} renderRow={renderRow} data={data} />
+      <Table columns={columns} renderRow={(item) => renderRow(item, role)} data={data} />
 
       {/* PAGINATION  LINK */}
       <Pagination page={p} count={count} />
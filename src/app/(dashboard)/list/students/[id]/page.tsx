@@ -4,10 +4,36 @@ import FormModal from "@/components/FormModal";
 import Performance from "@/components/Performance";
 import Image from "next/image";
 import Link from "next/link";
+import { canMutate, getCurrentRole } from "@/lib/serverAuth";
 import ResultSheet from "@/components/ResultSheet";
 import EventCalendar from "@/components/EventCalendar";
+import ReportCardPanel from "@/components/ReportCardPanel";
+import prisma from "@/lib/prisma";
+import { getCurrentTerm, getTerms, termLabel } from "@/lib/terms";
+import { getStudentPerformance } from "@/lib/resultSheet";
+import { notFound } from "next/navigation";
+
+const SingleStudentPage = async ({
+  params: { id },
+}: {
+  params: { id: string };
+}) => {
+  const role = await getCurrentRole();
+  const student = await prisma.student.findUnique({
+    where: { id },
+    select: { classId: true },
+  });
+  if (!student) notFound();
+
+  const [currentTerm, terms, remarks] = await Promise.all([
+    getCurrentTerm(),
+    getTerms(),
+    prisma.reportCardRemark.findMany({ where: { studentId: id } }),
+  ]);
+  const performance = currentTerm
+    ? await getStudentPerformance(id, currentTerm.id)
+    : null;
 
-const SingleStudentPage = () => {
   return (
     <div className=" flex-1 p-4 flex flex-col gap-4 xl:flex-row">
       {/* LEFT CONTENT CONTAINER */}
@@ -34,24 +60,26 @@ const SingleStudentPage = () => {
                 {/* TEACHER NAME */}
                 <h1 className="text-xl font-semibold">Faith Nnodu</h1>
 
-                <FormModal
-                  table="student"
-                  type="update"
-                  data={{
-                    id: 1,
-                    username: "faithnnodu",
-                    email: "paulnnodu3@gmail.com",
-                    password: "password",
-                    firstName: "Faith",
-                    lastName: "Nnodu",
-                    phone: "+234 567 8909",
-                    address: "1234 Main St, Lagos, Nigeria,",
-                    bloodType: "A+",
-                    dateOfBirth: "2000-01-01",
-                    sex: "female",
-                    img: "https://images.pexels.com/photos/2182970/pexels-photo-2182970.jpeg?auto=compress&cs=tinysrgb&w=1200",
-                  }}
-                />
+                {canMutate(role, "student") && (
+                  <FormModal
+                    table="student"
+                    type="update"
+                    data={{
+                      id: 1,
+                      username: "faithnnodu",
+                      email: "paulnnodu3@gmail.com",
+                      password: "password",
+                      firstName: "Faith",
+                      lastName: "Nnodu",
+                      phone: "+234 567 8909",
+                      address: "1234 Main St, Lagos, Nigeria,",
+                      bloodType: "A+",
+                      dateOfBirth: "2000-01-01",
+                      sex: "female",
+                      img: "https://images.pexels.com/photos/2182970/pexels-photo-2182970.jpeg?auto=compress&cs=tinysrgb&w=1200",
+                    }}
+                  />
+                )}
               </div>
 
               {/* MORE TEXT ABOUT TEACHER */}
@@ -174,13 +202,13 @@ const SingleStudentPage = () => {
 
           {/* Calendar wrapper: responsive min-heights so large screens show a taller calendar but small screens can shrink */}
           <div className="mt-4 h-screen min-h-[380px] md:min-h-[520px] lg:min-h-[640px]">
-            <BigCalendar />
+            <BigCalendar type="classId" id={student.classId} />
           </div>
         </div>
 
         {/* Student results sheet */}
         <div className="mt-6">
-          <ResultSheet />
+          <ResultSheet studentId={id} />
         </div>
       </div>
 
@@ -229,7 +257,24 @@ const SingleStudentPage = () => {
           </div>
         </div>
 
-        <Performance />
+        <ReportCardPanel
+          studentId={id}
+          terms={terms.map((term) => ({ id: term.id, label: termLabel(term) }))}
+          defaultTermId={currentTerm?.id}
+          remarks={Object.fromEntries(
+            remarks.map(({ termId, teacherRemark, principalRemark }) => [
+              termId,
+              { teacherRemark, principalRemark },
+            ])
+          )}
+          canEditTeacher={canMutate(role, "result")}
+          canEditPrincipal={role === "admin"}
+        />
+
+        <Performance
+          score={performance}
+          term={currentTerm ? termLabel(currentTerm) : undefined}
+        />
         <EventCalendar />
         <Announcements />
       </div>
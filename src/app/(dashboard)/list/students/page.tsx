@@ -1,14 +1,17 @@
-import FormModal from "@/components/FormModal";
+import FormContainer from "@/components/FormContainer";
 import Pagination from "@/components/Pagination";
 import Table from "@/components/Table";
 import ListHeader from "@/components/ListHeader";
-import { role, studentsData } from "@/lib/data";
+import CsvImport from "@/components/CsvImport";
+import { studentsData } from "@/lib/data";
 import Image from "next/image";
 import Link from "next/link";
 import { FaEye } from "react-icons/fa";
 import prisma from "@/lib/prisma";
+import { studentListInclude, studentListWhere } from "@/lib/listQueries";
 import { ITEMS_PER_PAGE } from "@/lib/settings";
-import { Class, Prisma, Student } from "@prisma/client";
+import { Role, canMutate, getCurrentRole } from "@/lib/serverAuth";
+import { Class, Student } from "@prisma/client";
 
 type StudentList = Student & { class: Class };
 
@@ -46,7 +49,7 @@ const columns = [
   },
 ];
 
-const renderRow = (item: StudentList) => [
+const renderRow = (item: StudentList, role: Role | null) => [
   <tr
     key={item.id}
     className=" border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-PatoPurple/10 transition-all duration-145"
@@ -62,7 +65,10 @@ const renderRow = (item: StudentList) => [
 
       <div className=" flex flex-col">
         <h1 className="font-semibold">{item.name}</h1>
-        <p className="text-xs text-gray-500">{item.class.name}</p>
+        <p className="text-xs text-gray-500">
+          {item.class.name}
+          {item.status === "ALUMNI" && " · Alumni"}
+        </p>
       </div>
     </td>
 
@@ -79,14 +85,12 @@ const renderRow = (item: StudentList) => [
           </button>
         </Link>
 
-        {role === "admin" && (
-          /* <button className=" w-7 h-7 flex items-center justify-center rounded-full bg-PatoPurple ">
+        {canMutate(role, "student") && (
+          <>
+            <FormContainer table="student" type="update" data={item} />
 
-              <Image src="/delete.png" alt="" width={16} height={16}/>
-
-            </button> */
-
-          <FormModal table="student" type="delete" id={item.id} />
+            <FormContainer table="student" type="delete" id={item.id} />
+          </>
         )}
       </div>
     </td>
@@ -102,42 +106,17 @@ const StudentListPage = async ({
 
   const p = page ? parseInt(page) : 1;
 
+  const role = await getCurrentRole();
+
   // URL PARAMS CONDITION
 
-  const query: Prisma.StudentWhereInput = {};
-
-  if (queryParams) {
-    for (const [key, value] of Object.entries(queryParams)) {
-      if (value !== undefined) {
-        switch (key) {
-          case "teacherId":
-            query.class = {
-              lessons: {
-                some: {
-                  teacherId: value,
-                },
-              },
-            };
-            break;
-          case "search":
-            query.name = {
-              contains: value,
-              mode: "insensitive",
-            };
-            break;
-          default:
-            break;
-        }
-      }
-    }
-  }
+  const query = studentListWhere(queryParams);
+  const alumni = queryParams.status === "alumni";
 
   const [data, count] = await prisma.$transaction([
     prisma.student.findMany({
       where: query,
-      include: {
-        class: true,
-      },
+      include: studentListInclude,
       take: ITEMS_PER_PAGE,
       skip: ITEMS_PER_PAGE * (p - 1),
     }),
@@ -149,12 +128,24 @@ const StudentListPage = async ({
     /* TOP  CONTAINER*/
     <div className="bg-white bg-dark p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
       <ListHeader
-        title="All Students"
-        createTable={role === "admin" ? "student" : null}
+        title={alumni ? "Alumni" : "All Students"}
+        exportTable="students"
+        createTable="student"
+        actions={
+          <>
+            <Link
+              href={alumni ? "/list/students" : "/list/students?status=alumni"}
+              className="text-xs text-gray-500 underline"
+            >
+              {alumni ? "Current students" : "Alumni"}
+            </Link>
+            {canMutate(role, "student") && <CsvImport table="student" />}
+          </>
+        }
       />
 
       {/* LIST  LINK */}
-      <Table columns={columns} renderRow={renderRow} data={data} />
+      <Table columns={columns} renderRow={(item) => renderRow(item, role)} data={data} />
 
       {/* PAGINATION  LINK */}
       <Pagination page={p} count={count} />
@@ -1,13 +1,15 @@
-import FormModal from "@/components/FormModal";
+import FormContainer from "@/components/FormContainer";
 import Pagination from "@/components/Pagination";
 import Table from "@/components/Table";
 import TableSearch from "@/components/TableSearch";
 import ListHeader from "@/components/ListHeader";
-import { role, subjectsData } from "@/lib/data";
+import { subjectsData } from "@/lib/data";
 import Image from "next/image";
-import { Prisma, Subject, Teacher } from "@prisma/client";
+import { Subject, Teacher } from "@prisma/client";
 import prisma from "@/lib/prisma";
+import { subjectListInclude, subjectListWhere } from "@/lib/listQueries";
 import { ITEMS_PER_PAGE } from "@/lib/settings";
+import { Role, canMutate, getCurrentRole } from "@/lib/serverAuth";
 
 {
   /* DATA TYPE FOR SUBJECT */
@@ -33,7 +35,7 @@ const columns = [
   },
 ];
 
-const renderRow = (item: SubjectList) => (
+const renderRow = (item: SubjectList, role: Role | null) => (
   <tr
     key={item.id}
     className=" border-b border-gray-200 even:bg-slate-50 text-sm hover:bg-PatoPurple/10 transition-all duration-145"
@@ -46,11 +48,11 @@ const renderRow = (item: SubjectList) => (
 
     <td>
       <div className="flex items-center gap-2">
-        {role === "admin" && (
+        {canMutate(role, "subject") && (
           <>
-            <FormModal table="subject" type="update" data={item} />
+            <FormContainer table="subject" type="update" data={item} />
 
-            <FormModal table="subject" type="delete" id={item.id} />
+            <FormContainer table="subject" type="delete" id={item.id} />
           </>
         )}
       </div>
@@ -67,33 +69,16 @@ const SubjectListPage = async ({
 
   const p = page ? parseInt(page) : 1;
 
+  const role = await getCurrentRole();
+
   // URL PARAMS CONDITION
 
-  const query: Prisma.SubjectWhereInput = {};
-
-  if (queryParams) {
-    for (const [key, value] of Object.entries(queryParams)) {
-      if (value !== undefined) {
-        switch (key) {
-          case "search":
-            query.name = {
-              contains: value,
-              mode: "insensitive",
-            };
-            break;
-          default:
-            break;
-        }
-      }
-    }
-  }
+  const query = subjectListWhere(queryParams);
 
   const [data, count] = await prisma.$transaction([
     prisma.subject.findMany({
       where: query,
-      include: {
-        teachers: true,
-      },
+      include: subjectListInclude,
       take: ITEMS_PER_PAGE,
       skip: ITEMS_PER_PAGE * (p - 1),
     }),
@@ -106,11 +91,12 @@ const SubjectListPage = async ({
     <div className="bg-white bg-dark p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
       <ListHeader
         title="All Subjects"
-        createTable={role === "admin" ? "subject" : null}
+        exportTable="subjects"
+        createTable="subject"
       />
 
       {/* LIST  LINK */}
-      <Table columns={columns} renderRow={renderRow} data={data} />
+      <Table columns={columns} renderRow={(item) => renderRow(item, role)} data={data} />
 
       {/* PAGINATION  LINK */}
       <Pagination page={p} count={count} />
@@ -4,8 +4,29 @@ import FormModal from "@/components/FormModal";
 import Performance from "@/components/Performance";
 import Image from "next/image";
 import Link from "next/link";
+import { canMutate, getCurrentRole } from "@/lib/serverAuth";
+import prisma from "@/lib/prisma";
+import { getCurrentTerm, termLabel } from "@/lib/terms";
+import { getTeacherPerformance } from "@/lib/resultSheet";
+import { notFound } from "next/navigation";
+
+const SingleTeacherPage = async ({
+  params: { id },
+}: {
+  params: { id: string };
+}) => {
+  const role = await getCurrentRole();
+  const teacher = await prisma.teacher.findUnique({
+    where: { id },
+    select: { id: true },
+  });
+  if (!teacher) notFound();
+
+  const currentTerm = await getCurrentTerm();
+  const performance = currentTerm
+    ? await getTeacherPerformance(id, currentTerm.id)
+    : null;
 
-const SingleTeacherPage = () => {
   return (
     <div className=" flex-1 p-4 flex flex-col gap-4 xl:flex-row">
       {/* LEFT CONTENT CONTAINER */}
@@ -32,24 +53,26 @@ const SingleTeacherPage = () => {
                 {/* TEACHER NAME */}
                 <h1 className="text-xl font-semibold">Patrick Nnodu</h1>
 
-                <FormModal
-                  table="teacher"
-                  type="update"
-                  data={{
-                    id: 1,
-                    username: "patricknnodu",
-                    email: "paulnnodu3@gmail.com",
-                    password: "password",
-                    firstName: "Patrick",
-                    lastName: "Nnodu",
-                    phone: "+234 567 8909",
-                    address: "1234 Main St, Anytown, USA,",
-                    bloodType: "A+",
-                    dateOfBirth: "2000-01-01",
-                    sex: "male",
-                    img: "https://images.pexels.com/photos/2182970/pexels-photo-2182970.jpeg?auto=compress&cs=tinysrgb&w=1200",
-                  }}
-                />
+                {canMutate(role, "teacher") && (
+                  <FormModal
+                    table="teacher"
+                    type="update"
+                    data={{
+                      id: 1,
+                      username: "patricknnodu",
+                      email: "paulnnodu3@gmail.com",
+                      password: "password",
+                      firstName: "Patrick",
+                      lastName: "Nnodu",
+                      phone: "+234 567 8909",
+                      address: "1234 Main St, Anytown, USA,",
+                      bloodType: "A+",
+                      dateOfBirth: "2000-01-01",
+                      sex: "male",
+                      img: "https://images.pexels.com/photos/2182970/pexels-photo-2182970.jpeg?auto=compress&cs=tinysrgb&w=1200",
+                    }}
+                  />
+                )}
               </div>
 
               {/* MORE TEXT ABOUT TEACHER */}
@@ -169,7 +192,7 @@ const SingleTeacherPage = () => {
         {/* BOTTOM CONTAINER */}
         <div className=" mt-4 bg-white bg-dark-2 rounded-md p-4 h-[800px]">
           <h1 className="text-xl font-semibold ">Teacher&apos;s Schedule</h1>
-          <BigCalendar />
+          <BigCalendar type="teacherId" id={teacher.id} />
         </div>
       </div>
 
@@ -218,7 +241,10 @@ const SingleTeacherPage = () => {
           </div>
         </div>
 
-        <Performance />
+        <Performance
+          score={performance}
+          term={currentTerm ? termLabel(currentTerm) : undefined}
+        />
         <Announcements />
       </div>
     </div>
@@ -1,14 +1,17 @@
-import FormModal from "@/components/FormModal";
+import FormContainer from "@/components/FormContainer";
 import Pagination from "@/components/Pagination";
 import Table from "@/components/Table";
 import ListHeader from "@/components/ListHeader";
-import { role, teachersData } from "@/lib/data";
+import CsvImport from "@/components/CsvImport";
+import { teachersData } from "@/lib/data";
 import Image from "next/image";
 import Link from "next/link";
 import { FaEye } from "react-icons/fa";
-import { Class, Prisma, Subject, Teacher } from "@prisma/client";
+import { Class, Subject, Teacher } from "@prisma/client";
 import prisma from "@/lib/prisma";
+import { teacherListInclude, teacherListWhere } from "@/lib/listQueries";
 import { ITEMS_PER_PAGE } from "@/lib/settings";
+import { Role, canMutate, getCurrentRole } from "@/lib/serverAuth";
 
 /* 
  DATA TYPE FOR TEACHER (Prisma's `Teacher` already includes relations) 
@@ -53,7 +56,7 @@ const columns = [
   },
 ];
 
-const renderRow = (item: TeacherList) => {
+const renderRow = (item: TeacherList, role: Role | null) => {
   return (
     <tr
       key={item.id}
@@ -92,14 +95,12 @@ const renderRow = (item: TeacherList) => {
             </button>
           </Link>
 
-          {role === "admin" && (
-            /* <button className=" w-7 h-7 flex items-center justify-center rounded-full bg-PatoPurple ">
+          {canMutate(role, "teacher") && (
+            <>
+              <FormContainer table="teacher" type="update" data={item} />
 
-              <Image src="/delete.png" alt="" width={16} height={16}/>
-
-            </button>*/
-
-            <FormModal table="teacher" type="delete" id={item.id} />
+              <FormContainer table="teacher" type="delete" id={item.id} />
+            </>
           )}
         </div>
       </td>
@@ -116,41 +117,16 @@ const TeacherListPage = async ({
 
   const p = page ? parseInt(page) : 1;
 
+  const role = await getCurrentRole();
+
   // URL PARAMS CONDITION
 
-  const query: Prisma.TeacherWhereInput = {};
-
-  if (queryParams) {
-    for (const [key, value] of Object.entries(queryParams)) {
-      if (value !== undefined) {
-        switch (key) {
-          case "classId":
-            query.lessons = {
-              some: {
-                classId: parseInt(value),
-              },
-            };
-            break;
-          case "search":
-            query.name = {
-              contains: value,
-              mode: "insensitive",
-            };
-            break;
-          default:
-            break;
-        }
-      }
-    }
-  }
+  const query = teacherListWhere(queryParams);
 
   const [data, count] = await prisma.$transaction([
     prisma.teacher.findMany({
       where: query,
-      include: {
-        subjects: true,
-        classes: true,
-      },
+      include: teacherListInclude,
       take: ITEMS_PER_PAGE,
       skip: ITEMS_PER_PAGE * (p - 1),
     }),
@@ -163,11 +139,13 @@ const TeacherListPage = async ({
     <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
       <ListHeader
         title="All Teachers"
-        createTable={role === "admin" ? "teacher" : null}
+        exportTable="teachers"
+        createTable="teacher"
+        actions={canMutate(role, "teacher") && <CsvImport table="teacher" />}
       />
 
       {/* LIST  LINK */}
-      <Table columns={columns} renderRow={renderRow} data={data} />
+      <Table columns={columns} renderRow={(item) => renderRow(item, role)} data={data} />
 
       {/* PAGINATION  LINK */}
       <Pagination page={p} count={count} />
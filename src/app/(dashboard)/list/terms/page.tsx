@@ -0,0 +1,115 @@
+import FormContainer from "@/components/FormContainer";
+import ListHeader from "@/components/ListHeader";
+import SetCurrentTermButton from "@/components/SetCurrentTermButton";
+import prisma from "@/lib/prisma";
+import { canMutate, getCurrentRole } from "@/lib/serverAuth";
+import { getCurrentTerm } from "@/lib/terms";
+
+// Whole-day dates are stored as midnight UTC
+const formatDay = (date: Date) =>
+  new Intl.DateTimeFormat("en-UK", { timeZone: "UTC" }).format(date);
+
+/**
+ * Academic years and their terms. Admins add them here and pick the
+ * current term, which lists and dashboards default to (see lib/terms.ts).
+ */
+const TermListPage = async () => {
+  const role = await getCurrentRole();
+
+  if (!canMutate(role, "term")) {
+    return (
+      <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+        <h1 className="text-lg font-semibold">Academic Years & Terms</h1>
+        <p className="text-sm text-gray-500 mt-4">
+          Only admins can manage academic years and terms.
+        </p>
+      </div>
+    );
+  }
+
+  const [years, current] = await Promise.all([
+    prisma.academicYear.findMany({
+      include: { terms: { orderBy: { startDate: "asc" } } },
+      orderBy: { startDate: "desc" },
+    }),
+    getCurrentTerm(),
+  ]);
+
+  return (
+    /* TOP  CONTAINER*/
+    <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+      <ListHeader
+        title="Academic Years & Terms"
+        createTable="academicYear"
+        actions={years.length > 0 && <FormContainer table="term" type="create" />}
+      />
+
+      {years.length === 0 && (
+        <p className="text-sm text-gray-500 mt-4">
+          No academic years yet. Create one, then add its terms.
+        </p>
+      )}
+
+      {years.map((year) => (
+        <div key={year.id} className="mt-6">
+          <div className="flex items-center gap-2">
+            <h2 className="font-semibold">{year.name}</h2>
+            <span className="text-xs text-gray-500">
+              {formatDay(year.startDate)} – {formatDay(year.endDate)}
+            </span>
+            <FormContainer table="academicYear" type="update" data={year} />
+            <FormContainer table="academicYear" type="delete" id={year.id} />
+          </div>
+
+          <table className="w-full mt-2 text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 text-xs">
+                <th className="p-2">Term</th>
+                <th className="p-2">Start</th>
+                <th className="p-2">End</th>
+                <th className="p-2">Status</th>
+                <th className="p-2">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {year.terms.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="p-2 text-gray-500">
+                    No terms yet.
+                  </td>
+                </tr>
+              )}
+              {year.terms.map((term) => (
+                <tr
+                  key={term.id}
+                  className="border-b border-gray-200 even:bg-slate-50"
+                >
+                  <td className="p-2">{term.name}</td>
+                  <td className="p-2">{formatDay(term.startDate)}</td>
+                  <td className="p-2">{formatDay(term.endDate)}</td>
+                  <td className="p-2">
+                    {current?.id === term.id ? (
+                      <span className="py-1 px-2 rounded-full text-xs bg-green-100 text-green-700">
+                        Current
+                      </span>
+                    ) : (
+                      <SetCurrentTermButton id={term.id} />
+                    )}
+                  </td>
+                  <td className="p-2">
+                    <div className="flex items-center gap-2">
+                      <FormContainer table="term" type="update" data={term} />
+                      <FormContainer table="term" type="delete" id={term.id} />
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TermListPage;
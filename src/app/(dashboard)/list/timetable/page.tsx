@@ -0,0 +1,95 @@
+import Link from "next/link";
+import prisma from "@/lib/prisma";
+import { canMutate, getCurrentRole } from "@/lib/serverAuth";
+import { formatMinutes } from "@/lib/lessonConflicts";
+import { DAYS } from "@/lib/timetable";
+import TimetableSetup from "@/components/TimetableSetup";
+import TimetableGenerator from "@/components/TimetableGenerator";
+
+/**
+ * Timetable generator. Admins set up the inputs (periods, periods per week,
+ * teacher unavailability), then generate, review and save the weekly
+ * lessons of a grade or the whole school. See lib/timetable.ts.
+ */
+const TimetablePage = async () => {
+  const role = await getCurrentRole();
+
+  if (!canMutate(role, "lesson")) {
+    return (
+      <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+        <h1 className="text-lg font-semibold">Timetable Generator</h1>
+        <p className="text-sm text-gray-500 mt-4">
+          Only admins can generate the timetable.
+        </p>
+      </div>
+    );
+  }
+
+  const [periods, grades, subjects, teachers, requirements, unavailability] =
+    await prisma.$transaction([
+      prisma.schoolPeriod.findMany({ orderBy: { start: "asc" } }),
+      prisma.grade.findMany({ orderBy: { level: "asc" } }),
+      prisma.subject.findMany({
+        select: { id: true, name: true },
+        orderBy: { name: "asc" },
+      }),
+      prisma.teacher.findMany({
+        select: { id: true, name: true, surname: true },
+        orderBy: [{ name: "asc" }, { surname: "asc" }],
+      }),
+      prisma.subjectRequirement.findMany({
+        select: { gradeId: true, subjectId: true, periodsPerWeek: true },
+      }),
+      prisma.teacherUnavailability.findMany({
+        include: {
+          teacher: { select: { name: true, surname: true } },
+          period: { select: { name: true } },
+        },
+        orderBy: [{ teacherId: "asc" }, { day: "asc" }],
+      }),
+    ]);
+
+  const gradeOptions = grades.map((g) => ({ id: g.id, name: `Grade ${g.level}` }));
+
+  return (
+    /* TOP  CONTAINER*/
+    <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6 flex flex-col gap-8">
+      <div>
+        <div className="flex items-center justify-between gap-3">
+          <h1 className="text-lg font-semibold">Timetable Generator</h1>
+          <Link href="/list/lessons" className="text-xs text-gray-500 underline">
+            Back to lessons
+          </Link>
+        </div>
+        <TimetableGenerator grades={gradeOptions} />
+      </div>
+
+      <div>
+        <h1 className="text-lg font-semibold">Generator Setup</h1>
+        <TimetableSetup
+          days={DAYS}
+          periods={periods.map((p) => ({
+            id: p.id,
+            name: p.name,
+            time: `${formatMinutes(p.start)}–${formatMinutes(p.end)}`,
+          }))}
+          grades={gradeOptions}
+          subjects={subjects}
+          teachers={teachers.map((t) => ({
+            id: t.id,
+            name: `${t.name} ${t.surname}`,
+          }))}
+          requirements={requirements}
+          unavailability={unavailability.map((u) => ({
+            id: u.id,
+            teacher: `${u.teacher.name} ${u.teacher.surname}`,
+            day: u.day,
+            period: u.period?.name ?? "whole day",
+          }))}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default TimetablePage;
@@ -0,0 +1,129 @@
+import Link from "next/link";
+import prisma from "@/lib/prisma";
+import { canMutate, getCurrentRole } from "@/lib/serverAuth";
+import WaitlistEntryActions from "@/components/WaitlistEntryActions";
+
+const formatDate = (date: Date) => new Intl.DateTimeFormat("en-UK").format(date);
+
+/**
+ * Class waitlists, first come first served. A seat that frees up is offered
+ * to the first student waiting and held until an admin enrols them or takes
+ * them off the list. See lib/capacity.ts.
+ */
+const WaitlistPage = async () => {
+  const role = await getCurrentRole();
+
+  if (!canMutate(role, "student")) {
+    return (
+      <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+        <h1 className="text-lg font-semibold">Class Waitlist</h1>
+        <p className="text-sm text-gray-500 mt-4">
+          Only admins can manage the waitlist.
+        </p>
+      </div>
+    );
+  }
+
+  const classes = await prisma.class.findMany({
+    where: { waitlist: { some: {} } },
+    select: {
+      id: true,
+      name: true,
+      capacity: true,
+      _count: { select: { students: { where: { status: "ACTIVE" } } } },
+      waitlist: {
+        include: {
+          student: {
+            select: {
+              name: true,
+              surname: true,
+              username: true,
+              status: true,
+              class: { select: { name: true } },
+            },
+          },
+        },
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      },
+    },
+    orderBy: { name: "asc" },
+  });
+
+  return (
+    /* TOP  CONTAINER*/
+    <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6 flex flex-col gap-8">
+      <div className="flex items-center justify-between gap-3">
+        <h1 className="text-lg font-semibold">Class Waitlist</h1>
+        <Link href="/list/classes" className="text-xs text-gray-500 underline">
+          Back to classes
+        </Link>
+      </div>
+
+      {classes.length === 0 && (
+        <p className="text-sm text-gray-500">
+          Nobody is waiting. Students join a waitlist when they are saved into
+          a full class.
+        </p>
+      )}
+
+      {classes.map((klass) => (
+        <section key={klass.id} className="flex flex-col gap-2">
+          <h2 className="text-sm font-semibold">
+            {klass.name}
+            <span className="text-gray-500 font-normal">
+              {" "}
+              · {klass._count.students}/{klass.capacity} enrolled
+            </span>
+          </h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500">
+                <th className="p-2 w-10">#</th>
+                <th className="p-2">Student</th>
+                <th className="p-2 hidden md:table-cell">Currently</th>
+                <th className="p-2 hidden md:table-cell">Waiting since</th>
+                <th className="p-2">Status</th>
+                <th className="p-2">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {klass.waitlist.map((entry, i) => (
+                <tr key={entry.id} className="border-b border-gray-200">
+                  <td className="p-2">{i + 1}</td>
+                  <td className="p-2">
+                    {entry.student.name} {entry.student.surname}
+                    <span className="block text-xs text-gray-500">
+                      {entry.student.username}
+                    </span>
+                  </td>
+                  <td className="p-2 hidden md:table-cell">
+                    {entry.student.status === "ACTIVE"
+                      ? entry.student.class.name
+                      : "Not placed"}
+                  </td>
+                  <td className="p-2 hidden md:table-cell">
+                    {formatDate(entry.createdAt)}
+                  </td>
+                  <td className="p-2">
+                    {entry.offeredAt ? (
+                      <span className="text-green-600">
+                        Seat offered {formatDate(entry.offeredAt)}
+                      </span>
+                    ) : (
+                      "Waiting"
+                    )}
+                  </td>
+                  <td className="p-2">
+                    <WaitlistEntryActions id={entry.id} offered={!!entry.offeredAt} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default WaitlistPage;
@@ -1,28 +1,54 @@
 import Announcements from "@/components/Announcements";
 import BigCalendar from "@/components/BigCalendar";
 import EventCalendar from "@/components/EventCalendar";
+import FeeBalance from "@/components/FeeBalance";
 import ParentChildrenOverview from "@/components/ParentChildrenOverview";
+import { getCurrentPerson } from "@/lib/serverAuth";
+import { getSchedulesFor } from "@/lib/schedule";
+
+const ParentPage = async () => {
+  const person = await getCurrentPerson();
+  const schedules = await getSchedulesFor(person);
 
-const ParentPage = () => {
   return (
     /* PAGE MAIN CONTAINER  */
     <div className=" flex-1 p-4 flex gap-4 flex-col xl:flex-row ">
       {/* LEFT  CONTAINER*/}
       <div className=" w-full xl:W-2/3 ">
-        <div className="h-screen bg-white bg-dark p-4 rounded-md dark:rounded-3xl ">
-          <h1 className=" text-xl font-semibold">Schedule (Joe Doe)</h1>
+        {/* One timetable per child */}
+        {schedules.map((schedule) => (
+          <div
+            key={`${schedule.calendar.id}-${schedule.label}`}
+            className="h-screen bg-white bg-dark p-4 rounded-md dark:rounded-3xl mb-4 "
+          >
+            <h1 className=" text-xl font-semibold">Schedule ({schedule.label})</h1>
 
-          <BigCalendar />
-        </div>
+            <BigCalendar {...schedule.calendar} />
+          </div>
+        ))}
+
+        {!schedules.length && (
+          <div className="bg-white bg-dark p-4 rounded-md dark:rounded-3xl ">
+            <h1 className=" text-xl font-semibold">Schedule</h1>
+            <p className=" text-sm text-gray-500 mt-4 ">
+              {person
+                ? "No children are linked to your account yet."
+                : "Your account is not linked to a school record yet."}
+            </p>
+          </div>
+        )}
 
         {/* Children overview: for each child show results */}
         <div className="mt-12 ">
-          <ParentChildrenOverview />
+          {person?.role === "parent" && (
+            <ParentChildrenOverview parentId={person.id} />
+          )}
         </div>
       </div>
 
       {/* RIGHT CONTAINER */}
       <div className=" w-full xl:w-1/3 flex flex-col gap-8 ">
+        {person?.role === "parent" && <FeeBalance parentId={person.id} />}
         <EventCalendar />
         <Announcements />
       </div>
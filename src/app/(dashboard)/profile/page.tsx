@@ -0,0 +1,205 @@
+import ProfileForm from "@/components/forms/ProfileForm";
+import Image from "next/image";
+import { currentUser } from "@clerk/nextjs/server";
+import prisma from "@/lib/prisma";
+import { getCurrentPerson, getCurrentRole } from "@/lib/serverAuth";
+
+type ProfileDetails = {
+  name: string;
+  img?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string;
+  // Extra rows such as class, subjects or children
+  facts: { label: string; value: string }[];
+  editable?: { phone?: string | null; address: string; img?: string | null };
+};
+
+/**
+ * Load the signed-in user's own record for their role.
+ * Returns null when the user is not linked to a record yet.
+ */
+const loadProfile = async (): Promise<ProfileDetails | null> => {
+  const person = await getCurrentPerson();
+  if (!person) return null;
+  const where = { id: person.id };
+
+  switch (person.role) {
+    case "teacher": {
+      const t = await prisma.teacher.findUnique({
+        where,
+        include: {
+          subjects: { select: { name: true } },
+          classes: { select: { name: true } },
+        },
+      });
+      if (!t) return null;
+      return {
+        name: `${t.name} ${t.surname}`,
+        img: t.img,
+        email: t.email,
+        phone: t.phone,
+        address: t.address,
+        facts: [
+          { label: "Username", value: t.username },
+          { label: "Subjects", value: t.subjects.map((s) => s.name).join(", ") || "-" },
+          { label: "Supervises", value: t.classes.map((c) => c.name).join(", ") || "-" },
+          { label: "Blood Type", value: t.bloodType },
+        ],
+        editable: { phone: t.phone, address: t.address, img: t.img },
+      };
+    }
+    case "student": {
+      const s = await prisma.student.findUnique({
+        where,
+        include: {
+          class: { select: { name: true } },
+          grade: { select: { level: true } },
+          parent: { select: { name: true, surname: true } },
+        },
+      });
+      if (!s) return null;
+      return {
+        name: `${s.name} ${s.surname}`,
+        img: s.img,
+        email: s.email,
+        phone: s.phone,
+        address: s.address,
+        facts: [
+          { label: "Username", value: s.username },
+          { label: "Class", value: s.class.name },
+          { label: "Grade", value: String(s.grade.level) },
+          { label: "Parent", value: `${s.parent.name} ${s.parent.surname}` },
+          { label: "Blood Type", value: s.bloodType },
+        ],
+        editable: { phone: s.phone, address: s.address, img: s.img },
+      };
+    }
+    case "parent": {
+      const p = await prisma.parent.findUnique({
+        where,
+        include: {
+          students: {
+            select: { name: true, surname: true, class: { select: { name: true } } },
+          },
+        },
+      });
+      if (!p) return null;
+      return {
+        name: `${p.name} ${p.surname}`,
+        email: p.email,
+        phone: p.phone,
+        address: p.address,
+        facts: [
+          { label: "Username", value: p.username },
+          {
+            label: "Children",
+            value:
+              p.students
+                .map((c) => `${c.name} ${c.surname} (${c.class.name})`)
+                .join(", ") || "-",
+          },
+        ],
+        editable: { phone: p.phone, address: p.address },
+      };
+    }
+    case "admin": {
+      return {
+        name: person.name,
+        facts: [{ label: "Username", value: person.name }],
+      };
+    }
+  }
+};
+
+const ProfilePage = async () => {
+  const [role, profile, user] = await Promise.all([
+    getCurrentRole(),
+    loadProfile(),
+    currentUser(),
+  ]);
+
+  if (!profile) {
+    return (
+      <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+        <h1 className="text-lg font-semibold">My Profile</h1>
+        <p className="text-sm text-gray-500 mt-4">
+          Your account is not linked to a school record yet. Ask an admin to
+          link it.
+        </p>
+      </div>
+    );
+  }
+
+  const email = profile.email ?? user?.primaryEmailAddress?.emailAddress;
+
+  return (
+    <div className=" flex-1 p-4 flex flex-col gap-4 ">
+      {/* USER INFO CARD */}
+      <div className=" bg-PatoSky py-6 px-4 rounded-2xl flex gap-4 ">
+        {/* USER IMAGE CONTAINER */}
+        <div className="w-1/3 max-w-[160px]">
+          <Image
+            src={profile.img || user?.imageUrl || "/avatar.png"}
+            alt="User Pic"
+            width={144}
+            height={144}
+            className=" w-36 h-36 object-cover rounded-full sng-pag-fx "
+          />
+        </div>
+
+        {/* USER INFO CONTAINER */}
+        <div className="flex-1 flex flex-col justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold">{profile.name}</h1>
+            <span className="text-sm text-gray-500 capitalize">{role}</span>
+          </div>
+
+          {/* INFO ICONS AND TEXT */}
+          <div className="flex items-center gap-4 flex-wrap text-xs font-medium">
+            {email && (
+              <div className="flex items-center gap-2">
+                <Image src="/mail.png" alt="" width={14} height={14} />
+                <span>{email}</span>
+              </div>
+            )}
+            {profile.phone && (
+              <div className="flex items-center gap-2">
+                <Image src="/phone.png" alt="" width={14} height={14} />
+                <span>{profile.phone}</span>
+              </div>
+            )}
+            {profile.address && (
+              <div className="flex items-center gap-2">
+                <Image src="/home.png" alt="" width={14} height={14} />
+                <span>{profile.address}</span>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* DETAILS */}
+      <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl">
+        <h1 className="text-lg font-semibold">Details</h1>
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4 text-sm">
+          {profile.facts.map((fact) => (
+            <div key={fact.label} className="flex flex-col">
+              <dt className="text-xs text-gray-400">{fact.label}</dt>
+              <dd>{fact.value}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      {/* EDIT OWN FIELDS */}
+      {profile.editable && (
+        <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl">
+          <ProfileForm data={profile.editable} allowPhoto={role !== "parent"} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfilePage;
@@ -0,0 +1,15 @@
+import SettingsForm from "@/components/forms/SettingsForm";
+import { getMyPreferences } from "@/lib/accountActions";
+
+const SettingsPage = async () => {
+  const preferences = await getMyPreferences();
+
+  return (
+    <div className="bg-white bg-dark-2 p-4 rounded-md dark:rounded-3xl flex-1 mx-4 my-4 md:mx-0 md:my-0 md:p-6">
+      <h1 className="text-lg font-semibold mb-6">Settings</h1>
+      <SettingsForm data={preferences} />
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -2,22 +2,35 @@ import Announcements from "@/components/Announcements";
 import BigCalendar from "@/components/BigCalendar";
 import EventCalendar from "@/components/EventCalendar";
 import ResultSheet from "@/components/ResultSheet";
+import { getCurrentPerson } from "@/lib/serverAuth";
+import { getSchedulesFor } from "@/lib/schedule";
+
+const StudentPage = async () => {
+  const person = await getCurrentPerson();
+  const [schedule] = await getSchedulesFor(person);
 
-const StudentPage = () => {
   return (
     /* PAGE MAIN CONTAINER  */
     <div className=" flex-1 p-4 flex gap-4 flex-col xl:flex-row">
       {/* LEFT  CONTAINER*/}
       <div className=" w-full xl:W-2/3 ">
         <div className="bg-white bg-dark p-4 rounded-md dark:rounded-3xl h-screen ">
-          <h1 className=" text-xl font-semibold">Schedule (JSS1)</h1>
+          <h1 className=" text-xl font-semibold">
+            Schedule{schedule ? ` (${schedule.label})` : ""}
+          </h1>
 
-          <BigCalendar />
+          {schedule ? (
+            <BigCalendar {...schedule.calendar} />
+          ) : (
+            <p className=" text-sm text-gray-500 mt-4 ">
+              Your account is not linked to a school record yet.
+            </p>
+          )}
         </div>
 
         {/* Result Sheet for student */}
         <div className="mt-12">
-          <ResultSheet />
+          {person?.role === "student" && <ResultSheet studentId={person.id} />}
         </div>
       </div>
 
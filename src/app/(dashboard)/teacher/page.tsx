@@ -1,8 +1,12 @@
 import Announcements from "@/components/Announcements";
 import BigCalendar from "@/components/BigCalendar";
 import EventCalendar from "@/components/EventCalendar";
+import { getCurrentPerson } from "@/lib/serverAuth";
+import { getSchedulesFor } from "@/lib/schedule";
+
+const TeacherPage = async () => {
+  const [schedule] = await getSchedulesFor(await getCurrentPerson());
 
-const TeacherPage = () => {
   return (
     /* PAGE MAIN CONTAINER  */
     <div className=" flex-1 p-4 flex gap-4 flex-col xl:flex-row">
@@ -11,7 +15,13 @@ const TeacherPage = () => {
         <div className="h-full max-xl:h-screen bg-white bg-dark p-4 rounded-md dark:rounded-3xl ">
           <h1 className=" text-xl font-semibold">Schedule</h1>
 
-          <BigCalendar />
+          {schedule ? (
+            <BigCalendar {...schedule.calendar} />
+          ) : (
+            <p className=" text-sm text-gray-500 mt-4 ">
+              Your account is not linked to a school record yet.
+            </p>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,106 @@
+"use client";
+
+import { useRouter, useSearchParams } from "next/navigation";
+
+type Option = { value: string | number; label: string };
+
+/**
+ * AttendanceFilters
+ * Class / student / date-range filters for the attendance list. Like
+ * TableSearch, it only rewrites the URL query; the server page reads the
+ * params and builds the Prisma where-clause. Changing a filter resets the
+ * page back to 1.
+ */
+const AttendanceFilters = ({
+  classes,
+  students,
+}: {
+  classes: Option[];
+  students: (Option & { classId: number })[];
+}) => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const classId = searchParams?.get("classId") ?? "";
+
+  const setParam = (key: string, value: string) => {
+    const params = new URLSearchParams(window.location.search);
+    if (value) params.set(key, value);
+    else params.delete(key);
+    params.delete("page");
+
+    // A student from another class would always return nothing
+    if (key === "classId") params.delete("studentId");
+
+    router.push(`${window.location.pathname}?${params.toString()}`);
+  };
+
+  // Once a class is picked, only offer its students
+  const studentOptions = classId
+    ? students.filter((s) => s.classId === Number(classId))
+    : students;
+
+  const fieldClass =
+    " ring-[1.5px] ring-gray-300 p-2 rounded-md text-xs bg-transparent ";
+
+  return (
+    <div className=" flex flex-wrap items-end gap-3 mt-4 ">
+      { /* CLASS */ }
+      <label className=" flex flex-col gap-1 text-xs text-gray-500 ">
+        Class
+        <select
+          className={fieldClass}
+          value={classId}
+          onChange={(e) => setParam("classId", e.target.value)}
+        >
+          <option value="">All classes</option>
+          {classes.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      { /* STUDENT */ }
+      <label className=" flex flex-col gap-1 text-xs text-gray-500 ">
+        Student
+        <select
+          className={fieldClass}
+          value={searchParams?.get("studentId") ?? ""}
+          onChange={(e) => setParam("studentId", e.target.value)}
+        >
+          <option value="">All students</option>
+          {studentOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      { /* DATE RANGE */ }
+      <label className=" flex flex-col gap-1 text-xs text-gray-500 ">
+        From
+        <input
+          type="date"
+          className={fieldClass}
+          value={searchParams?.get("from") ?? ""}
+          onChange={(e) => setParam("from", e.target.value)}
+        />
+      </label>
+
+      <label className=" flex flex-col gap-1 text-xs text-gray-500 ">
+        To
+        <input
+          type="date"
+          className={fieldClass}
+          value={searchParams?.get("to") ?? ""}
+          onChange={(e) => setParam("to", e.target.value)}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default AttendanceFilters;
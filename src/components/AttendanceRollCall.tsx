@@ -0,0 +1,189 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { saveAttendance } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
+
+type LessonOption = {
+  id: number;
+  name: string;
+  day: string;
+  subject: string;
+  className: string;
+};
+
+type RosterEntry = {
+  id: string;
+  name: string;
+  surname: string;
+  present: boolean; // saved mark, or the default for a new roll call
+};
+
+/**
+ * AttendanceRollCall
+ * Teacher roll-call screen. The lesson and date live in the URL so the
+ * server page can load that lesson's class roster and any marks already
+ * saved for the day; this component only keeps the present/absent toggles
+ * and submits them in one `saveAttendance` call.
+ */
+const AttendanceRollCall = ({
+  lessons,
+  lessonId,
+  date,
+  roster,
+  alreadyTaken,
+}: {
+  lessons: LessonOption[];
+  lessonId?: number;
+  date: string; // YYYY-MM-DD
+  roster: RosterEntry[];
+  alreadyTaken: boolean;
+}) => {
+  const router = useRouter();
+  const [marks, setMarks] = useState<Record<string, boolean>>(() =>
+    Object.fromEntries(roster.map((s) => [s.id, s.present]))
+  );
+  const [pending, setPending] = useState(false);
+
+  const setParam = (key: string, value: string) => {
+    const params = new URLSearchParams(window.location.search);
+    if (value) params.set(key, value);
+    else params.delete(key);
+    router.push(`${window.location.pathname}?${params.toString()}`);
+  };
+
+  const markAll = (present: boolean) =>
+    setMarks(Object.fromEntries(roster.map((s) => [s.id, present])));
+
+  const onSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!lessonId) return;
+
+    setPending(true);
+    const state = await saveAttendance({
+      lessonId,
+      date,
+      records: roster.map((s) => ({ studentId: s.id, present: !!marks[s.id] })),
+    });
+    setPending(false);
+
+    handleActionResult(state, { onSuccess: () => router.refresh() });
+  };
+
+  const presentCount = roster.filter((s) => marks[s.id]).length;
+  const fieldClass =
+    " ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm bg-transparent ";
+
+  return (
+    <div className=" flex flex-col gap-6 mt-4 ">
+      { /* LESSON AND DATE PICKERS */ }
+      <div className=" flex flex-wrap items-end gap-4 ">
+        <label className=" flex flex-col gap-2 text-xs text-gray-500 ">
+          Lesson
+          <select
+            className={fieldClass}
+            value={lessonId ?? ""}
+            onChange={(e) => setParam("lessonId", e.target.value)}
+          >
+            <option value="">Select a lesson</option>
+            {lessons.map((lesson) => (
+              <option key={lesson.id} value={lesson.id}>
+                {`${lesson.subject} - ${lesson.className} (${lesson.name}, ${lesson.day})`}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className=" flex flex-col gap-2 text-xs text-gray-500 ">
+          Date
+          <input
+            type="date"
+            className={fieldClass}
+            value={date}
+            onChange={(e) => setParam("date", e.target.value)}
+          />
+        </label>
+      </div>
+
+      {!lessonId ? (
+        <p className=" text-sm text-gray-500 ">
+          Pick one of your lessons to load its class roster.
+        </p>
+      ) : roster.length === 0 ? (
+        <p className=" text-sm text-gray-500 ">
+          This lesson&apos;s class has no students yet.
+        </p>
+      ) : (
+        <form onSubmit={onSubmit} className=" flex flex-col gap-4 ">
+          { /* BULK ACTIONS */ }
+          <div className=" flex flex-wrap items-center justify-between gap-3 ">
+            <span className=" text-sm text-gray-500 ">
+              {presentCount}/{roster.length} present
+              {alreadyTaken && " · editing a saved roll call"}
+            </span>
+
+            <div className=" flex gap-2 ">
+              <button
+                type="button"
+                onClick={() => markAll(true)}
+                className=" py-1 px-3 rounded-md text-xs bg-PatoSky "
+              >
+                All present
+              </button>
+              <button
+                type="button"
+                onClick={() => markAll(false)}
+                className=" py-1 px-3 rounded-md text-xs bg-slate-200 "
+              >
+                All absent
+              </button>
+            </div>
+          </div>
+
+          { /* ROSTER */ }
+          <ul className=" flex flex-col divide-y divide-gray-200 ">
+            {roster.map((student) => (
+              <li
+                key={student.id}
+                className=" flex items-center justify-between py-2 text-sm "
+              >
+                <span>{student.name + " " + student.surname}</span>
+
+                <div className=" flex gap-2 ">
+                  <button
+                    type="button"
+                    onClick={() => setMarks((m) => ({ ...m, [student.id]: true }))}
+                    className={`py-1 px-3 rounded-md text-xs ${
+                      marks[student.id] ? "bg-green-500 text-white" : "bg-slate-200"
+                    }`}
+                  >
+                    Present
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setMarks((m) => ({ ...m, [student.id]: false }))}
+                    className={`py-1 px-3 rounded-md text-xs ${
+                      !marks[student.id] ? "bg-red-500 text-white" : "bg-slate-200"
+                    }`}
+                  >
+                    Absent
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <button
+            disabled={pending}
+            className=" bg-blue-400 text-white p-2 rounded-md w-max self-end disabled:opacity-50 "
+          >
+            {pending ? "Saving..." : "Save Attendance"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default AttendanceRollCall;
@@ -1,37 +1,43 @@
-"use client"
-import { Calendar, momentLocalizer, View, Views } from 'react-big-calendar'
-import moment from 'moment'
-import { calendarEvents } from '@/lib/data'
-import "react-big-calendar/lib/css/react-big-calendar.css"
-import { useState } from 'react'
+import prisma from "@/lib/prisma";
+import BigCalendarView from "@/components/BigCalendarView";
 
-const localizer = momentLocalizer(moment);
+export type BigCalendarProps =
+  | { type: "teacherId"; id: string }
+  | { type: "classId"; id: number };
 
-const BigCalendar = () => {
-  const [view, setView] = useState<View>(Views.WORK_WEEK);
-
-  const handleOnChangeView = (selectedView: View) => {
-    setView(selectedView);
-  };
+/**
+ * BigCalendar
+ * Weekly timetable for one teacher (`type="teacherId"`) or one class
+ * (`type="classId"`), built from their Lesson records. Each slot shows the
+ * subject, class and teacher.
+ */
+const BigCalendar = async ({ type, id }: BigCalendarProps) => {
+  const lessons = await prisma.lesson.findMany({
+    where: type === "teacherId" ? { teacherId: id } : { classId: id },
+    select: {
+      id: true,
+      day: true,
+      startTime: true,
+      endTime: true,
+      subject: { select: { name: true } },
+      class: { select: { name: true } },
+      teacher: { select: { name: true, surname: true } },
+    },
+  });
 
   return (
-    <Calendar
-      localizer={localizer}
-
-      /* VIEW SUBJECTS ON CALENDAR*/
-      events={calendarEvents}
-      startAccessor="start"
-      endAccessor="end"
-      views={["work_week", "day"]}
-      view={view}
-      style={{ height: "98%" }}
-      onView={handleOnChangeView}
-
-      /* SET SCHOOL START HOUR AND CLOSING HOUR*/
-      min={new Date(2025, 1, 0, 8, 0, 0)}
-      max={new Date(2025, 1, 0, 17, 0, 0)}
+    <BigCalendarView
+      lessons={lessons.map((lesson) => ({
+        id: lesson.id,
+        day: lesson.day,
+        startTime: lesson.startTime,
+        endTime: lesson.endTime,
+        subject: lesson.subject.name,
+        className: lesson.class.name,
+        teacher: `${lesson.teacher.name} ${lesson.teacher.surname}`,
+      }))}
     />
   );
-}
+};
 
-export default BigCalendar;
\ No newline at end of file
+export default BigCalendar;
@@ -0,0 +1,86 @@
+"use client"
+import { Calendar, EventProps, momentLocalizer, View, Views } from 'react-big-calendar'
+import moment from 'moment'
+import "react-big-calendar/lib/css/react-big-calendar.css"
+import { useEffect, useState } from 'react'
+import { Day } from '@prisma/client'
+import { toCurrentWeek } from '@/lib/utils'
+import { SCHOOL_DAY } from '@/lib/settings'
+
+const localizer = momentLocalizer(moment);
+
+// A weekly Lesson slot as loaded by BigCalendar
+export type ScheduleLesson = {
+  id: number
+  day: Day
+  startTime: Date
+  endTime: Date
+  subject: string
+  className: string
+  teacher: string
+}
+
+type ScheduleEvent = {
+  title: string
+  start: Date
+  end: Date
+  lesson: ScheduleLesson
+}
+
+/* SLOT CONTENT: subject, class and teacher */
+const LessonEvent = ({ event }: EventProps<ScheduleEvent>) => (
+  <div className="flex flex-col text-xs leading-tight">
+    <span className="font-semibold">{event.lesson.subject}</span>
+    <span>{event.lesson.className}</span>
+    <span className="opacity-80">{event.lesson.teacher}</span>
+  </div>
+);
+
+/**
+ * BigCalendarView
+ * Client side of BigCalendar: shows weekly lessons on the current work week.
+ * Lessons repeat every week, so each one is placed on this week's date for
+ * its `day` in the browser's time zone (after mount, so the server render
+ * never guesses the wrong zone).
+ */
+const BigCalendarView = ({ lessons }: { lessons: ScheduleLesson[] }) => {
+  const [view, setView] = useState<View>(Views.WORK_WEEK);
+  const [events, setEvents] = useState<ScheduleEvent[]>([]);
+
+  useEffect(() => {
+    setEvents(
+      lessons.map((lesson) => ({
+        title: `${lesson.subject} (${lesson.className})`,
+        start: toCurrentWeek(lesson.day, new Date(lesson.startTime)),
+        end: toCurrentWeek(lesson.day, new Date(lesson.endTime)),
+        lesson,
+      }))
+    );
+  }, [lessons]);
+
+  const handleOnChangeView = (selectedView: View) => {
+    setView(selectedView);
+  };
+
+  return (
+    <Calendar
+      localizer={localizer}
+
+      /* VIEW SUBJECTS ON CALENDAR*/
+      events={events}
+      startAccessor="start"
+      endAccessor="end"
+      components={{ event: LessonEvent }}
+      views={["work_week", "day"]}
+      view={view}
+      style={{ height: "98%" }}
+      onView={handleOnChangeView}
+
+      /* SET SCHOOL START HOUR AND CLOSING HOUR*/
+      min={new Date(2025, 1, 0, 0, SCHOOL_DAY.start, 0)}
+      max={new Date(2025, 1, 0, 0, SCHOOL_DAY.end, 0)}
+    />
+  );
+}
+
+export default BigCalendarView;
@@ -0,0 +1,188 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { FaPen, FaTimes } from "react-icons/fa";
+import InputField from "./InputField";
+import { newThreadSchema } from "@/lib/formValidationSchemas";
+import { findMessageRecipients, startThread } from "@/lib/messageActions";
+import { handleActionResult } from "@/lib/formActionResult";
+import type { Participant } from "@/lib/messages";
+
+type Recipient = Participant & { detail?: string };
+
+/**
+ * ComposeMessage
+ * "New message" button + dialog for the inbox. The recipient box searches
+ * the Teacher/Parent/Student (and Admin) tables through a server action,
+ * which only returns people the signed-in user is allowed to message.
+ */
+const ComposeMessage = () => {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [results, setResults] = useState<Recipient[]>([]);
+  const [recipient, setRecipient] = useState<Recipient | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    setError,
+    reset,
+    resetField,
+    formState: { errors, isSubmitting },
+  } = useForm({
+    resolver: zodResolver(newThreadSchema),
+  });
+
+  // Debounced recipient search
+  useEffect(() => {
+    if (recipient || search.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      setResults(await findMessageRecipients(search));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search, recipient]);
+
+  const pickRecipient = (r: Recipient | null) => {
+    setRecipient(r);
+    if (r) {
+      setValue("recipientId", r.id);
+      setValue("recipientRole", r.role);
+    } else {
+      resetField("recipientId");
+      resetField("recipientRole");
+      setSearch("");
+    }
+  };
+
+  const close = () => {
+    setOpen(false);
+    pickRecipient(null);
+    reset();
+  };
+
+  const onSubmit = handleSubmit(async (formData) => {
+    const state = await startThread(formData);
+
+    handleActionResult(state, {
+      setError,
+      onSuccess: () => {
+        close();
+        router.push(`/list/messages/${state.threadId}`);
+      },
+    });
+  });
+
+  return (
+    <>
+      <button
+        className=" w-8 h-8 flex items-center justify-center rounded-full bg-PatoYellow "
+        title="New message"
+        onClick={() => setOpen(true)}
+      >
+        <FaPen className="text-gray-600" size={14} />
+      </button>
+
+      {open && (
+        <div
+          role="dialog"
+          aria-modal="true"
+          className="fixed inset-0 z-[9999] flex items-center justify-center bg-black bg-opacity-60"
+        >
+          <div className="relative w-[95%] sm:w-[90%] md:w-[70%] lg:w-[60%] xl:w-[50%] 2xl:w-[40%] bg-white bg-dark-2 p-7 rounded-2xl dark:rounded-3xl max-h-[90vh] overflow-auto">
+            <form className=" flex flex-col gap-6 " onSubmit={onSubmit}>
+              <h1 className="text-xl font-semibold">New Message</h1>
+
+              { /* RECIPIENT SEARCH */ }
+              <div className=" flex flex-col gap-2 ">
+                <label className=" text-xs text-gray-500 ">To</label>
+
+                {recipient ? (
+                  <div className=" flex items-center justify-between ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm ">
+                    <span>
+                      {recipient.name}{" "}
+                      <span className=" text-xs text-gray-400 capitalize ">
+                        ({recipient.role}
+                        {recipient.detail ? `, ${recipient.detail}` : ""})
+                      </span>
+                    </span>
+                    <button type="button" onClick={() => pickRecipient(null)} aria-label="Change recipient">
+                      <FaTimes size={12} />
+                    </button>
+                  </div>
+                ) : (
+                  <input
+                    type="text"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search teachers, parents, students..."
+                    className=" ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full bg-transparent "
+                  />
+                )}
+
+                {!recipient && results.length > 0 && (
+                  <ul className=" ring-[1.5px] ring-gray-200 rounded-md divide-y divide-gray-200 text-sm ">
+                    {results.map((r) => (
+                      <li key={`${r.role}-${r.id}`}>
+                        <button
+                          type="button"
+                          onClick={() => pickRecipient(r)}
+                          className=" w-full text-left p-2 hover:bg-PatoSky/30 "
+                        >
+                          {r.name}{" "}
+                          <span className=" text-xs text-gray-400 capitalize ">
+                            ({r.role}
+                            {r.detail ? `, ${r.detail}` : ""})
+                          </span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <input type="hidden" {...register("recipientId")} />
+                <input type="hidden" {...register("recipientRole")} />
+
+                {errors.recipientId?.message && (
+                  <p className=" text-xs text-red-400">{errors.recipientId.message.toString()}</p>
+                )}
+              </div>
+
+              <InputField label="Subject" name="subject" register={register} error={errors.subject} />
+
+              { /* MESSAGE BODY */ }
+              <div className=" flex flex-col gap-2 ">
+                <label className=" text-xs text-gray-500 ">Message</label>
+                <textarea
+                  rows={5}
+                  {...register("body")}
+                  className=" ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full bg-transparent "
+                />
+                {errors.body?.message && (
+                  <p className=" text-xs text-red-400">{errors.body.message.toString()}</p>
+                )}
+              </div>
+
+              <button disabled={isSubmitting} className="bg-blue-400 text-white p-2 rounded-md disabled:opacity-50">
+                {isSubmitting ? "Sending..." : "Send"}
+              </button>
+            </form>
+
+            <button aria-label="Close modal" className="absolute top-4 right-4 " onClick={close}>
+              <FaTimes size={18} title="close" />
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ComposeMessage;
@@ -0,0 +1,183 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { FaFileImport, FaTimes } from "react-icons/fa";
+import { commitImport, previewImport } from "@/lib/importActions";
+import type { ImportPreview, ImportRow, ImportTable } from "@/lib/csvImport";
+
+// Example header per table, shown in the dialog
+const TEMPLATES: Record<ImportTable, string> = {
+  student:
+    "username,name,surname,email,phone,address,sex,bloodType,birthday,class,parentPhone",
+  teacher:
+    "username,name,surname,email,phone,address,sex,bloodType,birthday,subjects",
+  parent: "username,name,surname,email,phone,address",
+};
+
+const ACTION_STYLES: Record<ImportRow["action"], string> = {
+  create: "bg-green-100 text-green-700",
+  update: "bg-blue-100 text-blue-700",
+  error: "bg-red-100 text-red-700",
+};
+
+/**
+ * CsvImport
+ * "Import CSV" button + dialog for the students, teachers and parents list
+ * pages. Choosing a file runs a dry run on the server and lists every row as
+ * create / update / error; the import button is only enabled when no row has
+ * errors. See lib/csvImport.ts for the accepted columns.
+ */
+const CsvImport = ({ table }: { table: ImportTable }) => {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState("");
+  const [csvText, setCsvText] = useState("");
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const close = () => {
+    setOpen(false);
+    setFileName("");
+    setCsvText("");
+    setPreview(null);
+  };
+
+  const onFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // allow picking the same file again after editing it
+    if (!file) return;
+
+    const text = await file.text();
+    setFileName(file.name);
+    setCsvText(text);
+    setPreview(null);
+
+    setBusy(true);
+    const state = await previewImport(table, text);
+    setBusy(false);
+
+    if (state.preview) setPreview(state.preview);
+    else toast.error(state.message ?? "Could not read the file.");
+  };
+
+  const onImport = async () => {
+    setBusy(true);
+    const state = await commitImport(table, csvText);
+    setBusy(false);
+
+    if (state.success) {
+      toast.success(state.message ?? "Imported!");
+      close();
+      router.refresh();
+    } else {
+      toast.error(state.message ?? "Import failed.");
+    }
+  };
+
+  const canImport =
+    !!preview && !preview.errors && preview.creates + preview.updates > 0;
+
+  return (
+    <>
+      <button
+        className=" w-8 h-8 flex items-center justify-center rounded-full bg-PatoYellow "
+        title="Import CSV"
+        onClick={() => setOpen(true)}
+      >
+        <FaFileImport className="text-gray-600" size={14} />
+      </button>
+
+      {open && (
+        <div
+          role="dialog"
+          aria-modal="true"
+          className="fixed inset-0 z-[9999] flex items-center justify-center bg-black bg-opacity-60"
+        >
+          <div className="relative w-[95%] sm:w-[90%] md:w-[80%] lg:w-[70%] xl:w-[60%] bg-white bg-dark-2 p-7 rounded-2xl dark:rounded-3xl max-h-[90vh] overflow-auto">
+            <div className=" flex flex-col gap-6 ">
+              <h1 className="text-xl font-semibold capitalize">Import {table}s</h1>
+
+              { /* FILE PICKER */ }
+              <div className=" flex flex-col gap-2 ">
+                <label className=" text-xs text-gray-500 ">CSV file</label>
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={onFile}
+                  disabled={busy}
+                  className=" ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full bg-transparent "
+                />
+                <p className=" text-xs text-gray-400 break-all ">
+                  Columns: {TEMPLATES[table]}. Existing usernames are updated.
+                </p>
+              </div>
+
+              {busy && <p className=" text-sm text-gray-500 ">Working...</p>}
+
+              { /* DRY RUN RESULT */ }
+              {preview && (
+                <div className=" flex flex-col gap-3 ">
+                  <p className=" text-sm ">
+                    <span className="font-semibold">{fileName}</span>:{" "}
+                    {preview.creates} to create, {preview.updates} to update,{" "}
+                    <span className={preview.errors ? "text-red-500" : ""}>
+                      {preview.errors} with errors
+                    </span>
+                  </p>
+
+                  <table className=" w-full text-sm ">
+                    <thead>
+                      <tr className=" text-left text-xs text-gray-500 ">
+                        <th className=" p-2 ">Line</th>
+                        <th className=" p-2 ">Username</th>
+                        <th className=" p-2 ">Name</th>
+                        <th className=" p-2 ">Action</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.rows.map((row) => (
+                        <tr key={row.line} className=" border-b border-gray-200 align-top ">
+                          <td className=" p-2 ">{row.line}</td>
+                          <td className=" p-2 ">{row.username}</td>
+                          <td className=" p-2 ">{row.name}</td>
+                          <td className=" p-2 ">
+                            <span className={`py-1 px-2 rounded-full text-xs ${ACTION_STYLES[row.action]}`}>
+                              {row.action}
+                            </span>
+                            {row.errors.map((error) => (
+                              <p key={error} className=" text-xs text-red-400 mt-1 ">
+                                {error}
+                              </p>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <button
+                onClick={onImport}
+                disabled={busy || !canImport}
+                className="bg-blue-400 text-white p-2 rounded-md disabled:opacity-50"
+              >
+                {preview?.errors
+                  ? "Fix the errors and choose the file again"
+                  : `Import ${preview ? preview.creates + preview.updates : 0} rows`}
+              </button>
+            </div>
+
+            <button aria-label="Close modal" className="absolute top-4 right-4 " onClick={close}>
+              <FaTimes size={18} title="close" />
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default CsvImport;
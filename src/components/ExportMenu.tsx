@@ -0,0 +1,59 @@
+"use client";
+
+import { useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { FaFileExport } from "react-icons/fa";
+import type { ExportTable } from "@/lib/listExports";
+
+/**
+ * ExportMenu
+ * Download button for list pages (see ListHeader `exportTable`). Forwards
+ * the page's current URL filters to `/api/export/[table]`, which runs the
+ * same query without pagination, and offers CSV or Excel.
+ */
+const ExportMenu = ({ table }: { table: ExportTable }) => {
+  const searchParams = useSearchParams();
+  const [open, setOpen] = useState(false);
+
+  const href = (format: "csv" | "xlsx") => {
+    const params = new URLSearchParams(searchParams?.toString());
+    params.delete("page");
+    params.set("format", format);
+    return `/api/export/${table}?${params.toString()}`;
+  };
+
+  return (
+    <div className="relative">
+      <button
+        className=" w-8 h-8 flex items-center justify-center rounded-full bg-PatoYellow "
+        title="Export"
+        onClick={() => setOpen((o) => !o)}
+      >
+        <FaFileExport className="text-gray-600" size={14} />
+      </button>
+
+      {open && (
+        <div className=" absolute right-0 top-10 z-20 flex flex-col min-w-[140px] bg-white bg-dark-2 rounded-md shadow-md ring-[1.5px] ring-gray-200 text-sm overflow-hidden ">
+          <a
+            href={href("csv")}
+            download
+            onClick={() => setOpen(false)}
+            className=" px-3 py-2 hover:bg-PatoSky/30 "
+          >
+            CSV (.csv)
+          </a>
+          <a
+            href={href("xlsx")}
+            download
+            onClick={() => setOpen(false)}
+            className=" px-3 py-2 hover:bg-PatoSky/30 "
+          >
+            Excel (.xlsx)
+          </a>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,43 @@
+import Link from "next/link";
+import prisma from "@/lib/prisma";
+import { formatMoney, getBalances } from "@/lib/fees";
+
+// For the signed-in parent: what is still owed in fees, per child
+const FeeBalance = async ({ parentId }: { parentId: string }) => {
+  const children = await prisma.student.findMany({
+    where: { parentId },
+    select: { id: true, name: true },
+    orderBy: { name: "asc" },
+  });
+  const balances = await getBalances(children.map((c) => c.id));
+  const owed = Array.from(balances.values()).reduce((sum, b) => sum + b.balance, 0);
+
+  return (
+    <div className="bg-white bg-dark p-4 rounded-md dark:rounded-3xl">
+      <div className="flex items-center justify-between">
+        <h1 className="text-xl font-semibold">My Balance</h1>
+        <Link href="/list/invoices" className="text-xs text-gray-400">
+          View All
+        </Link>
+      </div>
+
+      <p
+        className={`text-2xl font-semibold mt-4 ${owed ? "text-red-500" : "text-green-600"}`}
+      >
+        {formatMoney(owed)}
+      </p>
+      <p className="text-xs text-gray-500">outstanding in school fees</p>
+
+      <div className="flex flex-col gap-1 mt-4 text-sm">
+        {children.map((child) => (
+          <div key={child.id} className="flex justify-between">
+            <span>{child.name}</span>
+            <span>{formatMoney(balances.get(child.id)?.balance ?? 0)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FeeBalance;
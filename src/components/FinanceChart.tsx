@@ -2,71 +2,12 @@
 import { FaEllipsisH } from "react-icons/fa";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
-const data = [
-  {
-    name: 'Jan',
-    income: 4000,
-    expense: 2400,
-  },
-  {
-    name: 'Feb',
-    income: 3000,
-    expense: 1398,
-  },
-  {
-    name: 'Mar',
-    income: 2000,
-    expense: 9800,
-  },
-  {
-    name: 'Apr',
-    income: 2780,
-    expense: 3908,
-  },
-  {
-    name: 'May',
-    income: 1890,
-    expense: 4800,
-  },
-  {
-    name: 'Jun',
-    income: 2390,
-    expense: 3800,
-  },
-  {
-    name: 'Jul',
-    income: 3490,
-    expense: 4300,
-  },
-  {
-    name: 'Aug',
-    income: 3490,
-    expense: 4300,
-  },
-  {
-    name: 'Sep',
-    income: 3490,
-    expense: 4300,
-  },
-  {
-    name: 'Oct',
-    income: 3490,
-    expense: 4300,
-  },
-  {
-    name: 'Nov',
-    income: 3490,
-    expense:4300,
-  },
-  {
-    name: 'Dec',
-    income: 3490,
-    expense: 4300,
-  },
-];
+// Fee income per month (naira), from lib/fees.ts `monthlyIncome`
+type FinanceChartProps = {
+  data: { name: string; income: number }[];
+};
 
-
-const FinanceChart = () => {
+const FinanceChart = ({ data }: FinanceChartProps) => {
   return (
     /* FINANCE CHART */ 
     <div className='bg-white rounded-2xl dark:rounded-3xl w-full h-full p-4 bg-dark '>
@@ -99,12 +40,6 @@ const FinanceChart = () => {
           dataKey="income" 
           stroke="#C3EBFA" 
           strokeWidth={5} />
-          <Line 
-          type="monotone" 
-          dataKey="expense" 
-          stroke="#fae27c" 
-          strokeWidth={5}
-          />
         </LineChart>
     </ResponsiveContainer>
 
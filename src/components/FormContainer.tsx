@@ -0,0 +1,260 @@
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import FormModal from "./FormModal";
+import { termLabel } from "@/lib/terms";
+import { getCurrentPerson, getCurrentRole } from "@/lib/serverAuth";
+
+/**
+ * FormContainer
+ * Server wrapper around FormModal. Create/update forms need option lists
+ * (classes, teachers, lessons...) for their selects, so this component loads
+ * them from the database before handing off to the client-side modal.
+ * Delete buttons need no related data and skip the queries entirely.
+ */
+export type FormContainerProps = {
+  table:
+    | "teacher"
+    | "student"
+    | "parent"
+    | "subject"
+    | "class"
+    | "lesson"
+    | "exam"
+    | "assignment"
+    | "result"
+    | "attendance"
+    | "event"
+    | "announcement"
+    | "academicYear"
+    | "term"
+    | "gradingScheme"
+    | "assessmentComponent"
+    | "feeStructure"
+    | "invoice"
+    | "payment"
+    | "liveSession";
+  type: "create" | "update" | "delete";
+  data?: any;
+  id?: number | string;
+};
+
+// Clerk login accounts with the given role, for the "Login Account" select
+// on person forms (admin-assigned link, see lib/personLink.ts)
+const userOptions = (role: "teacher" | "student" | "parent") =>
+  prisma.user.findMany({
+    where: { role },
+    select: { id: true, email: true },
+    orderBy: { email: "asc" },
+  });
+
+// The lessons the signed-in user may set exams, assignments and live
+// sessions for: a teacher's own, or every lesson for admins (the same scope
+// the actions enforce)
+const ownLessons = async (): Promise<Prisma.LessonWhereInput> => {
+  const role = await getCurrentRole();
+  if (role !== "teacher") return {};
+  const person = await getCurrentPerson();
+  return { teacherId: person?.id ?? "" };
+};
+
+// Lessons are shown as "Subject - Class (Lesson)" in exam/assignment and
+// live session selects
+const lessonOptions = async () =>
+  prisma.lesson.findMany({
+    where: await ownLessons(),
+    select: {
+      id: true,
+      name: true,
+      subject: { select: { name: true } },
+      class: { select: { name: true } },
+    },
+    orderBy: { id: "asc" },
+  });
+
+// Assessment components as "Maths · 2025/26 First Term · CA1 (20%, /20)"
+const componentOptions = async () => {
+  const components = await prisma.assessmentComponent.findMany({
+    include: {
+      subject: { select: { name: true } },
+      term: { include: { academicYear: { select: { name: true } } } },
+    },
+    orderBy: [{ term: { startDate: "desc" } }, { subject: { name: "asc" } }],
+  });
+  return components.map((component) => ({
+    id: component.id,
+    label: `${component.subject.name} · ${termLabel(component.term)} · ${component.name} (${component.weight}%, /${component.maxScore})`,
+  }));
+};
+
+const FormContainer = async ({ table, type, data, id }: FormContainerProps) => {
+  let relatedData = {};
+
+  if (type !== "delete") {
+    switch (table) {
+      case "subject": {
+        const teachers = await prisma.teacher.findMany({
+          select: { id: true, name: true, surname: true },
+        });
+        relatedData = { teachers };
+        break;
+      }
+      case "class": {
+        const [grades, teachers] = await prisma.$transaction([
+          prisma.grade.findMany({ select: { id: true, level: true } }),
+          prisma.teacher.findMany({
+            select: { id: true, name: true, surname: true },
+          }),
+        ]);
+        relatedData = { grades, teachers };
+        break;
+      }
+      case "teacher": {
+        const [subjects, users] = await prisma.$transaction([
+          prisma.subject.findMany({ select: { id: true, name: true } }),
+          userOptions("teacher"),
+        ]);
+        relatedData = { subjects, users };
+        break;
+      }
+      case "student": {
+        const [grades, classes, parents, users] = await prisma.$transaction([
+          prisma.grade.findMany({ select: { id: true, level: true } }),
+          prisma.class.findMany({ select: { id: true, name: true } }),
+          prisma.parent.findMany({
+            select: { id: true, name: true, surname: true },
+          }),
+          userOptions("student"),
+        ]);
+        relatedData = { grades, classes, parents, users };
+        break;
+      }
+      case "parent": {
+        const users = await userOptions("parent");
+        relatedData = { users };
+        break;
+      }
+      case "lesson": {
+        const [subjects, classes, teachers] = await prisma.$transaction([
+          prisma.subject.findMany({ select: { id: true, name: true } }),
+          prisma.class.findMany({ select: { id: true, name: true } }),
+          prisma.teacher.findMany({
+            select: { id: true, name: true, surname: true },
+          }),
+        ]);
+        relatedData = { subjects, classes, teachers };
+        break;
+      }
+      case "exam":
+      case "assignment": {
+        const [lessons, components] = await Promise.all([
+          lessonOptions(),
+          componentOptions(),
+        ]);
+        relatedData = { lessons, components };
+        break;
+      }
+      case "liveSession": {
+        const [lessons, teachers] = await Promise.all([
+          lessonOptions(),
+          prisma.teacher.findMany({
+            select: { id: true, name: true, surname: true },
+            orderBy: { name: "asc" },
+          }),
+        ]);
+        relatedData = { lessons, teachers };
+        break;
+      }
+      case "result": {
+        const lesson = await ownLessons();
+        const [students, exams, assignments] = await prisma.$transaction([
+          prisma.student.findMany({
+            where: { status: "ACTIVE" },
+            select: { id: true, name: true, surname: true },
+          }),
+          prisma.exam.findMany({ where: { lesson }, select: { id: true, title: true } }),
+          prisma.assignment.findMany({
+            where: { lesson },
+            select: { id: true, title: true },
+          }),
+        ]);
+        relatedData = { students, exams, assignments };
+        break;
+      }
+      case "event":
+      case "announcement": {
+        // Teachers post to the classes they teach
+        const lessons = await ownLessons();
+        const classes = await prisma.class.findMany({
+          where: lessons.teacherId !== undefined ? { lessons: { some: lessons } } : {},
+          select: { id: true, name: true },
+        });
+        relatedData = { classes };
+        break;
+      }
+      case "term": {
+        const academicYears = await prisma.academicYear.findMany({
+          select: { id: true, name: true },
+          orderBy: { startDate: "desc" },
+        });
+        relatedData = { academicYears };
+        break;
+      }
+      case "assessmentComponent": {
+        const [subjects, terms] = await prisma.$transaction([
+          prisma.subject.findMany({
+            select: { id: true, name: true },
+            orderBy: { name: "asc" },
+          }),
+          prisma.term.findMany({
+            include: { academicYear: { select: { name: true } } },
+            orderBy: { startDate: "desc" },
+          }),
+        ]);
+        relatedData = {
+          subjects,
+          terms: terms.map((term) => ({ id: term.id, label: termLabel(term) })),
+        };
+        break;
+      }
+      case "feeStructure": {
+        const [grades, terms] = await prisma.$transaction([
+          prisma.grade.findMany({
+            select: { id: true, level: true },
+            orderBy: { level: "asc" },
+          }),
+          prisma.term.findMany({
+            include: { academicYear: { select: { name: true } } },
+            orderBy: { startDate: "desc" },
+          }),
+        ]);
+        relatedData = {
+          grades,
+          terms: terms.map((term) => ({ id: term.id, label: termLabel(term) })),
+        };
+        break;
+      }
+      case "gradingScheme": {
+        const grades = await prisma.grade.findMany({
+          select: { id: true, level: true },
+          orderBy: { level: "asc" },
+        });
+        relatedData = { grades };
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  return (
+    <FormModal
+      table={table}
+      type={type}
+      data={data}
+      id={id}
+      relatedData={relatedData}
+    />
+  );
+};
+
+export default FormContainer;
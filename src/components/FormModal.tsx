@@ -1,9 +1,34 @@
 "use client";
 
 import dynamic from "next/dynamic";
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, Dispatch, SetStateAction } from "react";
 import ReactDOM from "react-dom";
+import { useRouter } from "next/navigation";
 import { FaEdit, FaPlus, FaTimes, FaTrash } from "react-icons/fa";
+import {
+  ActionState,
+  deleteAcademicYear,
+  deleteAnnouncement,
+  deleteAssessmentComponent,
+  deleteAssignment,
+  deleteAttendance,
+  deleteClass,
+  deleteEvent,
+  deleteExam,
+  deleteFeeStructure,
+  deleteGradingScheme,
+  deleteInvoice,
+  deleteLesson,
+  deleteLiveSession,
+  deleteParent,
+  deletePayment,
+  deleteResult,
+  deleteStudent,
+  deleteSubject,
+  deleteTeacher,
+  deleteTerm,
+} from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
 
 /* NEXT OPTIMIZATION*/
 const TeacherForm = dynamic(() => import("./forms/TeacherForm"), {
@@ -39,22 +64,139 @@ const EventForm = dynamic(() => import("./forms/EventForm"), {
 const AnnouncementForm = dynamic(() => import("./forms/AnnouncementForm"), {
   loading: () => <h1>Loading....</h1>,
 });
+const AcademicYearForm = dynamic(() => import("./forms/AcademicYearForm"), {
+  loading: () => <h1>Loading....</h1>,
+});
+const TermForm = dynamic(() => import("./forms/TermForm"), {
+  loading: () => <h1>Loading....</h1>,
+});
+const GradingSchemeForm = dynamic(() => import("./forms/GradingSchemeForm"), {
+  loading: () => <h1>Loading....</h1>,
+});
+const AssessmentComponentForm = dynamic(() => import("./forms/AssessmentComponentForm"), {
+  loading: () => <h1>Loading....</h1>,
+});
+const FeeStructureForm = dynamic(() => import("./forms/FeeStructureForm"), {
+  loading: () => <h1>Loading....</h1>,
+});
+const PaymentForm = dynamic(() => import("./forms/PaymentForm"), {
+  loading: () => <h1>Loading....</h1>,
+});
+const LiveSessionForm = dynamic(() => import("./forms/LiveSessionForm"), {
+  loading: () => <h1>Loading....</h1>,
+});
+
+/* PROPS SHARED BY EVERY FORM */
+export type FormProps = {
+  type: "create" | "update";
+  data?: any;
+  setOpen: Dispatch<SetStateAction<boolean>>;
+  relatedData?: any;
+};
 
 /* FORMS FOR EACH TABLE */
 const forms: {
-  [key: string]: (type: "create" | "update", data?: any) => JSX.Element;
+  [key: string]: (props: FormProps) => JSX.Element;
+} = {
+  teacher: (props) => <TeacherForm {...props} />,
+  student: (props) => <StudentForm {...props} />,
+  parent: (props) => <ParentForm {...props} />,
+  subject: (props) => <SubjectForm {...props} />,
+  class: (props) => <ClassForm {...props} />,
+  lesson: (props) => <LessonForm {...props} />,
+  exam: (props) => <ExamForm {...props} />,
+  assignment: (props) => <AssignmentForm {...props} />,
+  result: (props) => <ResultForm {...props} />,
+  event: (props) => <EventForm {...props} />,
+  announcement: (props) => <AnnouncementForm {...props} />,
+  academicYear: (props) => <AcademicYearForm {...props} />,
+  term: (props) => <TermForm {...props} />,
+  gradingScheme: (props) => <GradingSchemeForm {...props} />,
+  assessmentComponent: (props) => <AssessmentComponentForm {...props} />,
+  feeStructure: (props) => <FeeStructureForm {...props} />,
+  payment: (props) => <PaymentForm {...props} />,
+  liveSession: (props) => <LiveSessionForm {...props} />,
+};
+
+/* DELETE ACTION FOR EACH TABLE */
+const deleteActionMap: {
+  [key: string]: (id: number | string) => Promise<ActionState>;
 } = {
-  teacher: (type, data) => <TeacherForm type={type} data={data} />,
-  student: (type, data) => <StudentForm type={type} data={data} />,
-  parent: (type, data) => <ParentForm type={type} data={data} />,
-  subject: (type, data) => <SubjectForm type={type} data={data} />,
-  class: (type, data) => <ClassForm type={type} data={data} />,
-  lesson: (type, data) => <LessonForm type={type} data={data} />,
-  exam: (type, data) => <ExamForm type={type} data={data} />,
-  assignment: (type, data) => <AssignmentForm type={type} data={data} />,
-  result: (type, data) => <ResultForm type={type} data={data} />,
-  event: (type, data) => <EventForm type={type} data={data} />,
-  announcement: (type, data) => <AnnouncementForm type={type} data={data} />,
+  teacher: deleteTeacher,
+  student: deleteStudent,
+  parent: deleteParent,
+  subject: deleteSubject,
+  class: deleteClass,
+  lesson: deleteLesson,
+  exam: deleteExam,
+  assignment: deleteAssignment,
+  result: deleteResult,
+  attendance: deleteAttendance,
+  event: deleteEvent,
+  announcement: deleteAnnouncement,
+  academicYear: deleteAcademicYear,
+  term: deleteTerm,
+  gradingScheme: deleteGradingScheme,
+  assessmentComponent: deleteAssessmentComponent,
+  feeStructure: deleteFeeStructure,
+  invoice: deleteInvoice,
+  payment: deletePayment,
+  liveSession: deleteLiveSession,
+};
+
+// How multi-word table names read in the confirmation
+const TABLE_LABELS: { [key: string]: string } = {
+  academicYear: "academic year",
+  gradingScheme: "grading scheme",
+  assessmentComponent: "assessment component",
+  feeStructure: "fee",
+  liveSession: "live session",
+};
+
+/* DELETE CONFIRMATION FORM */
+const DeleteForm = ({
+  table,
+  id,
+  setOpen,
+}: {
+  table: string;
+  id: number | string;
+  setOpen: Dispatch<SetStateAction<boolean>>;
+}) => {
+  const router = useRouter();
+  const [pending, setPending] = useState(false);
+
+  const onSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const action = deleteActionMap[table];
+    if (!action) return;
+
+    setPending(true);
+    const state = await action(id);
+    setPending(false);
+
+    handleActionResult(state, {
+      onSuccess: () => {
+        setOpen(false);
+        router.refresh();
+      },
+    });
+  };
+
+  return (
+    <form onSubmit={onSubmit} className=" p-4 flex flex-col gap-4">
+      <span className=" text-center font-medium">
+        All data will be lost. Are you sure you want to delete this {TABLE_LABELS[table] ?? table}?{" "}
+      </span>
+
+      <button
+        disabled={pending}
+        className=" bg-red-700 text-white py-2 px-4 rounded-md border-none w-max self-center disabled:opacity-50"
+      >
+        {pending ? "Deleting..." : "Delete"}
+      </button>
+    </form>
+  );
 };
 
 /* FORMS MODAL STRUCTURE AND CONTENT */
@@ -63,6 +205,7 @@ const FormModal = ({
   type,
   data,
   id,
+  relatedData,
 }: {
   table:
     | "teacher"
@@ -76,13 +219,23 @@ const FormModal = ({
     | "result"
     | "attendance"
     | "event"
-    | "announcement";
+    | "announcement"
+    | "academicYear"
+    | "term"
+    | "gradingScheme"
+    | "assessmentComponent"
+    | "feeStructure"
+    | "invoice"
+    | "payment"
+    | "liveSession";
 
   type: "create" | "update" | "delete";
 
   data?: any;
 
   id?: number | string;
+
+  relatedData?: any;
 }) => {
   const size = type === "create" ? "w-8 h-8" : "w-7 h-7";
 
@@ -112,17 +265,9 @@ const FormModal = ({
 
   const Form = () => {
     return type === "delete" && id ? (
-      <form action="" className=" p-4 flex flex-col gap-4">
-        <span className=" text-center font-medium">
-          All data will be lost. Are you sure you want to delete this {table}?{" "}
-        </span>
-
-        <button className=" bg-red-700 text-white py-2 px-4 rounded-md border-none w-max self-center">
-          Delete
-        </button>
-      </form>
-    ) : type === "create" || type === "update" ? (
-      forms[table](type, data)
+      <DeleteForm table={table} id={id} setOpen={setOpen} />
+    ) : (type === "create" || type === "update") && forms[table] ? (
+      forms[table]({ type, data, setOpen, relatedData })
     ) : (
       "Form not found!"
     );
@@ -0,0 +1,54 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { generateInvoices } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
+
+/**
+ * GenerateInvoices
+ * "Issue invoices" on /list/fees: invoices every active student of a grade
+ * level with fees in the term who has none for it yet, with an optional
+ * due date. Safe to run again after adding students.
+ */
+const GenerateInvoices = ({ termId, term }: { termId: number; term: string }) => {
+  const router = useRouter();
+  const [dueDate, setDueDate] = useState("");
+  const [pending, setPending] = useState(false);
+
+  const onClick = async () => {
+    if (!window.confirm(`Issue ${term} invoices to every student not invoiced yet?`)) {
+      return;
+    }
+    setPending(true);
+    const state = await generateInvoices({
+      termId,
+      dueDate: dueDate ? new Date(dueDate) : undefined,
+    });
+    setPending(false);
+    handleActionResult(state, { onSuccess: () => router.refresh() });
+  };
+
+  return (
+    <div className=" flex flex-wrap items-center gap-2 text-xs text-gray-500 ">
+      <label className=" flex items-center gap-2 ">
+        Due
+        <input
+          type="date"
+          value={dueDate}
+          onChange={(e) => setDueDate(e.target.value)}
+          className=" ring-[1.5px] ring-gray-300 p-1 rounded-md text-xs bg-transparent "
+        />
+      </label>
+      <button
+        onClick={onClick}
+        disabled={pending}
+        className=" py-1 px-3 rounded-full text-xs bg-green-500 text-white disabled:opacity-50 "
+      >
+        {pending ? "Issuing..." : `Issue ${term} invoices`}
+      </button>
+    </div>
+  );
+};
+
+export default GenerateInvoices;
@@ -0,0 +1,46 @@
+"use client"
+
+import Image from "next/image";
+import { CldUploadWidget } from "next-cloudinary";
+
+/**
+ * ImageUpload
+ * Opens the Cloudinary upload widget and reports the hosted image URL back
+ * to the form. The URL (not the file) is what gets stored in `img`.
+ *
+ * Requires NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME and
+ * NEXT_PUBLIC_CLOUDINARY_UPLOAD_PRESET in the environment.
+ */
+const ImageUpload = ( {
+  value,
+  onChange,
+}: {
+  value?: string | null;
+  onChange: (url: string) => void;
+}) => {
+  return (
+    <CldUploadWidget
+      uploadPreset={process.env.NEXT_PUBLIC_CLOUDINARY_UPLOAD_PRESET}
+      onSuccess={(result, { widget }) => {
+        if (result.info && typeof result.info !== "string") {
+          onChange(result.info.secure_url);
+        }
+        widget.close();
+      }}
+    >
+      {({ open }) => (
+        /* UPLOAD IMG MAIN CONTAINER */
+        <div
+          className=" text-xs text-gray-500 flex items-center gap-2 cursor-pointer w-full md:w-1/4 "
+          onClick={() => open()}
+        >
+          <Image src={value || "/upload.png"} alt="" width={28} height={28} className=" w-7 h-7 rounded-full object-cover" />
+
+          <span>{value ? "Change photo" : "Upload a photo"}</span>
+        </div>
+      )}
+    </CldUploadWidget>
+  )
+}
+
+export default ImageUpload
@@ -1,4 +1,4 @@
-import { FieldError } from "react-hook-form";
+import { FieldError, Merge } from "react-hook-form";
 
 type InputFieldProps = {
   label: string;
@@ -6,7 +6,7 @@ type InputFieldProps = {
   register:any;
   name:string;
   defaultValue?: string;
-  error?: FieldError;
+  error?: FieldError | Merge<FieldError, any>;
   inputProps?: React.IframeHTMLAttributes<HTMLInputElement>;
 }
 
@@ -1,7 +1,12 @@
-"use client"
 import React from "react"
 import TableSearch from "@/components/TableSearch"
-import FormModal from "@/components/FormModal"
+import FormContainer from "@/components/FormContainer"
+import ExportMenu from "@/components/ExportMenu"
+import TermSwitcher from "@/components/TermSwitcher"
+import { canExport, canMutate, getCurrentRole } from "@/lib/serverAuth"
+import type { ExportTable } from "@/lib/listExports"
+import { ALL_TERMS } from "@/lib/listQueries"
+import { getCurrentTerm, getTerms, termLabel } from "@/lib/terms"
 import { FaFilter, FaSortAlphaUp } from "react-icons/fa"
 
 type Props = {
@@ -19,7 +24,18 @@ type Props = {
     | "attendance"
     | "event"
     | "announcement"
-    | null // if provided, shows the create button via FormModal
+    | "academicYear"
+    | "term"
+    | "gradingScheme"
+    | "assessmentComponent"
+    | "feeStructure"
+    | "invoice"
+    | "payment"
+    | "liveSession"
+    | null // if provided and the signed-in role may create it, shows the create button
+  actions?: React.ReactNode // extra page-specific buttons shown before create
+  exportTable?: ExportTable // if provided, staff get a CSV/XLSX download of the filtered list
+  termFilter?: boolean // shows the term switcher; the page must default `termId` with withCurrentTerm
 }
 
 /**
@@ -28,10 +44,41 @@ type Props = {
  * Layout behavior:
  * - Title on the left (stacks above the controls on small screens)
  * - Search input next to title on larger screens; full-width on small screens
- * - Action buttons (filter, sort, create) appear to the right on larger
+ * - Action buttons (filter, sort, export, create) appear to the right on larger
  *   screens and sit on the same row as the search on small screens.
+ *
+ * Rendered on the server so the create button can load the form's related
+ * data (see FormContainer) before the modal opens, and so it is only shown
+ * to roles allowed to create that table (see lib/serverAuth.ts).
  */
-const ListHeader: React.FC<Props> = ({ title, createTable = null }) => {
+
+// "All terms" plus every term, and the option selected when the URL has no `termId`
+const termOptions = async () => {
+  const [terms, current] = await Promise.all([getTerms(), getCurrentTerm()])
+  return {
+    options: [
+      { value: ALL_TERMS, label: "All terms" },
+      ...terms.map((term) => ({
+        value: String(term.id),
+        label: `${termLabel(term)}${term.id === current?.id ? " (current)" : ""}`,
+      })),
+    ],
+    defaultValue: current ? String(current.id) : ALL_TERMS,
+  }
+}
+
+const ListHeader = async ({
+  title,
+  createTable = null,
+  actions,
+  exportTable,
+  termFilter = false,
+}: Props) => {
+  const role = await getCurrentRole()
+  const showCreate = !!createTable && canMutate(role, createTable)
+  const showExport = !!exportTable && canExport(role)
+  const terms = termFilter ? await termOptions() : null
+
   return (
     <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
       {/* Left: page title */}
@@ -46,6 +93,8 @@ const ListHeader: React.FC<Props> = ({ title, createTable = null }) => {
         </div>
 
         <div className="flex items-center gap-3 sm:ml-2">
+          {terms && <TermSwitcher {...terms} />}
+
           <button 
           className=" w-8 h-8 flex items-center justify-center rounded-full bg-PatoYellow "
           title="Filter"
@@ -61,8 +110,12 @@ const ListHeader: React.FC<Props> = ({ title, createTable = null }) => {
               < FaSortAlphaUp className="text-gray-600" size={14} />
           </button>
 
-          {createTable && (
-            <FormModal table={createTable} type="create" id={0} />
+          {showExport && exportTable && <ExportMenu table={exportTable} />}
+
+          {actions}
+
+          {showCreate && createTable && (
+            <FormContainer table={createTable} type="create" />
           )}
         </div>
       </div>
@@ -0,0 +1,127 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { finalizeLiveAttendance } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
+import type { LiveAttendanceRow } from "@/lib/liveAttendance";
+
+/**
+ * LiveAttendanceReview
+ * The marks suggested from each student's time in a live session's room,
+ * for the teacher to check and correct before they are saved as the
+ * lesson's attendance with `finalizeLiveAttendance`. Marks already saved
+ * win over the suggestion.
+ */
+const LiveAttendanceReview = ({
+  sessionId,
+  rows,
+  requiredMinutes,
+  ended,
+  alreadyTaken,
+}: {
+  sessionId: number;
+  rows: LiveAttendanceRow[];
+  requiredMinutes: number;
+  ended: boolean; // attendance can only be saved once the session is over
+  alreadyTaken: boolean;
+}) => {
+  const router = useRouter();
+  const [marks, setMarks] = useState<Record<string, boolean>>(() =>
+    Object.fromEntries(rows.map((s) => [s.id, s.saved ?? s.suggested]))
+  );
+  const [pending, setPending] = useState(false);
+
+  const onSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    setPending(true);
+    const state = await finalizeLiveAttendance({
+      sessionId,
+      records: rows.map((s) => ({ studentId: s.id, present: !!marks[s.id] })),
+    });
+    setPending(false);
+
+    handleActionResult(state, { onSuccess: () => router.refresh() });
+  };
+
+  if (rows.length === 0) {
+    return (
+      <p className=" text-sm text-gray-500 mt-4 ">
+        This session&apos;s class has no students yet.
+      </p>
+    );
+  }
+
+  const presentCount = rows.filter((s) => marks[s.id]).length;
+
+  return (
+    <form onSubmit={onSubmit} className=" flex flex-col gap-4 mt-4 ">
+      { /* THRESHOLD AND STATE */ }
+      <div className=" flex flex-wrap items-center justify-between gap-3 text-sm text-gray-500 ">
+        <span>
+          Suggested present after {requiredMinutes} min in the room
+        </span>
+        <span>
+          {presentCount}/{rows.length} present
+          {alreadyTaken && " · editing saved attendance"}
+        </span>
+      </div>
+
+      { /* ROSTER */ }
+      <ul className=" flex flex-col divide-y divide-gray-200 ">
+        {rows.map((student) => (
+          <li
+            key={student.id}
+            className=" flex items-center justify-between py-2 text-sm "
+          >
+            <div>
+              <span>{student.name + " " + student.surname}</span>
+              <p className=" text-xs text-gray-500 ">
+                {student.minutes} min
+                {marks[student.id] !== student.suggested &&
+                  ` · suggested ${student.suggested ? "present" : "absent"}`}
+              </p>
+            </div>
+
+            <div className=" flex gap-2 ">
+              <button
+                type="button"
+                onClick={() => setMarks((m) => ({ ...m, [student.id]: true }))}
+                className={`py-1 px-3 rounded-md text-xs ${
+                  marks[student.id] ? "bg-green-500 text-white" : "bg-slate-200"
+                }`}
+              >
+                Present
+              </button>
+              <button
+                type="button"
+                onClick={() => setMarks((m) => ({ ...m, [student.id]: false }))}
+                className={`py-1 px-3 rounded-md text-xs ${
+                  !marks[student.id] ? "bg-red-500 text-white" : "bg-slate-200"
+                }`}
+              >
+                Absent
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {!ended && (
+        <p className=" text-xs text-gray-500 self-end ">
+          Attendance can be saved once the session has ended.
+        </p>
+      )}
+
+      <button
+        disabled={pending || !ended}
+        className=" bg-blue-400 text-white p-2 rounded-md w-max self-end disabled:opacity-50 "
+      >
+        {pending ? "Saving..." : "Save Attendance"}
+      </button>
+    </form>
+  );
+};
+
+export default LiveAttendanceReview;
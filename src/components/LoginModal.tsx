@@ -5,6 +5,7 @@ import * as SignIn from "@clerk/elements/sign-in";
 import { useUser } from "@clerk/nextjs";
 import { useRouter } from "next/navigation";
 import { FaUser, FaLock } from "react-icons/fa";
+import { getMyPreferences } from "@/lib/accountActions";
 
 /**
  * LOGIN MODAL: Professional Sign-in Component
@@ -23,13 +24,17 @@ const LoginModal = () => {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  // Redirect if already signed in
+  // Redirect if already signed in: to the landing page chosen on /settings,
+  // or to the dashboard for the user's role
   useEffect(() => {
     const role = user?.publicMetadata.role;
+    if (!role) return;
 
-    if (role) {
-      router.push(`/${role}`);
-    }
+    getMyPreferences()
+      .then(({ landingPage }) =>
+        router.push(landingPage === "dashboard" ? `/${role}` : landingPage)
+      )
+      .catch(() => router.push(`/${role}`));
   }, [user, router]);
 
   return (
@@ -2,9 +2,8 @@
 import Link from "next/link";
 import { useRouter, usePathname } from "next/navigation";
 import { useEffect, useState } from "react";
-import { useClerk } from "@clerk/nextjs";
+import { useClerk, useUser } from "@clerk/nextjs";
 import { getRole, isAuthenticated, clearAuth } from "@/lib/auth";
-import { role as demoRole } from "@/lib/data";
 import { IconType } from "react-icons";
 import {
   FaChalkboardTeacher,
@@ -12,15 +11,23 @@ import {
   FaUsers,
   FaBook,
   FaLayerGroup,
+  FaLevelUpAlt,
+  FaHourglassHalf,
+  FaMoneyBillWave,
+  FaFileInvoiceDollar,
   FaClipboard,
   FaFileAlt,
   FaClipboardList,
   FaChartBar,
   FaCheckSquare as FaCheckSquareFA,
   FaCalendarAlt,
+  FaCalendarCheck,
+  FaAward,
+  FaBalanceScale,
   FaEnvelope,
   FaBullhorn,
   FaVideo,
+  FaBroadcastTower,
   FaUser,
   FaHome,
   FaCog,
@@ -70,12 +77,42 @@ const menuItems: { title: string; items: MenuItem[] }[] = [
         href: "/list/subjects",
         visible: ["admin"],
       },
+      {
+        icon: FaCalendarCheck,
+        label: "Terms",
+        href: "/list/terms",
+        visible: ["admin"],
+      },
+      {
+        icon: FaAward,
+        label: "Grading",
+        href: "/list/grading",
+        visible: ["admin"],
+      },
+      {
+        icon: FaBalanceScale,
+        label: "Components",
+        href: "/list/components",
+        visible: ["admin", "teacher"],
+      },
       {
         icon: FaLayerGroup,
         label: "Classes",
         href: "/list/classes",
         visible: ["admin", "teacher"],
       },
+      {
+        icon: FaLevelUpAlt,
+        label: "Promotion",
+        href: "/list/promotions",
+        visible: ["admin"],
+      },
+      {
+        icon: FaHourglassHalf,
+        label: "Waitlist",
+        href: "/list/waitlist",
+        visible: ["admin"],
+      },
       {
         icon: FaClipboard,
         label: "Lessons",
@@ -106,6 +143,24 @@ const menuItems: { title: string; items: MenuItem[] }[] = [
         href: "/list/attendance",
         visible: ["admin", "teacher", "student", "parent"],
       },
+      {
+        icon: FaMoneyBillWave,
+        label: "Fees",
+        href: "/list/fees",
+        visible: ["admin"],
+      },
+      {
+        icon: FaFileInvoiceDollar,
+        label: "Invoices",
+        href: "/list/invoices",
+        visible: ["admin"],
+      },
+      {
+        icon: FaFileInvoiceDollar,
+        label: "My Balance",
+        href: "/list/invoices",
+        visible: ["student", "parent"],
+      },
       {
         icon: FaCalendarAlt,
         label: "Events",
@@ -130,6 +185,12 @@ const menuItems: { title: string; items: MenuItem[] }[] = [
         href: "/list/liveclass",
         visible: ["admin", "teacher", "student", "parent"],
       },
+      {
+        icon: FaBroadcastTower,
+        label: "Live Sessions",
+        href: "/list/live-sessions",
+        visible: ["admin", "teacher", "student", "parent"],
+      },
     ],
   },
   {
@@ -173,21 +234,24 @@ const Menu: React.FC<MenuProps> = ({
   const router = useRouter();
   const pathname = usePathname();
   const { signOut } = useClerk();
-  const [currentRole, setCurrentRole] = useState<string | null>(null);
+  const { user } = useUser();
+  const [demoRole, setDemoRole] = useState<string | null>(null);
   const [pendingClose, setPendingClose] = useState<string | null>(null);
   const [isLoggingOut, setIsLoggingOut] = useState(false);
 
-  // Use the authenticated role when available, otherwise fall back to the
-  // static demo role from `lib/data`. This ensures the menu displays items
-  // relevant to the current user when signed in.
-  const effectiveRole = currentRole ?? demoRole;
+  // The Clerk role (publicMetadata.role, same source as RouteProtector and
+  // lib/serverAuth) wins; the persisted demo role is only a fallback for the
+  // legacy demo login. With neither, only items visible to everyone show.
+  const clerkRole = (user?.publicMetadata?.role as string | undefined) ?? null;
+  const currentRole = clerkRole ?? demoRole;
+  const effectiveRole = currentRole ?? "";
 
   useEffect(() => {
     // Read the persisted demo role (if any) so the menu can decide where
     // "Home" should navigate. We also listen for the custom storage event
     // 'sma_auth_change' which is emitted by the auth helper to react to
     // sign-in / sign-out in other parts of the app.
-    const update = () => setCurrentRole(isAuthenticated() ? getRole() : null);
+    const update = () => setDemoRole(isAuthenticated() ? getRole() : null);
     update();
     window.addEventListener("sma_auth_change", update);
     return () => window.removeEventListener("sma_auth_change", update);
@@ -218,10 +282,8 @@ const Menu: React.FC<MenuProps> = ({
 
           {/* ICON IMAGE and  STRUCTURE CONTAINER */}
           {i.items.map((item) => {
-            // Only render items visible to the effective role (authenticated
-            // role if present, otherwise the demo role). This fixes a bug
-            // where the menu could be empty when `demoRole` did not match
-            // the actual signed-in user's role.
+            // Only render items visible to the effective role (Clerk role
+            // if present, otherwise the demo role).
             if (item.visible.includes(effectiveRole)) {
               // Special-case "Home": when the user is signed in I don't
               // want to navigate back to the public home page ("/"), which
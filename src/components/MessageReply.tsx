@@ -0,0 +1,64 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { replySchema } from "@/lib/formValidationSchemas";
+import { sendReply } from "@/lib/messageActions";
+import { handleActionResult } from "@/lib/formActionResult";
+
+/**
+ * MessageReply
+ * Reply box at the bottom of a thread.
+ */
+const MessageReply = ({ threadId }: { threadId: number }) => {
+  const router = useRouter();
+
+  const {
+    register,
+    handleSubmit,
+    setError,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm({
+    resolver: zodResolver(replySchema),
+    defaultValues: { threadId, body: "" },
+  });
+
+  const onSubmit = handleSubmit(async (formData) => {
+    const state = await sendReply(formData);
+
+    handleActionResult(state, {
+      setError,
+      onSuccess: () => {
+        reset({ threadId, body: "" });
+        router.refresh();
+      },
+    });
+  });
+
+  return (
+    <form onSubmit={onSubmit} className=" flex flex-col gap-2 mt-4 ">
+      <input type="hidden" {...register("threadId")} />
+
+      <textarea
+        rows={3}
+        placeholder="Write a reply..."
+        {...register("body")}
+        className=" ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full bg-transparent "
+      />
+      {errors.body?.message && (
+        <p className=" text-xs text-red-400">{errors.body.message.toString()}</p>
+      )}
+
+      <button
+        disabled={isSubmitting}
+        className=" bg-blue-400 text-white py-2 px-4 rounded-md w-max self-end disabled:opacity-50 "
+      >
+        {isSubmitting ? "Sending..." : "Send"}
+      </button>
+    </form>
+  );
+};
+
+export default MessageReply;
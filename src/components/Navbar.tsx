@@ -1,6 +1,10 @@
 "use client";
 import { useEffect, useState } from "react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
 import { getRole } from "@/lib/auth";
+import { getUnreadMessageCount } from "@/lib/messageActions";
+import { getMyPreferences } from "@/lib/accountActions";
 import { FaBell, FaEnvelope, FaSearch, FaCog } from "react-icons/fa";
 import ThemeToggle from "./ThemeToggle";
 import SignOutInterceptor from "./SignOutInterceptor";
@@ -21,10 +25,13 @@ interface NavbarProps {
  * - Theme toggle
  * - User profile section
  * - Badge notification counter
+ * - Unread messages badge linking to the inbox
  */
 const Navbar: React.FC<NavbarProps> = ({ onMenuClick }) => {
   const [role, setRole] = useState<string | null>(() => getRole());
   const [activeIcon, setActiveIcon] = useState<string | null>(null);
+  const [unreadMessages, setUnreadMessages] = useState(0);
+  const pathname = usePathname();
 
   useEffect(() => {
     const onAuthChange = () => setRole(getRole());
@@ -32,6 +39,17 @@ const Navbar: React.FC<NavbarProps> = ({ onMenuClick }) => {
     return () => window.removeEventListener("sma_auth_change", onAuthChange);
   }, []);
 
+  // Refresh the unread count on every navigation (e.g. after reading a thread),
+  // unless the user turned the badge off on /settings
+  useEffect(() => {
+    getMyPreferences()
+      .then((prefs) =>
+        prefs.messageNotifications ? getUnreadMessageCount() : 0
+      )
+      .then(setUnreadMessages)
+      .catch(() => setUnreadMessages(0));
+  }, [pathname]);
+
   const roleLabel = role
     ? `${role.charAt(0).toUpperCase()}${role.slice(1)}`
     : "Admin";
@@ -88,9 +106,10 @@ const Navbar: React.FC<NavbarProps> = ({ onMenuClick }) => {
             onMouseEnter={() => {}}
             onMouseLeave={() => setActiveIcon(null)}
           >
-            <button
+            <Link
+              href="/list/messages"
               onClick={() => handleIconClick("message")}
-              className={`bg-white dark:bg-gray-800 rounded-full w-8 h-8 flex items-center justify-center cursor-pointer transition-all duration-300 transform hover:scale-110 hover:shadow-lg dark:hover:shadow-blue-500/30 ${
+              className={`bg-white dark:bg-gray-800 rounded-full w-8 h-8 flex items-center justify-center cursor-pointer transition-all duration-300 transform hover:scale-110 hover:shadow-lg dark:hover:shadow-blue-500/30 relative ${
                 activeIcon === "message"
                   ? "scale-90 animate-pulse"
                   : "hover:bg-blue-50 dark:hover:bg-gray-700"
@@ -103,7 +122,13 @@ const Navbar: React.FC<NavbarProps> = ({ onMenuClick }) => {
                 }`}
                 size={16}
               />
-            </button>
+              {/* UNREAD MESSAGES BADGE */}
+              {unreadMessages > 0 && (
+                <span className="absolute -top-2 -right-2 w-5 h-5 flex items-center justify-center bg-gradient-to-br from-blue-500 to-indigo-500 text-white rounded-full text-xs font-bold shadow-lg">
+                  {unreadMessages > 9 ? "9+" : unreadMessages}
+                </span>
+              )}
+            </Link>
             {/* TOOLTIP */}
             <div className="absolute top-full left-1/2 -translate-x-1/2 mt-2 px-2 py-1 bg-gray-900 dark:bg-gray-700 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity duration-200 whitespace-nowrap pointer-events-none">
               Messages
@@ -1,14 +1,18 @@
 'use client'
 import Image from 'next/image';
 import {  PieChart, Pie, Sector, Cell, ResponsiveContainer } from 'recharts';
+import type { Performance as Score } from '@/lib/grading';
 
-const data = [
-  { name: 'Group A', value: 92, fill:"#C3EBFA" },
-  { name: 'Group B', value: 8, fill:"#FAE27C" },
-];
 
+// `score`: term GPA or average total on the grading scheme (lib/grading.ts)
+// `term`: label of the term the score covers, e.g. "2025/26 First Term"
+const Performance = ({ score, term }: { score: Score | null; term?: string }) => {
+  const share = score ? Math.min(score.value / score.max, 1) * 100 : 0;
+  const data = [
+    { name: 'Score', value: share, fill:"#C3EBFA" },
+    { name: 'Remaining', value: 100 - share, fill:"#FAE27C" },
+  ];
 
-const Performance = () => {
   return (
 
     /* PERFORMANCE MAIN COMTAINER*/
@@ -40,12 +44,14 @@ const Performance = () => {
       {/* INFO CONTAINER */}
       <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-center">
 
-        <h1 className='text-3xl font-bold'>9.2</h1>
-        <p className='text-xs text-gray-300'>of 10 total max </p>
+        <h1 className='text-3xl font-bold'>{score ? score.value : "-"}</h1>
+        <p className='text-xs text-gray-300'>
+          {score ? `of ${score.max} ${score.unit === "GPA" ? "GPA" : "average"}` : "no results yet"}
+        </p>
 
       </div>
 
-      <div className=" font-medium absolute bottom-16 left-0 right-0 m-auto text-center "> 1st Semester - 2nd Semester</div>
+      <div className=" font-medium absolute bottom-16 left-0 right-0 m-auto text-center "> {term ?? "No current term"}</div>
 
     </div>
   )
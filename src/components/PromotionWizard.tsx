@@ -0,0 +1,263 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { applyPromotion } from "@/lib/promotionActions";
+import type { PromotionClass } from "@/lib/promotion";
+import type { PromotionSchema } from "@/lib/formValidationSchemas";
+
+type Outcome = PromotionSchema["moves"][number]["outcome"];
+
+const fieldClass =
+  " ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm bg-transparent ";
+
+const OUTCOME_LABELS: Record<Outcome, string> = {
+  PROMOTED: "Promote",
+  REPEATED: "Repeat",
+  GRADUATED: "Graduate",
+};
+
+const defaultOutcome = (klass: PromotionClass): Outcome =>
+  klass.isTopLevel ? "GRADUATED" : "PROMOTED";
+
+/**
+ * PromotionWizard
+ * End-of-year roll forward on /list/promotions. Every class starts with the
+ * proposed move (all students to the matching class of the next grade, or
+ * graduating from the top grade); the admin changes the target class, marks
+ * repeaters and saves. The server re-checks everything and applies it in one
+ * transaction (lib/promotionActions.ts).
+ */
+const PromotionWizard = ({
+  classes,
+  years,
+}: {
+  classes: PromotionClass[];
+  years: { id: number; name: string; promoted: boolean }[]; // newest first
+}) => {
+  const router = useRouter();
+  const [yearId, setYearId] = useState(
+    years.find((y) => !y.promoted)?.id ?? years[0]?.id
+  );
+  const [targets, setTargets] = useState<Record<number, number | null>>(
+    Object.fromEntries(classes.map((c) => [c.id, c.defaultTargetId]))
+  );
+  const [outcomes, setOutcomes] = useState<Record<string, Outcome>>(
+    Object.fromEntries(
+      classes.flatMap((c) => c.students.map((s) => [s.id, defaultOutcome(c)]))
+    )
+  );
+  const [overCapacity, setOverCapacity] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const year = years.find((y) => y.id === yearId);
+  const counts = Object.values(outcomes).reduce<Record<Outcome, number>>(
+    (acc, outcome) => ({ ...acc, [outcome]: acc[outcome] + 1 }),
+    { PROMOTED: 0, REPEATED: 0, GRADUATED: 0 }
+  );
+
+  const setClassOutcome = (klass: PromotionClass, outcome: Outcome) =>
+    setOutcomes((current) => ({
+      ...current,
+      ...Object.fromEntries(klass.students.map((s) => [s.id, outcome])),
+    }));
+
+  const onApply = async () => {
+    if (!yearId || !year) return;
+    if (
+      !window.confirm(
+        `End ${year.name}: promote ${counts.PROMOTED}, keep back ${counts.REPEATED} and graduate ${counts.GRADUATED} student(s)? This cannot be run again for ${year.name}.`
+      )
+    ) {
+      return;
+    }
+
+    const moves = classes.flatMap((klass) =>
+      klass.students.map((student) => {
+        const outcome = outcomes[student.id];
+        return {
+          studentId: student.id,
+          outcome,
+          ...(outcome === "PROMOTED" && {
+            toClassId: targets[klass.id] ?? undefined,
+          }),
+        };
+      })
+    );
+
+    setBusy(true);
+    const state = await applyPromotion({
+      academicYearId: yearId,
+      moves,
+      overCapacity,
+    });
+    setBusy(false);
+
+    if (state.success) {
+      toast.success(state.message ?? "Promotion saved!");
+      router.refresh();
+    } else {
+      toast.error(state.message ?? "Could not save the promotion.");
+    }
+  };
+
+  if (classes.length === 0) {
+    return <p className=" text-sm text-gray-500 mt-4 ">There are no active students.</p>;
+  }
+
+  return (
+    <div className=" flex flex-col gap-6 mt-4 ">
+      { /* YEAR AND SUMMARY */ }
+      <div className=" flex flex-wrap items-end justify-between gap-4 ">
+        <label className=" flex flex-col gap-2 text-xs text-gray-500 ">
+          Academic year that ended
+          <select
+            className={fieldClass}
+            value={yearId}
+            onChange={(e) => setYearId(Number(e.target.value))}
+          >
+            {years.map((y) => (
+              <option key={y.id} value={y.id}>
+                {y.name}
+                {y.promoted ? " (done)" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className=" flex flex-wrap items-center gap-4 ">
+          <label className=" flex items-center gap-2 text-xs text-gray-500 ">
+            <input
+              type="checkbox"
+              checked={overCapacity}
+              onChange={(e) => setOverCapacity(e.target.checked)}
+            />
+            Allow classes over capacity
+          </label>
+          <p className=" text-sm ">
+            {counts.PROMOTED} promoted, {counts.REPEATED} repeating,{" "}
+            {counts.GRADUATED} graduating
+          </p>
+          <button
+            onClick={onApply}
+            disabled={busy || !year || year.promoted}
+            className=" bg-green-500 text-white py-2 px-4 rounded-md text-sm disabled:opacity-50 "
+          >
+            {busy ? "Saving..." : "Apply promotion"}
+          </button>
+        </div>
+      </div>
+
+      {year?.promoted && (
+        <p className=" text-xs text-red-500 ">
+          Students were already promoted for {year.name}.
+        </p>
+      )}
+
+      { /* CLASSES */ }
+      {classes.map((klass) => {
+        const target = klass.targets.find((t) => t.id === targets[klass.id]);
+        return (
+          <section key={klass.id} className=" flex flex-col gap-3 ">
+            <div className=" flex flex-wrap items-center justify-between gap-3 ">
+              <h2 className=" text-sm font-semibold ">
+                {klass.name}
+                <span className=" text-gray-500 font-normal ">
+                  {" "}
+                  · Grade {klass.gradeLevel} · {klass.students.length} student(s)
+                </span>
+              </h2>
+
+              <div className=" flex flex-wrap items-center gap-3 text-xs text-gray-500 ">
+                {klass.isTopLevel ? (
+                  <span>Top grade: students graduate to alumni</span>
+                ) : (
+                  <label className=" flex items-center gap-2 ">
+                    Promote to
+                    <select
+                      className={fieldClass}
+                      value={targets[klass.id] ?? ""}
+                      onChange={(e) =>
+                        setTargets((current) => ({
+                          ...current,
+                          [klass.id]: Number(e.target.value) || null,
+                        }))
+                      }
+                    >
+                      <option value="">Pick a class</option>
+                      {klass.targets.map((t) => (
+                        <option key={t.id} value={t.id}>
+                          {t.name}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                <button
+                  onClick={() => setClassOutcome(klass, defaultOutcome(klass))}
+                  className=" underline "
+                >
+                  All {OUTCOME_LABELS[defaultOutcome(klass)].toLowerCase()}
+                </button>
+                <button
+                  onClick={() => setClassOutcome(klass, "REPEATED")}
+                  className=" underline "
+                >
+                  All repeat
+                </button>
+              </div>
+            </div>
+
+            {!klass.isTopLevel && klass.targets.length === 0 && (
+              <p className=" text-xs text-red-500 ">
+                Grade {klass.gradeLevel + 1} has no classes yet. Create one or
+                mark these students as repeating.
+              </p>
+            )}
+
+            <table className=" w-full text-sm ">
+              <tbody>
+                {klass.students.map((student) => {
+                  const outcome = outcomes[student.id];
+                  return (
+                    <tr key={student.id} className=" border-b border-gray-200 ">
+                      <td className=" p-2 ">{student.name}</td>
+                      <td className=" p-2 text-gray-500 hidden md:table-cell ">
+                        {student.username}
+                      </td>
+                      <td className=" p-2 ">
+                        <select
+                          className={fieldClass}
+                          value={outcome}
+                          onChange={(e) =>
+                            setOutcomes((current) => ({
+                              ...current,
+                              [student.id]: e.target.value as Outcome,
+                            }))
+                          }
+                        >
+                          <option value={defaultOutcome(klass)}>
+                            {OUTCOME_LABELS[defaultOutcome(klass)]}
+                          </option>
+                          <option value="REPEATED">{OUTCOME_LABELS.REPEATED}</option>
+                        </select>
+                      </td>
+                      <td className=" p-2 text-xs text-gray-500 ">
+                        {outcome === "PROMOTED" && `→ ${target?.name ?? "?"}`}
+                        {outcome === "REPEATED" && `stays in ${klass.name}`}
+                        {outcome === "GRADUATED" && "→ alumni"}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PromotionWizard;
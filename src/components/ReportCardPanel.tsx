@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { FaFilePdf } from "react-icons/fa";
+import { saveReportCardRemark } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
+
+type Remarks = { teacherRemark: string | null; principalRemark: string | null };
+
+const fieldClass =
+  " ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full bg-transparent ";
+
+/**
+ * ReportCardPanel
+ * Report card of a student on their detail page: pick a term and download
+ * the PDF from `/api/report-cards`. Staff also write the remarks printed on
+ * the card here; the principal's remark is admin-only.
+ */
+const ReportCardPanel = ({
+  studentId,
+  terms,
+  defaultTermId,
+  remarks,
+  canEditTeacher,
+  canEditPrincipal,
+}: {
+  studentId: string;
+  terms: { id: number; label: string }[]; // newest first
+  defaultTermId?: number;
+  remarks: Record<number, Remarks>; // by term id
+  canEditTeacher: boolean;
+  canEditPrincipal: boolean;
+}) => {
+  const router = useRouter();
+  const [termId, setTermId] = useState(defaultTermId ?? terms[0]?.id);
+  const [saving, setSaving] = useState(false);
+
+  if (!termId) return null;
+  const current = remarks[termId];
+
+  const onSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const data = new FormData(e.currentTarget);
+    setSaving(true);
+    const state = await saveReportCardRemark({
+      studentId,
+      termId,
+      teacherRemark: String(data.get("teacherRemark") ?? ""),
+      principalRemark: String(data.get("principalRemark") ?? ""),
+    });
+    setSaving(false);
+    handleActionResult(state, { onSuccess: () => router.refresh() });
+  };
+
+  return (
+    <div className="bg-white bg-dark p-4 rounded-md flex flex-col gap-4">
+      <h1 className="text-xl font-semibold">Report Card</h1>
+
+      <div className="flex items-center gap-2">
+        <select
+          value={termId}
+          onChange={(e) => setTermId(Number(e.target.value))}
+          className={fieldClass}
+        >
+          {terms.map((term) => (
+            <option key={term.id} value={term.id}>
+              {term.label}
+            </option>
+          ))}
+        </select>
+        <a
+          href={`/api/report-cards?studentId=${encodeURIComponent(studentId)}&termId=${termId}`}
+          download
+          title="Download PDF"
+          className=" flex items-center gap-2 py-2 px-3 rounded-md bg-PatoSky text-sm whitespace-nowrap "
+        >
+          <FaFilePdf size={14} /> PDF
+        </a>
+      </div>
+
+      {canEditTeacher && (
+        // Keyed by term so switching term shows that term's remarks
+        <form key={termId} onSubmit={onSave} className="flex flex-col gap-2">
+          <label className="text-xs text-gray-500">Class teacher&apos;s remark</label>
+          <textarea
+            name="teacherRemark"
+            rows={3}
+            defaultValue={current?.teacherRemark ?? ""}
+            className={fieldClass}
+          />
+          {canEditPrincipal && (
+            <>
+              <label className="text-xs text-gray-500">Principal&apos;s remark</label>
+              <textarea
+                name="principalRemark"
+                rows={3}
+                defaultValue={current?.principalRemark ?? ""}
+                className={fieldClass}
+              />
+            </>
+          )}
+          <button
+            disabled={saving}
+            className="bg-blue-400 text-white p-2 rounded-md text-sm disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save remarks"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default ReportCardPanel;
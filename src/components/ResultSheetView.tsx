@@ -0,0 +1,178 @@
+"use client";
+import React, { useState, useEffect, useRef } from "react";
+import type { ResultSheetTerm } from "@/lib/resultSheet";
+import type { BandTone } from "@/lib/grading";
+
+// Grade pill colour by the band's place in its grading scheme
+const TONE_STYLES: Record<BandTone, string> = {
+  top: "bg-green-100 text-green-700",
+  middle: "bg-blue-100 text-blue-700",
+  bottom: "bg-red-100 text-red-700",
+};
+
+/**
+ * ResultSheetView
+ * Client half of `ResultSheet`: the term picker and the per-subject table.
+ * All of the student's terms arrive precomputed (newest first), so
+ * switching term needs no round trip. Opens on the current term when the
+ * student has results in it.
+ */
+const ResultSheetView = ({
+  studentName,
+  terms,
+  currentTermKey,
+}: {
+  studentName: string;
+  terms: ResultSheetTerm[];
+  currentTermKey?: string;
+}) => {
+  const [selectedTerm, setSelectedTerm] = useState(
+    terms.find((t) => t.key === currentTermKey)?.key ?? terms[0]?.key ?? ""
+  );
+
+  const term = terms.find((t) => t.key === selectedTerm);
+  const results = term?.rows ?? [];
+  const columns = term?.columns ?? [];
+
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const [showLeft, setShowLeft] = useState(false);
+  const [showRight, setShowRight] = useState(false);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+
+    const update = () => {
+      setShowRight(el.scrollWidth > el.clientWidth && el.scrollLeft + el.clientWidth < el.scrollWidth - 1);
+      setShowLeft(el.scrollLeft > 5);
+    };
+
+    update();
+    window.addEventListener("resize", update);
+    el.addEventListener("scroll", update);
+
+    return () => {
+      window.removeEventListener("resize", update);
+      el.removeEventListener("scroll", update);
+    };
+  }, [selectedTerm]);
+
+  return (
+    <div className="bg-white bg-dark-2 rounded-md dark:rounded-3xl p-4 md:p-6 shadow w-full">
+      <h2 className="text-lg md:text-xl font-bold mb-3 md:mb-4">Academic Result Sheet</h2>
+
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+          <span className="font-semibold">Student Name:</span>
+          <span className="break-words">{studentName}</span>
+        </div>
+
+        <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3 min-w-0">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="font-semibold text-sm">Class:</span>
+            <span className="text-sm">{term?.className ?? "-"}</span>
+          </div>
+          <div className="flex items-center gap-2 min-w-0">
+            <label className="font-semibold text-sm">Term:</label>
+            <select
+              value={selectedTerm}
+              onChange={e => setSelectedTerm(e.target.value)}
+              className="border rounded px-2 py-1 text-sm min-w-0 w-full sm:w-auto border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-50 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 transition "
+            >
+              {terms.map(t => <option key={t.key} value={t.key}>{t.label}</option>)}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      <div className="relative">
+        <div ref={scrollRef} className="overflow-x-auto">
+          <table className="min-w-[560px] w-full table-auto text-sm md:text-base border">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="border px-3 py-2 text-left">Subject</th>
+                {columns.map((column) => (
+                  <th key={column.name} className="border px-3 py-2">
+                    {column.name}
+                    {column.weight !== null && ` (${column.weight})`}
+                  </th>
+                ))}
+                <th className="border px-3 py-2">Total (100)</th>
+                <th className="border px-3 py-2">Grade</th>
+                <th className="border px-3 py-2">Remark</th>
+                <th className="border px-3 py-2">Position</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.length === 0 && (
+                <tr>
+                  <td colSpan={5 + columns.length} className="border px-3 py-4 text-center text-gray-500">
+                    No results recorded yet.
+                  </td>
+                </tr>
+              )}
+              {results.map((row, idx) => (
+                <tr key={idx} className="hover:bg-gray-50">
+                  <td className="border px-3 py-2 font-medium text-left">{row.subject}</td>
+                  {columns.map((column) => (
+                    <td key={column.name} className="border px-3 py-2 text-center">
+                      {row.parts.find((part) => part.name === column.name)?.points ?? "-"}
+                    </td>
+                  ))}
+                  <td className="border px-3 py-2 font-bold text-center">{row.total}</td>
+                  <td className="border px-3 py-2 text-center">
+                    <span className={`inline-block px-2 py-0.5 rounded text-xs font-bold ${TONE_STYLES[row.tone]}`}>{row.grade}</span>
+                  </td>
+                  <td className="border px-3 py-2 text-center text-sm">{row.remark ?? "-"}</td>
+                  <td className="border px-3 py-2 text-center">
+                    {row.position ? `${row.position.position} of ${row.position.outOf}` : "-"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {showRight && (
+          <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-2">
+            <div className="w-16 h-full bg-gradient-to-l from-white to-transparent" />
+            <span className="ml-[-56px] pr-2 text-xs text-gray-500 hidden sm:inline-flex">Scroll →</span>
+          </div>
+        )}
+
+        {showLeft && (
+          <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-2">
+            <span className="pl-2 pr-4 text-xs text-gray-500 hidden sm:inline-flex">←</span>
+            <div className="w-6 h-full bg-gradient-to-r from-white to-transparent" />
+          </div>
+        )}
+
+        {showRight && (
+          <div className="sm:hidden pointer-events-none absolute bottom-2 right-2 bg-white/90 text-xs text-gray-600 px-2 py-1 rounded shadow">
+            Swipe →
+          </div>
+        )}
+      </div>
+
+      {term && (
+        <div className="flex flex-wrap justify-between gap-2 mt-3 text-xs text-gray-500">
+          <span>Grading scheme: {term.gradingScheme}</span>
+          <span className="font-semibold text-gray-700">
+            Class position:{" "}
+            {term.classPosition
+              ? `${term.classPosition.position} of ${term.classPosition.outOf}`
+              : "-"}
+          </span>
+          {term.performance && (
+            <span className="font-semibold text-gray-700">
+              {term.performance.unit === "GPA" ? "Term GPA" : "Term average"}:{" "}
+              {term.performance.value} of {term.performance.max}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResultSheetView;
@@ -0,0 +1,47 @@
+import { FieldError, Merge } from "react-hook-form";
+
+type SelectFieldProps = {
+  label: string;
+  register: any;
+  name: string;
+  options: { value: string | number; label: string }[];
+  defaultValue?: string | number | (string | number)[];
+  error?: FieldError | Merge<FieldError, any>;
+  multiple?: boolean;
+  placeholder?: string;
+}
+
+const SelectField = ( {
+  label,
+  register,
+  name,
+  options,
+  defaultValue,
+  error,
+  multiple = false,
+  placeholder,
+
+} : SelectFieldProps ) => {
+  return (
+    <div className=" flex flex-col gap-2 w-full md:w-1/4">
+
+        <label className=" text-xs text-gray-500 ">{label}</label>
+
+      <select multiple={multiple} {...register(name)} className=" ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full " defaultValue={defaultValue} >
+
+        { /* EMPTY OPTION FOR OPTIONAL SINGLE SELECTS */ }
+        {!multiple && placeholder !== undefined && <option value="">{placeholder}</option>}
+
+        {options.map((option) => (
+          <option value={option.value} key={option.value}>{option.label}</option>
+        ))}
+
+      </select>
+
+      {error?.message && <p className=" text-xs text-red-400" >{error?.message.toString() }</p>}
+
+      </div>
+  )
+}
+
+export default SelectField
@@ -0,0 +1,35 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { setCurrentTerm } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
+
+/**
+ * SetCurrentTermButton
+ * "Make current" button on /list/terms. The current term is what lists and
+ * dashboards show by default.
+ */
+const SetCurrentTermButton = ({ id }: { id: number }) => {
+  const router = useRouter();
+  const [pending, setPending] = useState(false);
+
+  const onClick = async () => {
+    setPending(true);
+    const state = await setCurrentTerm(id);
+    setPending(false);
+    handleActionResult(state, { onSuccess: () => router.refresh() });
+  };
+
+  return (
+    <button
+      onClick={onClick}
+      disabled={pending}
+      className=" py-1 px-2 rounded-full text-xs ring-[1.5px] ring-gray-300 hover:bg-PatoSky/30 disabled:opacity-50 "
+    >
+      {pending ? "Saving..." : "Make current"}
+    </button>
+  );
+};
+
+export default SetCurrentTermButton;
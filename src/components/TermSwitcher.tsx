@@ -0,0 +1,48 @@
+"use client";
+
+import { useRouter, useSearchParams } from "next/navigation";
+
+/**
+ * TermSwitcher
+ * Term picker in the list headers. Like TableSearch, it only rewrites the
+ * `termId` URL param; without one the page shows the current term
+ * (withCurrentTerm in lib/terms.ts), so `defaultValue` is the current
+ * term's id (or "all terms" when there is none). Switching terms resets the
+ * page to 1.
+ */
+const TermSwitcher = ({
+  options,
+  defaultValue,
+}: {
+  options: { value: string; label: string }[]; // "All terms" first
+  defaultValue: string;
+}) => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const value = searchParams?.get("termId") ?? defaultValue;
+
+  const onChange = (termId: string) => {
+    const params = new URLSearchParams(window.location.search);
+    params.set("termId", termId);
+    params.delete("page");
+    router.push(`${window.location.pathname}?${params.toString()}`);
+  };
+
+  return (
+    <select
+      title="Term"
+      className=" ring-[1.5px] ring-gray-300 py-2 px-3 rounded-full text-xs bg-transparent "
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      {options.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default TermSwitcher;
@@ -1,9 +1,13 @@
 "use client";
 import { useEffect, useState } from "react";
 import { FaMoon, FaSun } from "react-icons/fa";
+import { getSavedTheme, saveThemePreference } from "@/lib/accountActions";
 
 const THEME_KEY = "sma_theme";
 
+// Fired by the /settings page when the theme is changed there
+export const THEME_CHANGE_EVENT = "sma_theme_change";
+
 /**
  * ThemeToggle Component
  *
@@ -17,6 +21,10 @@ const THEME_KEY = "sma_theme";
  *
  * The head script in layout.tsx handles initialization to prevent theme flash.
  * This component only handles user interactions and persistence.
+ *
+ * The theme is also a per-user preference (see /settings): on mount the saved
+ * preference wins over localStorage, and toggling saves it back, so the
+ * choice follows the user across devices.
  */
 export default function ThemeToggle() {
   const [theme, setTheme] = useState<string>("light");
@@ -32,6 +40,16 @@ export default function ThemeToggle() {
       setTheme("light");
     }
     setMounted(true);
+
+    // Apply the user's saved preference (if signed in) over the local value
+    getSavedTheme()
+      .then((saved) => saved && setTheme(saved))
+      .catch(() => {});
+
+    const onThemeChange = (e: Event) =>
+      setTheme((e as CustomEvent<string>).detail);
+    window.addEventListener(THEME_CHANGE_EVENT, onThemeChange);
+    return () => window.removeEventListener(THEME_CHANGE_EVENT, onThemeChange);
   }, []);
 
   useEffect(() => {
@@ -60,7 +78,9 @@ export default function ThemeToggle() {
    * Toggle between light and dark themes
    */
   const toggle = () => {
-    setTheme((prevTheme) => (prevTheme === "dark" ? "light" : "dark"));
+    const next = theme === "dark" ? "light" : "dark";
+    setTheme(next);
+    saveThemePreference(next).catch(() => {});
   };
 
   // Don't render until mounted to avoid hydration mismatch
@@ -0,0 +1,294 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { FaLock, FaLockOpen } from "react-icons/fa";
+import { commitTimetable, previewTimetable } from "@/lib/timetableActions";
+import { TIMETABLE_DEFAULTS } from "@/lib/settings";
+import type { TimetableSchema } from "@/lib/formValidationSchemas";
+import type {
+  TimetableCell,
+  TimetablePreview,
+  TimetableSlot,
+} from "@/lib/timetable";
+
+const fieldClass =
+  " ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm bg-transparent ";
+
+const CELL_STYLES: Record<TimetableCell["kind"], string> = {
+  new: "bg-PatoSky/30",
+  locked: "bg-PatoYellow/40",
+  kept: "bg-gray-100 text-gray-500",
+};
+
+const dayLabel = (day: string) => day.charAt(0) + day.slice(1).toLowerCase();
+
+const slotKey = (slot: Pick<TimetableSlot, "classId" | "day" | "periodId">) =>
+  `${slot.classId}|${slot.day}|${slot.periodId}`;
+
+const randomSeed = () => Math.floor(Math.random() * 1_000_000);
+
+/**
+ * TimetableGenerator
+ * Generate → preview → commit flow on /list/timetable. The admin picks a
+ * grade (or the whole school), previews the generated week of every class,
+ * locks the slots they want to keep and regenerates the rest with a new
+ * seed. "Save timetable" replays the request behind the preview on the
+ * server (lib/timetableActions.ts), so what is saved is what was shown;
+ * if the school's data changed in between, the save is refused.
+ */
+const TimetableGenerator = ({
+  grades,
+}: {
+  grades: { id: number; name: string }[];
+}) => {
+  const router = useRouter();
+  const [gradeId, setGradeId] = useState("");
+  const [maxPerDay, setMaxPerDay] = useState(TIMETABLE_DEFAULTS.maxPerDay);
+  const [noBackToBack, setNoBackToBack] = useState(
+    TIMETABLE_DEFAULTS.noBackToBack
+  );
+  const [locked, setLocked] = useState<Record<string, TimetableSlot>>({});
+  const [preview, setPreview] = useState<TimetablePreview | null>(null);
+  const [request, setRequest] = useState<TimetableSchema | null>(null); // behind `preview`
+  const [busy, setBusy] = useState(false);
+
+  const generate = async (keepLocks: boolean) => {
+    const next: TimetableSchema = {
+      gradeId: gradeId ? Number(gradeId) : "",
+      maxPerDay,
+      noBackToBack,
+      seed: randomSeed(),
+      locked: keepLocks ? Object.values(locked) : [],
+    };
+    if (!keepLocks) setLocked({});
+
+    setBusy(true);
+    const state = await previewTimetable(next);
+    setBusy(false);
+
+    if (state.preview) {
+      setPreview(state.preview);
+      setRequest(next);
+    } else {
+      toast.error(state.message ?? "Could not generate the timetable.");
+    }
+  };
+
+  const onCommit = async () => {
+    if (!request || !preview) return;
+    const scope = gradeId ? "this grade" : "the whole school";
+    if (
+      !window.confirm(
+        `Replace ${preview.replaced} existing lesson(s) of ${scope} with the generated timetable?`
+      )
+    ) {
+      return;
+    }
+
+    setBusy(true);
+    const state = await commitTimetable(request, preview.fingerprint);
+    setBusy(false);
+
+    if (state.success) {
+      toast.success(state.message ?? "Timetable saved!");
+      setPreview(null);
+      setRequest(null);
+      setLocked({});
+      router.refresh();
+    } else {
+      toast.error(state.message ?? "Could not save the timetable.");
+    }
+  };
+
+  const toggleLock = (cell: TimetableCell) =>
+    setLocked((current) => {
+      const next = { ...current };
+      const k = slotKey(cell);
+      if (next[k]) delete next[k];
+      else {
+        const { classId, subjectId, teacherId, day, periodId } = cell;
+        next[k] = { classId, subjectId, teacherId, day, periodId };
+      }
+      return next;
+    });
+
+  const placed = preview?.cells.filter((c) => c.kind !== "kept").length ?? 0;
+  const missing = preview?.unplaced.reduce((sum, u) => sum + u.missing, 0) ?? 0;
+
+  return (
+    <div className=" flex flex-col gap-6 mt-4 ">
+      { /* OPTIONS */ }
+      <div className=" flex flex-wrap items-end gap-4 ">
+        <label className=" flex flex-col gap-2 text-xs text-gray-500 ">
+          Scope
+          <select
+            className={fieldClass}
+            value={gradeId}
+            onChange={(e) => {
+              setGradeId(e.target.value);
+              setPreview(null);
+              setLocked({});
+            }}
+          >
+            <option value="">Whole school</option>
+            {grades.map((grade) => (
+              <option key={grade.id} value={grade.id}>
+                {grade.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className=" flex flex-col gap-2 text-xs text-gray-500 ">
+          Max periods per teacher per day
+          <input
+            type="number"
+            min={1}
+            max={12}
+            className={`${fieldClass} w-24`}
+            value={maxPerDay}
+            onChange={(e) => setMaxPerDay(Number(e.target.value))}
+          />
+        </label>
+
+        <label className=" flex items-center gap-2 text-xs text-gray-500 pb-2 ">
+          <input
+            type="checkbox"
+            checked={noBackToBack}
+            onChange={(e) => setNoBackToBack(e.target.checked)}
+          />
+          No back-to-back periods of the same subject
+        </label>
+
+        <button
+          onClick={() => generate(false)}
+          disabled={busy}
+          className=" bg-blue-400 text-white py-2 px-4 rounded-md text-sm disabled:opacity-50 "
+        >
+          Generate
+        </button>
+        {preview && (
+          <button
+            onClick={() => generate(true)}
+            disabled={busy}
+            className=" ring-[1.5px] ring-blue-400 text-blue-500 py-2 px-4 rounded-md text-sm disabled:opacity-50 "
+          >
+            Regenerate unlocked slots
+          </button>
+        )}
+      </div>
+
+      {busy && <p className=" text-sm text-gray-500 ">Working...</p>}
+
+      { /* PREVIEW */ }
+      {preview && (
+        <div className=" flex flex-col gap-4 ">
+          <div className=" flex flex-wrap items-center justify-between gap-3 ">
+            <p className=" text-sm ">
+              {placed} lesson(s) placed
+              {missing > 0 && (
+                <span className="text-red-500">, {missing} period(s) not placed</span>
+              )}
+              . Saving replaces {preview.replaced} lesson(s)
+              {preview.kept > 0 &&
+                ` and keeps ${preview.kept} that already have exams, assignments, attendance or live sessions`}
+              .
+            </p>
+            <button
+              onClick={onCommit}
+              disabled={busy || placed === 0}
+              className=" bg-green-500 text-white py-2 px-4 rounded-md text-sm disabled:opacity-50 "
+            >
+              Save timetable
+            </button>
+          </div>
+
+          {preview.rejectedLocks > 0 && (
+            <p className=" text-xs text-red-500 ">
+              {preview.rejectedLocks} locked slot(s) no longer fit and were
+              dropped.
+            </p>
+          )}
+
+          {preview.unplaced.length > 0 && (
+            <ul className=" text-xs text-red-500 list-disc pl-5 ">
+              {preview.unplaced.map((u, i) => (
+                <li key={i}>
+                  {u.className} {u.subject}: {u.missing} period(s) missing.{" "}
+                  {u.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <p className=" text-xs text-gray-500 ">
+            Click a lesson to lock it in place; locks apply when you
+            regenerate. Grey lessons already have records and are kept.
+          </p>
+
+          {preview.classes.map((klass) => (
+            <div key={klass.id} className=" overflow-x-auto ">
+              <h2 className=" text-sm font-semibold mb-2 ">{klass.name}</h2>
+              <table className=" w-full text-xs table-fixed min-w-[640px] ">
+                <thead>
+                  <tr className=" text-left text-gray-500 ">
+                    <th className=" p-2 w-28 ">Period</th>
+                    {preview.days.map((day) => (
+                      <th key={day} className=" p-2 ">
+                        {dayLabel(day)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.periods.map((period) => (
+                    <tr key={period.id} className=" border-b border-gray-200 ">
+                      <td className=" p-2 text-gray-500 ">{period.name}</td>
+                      {preview.days.map((day) => {
+                        const cell = preview.cells.find(
+                          (c) =>
+                            c.classId === klass.id &&
+                            c.day === day &&
+                            c.periodId === period.id
+                        );
+                        if (!cell) return <td key={day} className=" p-1 " />;
+
+                        const isLocked = !!locked[slotKey(cell)];
+                        return (
+                          <td key={day} className=" p-1 ">
+                            <button
+                              disabled={cell.kind === "kept"}
+                              onClick={() => toggleLock(cell)}
+                              className={`w-full text-left p-2 rounded-md ${CELL_STYLES[cell.kind]} ${isLocked ? "ring-2 ring-PatoYellow" : ""}`}
+                            >
+                              <span className=" flex items-center justify-between gap-1 font-semibold ">
+                                {cell.subject}
+                                {cell.kind !== "kept" &&
+                                  (isLocked ? (
+                                    <FaLock size={10} />
+                                  ) : (
+                                    <FaLockOpen size={10} className="text-gray-400" />
+                                  ))}
+                              </span>
+                              <span className=" block text-gray-500 truncate ">
+                                {cell.teacher}
+                              </span>
+                            </button>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimetableGenerator;
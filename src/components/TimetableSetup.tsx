@@ -0,0 +1,249 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { FaTrash } from "react-icons/fa";
+import {
+  createSchoolPeriod,
+  createTeacherUnavailability,
+  deleteSchoolPeriod,
+  deleteTeacherUnavailability,
+  saveSubjectRequirement,
+} from "@/lib/timetableActions";
+import { handleActionResult } from "@/lib/formActionResult";
+import type { ActionState } from "@/lib/actions";
+import type { TeacherUnavailabilitySchema } from "@/lib/formValidationSchemas";
+
+type Option<Id> = { id: Id; name: string };
+
+type Props = {
+  days: string[];
+  periods: { id: number; name: string; time: string }[]; // time: "08:00–08:45"
+  grades: Option<number>[];
+  subjects: Option<number>[];
+  teachers: Option<string>[];
+  requirements: { gradeId: number; subjectId: number; periodsPerWeek: number }[];
+  unavailability: { id: number; teacher: string; day: string; period: string }[];
+};
+
+const fieldClass =
+  " ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm bg-transparent ";
+
+const dayLabel = (day: string) => day.charAt(0) + day.slice(1).toLowerCase();
+
+/**
+ * TimetableSetup
+ * The generator inputs on /list/timetable: the periods of a school day,
+ * periods per week of every subject per grade (0 = not taught) and the
+ * days or periods a teacher cannot teach. Who may teach a subject is the
+ * teacher's subject list on their own form.
+ */
+const TimetableSetup = ({
+  days,
+  periods,
+  grades,
+  subjects,
+  teachers,
+  requirements,
+  unavailability,
+}: Props) => {
+  const router = useRouter();
+  const [pending, setPending] = useState(false);
+
+  const run = async (action: () => Promise<ActionState>) => {
+    setPending(true);
+    const state = await action();
+    setPending(false);
+    handleActionResult(state, { onSuccess: () => router.refresh() });
+    return state.success;
+  };
+
+  const onAddPeriod = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const data = new FormData(form);
+    const saved = await run(() =>
+      createSchoolPeriod({
+        name: String(data.get("name")),
+        start: String(data.get("start")),
+        end: String(data.get("end")),
+      })
+    );
+    if (saved) form.reset();
+  };
+
+  const onAddUnavailability = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const data = new FormData(e.currentTarget);
+    await run(() =>
+      createTeacherUnavailability({
+        teacherId: String(data.get("teacherId")),
+        day: data.get("day") as TeacherUnavailabilitySchema["day"],
+        periodId: Number(data.get("periodId")) || "",
+      })
+    );
+  };
+
+  const periodsPerWeek = (gradeId: number, subjectId: number) =>
+    requirements.find((r) => r.gradeId === gradeId && r.subjectId === subjectId)
+      ?.periodsPerWeek ?? 0;
+
+  const onRequirementChange = (
+    gradeId: number,
+    subjectId: number,
+    value: string
+  ) => {
+    const next = Number(value || 0);
+    if (next === periodsPerWeek(gradeId, subjectId)) return;
+    run(() =>
+      saveSubjectRequirement({ gradeId, subjectId, periodsPerWeek: next })
+    );
+  };
+
+  return (
+    <div className=" flex flex-col gap-8 mt-4 ">
+      { /* SCHOOL PERIODS */ }
+      <section className=" flex flex-col gap-3 ">
+        <h2 className=" text-sm font-semibold ">Periods of the school day</h2>
+        {periods.length === 0 ? (
+          <p className=" text-sm text-gray-500 ">
+            No periods yet. Add the teaching periods of a day (breaks are the
+            gaps between them).
+          </p>
+        ) : (
+          <div className=" flex flex-wrap gap-2 ">
+            {periods.map((period) => (
+              <span
+                key={period.id}
+                className=" flex items-center gap-2 py-1 px-3 rounded-full text-xs bg-PatoSky/30 "
+              >
+                {period.name} · {period.time}
+                <button
+                  title="Delete period"
+                  disabled={pending}
+                  onClick={() => run(() => deleteSchoolPeriod(period.id))}
+                >
+                  <FaTrash size={10} className="text-gray-500" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <form onSubmit={onAddPeriod} className=" flex flex-wrap items-end gap-3 ">
+          <input name="name" placeholder="Period 1" required className={fieldClass} />
+          <input name="start" type="time" required className={fieldClass} />
+          <input name="end" type="time" required className={fieldClass} />
+          <button
+            disabled={pending}
+            className=" bg-blue-400 text-white py-2 px-4 rounded-md text-sm disabled:opacity-50 "
+          >
+            Add period
+          </button>
+        </form>
+      </section>
+
+      { /* PERIODS PER WEEK */ }
+      <section className=" flex flex-col gap-3 ">
+        <h2 className=" text-sm font-semibold ">Periods per week</h2>
+        <p className=" text-xs text-gray-500 ">
+          How many periods a week every class of a grade has of each subject.
+          0 means the grade does not take the subject.
+        </p>
+        <div className=" overflow-x-auto ">
+          <table className=" text-sm ">
+            <thead>
+              <tr className=" text-left text-xs text-gray-500 ">
+                <th className=" p-2 ">Subject</th>
+                {grades.map((grade) => (
+                  <th key={grade.id} className=" p-2 ">
+                    {grade.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {subjects.map((subject) => (
+                <tr key={subject.id} className=" border-b border-gray-200 ">
+                  <td className=" p-2 ">{subject.name}</td>
+                  {grades.map((grade) => (
+                    <td key={grade.id} className=" p-2 ">
+                      <input
+                        type="number"
+                        min={0}
+                        max={40}
+                        defaultValue={periodsPerWeek(grade.id, subject.id)}
+                        onBlur={(e) =>
+                          onRequirementChange(grade.id, subject.id, e.target.value)
+                        }
+                        className={`${fieldClass} w-16`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      { /* TEACHER UNAVAILABILITY */ }
+      <section className=" flex flex-col gap-3 ">
+        <h2 className=" text-sm font-semibold ">Teacher unavailability</h2>
+        {unavailability.length > 0 && (
+          <ul className=" flex flex-col gap-1 text-sm ">
+            {unavailability.map((u) => (
+              <li key={u.id} className=" flex items-center gap-3 ">
+                <span>
+                  {u.teacher}: {dayLabel(u.day)}, {u.period}
+                </span>
+                <button
+                  title="Remove"
+                  disabled={pending}
+                  onClick={() => run(() => deleteTeacherUnavailability(u.id))}
+                >
+                  <FaTrash size={10} className="text-gray-500" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form
+          onSubmit={onAddUnavailability}
+          className=" flex flex-wrap items-end gap-3 "
+        >
+          <select name="teacherId" required className={fieldClass}>
+            <option value="">Teacher</option>
+            {teachers.map((teacher) => (
+              <option key={teacher.id} value={teacher.id}>
+                {teacher.name}
+              </option>
+            ))}
+          </select>
+          <select name="day" required className={fieldClass}>
+            {days.map((day) => (
+              <option key={day} value={day}>
+                {dayLabel(day)}
+              </option>
+            ))}
+          </select>
+          <select name="periodId" className={fieldClass}>
+            <option value="">Whole day</option>
+            {periods.map((period) => (
+              <option key={period.id} value={period.id}>
+                {period.name} ({period.time})
+              </option>
+            ))}
+          </select>
+          <button
+            disabled={pending}
+            className=" bg-blue-400 text-white py-2 px-4 rounded-md text-sm disabled:opacity-50 "
+          >
+            Add
+          </button>
+        </form>
+      </section>
+    </div>
+  );
+};
+
+export default TimetableSetup;
@@ -1,6 +1,7 @@
 import { FaEllipsisH } from "react-icons/fa";
 
-const UserCard = ( {type}:{type:string} ) => {
+// `year`: the current academic year's name, e.g. "2025/26"
+const UserCard = ( {type, year}:{type:string; year?:string} ) => {
   return (
      /* USER CARDS MAIN CONTAINER */ 
     <div className=' rounded-2xl odd:bg-PatoPurple even:bg-PatoYellow p-4 flex-1'>
@@ -9,7 +10,7 @@ const UserCard = ( {type}:{type:string} ) => {
       <div className=" flex justify-between items-center">
         { /* CONTENT DATE */ }
         <span className=" text-[10px] bg-white px-2 py-1 rounded-full text-green-600">
-          2025/26
+          {year ?? "—"}
         </span>
         
         { /* MORE IMAGE ICON */ }
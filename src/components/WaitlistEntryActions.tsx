@@ -0,0 +1,57 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { acceptWaitlistOffer, deleteWaitlistEntry } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
+import type { ActionState } from "@/lib/actions";
+
+/**
+ * WaitlistEntryActions
+ * Row buttons on /list/waitlist: enrol a student who was offered a seat, or
+ * take them off the waitlist (a held seat then goes to the next in line).
+ */
+const WaitlistEntryActions = ({
+  id,
+  offered,
+}: {
+  id: number;
+  offered: boolean;
+}) => {
+  const router = useRouter();
+  const [pending, setPending] = useState(false);
+
+  const run = async (action: () => Promise<ActionState>) => {
+    setPending(true);
+    const state = await action();
+    setPending(false);
+    handleActionResult(state, { onSuccess: () => router.refresh() });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {offered && (
+        <button
+          onClick={() => run(() => acceptWaitlistOffer(id))}
+          disabled={pending}
+          className=" py-1 px-2 rounded-full text-xs bg-green-500 text-white disabled:opacity-50 "
+        >
+          Enrol
+        </button>
+      )}
+      <button
+        onClick={() => {
+          if (window.confirm("Take this student off the waitlist?")) {
+            run(() => deleteWaitlistEntry(id));
+          }
+        }}
+        disabled={pending}
+        className=" py-1 px-2 rounded-full text-xs ring-[1.5px] ring-gray-300 hover:bg-PatoSky/30 disabled:opacity-50 "
+      >
+        Remove
+      </button>
+    </div>
+  );
+};
+
+export default WaitlistEntryActions;
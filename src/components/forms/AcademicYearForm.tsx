@@ -0,0 +1,80 @@
+"use client"
+
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import InputField from "../InputField";
+import type { FormProps } from "../FormModal";
+import { academicYearSchema } from "@/lib/formValidationSchemas";
+import { createAcademicYear, updateAcademicYear } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
+import { toDateOnlyInputValue } from "@/lib/utils";
+
+
+const AcademicYearForm = ( { type, data, setOpen }: FormProps) => {
+
+  { /* ZOD */ }
+  const {
+    register,
+    handleSubmit,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm ({
+    resolver: zodResolver(academicYearSchema),
+  });
+
+  const router = useRouter();
+
+  const onSubmit = handleSubmit( async (formData) => {
+    const action = type === "create" ? createAcademicYear : updateAcademicYear;
+    const state = await action(formData);
+
+    handleActionResult(state, {
+      setError,
+      onSuccess: () => {
+        setOpen(false);
+        router.refresh();
+      },
+    });
+  } )
+
+
+ return (
+
+     /* FORM */
+    <form className=" flex flex-col gap-8 " onSubmit={onSubmit} >
+
+      { /* CONDITION FOR FORM HEADING */ }
+      { type === "create" ? < h1 className="text-xl font-semibold">Create A New Academic Year</h1> : < h1 className="text-xl font-semibold">Update Academic Year</h1> }
+
+      { /* FORM MODAL LABEL 1 */ }
+      <span className="text-xs text-gray-400 font-medium">
+        Academic Year Information
+      </span>
+
+      { /* ACADEMIC YEAR INPUTS MAIN CONTAINER */ }
+      <div className="flex justify-between flex-wrap gap-4 ">
+
+        { /* HIDDEN ID FOR UPDATES */ }
+        {data?.id && <input type="hidden" {...register("id")} defaultValue={data.id} />}
+
+        <InputField label="Name (e.g. 2025/26)" name="name" defaultValue= {data?.name} register={register} error={errors.name} />
+
+        <InputField label="Start Date" name="startDate" type="date" defaultValue= {toDateOnlyInputValue(data?.startDate)} register={register} error={errors.startDate} />
+
+        <InputField label="End Date" name="endDate" type="date" defaultValue= {toDateOnlyInputValue(data?.endDate)} register={register} error={errors.endDate} />
+
+      </div>
+
+
+      { /* UPDATE AND CREATE BUTTON */ }
+      <button disabled={isSubmitting} className="bg-blue-400 text-white p-2 rounded-md disabled:opacity-50">
+        { isSubmitting ? "Saving..." : type === "create" ? "Create" : "Update" }
+      </button>
+
+    </form>
+
+  )
+}
+
+export default AcademicYearForm
@@ -2,40 +2,45 @@
 
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useForm } from "react-hook-form";
-import { z } from "zod"
+import { useRouter } from "next/navigation";
 import InputField from "../InputField";
+import SelectField from "../SelectField";
+import type { FormProps } from "../FormModal";
+import { announcementSchema } from "@/lib/formValidationSchemas";
+import { createAnnouncement, updateAnnouncement } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
+import { toDateInputValue } from "@/lib/utils";
 
-/* Schema for Form validation */
-const schema = z.object({
 
-  user: z.string().min(1, { error: 'Title Name is required!' }),
-
-  class: z.string().min(1, { message: 'Class is required!' }),
-
-  date: z.string().min(1, { message: 'Date is required!' }),
-
-});
-
-{ /* ZOD */ }
-type Inputs = z.infer<typeof schema>
-
-
-const AnnouncementForm = ( { type, data }: { type: "create" | "update"; data?: any; }) => {
+const AnnouncementForm = ( { type, data, setOpen, relatedData }: FormProps) => {
   
   { /* ZOD */ }
   const {
     register,
     handleSubmit,
-    formState: { errors },
-  } = useForm<Inputs> ({
-    resolver: zodResolver(schema),
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm ({
+    resolver: zodResolver(announcementSchema),
   });
 
+  const router = useRouter();
+
+  const onSubmit = handleSubmit( async (formData) => {
+    const action = type === "create" ? createAnnouncement : updateAnnouncement;
+    const state = await action(formData);
 
-  const onSubmit = handleSubmit( (data) => {
-    console.log(data);
+    handleActionResult(state, {
+      setError,
+      onSuccess: () => {
+        setOpen(false);
+        router.refresh();
+      },
+    });
   } )
 
+  const { classes = [] } = relatedData ?? {};
+
  
  return (
     
@@ -47,26 +52,41 @@ const AnnouncementForm = ( { type, data }: { type: "create" | "update"; data?: a
 
       { /* FORM MODAL LABEL 1 */ }
       <span className="text-xs text-gray-400 font-medium">
-        Announcement Information
+        Announcement Full Information
       </span>
 
-      { /* AUTHENTICATION INPUTS MAIN CONTAINER 1 */ }
+      { /* ANNOUNCEMENT INPUTS MAIN CONTAINER */ }
       <div className="flex justify-between flex-wrap gap-4 ">
 
-        { /* AUTHENTICATION INFROMATION INPUTS */ }
+        { /* HIDDEN ID FOR UPDATES */ }
+        {data?.id && <input type="hidden" {...register("id")} defaultValue={data.id} />}
+
+        <InputField label="Announcement Title" name="title" defaultValue= {data?.title} register={register} error={errors.title} />
+
+        <InputField label="Description" name="description" defaultValue= {data?.description} register={register} error={errors.description} />
 
-        <InputField label="Title Name" name="user" defaultValue= {data?.title} register={register} error={errors.user}  />   
-         
-        <InputField label="Class" name="class" defaultValue= {data?.class} register={register} error={errors.class} />
+        <InputField label="Date" name="date" type="date" defaultValue= {toDateInputValue(data?.date)} register={register} error={errors.date} />
 
-        <InputField label="Date" name="date" defaultValue= {data?.date} register={register} error={errors.date} />   
+        { /* LEAVING THE CLASS EMPTY MAKES IT SCHOOL-WIDE */ }
+        <SelectField
+          label="Class"
+          name="classId"
+          placeholder="All classes"
+          register={register}
+          error={errors.classId}
+          defaultValue={data?.classId ?? ""}
+          options={classes.map((classItem: { id: number; name: string }) => ({
+            value: classItem.id,
+            label: classItem.name,
+          }))}
+        />
 
       </div>
       
 
       { /* UPDATE AND CREATE BUTTON */ }
-      <button className="bg-blue-400 text-white p-2 rounded-md">
-        { type === "create" ? "Create" : "Update" }
+      <button disabled={isSubmitting} className="bg-blue-400 text-white p-2 rounded-md disabled:opacity-50">
+        { isSubmitting ? "Saving..." : type === "create" ? "Create" : "Update" }
       </button>
 
     </form>
@@ -74,4 +94,4 @@ const AnnouncementForm = ( { type, data }: { type: "create" | "update"; data?: a
   )
 }
 
-export default AnnouncementForm
\ No newline at end of file
+export default AnnouncementForm
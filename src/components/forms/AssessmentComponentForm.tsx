@@ -0,0 +1,106 @@
+"use client"
+
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import InputField from "../InputField";
+import SelectField from "../SelectField";
+import type { FormProps } from "../FormModal";
+import { assessmentComponentSchema } from "@/lib/formValidationSchemas";
+import { createAssessmentComponent, updateAssessmentComponent } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
+
+
+const AssessmentComponentForm = ( { type, data, setOpen, relatedData }: FormProps) => {
+
+  { /* ZOD */ }
+  const {
+    register,
+    handleSubmit,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm ({
+    resolver: zodResolver(assessmentComponentSchema),
+  });
+
+  const router = useRouter();
+
+  const onSubmit = handleSubmit( async (formData) => {
+    const action = type === "create" ? createAssessmentComponent : updateAssessmentComponent;
+    const state = await action(formData);
+
+    handleActionResult(state, {
+      setError,
+      onSuccess: () => {
+        setOpen(false);
+        router.refresh();
+      },
+    });
+  } )
+
+  const { subjects = [], terms = [] } = relatedData ?? {};
+
+
+ return (
+
+     /* FORM */
+    <form className=" flex flex-col gap-8 " onSubmit={onSubmit} >
+
+      { /* CONDITION FOR FORM HEADING */ }
+      { type === "create" ? < h1 className="text-xl font-semibold">Create A New Assessment Component</h1> : < h1 className="text-xl font-semibold">Update Assessment Component</h1> }
+
+      { /* FORM MODAL LABEL 1 */ }
+      <span className="text-xs text-gray-400 font-medium">
+        Component Information (a subject&apos;s components add up to 100)
+      </span>
+
+      { /* COMPONENT INPUTS MAIN CONTAINER */ }
+      <div className="flex justify-between flex-wrap gap-4 ">
+
+        { /* HIDDEN ID FOR UPDATES */ }
+        {data?.id && <input type="hidden" {...register("id")} defaultValue={data.id} />}
+
+        <InputField label="Name (e.g. CA1)" name="name" defaultValue= {data?.name} register={register} error={errors.name} />
+
+        <SelectField
+          label="Subject"
+          name="subjectId"
+          register={register}
+          error={errors.subjectId}
+          defaultValue={data?.subjectId}
+          options={subjects.map((subject: { id: number; name: string }) => ({
+            value: subject.id,
+            label: subject.name,
+          }))}
+        />
+
+        <SelectField
+          label="Term"
+          name="termId"
+          register={register}
+          error={errors.termId}
+          defaultValue={data?.termId}
+          options={terms.map((term: { id: number; label: string }) => ({
+            value: term.id,
+            label: term.label,
+          }))}
+        />
+
+        <InputField label="Weight (points of 100)" name="weight" type="number" defaultValue= {data?.weight?.toString()} register={register} error={errors.weight} />
+
+        <InputField label="Marked out of" name="maxScore" type="number" defaultValue= {data?.maxScore?.toString()} register={register} error={errors.maxScore} />
+
+      </div>
+
+
+      { /* UPDATE AND CREATE BUTTON */ }
+      <button disabled={isSubmitting} className="bg-blue-400 text-white p-2 rounded-md disabled:opacity-50">
+        { isSubmitting ? "Saving..." : type === "create" ? "Create" : "Update" }
+      </button>
+
+    </form>
+
+  )
+}
+
+export default AssessmentComponentForm
@@ -2,42 +2,44 @@
 
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useForm } from "react-hook-form";
-import { z } from "zod"
+import { useRouter } from "next/navigation";
 import InputField from "../InputField";
+import SelectField from "../SelectField";
+import type { FormProps } from "../FormModal";
+import { classSchema } from "@/lib/formValidationSchemas";
+import { createClass, updateClass } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
 
-/* Schema for Form validation */
-const schema = z.object({
 
-  user: z.string().min(1, { error: 'Class Name is required!' }),
-
-  capacity: z.string().min(1, { message: 'Capacity is required!' }),
-
-  grade: z.string().min(1, { message: 'Grade is required!' }),
-
-  supervisor: z.string().min(1, { message: 'Supervisor is required!' }),
-
-});
-
-{ /* ZOD */ }
-type Inputs = z.infer<typeof schema>
-
-
-const ClassForm = ( { type, data }: { type: "create" | "update"; data?: any; }) => {
+const ClassForm = ( { type, data, setOpen, relatedData }: FormProps) => {
   
   { /* ZOD */ }
   const {
     register,
     handleSubmit,
-    formState: { errors },
-  } = useForm<Inputs> ({
-    resolver: zodResolver(schema),
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm ({
+    resolver: zodResolver(classSchema),
   });
 
+  const router = useRouter();
+
+  const onSubmit = handleSubmit( async (formData) => {
+    const action = type === "create" ? createClass : updateClass;
+    const state = await action(formData);
 
-  const onSubmit = handleSubmit( (data) => {
-    console.log(data);
+    handleActionResult(state, {
+      setError,
+      onSuccess: () => {
+        setOpen(false);
+        router.refresh();
+      },
+    });
   } )
 
+  const { grades = [], teachers = [] } = relatedData ?? {};
+
  
  return (
     
@@ -52,25 +54,47 @@ const ClassForm = ( { type, data }: { type: "create" | "update"; data?: any; })
         Class Full Information
       </span>
 
-      { /* AUTHENTICATION INPUTS MAIN CONTAINER 1 */ }
+      { /* CLASS INPUTS MAIN CONTAINER */ }
       <div className="flex justify-between flex-wrap gap-4 ">
 
-        { /* AUTHENTICATION INFROMATION INPUTS */ }
+        { /* HIDDEN ID FOR UPDATES */ }
+        {data?.id && <input type="hidden" {...register("id")} defaultValue={data.id} />}
 
-        <InputField label="Class Name" name="user" defaultValue= {data?.name} register={register} error={errors.user}  />   
+        <InputField label="Class Name" name="name" defaultValue= {data?.name} register={register} error={errors.name}  />   
          
-        <InputField label="Capacity" name="capacity" defaultValue= {data?.capacity} register={register} error={errors.capacity} />
-
-        <InputField label="Grade" name="grade" defaultValue= {data?.grade} register={register} error={errors.grade} />
-
-        <InputField label="Supervisor" name="supervisor" defaultValue= {data?.supervisor} register={register} error={errors.supervisor} />  
+        <InputField label="Capacity" name="capacity" type="number" defaultValue= {data?.capacity} register={register} error={errors.capacity} />
+
+        <SelectField
+          label="Grade"
+          name="gradeId"
+          register={register}
+          error={errors.gradeId}
+          defaultValue={data?.gradeId}
+          options={grades.map((grade: { id: number; level: number }) => ({
+            value: grade.id,
+            label: `Grade ${grade.level}`,
+          }))}
+        />
+
+        <SelectField
+          label="Supervisor"
+          name="supervisorId"
+          placeholder="No supervisor"
+          register={register}
+          error={errors.supervisorId}
+          defaultValue={data?.supervisorId ?? ""}
+          options={teachers.map((teacher: { id: string; name: string; surname: string }) => ({
+            value: teacher.id,
+            label: `${teacher.name} ${teacher.surname}`,
+          }))}
+        />
 
       </div>
       
 
       { /* UPDATE AND CREATE BUTTON */ }
-      <button className="bg-blue-400 text-white p-2 rounded-md">
-        { type === "create" ? "Create" : "Update" }
+      <button disabled={isSubmitting} className="bg-blue-400 text-white p-2 rounded-md disabled:opacity-50">
+        { isSubmitting ? "Saving..." : type === "create" ? "Create" : "Update" }
       </button>
 
     </form>
@@ -78,4 +102,4 @@ const ClassForm = ( { type, data }: { type: "create" | "update"; data?: any; })
   )
 }
 
-export default ClassForm
\ No newline at end of file
+export default ClassForm
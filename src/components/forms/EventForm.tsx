@@ -2,46 +2,45 @@
 
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useForm } from "react-hook-form";
-import { z } from "zod"
+import { useRouter } from "next/navigation";
 import InputField from "../InputField";
+import SelectField from "../SelectField";
+import type { FormProps } from "../FormModal";
+import { eventSchema } from "@/lib/formValidationSchemas";
+import { createEvent, updateEvent } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
+import { toDateTimeInputValue } from "@/lib/utils";
 
-/* Schema for Form validation */
-const schema = z.object({
-
-  user: z.string().min(1, { error: 'Event Title is required!' }),
-
-  class: z.string().min(1, { message: 'Class Name is required!' }),
-
-  date: z.string().min(1, { message: 'Date is required!' }),
-
-  startTime: z.string().min(1, { message: 'Start Time is required!' }),
-
-  endTime: z.string().min(1, { message: 'End Time is required!' }),
 
-  
-
-});
-
-{ /* ZOD */ }
-type Inputs = z.infer<typeof schema>
-
-
-const EventForm = ( { type, data }: { type: "create" | "update"; data?: any; }) => {
+const EventForm = ( { type, data, setOpen, relatedData }: FormProps) => {
   
   { /* ZOD */ }
   const {
     register,
     handleSubmit,
-    formState: { errors },
-  } = useForm<Inputs> ({
-    resolver: zodResolver(schema),
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm ({
+    resolver: zodResolver(eventSchema),
   });
 
+  const router = useRouter();
 
-  const onSubmit = handleSubmit( (data) => {
-    console.log(data);
+  const onSubmit = handleSubmit( async (formData) => {
+    const action = type === "create" ? createEvent : updateEvent;
+    const state = await action(formData);
+
+    handleActionResult(state, {
+      setError,
+      onSuccess: () => {
+        setOpen(false);
+        router.refresh();
+      },
+    });
   } )
 
+  const { classes = [] } = relatedData ?? {};
+
  
  return (
     
@@ -53,30 +52,43 @@ const EventForm = ( { type, data }: { type: "create" | "update"; data?: any; })
 
       { /* FORM MODAL LABEL 1 */ }
       <span className="text-xs text-gray-400 font-medium">
-        Events Information
+        Event Full Information
       </span>
 
-      { /* AUTHENTICATION INPUTS MAIN CONTAINER 1 */ }
+      { /* EVENT INPUTS MAIN CONTAINER */ }
       <div className="flex justify-between flex-wrap gap-4 ">
 
-        { /* AUTHENTICATION INFROMATION INPUTS */ }
+        { /* HIDDEN ID FOR UPDATES */ }
+        {data?.id && <input type="hidden" {...register("id")} defaultValue={data.id} />}
+
+        <InputField label="Event Title" name="title" defaultValue= {data?.title} register={register} error={errors.title} />
 
-        <InputField label="Event Title" name="user" defaultValue= {data?.title} register={register} error={errors.user}  />   
-         
-        <InputField label="Class Name" name="class" defaultValue= {data?.class} register={register} error={errors.class} />
+        <InputField label="Description" name="description" defaultValue= {data?.description} register={register} error={errors.description} />
 
-        <InputField label="Due-Date" name="date" defaultValue= {data?.date} register={register} error={errors.date} />   
+        <InputField label="Start Time" name="startTime" type="datetime-local" defaultValue= {toDateTimeInputValue(data?.startTime)} register={register} error={errors.startTime} />
 
-        <InputField label="Start Time" name="startTime" defaultValue= {data?.startTime} register={register} error={errors.startTime} />
+        <InputField label="End Time" name="endTime" type="datetime-local" defaultValue= {toDateTimeInputValue(data?.endTime)} register={register} error={errors.endTime} />
 
-        <InputField label="End Time" name="endTime" defaultValue= {data?.endTime} register={register} error={errors.endTime} />
+        { /* LEAVING THE CLASS EMPTY MAKES IT SCHOOL-WIDE */ }
+        <SelectField
+          label="Class"
+          name="classId"
+          placeholder="All classes"
+          register={register}
+          error={errors.classId}
+          defaultValue={data?.classId ?? ""}
+          options={classes.map((classItem: { id: number; name: string }) => ({
+            value: classItem.id,
+            label: classItem.name,
+          }))}
+        />
 
       </div>
       
 
       { /* UPDATE AND CREATE BUTTON */ }
-      <button className="bg-blue-400 text-white p-2 rounded-md">
-        { type === "create" ? "Create" : "Update" }
+      <button disabled={isSubmitting} className="bg-blue-400 text-white p-2 rounded-md disabled:opacity-50">
+        { isSubmitting ? "Saving..." : type === "create" ? "Create" : "Update" }
       </button>
 
     </form>
@@ -84,4 +96,4 @@ const EventForm = ( { type, data }: { type: "create" | "update"; data?: any; })
   )
 }
 
-export default EventForm
\ No newline at end of file
+export default EventForm
@@ -2,42 +2,45 @@
 
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useForm } from "react-hook-form";
-import { z } from "zod"
+import { useRouter } from "next/navigation";
 import InputField from "../InputField";
+import SelectField from "../SelectField";
+import type { FormProps } from "../FormModal";
+import { examSchema } from "@/lib/formValidationSchemas";
+import { createExam, updateExam } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
+import { toDateTimeInputValue } from "@/lib/utils";
 
-/* Schema for Form validation */
-const schema = z.object({
 
-  user: z.string().min(1, { error: 'Subject Name is required!' }),
-
-  class: z.string().min(1, { message: 'Class is required!' }),
-
-  teacher: z.string().min(1, { message: 'Teacher Name is required!' }),
-
-  date: z.string().min(1, { message: 'Date is required!' }),
-
-});
-
-{ /* ZOD */ }
-type Inputs = z.infer<typeof schema>
-
-
-const ExamForm = ( { type, data }: { type: "create" | "update"; data?: any; }) => {
+const ExamForm = ( { type, data, setOpen, relatedData }: FormProps) => {
   
   { /* ZOD */ }
   const {
     register,
     handleSubmit,
-    formState: { errors },
-  } = useForm<Inputs> ({
-    resolver: zodResolver(schema),
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm ({
+    resolver: zodResolver(examSchema),
   });
 
+  const router = useRouter();
+
+  const onSubmit = handleSubmit( async (formData) => {
+    const action = type === "create" ? createExam : updateExam;
+    const state = await action(formData);
 
-  const onSubmit = handleSubmit( (data) => {
-    console.log(data);
+    handleActionResult(state, {
+      setError,
+      onSuccess: () => {
+        setOpen(false);
+        router.refresh();
+      },
+    });
   } )
 
+  const { lessons = [], components = [] } = relatedData ?? {};
+
  
  return (
     
@@ -45,32 +48,56 @@ const ExamForm = ( { type, data }: { type: "create" | "update"; data?: any; }) =
     <form className=" flex flex-col gap-8 " onSubmit={onSubmit} >
 
       { /* CONDITION FOR FORM HEADING */ }
-      { type === "create" ? < h1 className="text-xl font-semibold">Create A New Examination</h1> : < h1 className="text-xl font-semibold">Update Examination</h1> }
+      { type === "create" ? < h1 className="text-xl font-semibold">Create A New Exam</h1> : < h1 className="text-xl font-semibold">Update Exam</h1> }
 
       { /* FORM MODAL LABEL 1 */ }
       <span className="text-xs text-gray-400 font-medium">
-        Examination Information
+        Exam Full Information
       </span>
 
-      { /* AUTHENTICATION INPUTS MAIN CONTAINER 1 */ }
+      { /* EXAM INPUTS MAIN CONTAINER */ }
       <div className="flex justify-between flex-wrap gap-4 ">
 
-        { /* AUTHENTICATION INFROMATION INPUTS */ }
-
-        <InputField label="Subject Name" name="user" defaultValue= {data?.subject} register={register} error={errors.user}  />   
-         
-        <InputField label="Class" name="class" defaultValue= {data?.class} register={register} error={errors.class} />
-
-        <InputField label="Teacher" name="teacher" defaultValue= {data?.teacher} register={register} error={errors.teacher} />
-
-        <InputField label="Due-Date" name="date" defaultValue= {data?.date} register={register} error={errors.date} />  
+        { /* HIDDEN ID FOR UPDATES */ }
+        {data?.id && <input type="hidden" {...register("id")} defaultValue={data.id} />}
+
+        <InputField label="Exam Title" name="title" defaultValue= {data?.title} register={register} error={errors.title} />
+
+        <InputField label="Start Time" name="startTime" type="datetime-local" defaultValue= {toDateTimeInputValue(data?.startTime)} register={register} error={errors.startTime} />
+
+        <InputField label="End Time" name="endTime" type="datetime-local" defaultValue= {toDateTimeInputValue(data?.endTime)} register={register} error={errors.endTime} />
+
+        <SelectField
+          label="Lesson"
+          name="lessonId"
+          register={register}
+          error={errors.lessonId}
+          defaultValue={data?.lessonId}
+          options={lessons.map((lesson: { id: number; name: string; subject: { name: string }; class: { name: string } }) => ({
+            value: lesson.id,
+            label: `${lesson.subject.name} - ${lesson.class.name} (${lesson.name})`,
+          }))}
+        />
+
+        <SelectField
+          label="Assessment Component"
+          name="componentId"
+          register={register}
+          error={errors.componentId}
+          defaultValue={data?.componentId ?? ""}
+          placeholder="None"
+          options={components.map((component: { id: number; label: string }) => ({
+            value: component.id,
+            label: component.label,
+          }))}
+        />
 
       </div>
       
 
       { /* UPDATE AND CREATE BUTTON */ }
-      <button className="bg-blue-400 text-white p-2 rounded-md">
-        { type === "create" ? "Create" : "Update" }
+      <button disabled={isSubmitting} className="bg-blue-400 text-white p-2 rounded-md disabled:opacity-50">
+        { isSubmitting ? "Saving..." : type === "create" ? "Create" : "Update" }
       </button>
 
     </form>
@@ -78,4 +105,4 @@ const ExamForm = ( { type, data }: { type: "create" | "update"; data?: any; }) =
   )
 }
 
-export default ExamForm
\ No newline at end of file
+export default ExamForm
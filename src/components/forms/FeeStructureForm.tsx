@@ -0,0 +1,104 @@
+"use client"
+
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import InputField from "../InputField";
+import SelectField from "../SelectField";
+import type { FormProps } from "../FormModal";
+import { feeStructureSchema } from "@/lib/formValidationSchemas";
+import { createFeeStructure, updateFeeStructure } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
+
+
+const FeeStructureForm = ( { type, data, setOpen, relatedData }: FormProps) => {
+
+  { /* ZOD */ }
+  const {
+    register,
+    handleSubmit,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm ({
+    resolver: zodResolver(feeStructureSchema),
+  });
+
+  const router = useRouter();
+
+  const onSubmit = handleSubmit( async (formData) => {
+    const action = type === "create" ? createFeeStructure : updateFeeStructure;
+    const state = await action(formData);
+
+    handleActionResult(state, {
+      setError,
+      onSuccess: () => {
+        setOpen(false);
+        router.refresh();
+      },
+    });
+  } )
+
+  const { grades = [], terms = [] } = relatedData ?? {};
+
+
+ return (
+
+     /* FORM */
+    <form className=" flex flex-col gap-8 " onSubmit={onSubmit} >
+
+      { /* CONDITION FOR FORM HEADING */ }
+      { type === "create" ? < h1 className="text-xl font-semibold">Create A New Fee</h1> : < h1 className="text-xl font-semibold">Update Fee</h1> }
+
+      { /* FORM MODAL LABEL 1 */ }
+      <span className="text-xs text-gray-400 font-medium">
+        Fee Information (every student of the grade pays it for the term)
+      </span>
+
+      { /* FEE INPUTS MAIN CONTAINER */ }
+      <div className="flex justify-between flex-wrap gap-4 ">
+
+        { /* HIDDEN ID FOR UPDATES */ }
+        {data?.id && <input type="hidden" {...register("id")} defaultValue={data.id} />}
+
+        <InputField label="Name (e.g. Tuition)" name="name" defaultValue= {data?.name} register={register} error={errors.name} />
+
+        <InputField label="Amount (₦)" name="amount" defaultValue= {data?.amount?.toString()} register={register} error={errors.amount} />
+
+        <SelectField
+          label="Grade"
+          name="gradeId"
+          register={register}
+          error={errors.gradeId}
+          defaultValue={data?.gradeId}
+          options={grades.map((grade: { id: number; level: number }) => ({
+            value: grade.id,
+            label: `Grade ${grade.level}`,
+          }))}
+        />
+
+        <SelectField
+          label="Term"
+          name="termId"
+          register={register}
+          error={errors.termId}
+          defaultValue={data?.termId}
+          options={terms.map((term: { id: number; label: string }) => ({
+            value: term.id,
+            label: term.label,
+          }))}
+        />
+
+      </div>
+
+
+      { /* UPDATE AND CREATE BUTTON */ }
+      <button disabled={isSubmitting} className="bg-blue-400 text-white p-2 rounded-md disabled:opacity-50">
+        { isSubmitting ? "Saving..." : type === "create" ? "Create" : "Update" }
+      </button>
+
+    </form>
+
+  )
+}
+
+export default FeeStructureForm
@@ -0,0 +1,174 @@
+"use client"
+
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useFieldArray, useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import { FaPlus, FaTrash } from "react-icons/fa";
+import InputField from "../InputField";
+import SelectField from "../SelectField";
+import type { FormProps } from "../FormModal";
+import { gradingSchemeSchema } from "@/lib/formValidationSchemas";
+import { createGradingScheme, updateGradingScheme } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
+import { DEFAULT_GRADING_SCHEME } from "@/lib/settings";
+
+type BandValues = {
+  grade: string;
+  minScore: number;
+  remark: string | null;
+  gpa: number | null;
+};
+
+const fieldClass =
+  " ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full ";
+
+// A new scheme starts from the built-in bands
+const bandDefaults = (bands: BandValues[] = DEFAULT_GRADING_SCHEME.bands) =>
+  bands.map((band) => ({
+    grade: band.grade,
+    minScore: band.minScore,
+    remark: band.remark ?? "",
+    gpa: band.gpa ?? "",
+  }));
+
+
+const GradingSchemeForm = ( { type, data, setOpen, relatedData }: FormProps) => {
+
+  { /* ZOD */ }
+  const {
+    register,
+    control,
+    handleSubmit,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm ({
+    resolver: zodResolver(gradingSchemeSchema),
+    defaultValues: {
+      isDefault: data?.isDefault ?? false,
+      bands: bandDefaults(data?.bands),
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({ control, name: "bands" });
+
+  const router = useRouter();
+
+  const onSubmit = handleSubmit( async (formData) => {
+    const action = type === "create" ? createGradingScheme : updateGradingScheme;
+    const state = await action(formData);
+
+    handleActionResult(state, {
+      setError,
+      onSuccess: () => {
+        setOpen(false);
+        router.refresh();
+      },
+    });
+  } )
+
+  const { grades = [] } = relatedData ?? {};
+
+
+ return (
+
+     /* FORM */
+    <form className=" flex flex-col gap-8 " onSubmit={onSubmit} >
+
+      { /* CONDITION FOR FORM HEADING */ }
+      { type === "create" ? < h1 className="text-xl font-semibold">Create A New Grading Scheme</h1> : < h1 className="text-xl font-semibold">Update Grading Scheme</h1> }
+
+      { /* FORM MODAL LABEL 1 */ }
+      <span className="text-xs text-gray-400 font-medium">
+        Scheme Information
+      </span>
+
+      { /* SCHEME INPUTS MAIN CONTAINER */ }
+      <div className="flex justify-between flex-wrap gap-4 ">
+
+        { /* HIDDEN ID FOR UPDATES */ }
+        {data?.id && <input type="hidden" {...register("id")} defaultValue={data.id} />}
+
+        <InputField label="Name (e.g. WAEC A1-F9)" name="name" defaultValue= {data?.name} register={register} error={errors.name} />
+
+        <SelectField
+          label="Used by grades"
+          name="grades"
+          register={register}
+          multiple
+          error={errors.grades}
+          defaultValue={data?.grades?.map((grade: { id: number }) => grade.id.toString())}
+          options={grades.map((grade: { id: number; level: number }) => ({
+            value: grade.id,
+            label: `Grade ${grade.level}`,
+          }))}
+        />
+
+        <label className="flex items-center gap-2 text-sm w-full md:w-1/4">
+          <input type="checkbox" {...register("isDefault")} />
+          Default for grades without a scheme
+        </label>
+
+      </div>
+
+      { /* FORM MODAL LABEL 2 */ }
+      <span className="text-xs text-gray-400 font-medium">
+        Bands (minimum total out of 100; leave GPA empty if not used)
+      </span>
+
+      { /* BANDS */ }
+      <div className="flex flex-col gap-2">
+        {fields.map((field, index) => {
+          const bandErrors = errors.bands?.[index];
+          return (
+            <div key={field.id} className="flex items-start gap-2">
+              <div className="flex-1">
+                <input placeholder="Grade" {...register(`bands.${index}.grade`)} className={fieldClass} />
+                {bandErrors?.grade?.message && <p className=" text-xs text-red-400">{bandErrors.grade.message}</p>}
+              </div>
+              <div className="flex-1">
+                <input type="number" step="any" placeholder="Min" {...register(`bands.${index}.minScore`)} className={fieldClass} />
+                {bandErrors?.minScore?.message && <p className=" text-xs text-red-400">{bandErrors.minScore.message}</p>}
+              </div>
+              <div className="flex-[2]">
+                <input placeholder="Remark" {...register(`bands.${index}.remark`)} className={fieldClass} />
+              </div>
+              <div className="flex-1">
+                <input type="number" step="any" placeholder="GPA" {...register(`bands.${index}.gpa`)} className={fieldClass} />
+                {bandErrors?.gpa?.message && <p className=" text-xs text-red-400">{bandErrors.gpa.message}</p>}
+              </div>
+              <button
+                type="button"
+                title="Remove band"
+                onClick={() => remove(index)}
+                className=" w-8 h-8 flex items-center justify-center rounded-full bg-red-100 "
+              >
+                <FaTrash size={12} className="text-red-600" />
+              </button>
+            </div>
+          );
+        })}
+
+        {errors.bands?.message && <p className=" text-xs text-red-400">{errors.bands.message}</p>}
+        {errors.bands?.root?.message && <p className=" text-xs text-red-400">{errors.bands.root.message}</p>}
+
+        <button
+          type="button"
+          onClick={() => append({ grade: "", minScore: 0, remark: "", gpa: "" })}
+          className=" flex items-center gap-2 text-xs text-blue-500 w-max "
+        >
+          <FaPlus size={10} /> Add band
+        </button>
+      </div>
+
+
+      { /* UPDATE AND CREATE BUTTON */ }
+      <button disabled={isSubmitting} className="bg-blue-400 text-white p-2 rounded-md disabled:opacity-50">
+        { isSubmitting ? "Saving..." : type === "create" ? "Create" : "Update" }
+      </button>
+
+    </form>
+
+  )
+}
+
+export default GradingSchemeForm
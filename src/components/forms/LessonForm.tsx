@@ -2,40 +2,50 @@
 
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useForm } from "react-hook-form";
-import { z } from "zod"
+import { useState } from "react";
+import { useRouter } from "next/navigation";
 import InputField from "../InputField";
+import SelectField from "../SelectField";
+import type { FormProps } from "../FormModal";
+import { lessonSchema } from "@/lib/formValidationSchemas";
+import { createLesson, updateLesson } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
+import { toDateTimeInputValue } from "@/lib/utils";
 
 
-/* Schema for Form validation */
-const schema = z.object({
-
-  user: z.string().min(1, { error: 'Subject Name is required!' }),
-
-  class: z.string().min(1, { message: 'Class is required!' }),
-
-  teacher: z.string().min(1, { message: 'Teacher Name is required!' }),
-});
-
-{ /* ZOD */ }
-type Inputs = z.infer<typeof schema>
-
-
-const LessonForm = ( { type, data }: { type: "create" | "update"; data?: any; }) => {
+const LessonForm = ( { type, data, setOpen, relatedData }: FormProps) => {
   
   { /* ZOD */ }
   const {
     register,
     handleSubmit,
-    formState: { errors },
-  } = useForm<Inputs> ({
-    resolver: zodResolver(schema),
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm ({
+    resolver: zodResolver(lessonSchema),
   });
 
+  const router = useRouter();
 
-  const onSubmit = handleSubmit( (data) => {
-    console.log(data);
+  { /* TIMETABLE CLASHES RETURNED BY THE SERVER */ }
+  const [conflicts, setConflicts] = useState<string[]>([]);
+
+  const onSubmit = handleSubmit( async (formData) => {
+    const action = type === "create" ? createLesson : updateLesson;
+    const state = await action(formData);
+    setConflicts(state.conflicts ?? []);
+
+    handleActionResult(state, {
+      setError,
+      onSuccess: () => {
+        setOpen(false);
+        router.refresh();
+      },
+    });
   } )
 
+  const { subjects = [], classes = [], teachers = [] } = relatedData ?? {};
+
  
  return (
     
@@ -50,24 +60,87 @@ const LessonForm = ( { type, data }: { type: "create" | "update"; data?: any; })
         Lesson Full Information
       </span>
 
-      { /* AUTHENTICATION INPUTS MAIN CONTAINER 1 */ }
+      { /* LESSON INPUTS MAIN CONTAINER */ }
       <div className="flex justify-between flex-wrap gap-4 ">
 
-        { /* AUTHENTICATION INFROMATION INPUTS */ }
+        { /* HIDDEN ID FOR UPDATES */ }
+        {data?.id && <input type="hidden" {...register("id")} defaultValue={data.id} />}
+
+        <InputField label="Lesson Name" name="name" defaultValue= {data?.name} register={register} error={errors.name} />
+
+        <SelectField
+          label="Day"
+          name="day"
+          register={register}
+          error={errors.day}
+          defaultValue={data?.day}
+          options={["MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY"].map((day) => ({
+            value: day,
+            label: day.charAt(0) + day.slice(1).toLowerCase(),
+          }))}
+        />
+
+        <InputField label="Start Time" name="startTime" type="datetime-local" defaultValue= {toDateTimeInputValue(data?.startTime)} register={register} error={errors.startTime} />
+
+        <InputField label="End Time" name="endTime" type="datetime-local" defaultValue= {toDateTimeInputValue(data?.endTime)} register={register} error={errors.endTime} />
+
+        <SelectField
+          label="Subject"
+          name="subjectId"
+          register={register}
+          error={errors.subjectId}
+          defaultValue={data?.subjectId}
+          options={subjects.map((subject: { id: number; name: string }) => ({
+            value: subject.id,
+            label: subject.name,
+          }))}
+        />
+
+        <SelectField
+          label="Class"
+          name="classId"
+          register={register}
+          error={errors.classId}
+          defaultValue={data?.classId}
+          options={classes.map((classItem: { id: number; name: string }) => ({
+            value: classItem.id,
+            label: classItem.name,
+          }))}
+        />
+
+        <SelectField
+          label="Teacher"
+          name="teacherId"
+          register={register}
+          error={errors.teacherId}
+          defaultValue={data?.teacherId}
+          options={teachers.map((teacher: { id: string; name: string; surname: string }) => ({
+            value: teacher.id,
+            label: `${teacher.name} ${teacher.surname}`,
+          }))}
+        />
 
-        <InputField label="Subject Name" name="user" defaultValue= {data?.subject} register={register} error={errors.user}  />   
-         
-        <InputField label="Class" name="class" defaultValue= {data?.class} register={register} error={errors.class} />
-
-        <InputField label="Teacher Name" name="teacher" defaultValue= {data?.teacher} register={register} error={errors.teacher} />
-
-        
       </div>
-      
+
+      { /* CONFLICTS + ADMIN OVERRIDE */ }
+      {conflicts.length > 0 && (
+        <div className=" flex flex-col gap-2 p-3 rounded-md bg-red-50 text-red-700 text-xs ">
+          <span className="font-semibold">This lesson clashes with the timetable:</span>
+          <ul className=" list-disc pl-4 ">
+            {conflicts.map((conflict) => (
+              <li key={conflict}>{conflict}</li>
+            ))}
+          </ul>
+          <label className=" flex items-center gap-2 mt-1 text-gray-600 ">
+            <input type="checkbox" {...register("override")} />
+            Save anyway (admin override)
+          </label>
+        </div>
+      )}
 
       { /* UPDATE AND CREATE BUTTON */ }
-      <button className="bg-blue-400 text-white p-2 rounded-md">
-        { type === "create" ? "Create" : "Update" }
+      <button disabled={isSubmitting} className="bg-blue-400 text-white p-2 rounded-md disabled:opacity-50">
+        { isSubmitting ? "Saving..." : type === "create" ? "Create" : "Update" }
       </button>
 
     </form>
@@ -75,4 +148,4 @@ const LessonForm = ( { type, data }: { type: "create" | "update"; data?: any; })
   )
 }
 
-export default LessonForm
\ No newline at end of file
+export default LessonForm
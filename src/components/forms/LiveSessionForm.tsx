@@ -0,0 +1,107 @@
+"use client"
+
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import InputField from "../InputField";
+import SelectField from "../SelectField";
+import type { FormProps } from "../FormModal";
+import { liveSessionSchema } from "@/lib/formValidationSchemas";
+import { createLiveSession, updateLiveSession } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
+import { toDateTimeInputValue } from "@/lib/utils";
+
+
+const LiveSessionForm = ( { type, data, setOpen, relatedData }: FormProps) => {
+
+  { /* ZOD */ }
+  const {
+    register,
+    handleSubmit,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm ({
+    resolver: zodResolver(liveSessionSchema),
+  });
+
+  const router = useRouter();
+
+  const onSubmit = handleSubmit( async (formData) => {
+    const action = type === "create" ? createLiveSession : updateLiveSession;
+    const state = await action(formData);
+
+    handleActionResult(state, {
+      setError,
+      onSuccess: () => {
+        setOpen(false);
+        router.refresh();
+      },
+    });
+  } )
+
+  const { lessons = [], teachers = [] } = relatedData ?? {};
+
+
+ return (
+
+     /* FORM */
+    <form className=" flex flex-col gap-8 " onSubmit={onSubmit} >
+
+      { /* CONDITION FOR FORM HEADING */ }
+      { type === "create" ? < h1 className="text-xl font-semibold">Schedule A Live Session</h1> : < h1 className="text-xl font-semibold">Update Live Session</h1> }
+
+      { /* FORM MODAL LABEL 1 */ }
+      <span className="text-xs text-gray-400 font-medium">
+        The teacher and class come from the lesson; the room is created for you
+      </span>
+
+      { /* LIVE SESSION INPUTS MAIN CONTAINER */ }
+      <div className="flex justify-between flex-wrap gap-4 ">
+
+        { /* HIDDEN ID FOR UPDATES */ }
+        {data?.id && <input type="hidden" {...register("id")} defaultValue={data.id} />}
+
+        <SelectField
+          label="Lesson"
+          name="lessonId"
+          register={register}
+          error={errors.lessonId}
+          defaultValue={data?.lessonId}
+          options={lessons.map((lesson: { id: number; name: string; subject: { name: string }; class: { name: string } }) => ({
+            value: lesson.id,
+            label: `${lesson.subject.name} - ${lesson.class.name} (${lesson.name})`,
+          }))}
+        />
+
+        <InputField label="Start Time" name="startTime" type="datetime-local" defaultValue= {toDateTimeInputValue(data?.startTime)} register={register} error={errors.startTime} />
+
+        <InputField label="End Time" name="endTime" type="datetime-local" defaultValue= {toDateTimeInputValue(data?.endTime)} register={register} error={errors.endTime} />
+
+        { /* CO-TEACHERS MAY ALSO PUBLISH IN THE ROOM */ }
+        <SelectField
+          label="Co-Teachers"
+          name="coTeachers"
+          multiple
+          register={register}
+          error={errors.coTeachers}
+          defaultValue={data?.coTeachers?.map((teacher: { id: string }) => teacher.id)}
+          options={teachers.map((teacher: { id: string; name: string; surname: string }) => ({
+            value: teacher.id,
+            label: `${teacher.name} ${teacher.surname}`,
+          }))}
+        />
+
+      </div>
+
+
+      { /* UPDATE AND CREATE BUTTON */ }
+      <button disabled={isSubmitting} className="bg-blue-400 text-white p-2 rounded-md disabled:opacity-50">
+        { isSubmitting ? "Saving..." : type === "create" ? "Schedule" : "Update" }
+      </button>
+
+    </form>
+
+  )
+}
+
+export default LiveSessionForm
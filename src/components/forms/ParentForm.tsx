@@ -2,54 +2,44 @@
 
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useForm } from "react-hook-form";
-import { z } from "zod"
+import { useRouter } from "next/navigation";
 import InputField from "../InputField";
+import SelectField from "../SelectField";
+import type { FormProps } from "../FormModal";
+import { parentSchema } from "@/lib/formValidationSchemas";
+import { createParent, updateParent } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
 
 
-/* Schema for Form validation */
-const schema = z.object({
-  username: z
-  .string()
-  .min(3, { message: 'Username must be at least 3 characters long!' })
-  .max(20, { message: 'Username must be at most 20 characters long!' }),
-
-  email: z.email({message:"Invalid Email address!"}),
-
-  password: z.string().min(8, { message: 'Password must be at least 8 characters long!' }),
-
-  firstName: z.string().min(1, { message: 'First Name is required!' }),
-
-  lastName: z.string().min(1, { message: 'Last Name is required!' }),
-
-  phone: z.string().min(1, { message: 'Phone Number is required!' }),
-
-  address: z.string().min(1, { message: 'Address is required!' }),
-
-  studentName: z.string().min(1, { message: 'Student Name is required!' }),
-
-  sex: z.enum( [ "male", "female" ], {message: "Sex is required!"}),
-});
-
-{ /* ZOD */ }
-type Inputs = z.infer<typeof schema>
-
-
-const ParentForm = ( { type, data }: { type: "create" | "update"; data?: any; }) => {
-
+const ParentForm = ( { type, data, setOpen, relatedData }: FormProps) => {
+  
   { /* ZOD */ }
   const {
     register,
     handleSubmit,
-    formState: { errors },
-  } = useForm<Inputs> ({
-    resolver: zodResolver(schema),
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm ({
+    resolver: zodResolver(parentSchema),
   });
 
+  const router = useRouter();
+
+  const onSubmit = handleSubmit( async (formData) => {
+    const action = type === "create" ? createParent : updateParent;
+    const state = await action(formData);
 
-  const onSubmit = handleSubmit( (data) => {
-    console.log(data);
+    handleActionResult(state, {
+      setError,
+      onSuccess: () => {
+        setOpen(false);
+        router.refresh();
+      },
+    });
   } )
 
+  const { users = [] } = relatedData ?? {};
+
 
   return (
     
@@ -61,18 +51,35 @@ const ParentForm = ( { type, data }: { type: "create" | "update"; data?: any; })
 
       { /* FORM MODAL LABEL 1 */ }
       <span className="text-xs text-gray-400 font-medium">
-        Authentication Information
+        Contact Information
       </span>
 
-      { /* AUTHENTICATION INPUTS MAIN CONTAINER */ }
+      { /* CONTACT INPUTS MAIN CONTAINER */ }
       <div className="flex justify-between flex-wrap gap-4 ">
 
-        { /* AUTHENTICATION INFORMATION INPUTS */ }
-        <InputField label="Username" name="username" defaultValue= {data?.name} register={register} error={errors.username} />
+        { /* HIDDEN ID FOR UPDATES */ }
+        {data?.id && <input type="hidden" {...register("id")} defaultValue={data.id} />}
 
-        <InputField label="Email" name="email" type="email" defaultValue= {data?.email} register={register} error={errors.email} />
+        { /* CONTACT INFORMATION INPUTS */ }
+        <InputField label="Username" name="username" defaultValue= {data?.username} register={register} error={errors.username} />
 
-        <InputField label="Password" name="password" type="password" defaultValue= {data?.password} register={register} error={errors.password} />
+        <InputField label="Email" name="email" type="email" defaultValue= {data?.email ?? ""} register={register} error={errors.email} />
+
+        <InputField label="Phone" name="phone" defaultValue= {data?.phone} register={register} error={errors.phone} />
+
+        { /* LOGIN ACCOUNT (CLERK USER) LINK */ }
+        <SelectField
+          label="Login Account"
+          name="clerkUserId"
+          register={register}
+          error={errors.clerkUserId}
+          defaultValue={data?.clerkUserId ?? ""}
+          placeholder="Not linked"
+          options={users.map((user: { id: string; email: string }) => ({
+            value: user.id,
+            label: user.email,
+          }))}
+        />
 
       </div>
       
@@ -82,54 +89,20 @@ const ParentForm = ( { type, data }: { type: "create" | "update"; data?: any; })
       </span>
 
       { /* PERSONAL INFO INPUTS MAIN CONTAINER */ }
-      <div className="flex justify-between flex-wrap gap-4  relative">
+      <div className="flex justify-between flex-wrap gap-4">
 
-        { /* PERSONAL INFORMATION INPUTS */ }
-        <InputField label="First Name" name="firstName" defaultValue= {data?.name} register={register} error={errors.firstName} />
+        { /* PERSONAL INFO INPUTS */ }
+        <InputField label="First Name" name="name" defaultValue= {data?.name} register={register} error={errors.name} />
 
-        <InputField label="Last Name" name="lastName" defaultValue= {data?.lastName} register={register} error={errors.lastName} />
-
-       <InputField label="Phone" name="phone" defaultValue= {data?.phone} register={register} error={errors.phone} />
+        <InputField label="Last Name" name="surname" defaultValue= {data?.surname} register={register} error={errors.surname} />
 
         <InputField label="Address" name="address" defaultValue= {data?.address} register={register} error={errors.address} />
 
-      
-        { /* STUDENT NAME MAIN CONTAINER */ }
-        <div className=" flex flex-col gap-2 w-full md:w-1/4 ">
-
-          <label className=" text-xs text-gray-500 ">Student Name</label>
-
-          <input type="text" {...register("studentName")} defaultValue={data?.students} className=" ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-auto " />
-        
-          {errors.studentName?.message && <p className=" text-xs text-red-400" >{errors.studentName.message.toString() }</p>}
-        
-        </div>
-        
-      
-
-        { /* SEX OPTIONS MAIN CONTAINER */ }
-        <div className=" flex flex-col gap-2 w-full md:w-1/4 ">
-
-          { /* SEX LABEL */ }
-          <label className=" text-xs text-gray-500 ">Sex</label>
-
-          { /* SEX OPTIONS */ }
-          <select className=" ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full flex items-end " {...register("sex")} defaultValue={data?.sex} >
-          <option value="male">Male</option>
-          <option value="female">Female</option>
-          </select>
-
-          { /* SEX ERROR MESSAGE */ }
-          {errors.sex?.message && <p className=" text-xs text-red-400" >{errors.sex.message.toString() }</p>}
-
-        </div>
-
-
       </div>
 
       { /* UPDATE AND CREATE BUTTON */ }
-      <button className="bg-blue-400 text-white p-2 rounded-md">
-        { type === "create" ? "Create" : "Update" }
+      <button disabled={isSubmitting} className="bg-blue-400 text-white p-2 rounded-md disabled:opacity-50">
+        { isSubmitting ? "Saving..." : type === "create" ? "Create" : "Update" }
       </button>
 
     </form>
@@ -137,4 +110,4 @@ const ParentForm = ( { type, data }: { type: "create" | "update"; data?: any; })
   )
 }
 
-export default ParentForm
\ No newline at end of file
+export default ParentForm
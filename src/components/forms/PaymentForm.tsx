@@ -0,0 +1,95 @@
+"use client"
+
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import InputField from "../InputField";
+import SelectField from "../SelectField";
+import type { FormProps } from "../FormModal";
+import { paymentSchema } from "@/lib/formValidationSchemas";
+import { createPayment } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
+import { toDateOnlyInputValue } from "@/lib/utils";
+
+const METHODS = [
+  { value: "CASH", label: "Cash" },
+  { value: "BANK_TRANSFER", label: "Bank transfer" },
+  { value: "POS", label: "POS" },
+  { value: "CHEQUE", label: "Cheque" },
+];
+
+
+// Payments are only recorded, never edited: a wrong one is removed and
+// recorded again. `data` carries the invoice id and its balance (₦).
+const PaymentForm = ( { data, setOpen }: FormProps) => {
+
+  { /* ZOD */ }
+  const {
+    register,
+    handleSubmit,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm ({
+    resolver: zodResolver(paymentSchema),
+  });
+
+  const router = useRouter();
+
+  const onSubmit = handleSubmit( async (formData) => {
+    const state = await createPayment(formData);
+
+    handleActionResult(state, {
+      setError,
+      onSuccess: () => {
+        setOpen(false);
+        router.refresh();
+      },
+    });
+  } )
+
+
+ return (
+
+     /* FORM */
+    <form className=" flex flex-col gap-8 " onSubmit={onSubmit} >
+
+      < h1 className="text-xl font-semibold">Record A Payment</h1>
+
+      { /* FORM MODAL LABEL 1 */ }
+      <span className="text-xs text-gray-400 font-medium">
+        Payment Information{data?.balance !== undefined && ` (balance ₦${data.balance})`}
+      </span>
+
+      { /* PAYMENT INPUTS MAIN CONTAINER */ }
+      <div className="flex justify-between flex-wrap gap-4 ">
+
+        <input type="hidden" {...register("invoiceId")} defaultValue={data?.invoiceId} />
+
+        <InputField label="Amount (₦)" name="amount" defaultValue= {data?.balance?.toString()} register={register} error={errors.amount} />
+
+        <SelectField
+          label="Method"
+          name="method"
+          register={register}
+          error={errors.method}
+          options={METHODS}
+        />
+
+        <InputField label="Reference (optional)" name="reference" register={register} error={errors.reference} />
+
+        <InputField label="Date Paid" name="paidAt" type="date" defaultValue= {toDateOnlyInputValue(new Date())} register={register} error={errors.paidAt} />
+
+      </div>
+
+
+      { /* CREATE BUTTON */ }
+      <button disabled={isSubmitting} className="bg-blue-400 text-white p-2 rounded-md disabled:opacity-50">
+        { isSubmitting ? "Saving..." : "Record payment" }
+      </button>
+
+    </form>
+
+  )
+}
+
+export default PaymentForm
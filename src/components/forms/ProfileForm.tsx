@@ -0,0 +1,90 @@
+"use client"
+
+import { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import InputField from "../InputField";
+import ImageUpload from "../ImageUpload";
+import { profileSchema } from "@/lib/formValidationSchemas";
+import { updateMyProfile } from "@/lib/accountActions";
+import { handleActionResult } from "@/lib/formActionResult";
+
+/**
+ * ProfileForm
+ * Lets the signed-in user edit the fields they own on their record.
+ * Photo upload is only offered to teachers and students (parents have no
+ * photo column).
+ */
+const ProfileForm = ( {
+  data,
+  allowPhoto,
+}: {
+  data: { phone?: string | null; address: string; img?: string | null };
+  allowPhoto: boolean;
+}) => {
+
+  { /* ZOD */ }
+  const {
+    register,
+    handleSubmit,
+    setError,
+    setValue,
+    formState: { errors, isSubmitting },
+  } = useForm ({
+    resolver: zodResolver(profileSchema),
+  });
+
+  const router = useRouter();
+  const [img, setImg] = useState(data.img ?? "");
+
+  const onSubmit = handleSubmit( async (formData) => {
+    const state = await updateMyProfile(formData);
+
+    handleActionResult(state, {
+      setError,
+      onSuccess: () => router.refresh(),
+    });
+  } )
+
+  return (
+
+    /* FORM */
+    <form className=" flex flex-col gap-8 " onSubmit={onSubmit} >
+
+      <h1 className="text-lg font-semibold">Edit My Details</h1>
+
+      { /* PROFILE INPUTS MAIN CONTAINER */ }
+      <div className="flex justify-between flex-wrap gap-4 ">
+
+        <InputField label="Phone" name="phone" defaultValue= {data.phone ?? ""} register={register} error={errors.phone} />
+
+        <InputField label="Address" name="address" defaultValue= {data.address} register={register} error={errors.address} />
+
+        { /* PHOTO */ }
+        {allowPhoto && (
+          <>
+            <input type="hidden" {...register("img")} defaultValue={img} />
+            <ImageUpload
+              value={img}
+              onChange={(url) => {
+                setImg(url);
+                setValue("img", url);
+              }}
+            />
+          </>
+        )}
+
+      </div>
+
+      { /* SAVE BUTTON */ }
+      <button disabled={isSubmitting} className="bg-blue-400 text-white p-2 rounded-md w-max disabled:opacity-50">
+        { isSubmitting ? "Saving..." : "Save" }
+      </button>
+
+    </form>
+
+  )
+}
+
+export default ProfileForm
@@ -2,46 +2,44 @@
 
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useForm } from "react-hook-form";
-import { z } from "zod"
+import { useRouter } from "next/navigation";
 import InputField from "../InputField";
+import SelectField from "../SelectField";
+import type { FormProps } from "../FormModal";
+import { resultSchema } from "@/lib/formValidationSchemas";
+import { createResult, updateResult } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
 
-/* Schema for Form validation */
-const schema = z.object({
 
-  user: z.string().min(1, { error: 'Subject Name is required!' }),
-
-  student: z.string().min(1, { message: 'Student Name is required!' }),
-
-  score: z.string().min(1, { message: 'Score is required!' }),
-
-  teacher: z.string().min(1, { message: 'Teacher Name is required!' }),
-
-  class: z.string().min(1, { message: 'Class is required!' }),
-
-  date: z.string().min(1, { message: 'Date is required!' }),
-
-});
-
-{ /* ZOD */ }
-type Inputs = z.infer<typeof schema>
-
-
-const ResultForm = ( { type, data }: { type: "create" | "update"; data?: any; }) => {
+const ResultForm = ( { type, data, setOpen, relatedData }: FormProps) => {
   
   { /* ZOD */ }
   const {
     register,
     handleSubmit,
-    formState: { errors },
-  } = useForm<Inputs> ({
-    resolver: zodResolver(schema),
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm ({
+    resolver: zodResolver(resultSchema),
   });
 
+  const router = useRouter();
+
+  const onSubmit = handleSubmit( async (formData) => {
+    const action = type === "create" ? createResult : updateResult;
+    const state = await action(formData);
 
-  const onSubmit = handleSubmit( (data) => {
-    console.log(data);
+    handleActionResult(state, {
+      setError,
+      onSuccess: () => {
+        setOpen(false);
+        router.refresh();
+      },
+    });
   } )
 
+  const { students = [], exams = [], assignments = [] } = relatedData ?? {};
+
  
  return (
     
@@ -56,29 +54,59 @@ const ResultForm = ( { type, data }: { type: "create" | "update"; data?: any; })
         Result Full Information
       </span>
 
-      { /* AUTHENTICATION INPUTS MAIN CONTAINER 1 */ }
+      { /* RESULT INPUTS MAIN CONTAINER */ }
       <div className="flex justify-between flex-wrap gap-4 ">
 
-        { /* AUTHENTICATION INFROMATION INPUTS */ }
-
-        <InputField label="Subject Name" name="user" defaultValue= {data?.subject} register={register} error={errors.user}  />   
-         
-        <InputField label="Student Name" name="student" defaultValue= {data?.student} register={register} error={errors.student} />
-
-        <InputField label="Score" name="score" defaultValue= {data?.score} register={register} error={errors.score} />
-
-        <InputField label="Teacher Name" name="teacher" defaultValue= {data?.teacher} register={register} error={errors.teacher} /> 
-
-        <InputField label="Class" name="class" defaultValue= {data?.class} register={register} error={errors.class} />
-
-        <InputField label="Date" name="date" defaultValue= {data?.date} register={register} error={errors.date} /> 
+        { /* HIDDEN ID FOR UPDATES */ }
+        {data?.id && <input type="hidden" {...register("id")} defaultValue={data.id} />}
+
+        <SelectField
+          label="Student"
+          name="studentId"
+          register={register}
+          error={errors.studentId}
+          defaultValue={data?.studentId}
+          options={students.map((student: { id: string; name: string; surname: string }) => ({
+            value: student.id,
+            label: `${student.name} ${student.surname}`,
+          }))}
+        />
+
+        <InputField label="Score" name="score" type="number" defaultValue= {data?.score} register={register} error={errors.score} />
+
+        { /* A RESULT BELONGS TO EITHER AN EXAM OR AN ASSIGNMENT */ }
+        <SelectField
+          label="Exam"
+          name="examId"
+          placeholder="None"
+          register={register}
+          error={errors.examId}
+          defaultValue={data?.examId ?? ""}
+          options={exams.map((exam: { id: number; title: string }) => ({
+            value: exam.id,
+            label: exam.title,
+          }))}
+        />
+
+        <SelectField
+          label="Assignment"
+          name="assignmentId"
+          placeholder="None"
+          register={register}
+          error={errors.assignmentId}
+          defaultValue={data?.assignmentId ?? ""}
+          options={assignments.map((assignment: { id: number; title: string }) => ({
+            value: assignment.id,
+            label: assignment.title,
+          }))}
+        />
 
       </div>
       
 
       { /* UPDATE AND CREATE BUTTON */ }
-      <button className="bg-blue-400 text-white p-2 rounded-md">
-        { type === "create" ? "Create" : "Update" }
+      <button disabled={isSubmitting} className="bg-blue-400 text-white p-2 rounded-md disabled:opacity-50">
+        { isSubmitting ? "Saving..." : type === "create" ? "Create" : "Update" }
       </button>
 
     </form>
@@ -86,4 +114,4 @@ const ResultForm = ( { type, data }: { type: "create" | "update"; data?: any; })
   )
 }
 
-export default ResultForm
\ No newline at end of file
+export default ResultForm
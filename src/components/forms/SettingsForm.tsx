@@ -0,0 +1,111 @@
+"use client"
+
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import SelectField from "../SelectField";
+import { THEME_CHANGE_EVENT } from "../ThemeToggle";
+import { PreferencesSchema, preferencesSchema } from "@/lib/formValidationSchemas";
+import { savePreferences } from "@/lib/accountActions";
+import { handleActionResult } from "@/lib/formActionResult";
+import { LANDING_PAGES } from "@/lib/settings";
+
+/**
+ * SettingsForm
+ * Per-user preferences: theme, notification choices and landing page.
+ * Saving also applies the theme immediately through the same event the
+ * Navbar ThemeToggle listens for.
+ */
+const SettingsForm = ( { data }: { data: PreferencesSchema }) => {
+
+  { /* ZOD */ }
+  const {
+    register,
+    handleSubmit,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm ({
+    resolver: zodResolver(preferencesSchema),
+    defaultValues: data,
+  });
+
+  const router = useRouter();
+
+  const onSubmit = handleSubmit( async (formData) => {
+    const state = await savePreferences(formData);
+
+    handleActionResult(state, {
+      setError,
+      onSuccess: () => {
+        window.dispatchEvent(
+          new CustomEvent(THEME_CHANGE_EVENT, { detail: formData.theme })
+        );
+        router.refresh();
+      },
+    });
+  } )
+
+  return (
+
+    /* FORM */
+    <form className=" flex flex-col gap-8 " onSubmit={onSubmit} >
+
+      { /* APPEARANCE */ }
+      <span className="text-xs text-gray-400 font-medium">
+        Appearance & Navigation
+      </span>
+
+      <div className="flex justify-between flex-wrap gap-4 ">
+        <SelectField
+          label="Theme"
+          name="theme"
+          register={register}
+          error={errors.theme}
+          options={[
+            { value: "light", label: "Light" },
+            { value: "dark", label: "Dark" },
+          ]}
+        />
+
+        <SelectField
+          label="Landing page after sign-in"
+          name="landingPage"
+          register={register}
+          error={errors.landingPage}
+          options={LANDING_PAGES.map((page) => ({ value: page.value, label: page.label }))}
+        />
+      </div>
+
+      { /* NOTIFICATIONS */ }
+      <span className="text-xs text-gray-400 font-medium">
+        Notifications
+      </span>
+
+      <div className="flex flex-col gap-3 text-sm ">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" {...register("emailNotifications")} />
+          Email me about important school updates
+        </label>
+
+        <label className="flex items-center gap-2">
+          <input type="checkbox" {...register("messageNotifications")} />
+          Show unread message count in the top bar
+        </label>
+
+        <label className="flex items-center gap-2">
+          <input type="checkbox" {...register("announcementNotifications")} />
+          Notify me about new announcements
+        </label>
+      </div>
+
+      { /* SAVE BUTTON */ }
+      <button disabled={isSubmitting} className="bg-blue-400 text-white p-2 rounded-md w-max disabled:opacity-50">
+        { isSubmitting ? "Saving..." : "Save Settings" }
+      </button>
+
+    </form>
+
+  )
+}
+
+export default SettingsForm
@@ -2,40 +2,44 @@
 
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useForm } from "react-hook-form";
-import { z } from "zod"
+import { useRouter } from "next/navigation";
 import InputField from "../InputField";
+import SelectField from "../SelectField";
+import type { FormProps } from "../FormModal";
+import { subjectSchema } from "@/lib/formValidationSchemas";
+import { createSubject, updateSubject } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
 
 
-/* Schema for Form validation */
-const schema = z.object({
-  name: z
-  .string()
-  .min(3, { message: 'Subject name must be at least 3 characters long!' })
-  .max(20, { message: 'Subjcet name must be at most 20 characters long!' }),
-
-  teachers: z.string().min(1, { message: 'Teacher name is required!' }),
-});
-
-{ /* ZOD */ }
-type Inputs = z.infer<typeof schema>
-
-
-const SubjectForm = ( { type, data }: { type: "create" | "update"; data?: any; }) => {
+const SubjectForm = ( { type, data, setOpen, relatedData }: FormProps) => {
 
   { /* ZOD */ }
   const {
     register,
     handleSubmit,
-    formState: { errors },
-  } = useForm<Inputs> ({
-    resolver: zodResolver(schema),
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm ({
+    resolver: zodResolver(subjectSchema),
   });
 
+  const router = useRouter();
+
+  const onSubmit = handleSubmit( async (formData) => {
+    const action = type === "create" ? createSubject : updateSubject;
+    const state = await action(formData);
 
-  const onSubmit = handleSubmit( (data) => {
-    console.log(data);
+    handleActionResult(state, {
+      setError,
+      onSuccess: () => {
+        setOpen(false);
+        router.refresh();
+      },
+    });
   } )
 
+  const { teachers = [] } = relatedData ?? {};
+
 
   return (
     
@@ -50,30 +54,35 @@ const SubjectForm = ( { type, data }: { type: "create" | "update"; data?: any; }
         Full Detailed Subject Informations
       </span>
 
-      { /* AUTHENTICATION INPUTS MAIN CONTAINER */ }
+      { /* SUBJECT INPUTS MAIN CONTAINER */ }
       <div className="flex justify-between flex-wrap gap-4 ">
 
+        { /* HIDDEN ID FOR UPDATES */ }
+        {data?.id && <input type="hidden" {...register("id")} defaultValue={data.id} />}
+
         { /* INPUTS */ }
         <InputField label="Subject name" name="name" defaultValue= {data?.name} register={register} error={errors.name} />
 
-        { /* TEACHER NAME INPUT MAIN CONTAINER */ }
-        <div className=" flex flex-col gap-2 w-full md:w-2/4 ">
-
-          <label className=" text-xs text-gray-500 ">Teachers Name</label>
-
-          <input type="text" {...register("teachers")} defaultValue={data?.teachers} className=" ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-auto " />
-        
-          {errors.teachers?.message && <p className=" text-xs text-red-400" >{errors.teachers.message.toString() }</p>}
-        
-        </div>
+        <SelectField
+          label="Teachers"
+          name="teachers"
+          multiple
+          register={register}
+          error={errors.teachers}
+          defaultValue={data?.teachers?.map((teacher: { id: string }) => teacher.id)}
+          options={teachers.map((teacher: { id: string; name: string; surname: string }) => ({
+            value: teacher.id,
+            label: `${teacher.name} ${teacher.surname}`,
+          }))}
+        />
 
       </div>
       
         
 
       { /* UPDATE AND CREATE BUTTON */ }
-      <button className="bg-blue-400 text-white p-2 rounded-md">
-        { type === "create" ? "Create" : "Update" }
+      <button disabled={isSubmitting} className="bg-blue-400 text-white p-2 rounded-md disabled:opacity-50">
+        { isSubmitting ? "Saving..." : type === "create" ? "Create" : "Update" }
       </button>
 
     </form>
@@ -81,4 +90,4 @@ const SubjectForm = ( { type, data }: { type: "create" | "update"; data?: any; }
   )
 }
 
-export default SubjectForm
\ No newline at end of file
+export default SubjectForm
@@ -2,60 +2,50 @@
 
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useForm } from "react-hook-form";
-import { z } from "zod"
+import { useRouter } from "next/navigation";
+import { useState } from "react";
 import InputField from "../InputField";
-import Image from "next/image";
+import SelectField from "../SelectField";
+import ImageUpload from "../ImageUpload";
+import type { FormProps } from "../FormModal";
+import { teacherSchema } from "@/lib/formValidationSchemas";
+import { createTeacher, updateTeacher } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
+import { toDateInputValue } from "@/lib/utils";
 
-/* Schema for Form validation */
-const schema = z.object({
-  username: z
-  .string()
-  .min(3, { message: 'Username must be at least 3 characters long!' })
-  .max(20, { message: 'Username must be at most 20 characters long!' }),
 
-  email: z.email({message:"Invalid email address!"}),
-
-  password: z.string().min(8, { message: 'Password must be at least 8 characters long!' }),
-
-  firstName: z.string().min(1, { message: 'First name is required!' }),
-
-  lastName: z.string().min(1, { message: 'Last name is required!' }),
-
-  phone: z.string().min(1, { message: 'Phone is required!' }),
-
-  address: z.string().min(1, { message: 'Address is required!' }),
-
-  bloodType: z.string().min(1, { message: 'Blood Type is required!' }),
-
-  birthday: z.date( { message: 'Birthday is required!' } ),
-
-  sex: z.enum( [ "male", "female" ], {message: "Sex is required!"}),
-
-  img: z.instanceof( File,{ message: "Image is required!" } ),
-
-  
-});
-
-{ /* ZOD */ }
-type Inputs = z.infer<typeof schema>
-
-
-const TeacherForm = ( { type, data }: { type: "create" | "update"; data?: any; }) => {
+const TeacherForm = ( { type, data, setOpen, relatedData }: FormProps) => {
   
   { /* ZOD */ }
   const {
     register,
     handleSubmit,
-    formState: { errors },
-  } = useForm<Inputs> ({
-    resolver: zodResolver(schema),
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm ({
+    resolver: zodResolver(teacherSchema),
   });
 
+  const router = useRouter();
+
+  { /* UPLOADED PHOTO URL */ }
+  const [img, setImg] = useState<string | undefined>(data?.img ?? undefined);
+
+  const onSubmit = handleSubmit( async (formData) => {
+    const action = type === "create" ? createTeacher : updateTeacher;
+    const state = await action({ ...formData, img });
 
-  const onSubmit = handleSubmit( (data) => {
-    console.log(data);
+    handleActionResult(state, {
+      setError,
+      onSuccess: () => {
+        setOpen(false);
+        router.refresh();
+      },
+    });
   } )
 
+  const { subjects = [], users = [] } = relatedData ?? {};
+
  
  return (
     
@@ -67,18 +57,35 @@ const TeacherForm = ( { type, data }: { type: "create" | "update"; data?: any; }
 
       { /* FORM MODAL LABEL 1 */ }
       <span className="text-xs text-gray-400 font-medium">
-        Authentication Information
+        Contact Information
       </span>
 
-      { /* AUTHENTICATION INPUTS MAIN CONTAINER 1 */ }
+      { /* CONTACT INPUTS MAIN CONTAINER 1 */ }
       <div className="flex justify-between flex-wrap gap-4 ">
 
-        { /* AUTHENTICATION INFROMATION INPUTS */ }
+        { /* HIDDEN ID FOR UPDATES */ }
+        {data?.id && <input type="hidden" {...register("id")} defaultValue={data.id} />}
+
+        { /* CONTACT INFROMATION INPUTS */ }
         <InputField label="Username" name="username" defaultValue= {data?.username} register={register} error={errors.username} />
 
-        <InputField label="Email" name="email" type="email" defaultValue= {data?.email} register={register} error={errors.email} />
+        <InputField label="Email" name="email" type="email" defaultValue= {data?.email ?? ""} register={register} error={errors.email} />
 
-        <InputField label="Password" name="password" type="password" defaultValue= {data?.password} register={register} error={errors.password} />
+        <InputField label="Phone" name="phone" defaultValue= {data?.phone ?? ""} register={register} error={errors.phone} />
+
+        { /* LOGIN ACCOUNT (CLERK USER) LINK */ }
+        <SelectField
+          label="Login Account"
+          name="clerkUserId"
+          register={register}
+          error={errors.clerkUserId}
+          defaultValue={data?.clerkUserId ?? ""}
+          placeholder="Not linked"
+          options={users.map((user: { id: string; email: string }) => ({
+            value: user.id,
+            label: user.email,
+          }))}
+        />
 
       </div>
       
@@ -91,60 +98,49 @@ const TeacherForm = ( { type, data }: { type: "create" | "update"; data?: any; }
       <div className="flex justify-between flex-wrap gap-4">
 
         { /* PERSONAL INFO INPUTS */ }
-        <InputField label="First Name" name="firstName" defaultValue= {data?.firstName} register={register} error={errors.firstName} />
-
-        <InputField label="Last Name" name="lastName" defaultValue= {data?.lastName} register={register} error={errors.lastName} />
+        <InputField label="First Name" name="name" defaultValue= {data?.name} register={register} error={errors.name} />
 
-       <InputField label="Phone" name="phone" defaultValue= {data?.phone} register={register} error={errors.phone} />
+        <InputField label="Last Name" name="surname" defaultValue= {data?.surname} register={register} error={errors.surname} />
 
         <InputField label="Address" name="address" defaultValue= {data?.address} register={register} error={errors.address} />
 
         <InputField label="Blood Type" name="bloodType" defaultValue= {data?.bloodType} register={register} error={errors.bloodType} />
 
-        <InputField label="Birthday" name="birthday" defaultValue= {data?.birthday} register={register} error={errors.birthday} type="date" />
-
-      
-
-        { /* SEX OPTIONS MAIN CONTAINER */ }
-        <div className=" flex flex-col gap-2 w-full md:w-1/4">
-          
-          { /* LABEL FOR SEX OPTION */ }
-          <label className=" text-xs text-gray-500 ">Sex</label>
-
-          { /* SEX OPTIONS */ }
-          <select className=" ring-[1.5px] ring-gray-300 p-2 rounded-md text-sm w-full" {...register("sex")} defaultValue={data?.sex} >
-          <option value="male">Male</option>
-          <option value="female">Female</option>
-          </select>
-
-          { /* ERORR MESSAGE FOR SEX */ }
-          {errors.sex?.message && <p className=" text-xs text-red-400" >{errors.sex.message.toString() }</p>}
-
-        </div>
-
-        { /* UPLOAD IMG MAIN CONTAINER */ }
-        <div className=" flex flex-col gap-2 w-full md:w-1/4 justify-center ">
-
-          { /* LABEL FOR UPLOAD IMG  */ }
-          <label className=" text-xs text-gray-500 flex items-center gap-2 cursor-pointer " htmlFor="img" >
-            <Image src="/upload.png" alt="" width={28} height={28} />
-
-            <span>Upload a photo</span>
-          </label>
-
-          { /* INPUT FOR FILE UPLOAD */ }
-          <input type="file" {...register("img")} className=" hidden" id="img" />
-
-         { /* ERROR MESSAGE FOR IMG UPLOAD */ }
-         {errors.img?.message && <p className=" text-xs text-red-400" >{errors.img.message.toString() }</p>}
-
-        </div>
+        <InputField label="Birthday" name="birthday" defaultValue= {toDateInputValue(data?.birthday)} register={register} error={errors.birthday} type="date" />
+
+        <SelectField
+          label="Sex"
+          name="sex"
+          register={register}
+          error={errors.sex}
+          defaultValue={data?.sex}
+          options={[
+            { value: "MALE", label: "Male" },
+            { value: "FEMALE", label: "Female" },
+          ]}
+        />
+
+        <SelectField
+          label="Subjects"
+          name="subjects"
+          multiple
+          register={register}
+          error={errors.subjects}
+          defaultValue={data?.subjects?.map((subject: { id: number }) => subject.id.toString())}
+          options={subjects.map((subject: { id: number; name: string }) => ({
+            value: subject.id.toString(),
+            label: subject.name,
+          }))}
+        />
+
+        { /* UPLOAD IMG */ }
+        <ImageUpload value={img} onChange={setImg} />
 
       </div>
 
       { /* UPDATE AND CREATE BUTTON */ }
-      <button className="bg-blue-400 text-white p-2 rounded-md">
-        { type === "create" ? "Create" : "Update" }
+      <button disabled={isSubmitting} className="bg-blue-400 text-white p-2 rounded-md disabled:opacity-50">
+        { isSubmitting ? "Saving..." : type === "create" ? "Create" : "Update" }
       </button>
 
     </form>
@@ -152,4 +148,4 @@ const TeacherForm = ( { type, data }: { type: "create" | "update"; data?: any; }
   )
 }
 
-export default TeacherForm
\ No newline at end of file
+export default TeacherForm
@@ -0,0 +1,95 @@
+"use client"
+
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import InputField from "../InputField";
+import SelectField from "../SelectField";
+import type { FormProps } from "../FormModal";
+import { termSchema } from "@/lib/formValidationSchemas";
+import { createTerm, updateTerm } from "@/lib/actions";
+import { handleActionResult } from "@/lib/formActionResult";
+import { toDateOnlyInputValue } from "@/lib/utils";
+
+
+const TermForm = ( { type, data, setOpen, relatedData }: FormProps) => {
+
+  { /* ZOD */ }
+  const {
+    register,
+    handleSubmit,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm ({
+    resolver: zodResolver(termSchema),
+  });
+
+  const router = useRouter();
+
+  const onSubmit = handleSubmit( async (formData) => {
+    const action = type === "create" ? createTerm : updateTerm;
+    const state = await action(formData);
+
+    handleActionResult(state, {
+      setError,
+      onSuccess: () => {
+        setOpen(false);
+        router.refresh();
+      },
+    });
+  } )
+
+  const { academicYears = [] } = relatedData ?? {};
+
+
+ return (
+
+     /* FORM */
+    <form className=" flex flex-col gap-8 " onSubmit={onSubmit} >
+
+      { /* CONDITION FOR FORM HEADING */ }
+      { type === "create" ? < h1 className="text-xl font-semibold">Create A New Term</h1> : < h1 className="text-xl font-semibold">Update Term</h1> }
+
+      { /* FORM MODAL LABEL 1 */ }
+      <span className="text-xs text-gray-400 font-medium">
+        Term Information
+      </span>
+
+      { /* TERM INPUTS MAIN CONTAINER */ }
+      <div className="flex justify-between flex-wrap gap-4 ">
+
+        { /* HIDDEN ID FOR UPDATES */ }
+        {data?.id && <input type="hidden" {...register("id")} defaultValue={data.id} />}
+
+        <InputField label="Name (e.g. First Term)" name="name" defaultValue= {data?.name} register={register} error={errors.name} />
+
+        <SelectField
+          label="Academic Year"
+          name="academicYearId"
+          register={register}
+          error={errors.academicYearId}
+          defaultValue={data?.academicYearId}
+          options={academicYears.map((year: { id: number; name: string }) => ({
+            value: year.id,
+            label: year.name,
+          }))}
+        />
+
+        <InputField label="Start Date" name="startDate" type="date" defaultValue= {toDateOnlyInputValue(data?.startDate)} register={register} error={errors.startDate} />
+
+        <InputField label="End Date (last day)" name="endDate" type="date" defaultValue= {toDateOnlyInputValue(data?.endDate)} register={register} error={errors.endDate} />
+
+      </div>
+
+
+      { /* UPDATE AND CREATE BUTTON */ }
+      <button disabled={isSubmitting} className="bg-blue-400 text-white p-2 rounded-md disabled:opacity-50">
+        { isSubmitting ? "Saving..." : type === "create" ? "Create" : "Update" }
+      </button>
+
+    </form>
+
+  )
+}
+
+export default TermForm
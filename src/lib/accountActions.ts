@@ -0,0 +1,187 @@
+/**
+ * SERVER ACTIONS: The signed-in user's own profile and settings
+ * ============================================================================
+ *
+ * Purpose:
+ * Backs `/profile` and `/settings`. Unlike `lib/actions.ts`, these actions
+ * never take a record id from the browser: they always act on the record
+ * that belongs to the caller (see `getCurrentPerson`) and only touch
+ * the fields a user owns (phone, address, photo) plus their preferences.
+ *
+ * ============================================================================
+ */
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import prisma from "@/lib/prisma";
+import { getCurrentPerson, getCurrentUser } from "@/lib/serverAuth";
+import {
+  ActionState,
+  actionFailed,
+  nullIfEmpty,
+  ok,
+  validationFailed,
+} from "@/lib/actionHelpers";
+import {
+  PreferencesSchema,
+  ProfileSchema,
+  preferencesSchema,
+  profileSchema,
+} from "@/lib/formValidationSchemas";
+import { DEFAULT_PREFERENCES } from "@/lib/settings";
+
+const signedOut: ActionState = {
+  success: false,
+  error: true,
+  message: "You must be signed in.",
+};
+
+/* PROFILE */
+
+export const updateMyProfile = async (
+  data: ProfileSchema
+): Promise<ActionState> => {
+  const { userId } = await getCurrentUser();
+  if (!userId) return signedOut;
+
+  const person = await getCurrentPerson();
+  if (!person) {
+    return {
+      success: false,
+      error: true,
+      message: "Your account is not linked to a school record yet.",
+    };
+  }
+
+  const parsed = profileSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { phone, address, img } = parsed.data;
+  const where = { id: person.id };
+
+  try {
+    switch (person.role) {
+      case "teacher":
+        await prisma.teacher.update({
+          where,
+          data: { phone: nullIfEmpty(phone), address, ...(img && { img }) },
+        });
+        break;
+      case "student":
+        await prisma.student.update({
+          where,
+          data: { phone: nullIfEmpty(phone), address, ...(img && { img }) },
+        });
+        break;
+      case "parent":
+        // Parents are contacted by phone, so it stays required for them
+        if (!phone) {
+          return {
+            success: false,
+            error: true,
+            message: "Please fix the highlighted fields.",
+            fieldErrors: { phone: ["Phone Number is required!"] },
+          };
+        }
+        await prisma.parent.update({ where, data: { phone, address } });
+        break;
+      default:
+        return {
+          success: false,
+          error: true,
+          message: "Your account has no editable profile fields.",
+        };
+    }
+
+    revalidatePath("/profile");
+    return ok("Profile has been updated!");
+  } catch (err) {
+    return actionFailed(err, "Could not update profile.");
+  }
+};
+
+/* SETTINGS */
+
+export const getMyPreferences = async (): Promise<PreferencesSchema> => {
+  const { userId } = await getCurrentUser();
+  if (!userId) return DEFAULT_PREFERENCES;
+
+  const saved = await prisma.userPreference.findUnique({ where: { userId } });
+  if (!saved) return DEFAULT_PREFERENCES;
+
+  const parsed = preferencesSchema.safeParse({
+    ...saved,
+    landingPage: saved.landingPage ?? "dashboard",
+  });
+  return parsed.success ? parsed.data : DEFAULT_PREFERENCES;
+};
+
+export const savePreferences = async (
+  data: PreferencesSchema
+): Promise<ActionState> => {
+  const { userId } = await getCurrentUser();
+  if (!userId) return signedOut;
+
+  const parsed = preferencesSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const prefs = {
+    ...parsed.data,
+    landingPage:
+      parsed.data.landingPage === "dashboard" ? null : parsed.data.landingPage,
+  };
+
+  try {
+    await prisma.userPreference.upsert({
+      where: { userId },
+      create: { userId, ...prefs },
+      update: prefs,
+    });
+    revalidatePath("/settings");
+    return ok("Settings have been saved!");
+  } catch (err) {
+    return actionFailed(err, "Could not save settings.");
+  }
+};
+
+/**
+ * The theme the user saved, or null when signed out / never saved one, so
+ * the ThemeToggle can keep the localStorage value in that case.
+ */
+export const getSavedTheme = async (): Promise<
+  PreferencesSchema["theme"] | null
+> => {
+  const { userId } = await getCurrentUser();
+  if (!userId) return null;
+
+  const saved = await prisma.userPreference.findUnique({
+    where: { userId },
+    select: { theme: true },
+  });
+  return saved?.theme === "dark" || saved?.theme === "light"
+    ? saved.theme
+    : null;
+};
+
+/**
+ * Called by the Navbar ThemeToggle so the quick toggle and /settings agree.
+ */
+export const saveThemePreference = async (
+  theme: PreferencesSchema["theme"]
+): Promise<ActionState> => {
+  const { userId } = await getCurrentUser();
+  if (!userId) return signedOut;
+  if (theme !== "light" && theme !== "dark") {
+    return { success: false, error: true, message: "Unknown theme." };
+  }
+
+  try {
+    await prisma.userPreference.upsert({
+      where: { userId },
+      create: { userId, theme },
+      update: { theme },
+    });
+    return ok("Theme saved!");
+  } catch (err) {
+    return actionFailed(err, "Could not save theme.");
+  }
+};
@@ -0,0 +1,121 @@
+/**
+ * ACTION HELPERS: Shared plumbing for server actions
+ * ============================================================================
+ *
+ * Purpose:
+ * The `ActionState` result type and the helpers every server action module
+ * (`lib/actions.ts`, `lib/messageActions.ts`, ...) uses to build it. They
+ * live outside the "use server" files because those may only export async
+ * actions.
+ *
+ * ============================================================================
+ */
+
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { MutationTable, canMutate, getCurrentUser } from "@/lib/serverAuth";
+
+/**
+ * Result returned by every action.
+ *
+ * - success: the write went through
+ * - error: something failed (validation, constraint or unexpected error)
+ * - message: human readable text for the toast
+ * - fieldErrors: per-field messages keyed by form field name
+ */
+export type ActionState = {
+  success: boolean;
+  error: boolean;
+  message?: string;
+  fieldErrors?: Record<string, string[] | undefined>;
+};
+
+/* HELPERS */
+
+// Returns an error state when the caller may not change `table`, else null
+export const denyUnlessAllowed = async (
+  table: MutationTable
+): Promise<ActionState | null> => {
+  const { userId, role } = await getCurrentUser();
+  if (!userId) {
+    return { success: false, error: true, message: "You must be signed in." };
+  }
+  if (!canMutate(role, table)) {
+    return {
+      success: false,
+      error: true,
+      message: "You are not allowed to change this data.",
+    };
+  }
+  return null;
+};
+
+// Turn a failed zod parse into the ActionState the form understands
+export const validationFailed = (error: z.ZodError): ActionState => ({
+  success: false,
+  error: true,
+  message: "Please fix the highlighted fields.",
+  fieldErrors: z.flattenError(error).fieldErrors as Record<
+    string,
+    string[] | undefined
+  >,
+});
+
+// Map known Prisma errors to friendly messages; log everything else
+export const actionFailed = (err: unknown, fallback: string): ActionState => {
+  if (err instanceof Prisma.PrismaClientKnownRequestError) {
+    // Unique constraint (username, email, phone, name...)
+    if (err.code === "P2002") {
+      const fields = (err.meta?.target as string[] | undefined) ?? [];
+      return {
+        success: false,
+        error: true,
+        message: `${fields.join(", ") || "A value"} is already taken.`,
+        fieldErrors: Object.fromEntries(
+          fields.map((field) => [field, ["Already taken!"]])
+        ),
+      };
+    }
+
+    // Foreign key constraint: other records still point at this one
+    if (err.code === "P2003") {
+      return {
+        success: false,
+        error: true,
+        message:
+          "This record is still linked to other data. Remove those links first.",
+      };
+    }
+
+    // Record to update/delete does not exist
+    if (err.code === "P2025") {
+      return { success: false, error: true, message: "Record not found." };
+    }
+
+    // A serializable transaction lost to a save running at the same time
+    if (err.code === "P2034") {
+      return {
+        success: false,
+        error: true,
+        message: "Someone else changed this at the same time. Please try again.",
+      };
+    }
+  }
+
+  console.error(fallback, err);
+  return { success: false, error: true, message: fallback };
+};
+
+export const ok = (message: string): ActionState => ({
+  success: true,
+  error: false,
+  message,
+});
+
+// Empty strings from optional inputs are stored as NULL so unique columns
+// (email, phone) do not collide on ""
+export const nullIfEmpty = (value?: string | null) => (value ? value : null);
+
+// Optional numeric selects arrive as number | "" | undefined
+export const optionalNumber = (value?: number | "") =>
+  typeof value === "number" ? value : null;
@@ -0,0 +1,2295 @@
+/**
+ * SERVER ACTIONS: Create / Update / Delete for every FormModal table
+ * ============================================================================
+ *
+ * Purpose:
+ * The forms in `src/components/forms/*` call these actions after client-side
+ * validation. Each action:
+ * 1. Rejects callers whose role may not change the table (lib/serverAuth.ts)
+ * 2. Re-validates the payload with the SAME zod schema the form used
+ * 3. Writes to the database through Prisma
+ * 4. Revalidates the matching `/list/*` page so the table refreshes
+ * 5. Returns an `ActionState` the form turns into field errors and toasts
+ *
+ * Never trust the browser: client validation is for UX only, the server
+ * parse below is what actually protects the database.
+ *
+ * ============================================================================
+ */
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { getCurrentPerson, getCurrentUser } from "@/lib/serverAuth";
+import { audit } from "@/lib/audit";
+import {
+  ActionState,
+  actionFailed,
+  denyUnlessAllowed,
+  nullIfEmpty,
+  ok,
+  optionalNumber,
+  validationFailed,
+} from "@/lib/actionHelpers";
+import { nextDay, parseDateOnly, toDateInputValue } from "@/lib/utils";
+import { LessonSlot, findLessonConflicts } from "@/lib/lessonConflicts";
+import { attributeToTerms, termIdForDate } from "@/lib/terms";
+import { maxScoreOf } from "@/lib/assessment";
+import { clearRankings } from "@/lib/ranking";
+import { classSeats, fullMessage, offerSeats } from "@/lib/capacity";
+import { PaymentError, addPayment, planInvoices, toMinor } from "@/lib/fees";
+import { isOpen, roomNameFor, teacherSessions } from "@/lib/liveSessions";
+import {
+  AcademicYearSchema,
+  AnnouncementSchema,
+  AssessmentComponentSchema,
+  AssignmentSchema,
+  AttendanceSchema,
+  ClassSchema,
+  EventSchema,
+  ExamSchema,
+  FeeStructureSchema,
+  GenerateInvoicesSchema,
+  GradingSchemeSchema,
+  LessonSchema,
+  LiveSessionSchema,
+  LiveAttendanceSchema,
+  ParentSchema,
+  PaymentSchema,
+  ReportCardRemarkSchema,
+  ResultSchema,
+  StudentSchema,
+  SubjectSchema,
+  TeacherSchema,
+  TermSchema,
+  academicYearSchema,
+  announcementSchema,
+  assessmentComponentSchema,
+  assignmentSchema,
+  attendanceSchema,
+  classSchema,
+  eventSchema,
+  examSchema,
+  feeStructureSchema,
+  generateInvoicesSchema,
+  gradingSchemeSchema,
+  lessonSchema,
+  liveSessionSchema,
+  liveAttendanceSchema,
+  parentSchema,
+  paymentSchema,
+  reportCardRemarkSchema,
+  resultSchema,
+  studentSchema,
+  subjectSchema,
+  teacherSchema,
+  termSchema,
+} from "@/lib/formValidationSchemas";
+
+export type { ActionState } from "@/lib/actionHelpers";
+
+/* ========================================================================
+ * SUBJECT
+ * ======================================================================== */
+
+export const createSubject = async (
+  data: SubjectSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("subject");
+  if (denied) return denied;
+
+  const parsed = subjectSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { name, teachers = [] } = parsed.data;
+
+  try {
+    await prisma.subject.create({
+      data: {
+        name,
+        teachers: { connect: teachers.map((id) => ({ id })) },
+      },
+    });
+    revalidatePath("/list/subjects");
+    return ok("Subject has been created!");
+  } catch (err) {
+    return actionFailed(err, "Could not create subject.");
+  }
+};
+
+export const updateSubject = async (
+  data: SubjectSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("subject");
+  if (denied) return denied;
+
+  const parsed = subjectSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id, name, teachers = [] } = parsed.data;
+  if (!id) return { success: false, error: true, message: "Missing subject id." };
+
+  try {
+    await prisma.subject.update({
+      where: { id },
+      data: {
+        name,
+        teachers: { set: teachers.map((id) => ({ id })) },
+      },
+    });
+    revalidatePath("/list/subjects");
+    return ok("Subject has been updated!");
+  } catch (err) {
+    return actionFailed(err, "Could not update subject.");
+  }
+};
+
+export const deleteSubject = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("subject");
+  if (denied) return denied;
+
+  try {
+    await prisma.subject.delete({ where: { id: Number(id) } });
+    revalidatePath("/list/subjects");
+    return ok("Subject has been deleted!");
+  } catch (err) {
+    return actionFailed(err, "Could not delete subject.");
+  }
+};
+
+/* ========================================================================
+ * CLASS
+ * ======================================================================== */
+
+export const createClass = async (data: ClassSchema): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("class");
+  if (denied) return denied;
+
+  const parsed = classSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id: _id, supervisorId, ...rest } = parsed.data;
+
+  try {
+    await prisma.class.create({
+      data: { ...rest, supervisorId: nullIfEmpty(supervisorId) },
+    });
+    revalidatePath("/list/classes");
+    return ok("Class has been created!");
+  } catch (err) {
+    return actionFailed(err, "Could not create class.");
+  }
+};
+
+export const updateClass = async (data: ClassSchema): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("class");
+  if (denied) return denied;
+
+  const parsed = classSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id, supervisorId, ...rest } = parsed.data;
+  if (!id) return { success: false, error: true, message: "Missing class id." };
+
+  try {
+    await prisma.class.update({
+      where: { id },
+      data: { ...rest, supervisorId: nullIfEmpty(supervisorId) },
+    });
+    await offerSeats([id]); // the capacity may have gone up
+    revalidatePath("/list/classes");
+    return ok("Class has been updated!");
+  } catch (err) {
+    return actionFailed(err, "Could not update class.");
+  }
+};
+
+export const deleteClass = async (id: number | string): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("class");
+  if (denied) return denied;
+
+  try {
+    await prisma.class.delete({ where: { id: Number(id) } });
+    revalidatePath("/list/classes");
+    return ok("Class has been deleted!");
+  } catch (err) {
+    return actionFailed(err, "Could not delete class.");
+  }
+};
+
+/* ========================================================================
+ * TEACHER
+ * ======================================================================== */
+
+export const createTeacher = async (
+  data: TeacherSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("teacher");
+  if (denied) return denied;
+
+  const parsed = teacherSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const {
+    id: _id,
+    subjects = [],
+    email,
+    clerkUserId,
+    phone,
+    img,
+    ...rest
+  } = parsed.data;
+
+  try {
+    await prisma.teacher.create({
+      data: {
+        ...rest,
+        id: crypto.randomUUID(),
+        email: nullIfEmpty(email),
+        clerkUserId: nullIfEmpty(clerkUserId),
+        phone: nullIfEmpty(phone),
+        img: nullIfEmpty(img),
+        subjects: { connect: subjects.map((id) => ({ id: Number(id) })) },
+      },
+    });
+    revalidatePath("/list/teachers");
+    return ok("Teacher has been created!");
+  } catch (err) {
+    return actionFailed(err, "Could not create teacher.");
+  }
+};
+
+export const updateTeacher = async (
+  data: TeacherSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("teacher");
+  if (denied) return denied;
+
+  const parsed = teacherSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const {
+    id,
+    subjects = [],
+    email,
+    clerkUserId,
+    phone,
+    img,
+    ...rest
+  } = parsed.data;
+  if (!id) return { success: false, error: true, message: "Missing teacher id." };
+
+  try {
+    await prisma.teacher.update({
+      where: { id },
+      data: {
+        ...rest,
+        email: nullIfEmpty(email),
+        clerkUserId: nullIfEmpty(clerkUserId),
+        phone: nullIfEmpty(phone),
+        // Keep the current photo unless a new one was uploaded
+        ...(img ? { img } : {}),
+        subjects: { set: subjects.map((id) => ({ id: Number(id) })) },
+      },
+    });
+    revalidatePath("/list/teachers");
+    return ok("Teacher has been updated!");
+  } catch (err) {
+    return actionFailed(err, "Could not update teacher.");
+  }
+};
+
+export const deleteTeacher = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("teacher");
+  if (denied) return denied;
+
+  try {
+    await prisma.teacher.delete({ where: { id: String(id) } });
+    revalidatePath("/list/teachers");
+    return ok("Teacher has been deleted!");
+  } catch (err) {
+    return actionFailed(err, "Could not delete teacher.");
+  }
+};
+
+/* ========================================================================
+ * STUDENT
+ * ======================================================================== */
+
+// `full` explains why a save into a full class was blocked
+type StudentActionState = ActionState & { full?: string };
+
+// Seats are counted and taken in one serializable transaction: of two saves
+// racing for the last seat, one fails (P2034) instead of overfilling
+const SEAT_TRANSACTION = {
+  isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+};
+
+/**
+ * How a student gets into `classId`: "enrol" when a seat is free (or an
+ * admin overrides a full class), "waitlist" when the form asked for it, or
+ * the state that blocks the save. `studentId` is not counted as taking a
+ * seat.
+ */
+const placeInClass = async (
+  tx: Prisma.TransactionClient,
+  classId: number,
+  whenFull?: "override" | "waitlist" | null,
+  studentId?: string
+): Promise<"enrol" | "waitlist" | StudentActionState> => {
+  const seats = (
+    await classSeats([classId], studentId ? [studentId] : [], tx)
+  ).get(classId);
+  if (!seats || seats.free > 0) return "enrol";
+  if (whenFull === "waitlist") return "waitlist";
+
+  const { userId, role } = await getCurrentUser();
+  if (whenFull === "override" && role === "admin") {
+    await audit(
+      "capacity-override",
+      `Enrolled ${studentId ?? "a new student"} in full class ${classId}`,
+      userId,
+      tx
+    );
+    return "enrol";
+  }
+
+  const klass = await tx.class.findUnique({
+    where: { id: classId },
+    select: { name: true },
+  });
+  const message = fullMessage(klass?.name ?? "The class", seats);
+  return {
+    success: false,
+    error: true,
+    message,
+    full: message,
+    fieldErrors: { classId: ["Class is full!"] },
+  };
+};
+
+export const createStudent = async (
+  data: StudentSchema
+): Promise<StudentActionState> => {
+  const denied = await denyUnlessAllowed("student");
+  if (denied) return denied;
+
+  const parsed = studentSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id: _id, email, clerkUserId, phone, img, whenFull, ...rest } =
+    parsed.data;
+
+  try {
+    const placement = await prisma.$transaction(async (tx) => {
+      const placement = await placeInClass(tx, rest.classId, whenFull);
+      if (typeof placement === "object") return placement;
+
+      await tx.student.create({
+        data: {
+          ...rest,
+          id: crypto.randomUUID(),
+          email: nullIfEmpty(email),
+          clerkUserId: nullIfEmpty(clerkUserId),
+          phone: nullIfEmpty(phone),
+          img: nullIfEmpty(img),
+          ...(placement === "waitlist" && {
+            status: "WAITLISTED",
+            waitlist: { create: { classId: rest.classId } },
+          }),
+        },
+      });
+      return placement;
+    }, SEAT_TRANSACTION);
+    if (typeof placement === "object") return placement;
+
+    await clearRankings();
+    revalidatePath("/list/students");
+    return ok(
+      placement === "waitlist"
+        ? "Student has been added to the class waitlist!"
+        : "Student has been created!"
+    );
+  } catch (err) {
+    return actionFailed(err, "Could not create student.");
+  }
+};
+
+export const updateStudent = async (
+  data: StudentSchema
+): Promise<StudentActionState> => {
+  const denied = await denyUnlessAllowed("student");
+  if (denied) return denied;
+
+  const parsed = studentSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id, email, clerkUserId, phone, img, whenFull, ...rest } = parsed.data;
+  if (!id) return { success: false, error: true, message: "Missing student id." };
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const current = await tx.student.findUnique({
+        where: { id },
+        select: { status: true, classId: true, gradeId: true },
+      });
+      if (!current) {
+        return { success: false, error: true, message: "Student not found." };
+      }
+
+      // Alumni keep the last class they were in (see lib/promotion.ts)
+      if (current.status === "ALUMNI" && current.classId !== rest.classId) {
+        return {
+          success: false,
+          error: true,
+          message: "Alumni keep their last class.",
+          fieldErrors: { classId: ["Alumni cannot change class!"] },
+        };
+      }
+
+      // Placing a waitlisted student (into any class: the placement moves
+      // their waitlist entry too), or moving an enrolled one, needs a seat
+      const moving =
+        current.status === "WAITLISTED" ||
+        (current.status === "ACTIVE" && current.classId !== rest.classId);
+      const placement = moving
+        ? await placeInClass(tx, rest.classId, whenFull, id)
+        : null;
+      if (typeof placement === "object" && placement !== null) return placement;
+
+      // Waiting to move: stays in their class for now
+      const stays = placement === "waitlist" && current.status === "ACTIVE";
+
+      await tx.student.update({
+        where: { id },
+        data: {
+          ...rest,
+          ...(stays && { classId: current.classId, gradeId: current.gradeId }),
+          ...(placement === "enrol" && { status: "ACTIVE" }),
+          email: nullIfEmpty(email),
+          clerkUserId: nullIfEmpty(clerkUserId),
+          phone: nullIfEmpty(phone),
+          ...(img ? { img } : {}),
+        },
+      });
+      // A place in another class's queue is given up; the same class keeps it
+      if (placement) {
+        await tx.waitlistEntry.deleteMany({
+          where: {
+            studentId: id,
+            ...(placement === "waitlist" && { classId: { not: rest.classId } }),
+          },
+        });
+      }
+      if (placement === "waitlist") {
+        await tx.waitlistEntry.upsert({
+          where: { studentId: id },
+          create: { studentId: id, classId: rest.classId },
+          update: {},
+        });
+      }
+      return placement;
+    }, SEAT_TRANSACTION);
+    if (typeof result === "object" && result !== null) return result;
+    const placement = result;
+
+    if (placement) await offerSeats();
+    await clearRankings();
+    revalidatePath("/list/students");
+    return ok(
+      placement === "waitlist"
+        ? "Student has been added to the class waitlist!"
+        : "Student has been updated!"
+    );
+  } catch (err) {
+    return actionFailed(err, "Could not update student.");
+  }
+};
+
+export const deleteStudent = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("student");
+  if (denied) return denied;
+
+  try {
+    await prisma.student.delete({ where: { id: String(id) } });
+    await offerSeats();
+    await clearRankings();
+    revalidatePath("/list/students");
+    return ok("Student has been deleted!");
+  } catch (err) {
+    return actionFailed(err, "Could not delete student.");
+  }
+};
+
+/* ========================================================================
+ * CLASS WAITLIST
+ * ======================================================================== */
+
+const WAITLIST_PATH = "/list/waitlist";
+
+// Take up a held seat: the student moves into the class
+export const acceptWaitlistOffer = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("student");
+  if (denied) return denied;
+
+  const entry = await prisma.waitlistEntry.findUnique({
+    where: { id: Number(id) },
+    select: { studentId: true, offeredAt: true, class: true },
+  });
+  if (!entry) return { success: false, error: true, message: "Entry not found." };
+  if (!entry.offeredAt) {
+    return {
+      success: false,
+      error: true,
+      message: "No seat has been offered yet. Edit the student to enrol them anyway.",
+    };
+  }
+
+  try {
+    await prisma.$transaction([
+      prisma.student.update({
+        where: { id: entry.studentId },
+        data: {
+          status: "ACTIVE",
+          classId: entry.class.id,
+          gradeId: entry.class.gradeId,
+        },
+      }),
+      prisma.waitlistEntry.delete({ where: { id: Number(id) } }),
+    ]);
+    await offerSeats(); // the class they left
+    await clearRankings();
+    revalidatePath(WAITLIST_PATH);
+    revalidatePath("/list/students");
+    return ok(`Student has been enrolled in ${entry.class.name}!`);
+  } catch (err) {
+    return actionFailed(err, "Could not enrol student.");
+  }
+};
+
+// Leave the waitlist; a held seat goes to the next in line
+export const deleteWaitlistEntry = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("student");
+  if (denied) return denied;
+
+  try {
+    const entry = await prisma.waitlistEntry.delete({
+      where: { id: Number(id) },
+    });
+    await offerSeats([entry.classId]);
+    revalidatePath(WAITLIST_PATH);
+    return ok("Removed from the waitlist!");
+  } catch (err) {
+    return actionFailed(err, "Could not remove waitlist entry.");
+  }
+};
+
+/* ========================================================================
+ * PARENT
+ * ======================================================================== */
+
+export const createParent = async (
+  data: ParentSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("parent");
+  if (denied) return denied;
+
+  const parsed = parentSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id: _id, email, clerkUserId, ...rest } = parsed.data;
+
+  try {
+    await prisma.parent.create({
+      data: {
+        ...rest,
+        id: crypto.randomUUID(),
+        email: nullIfEmpty(email),
+        clerkUserId: nullIfEmpty(clerkUserId),
+      },
+    });
+    revalidatePath("/list/parents");
+    return ok("Parent has been created!");
+  } catch (err) {
+    return actionFailed(err, "Could not create parent.");
+  }
+};
+
+export const updateParent = async (
+  data: ParentSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("parent");
+  if (denied) return denied;
+
+  const parsed = parentSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id, email, clerkUserId, ...rest } = parsed.data;
+  if (!id) return { success: false, error: true, message: "Missing parent id." };
+
+  try {
+    await prisma.parent.update({
+      where: { id },
+      data: {
+        ...rest,
+        email: nullIfEmpty(email),
+        clerkUserId: nullIfEmpty(clerkUserId),
+      },
+    });
+    revalidatePath("/list/parents");
+    return ok("Parent has been updated!");
+  } catch (err) {
+    return actionFailed(err, "Could not update parent.");
+  }
+};
+
+export const deleteParent = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("parent");
+  if (denied) return denied;
+
+  try {
+    await prisma.parent.delete({ where: { id: String(id) } });
+    revalidatePath("/list/parents");
+    return ok("Parent has been deleted!");
+  } catch (err) {
+    return actionFailed(err, "Could not delete parent.");
+  }
+};
+
+/* ========================================================================
+ * LESSON
+ * ======================================================================== */
+
+// `conflicts` lists every timetable clash when a save is blocked
+type LessonActionState = ActionState & { conflicts?: string[] };
+
+// Block a lesson that double-books a teacher or class, or falls outside
+// school hours. Admins may save anyway by ticking "override".
+const checkLessonConflicts = async (
+  slot: LessonSlot,
+  override?: boolean
+): Promise<LessonActionState | null> => {
+  const conflicts = await findLessonConflicts(slot);
+  if (!conflicts.length) return null;
+
+  const { userId, role } = await getCurrentUser();
+  if (override && role === "admin") {
+    await audit(
+      "lesson-override",
+      `Saved lesson ${slot.id ?? "(new)"} despite: ${conflicts.map((c) => c.message).join(" ")}`,
+      userId
+    );
+    return null;
+  }
+
+  return {
+    success: false,
+    error: true,
+    message: conflicts[0].message,
+    conflicts: conflicts.map((c) => c.message),
+  };
+};
+
+export const createLesson = async (
+  data: LessonSchema
+): Promise<LessonActionState> => {
+  const denied = await denyUnlessAllowed("lesson");
+  if (denied) return denied;
+
+  const parsed = lessonSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id: _id, override, ...rest } = parsed.data;
+
+  const blocked = await checkLessonConflicts(rest, override);
+  if (blocked) return blocked;
+
+  try {
+    await prisma.lesson.create({ data: rest });
+    revalidatePath("/list/lessons");
+    return ok("Lesson has been created!");
+  } catch (err) {
+    return actionFailed(err, "Could not create lesson.");
+  }
+};
+
+export const updateLesson = async (
+  data: LessonSchema
+): Promise<LessonActionState> => {
+  const denied = await denyUnlessAllowed("lesson");
+  if (denied) return denied;
+
+  const parsed = lessonSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id, override, ...rest } = parsed.data;
+  if (!id) return { success: false, error: true, message: "Missing lesson id." };
+
+  const blocked = await checkLessonConflicts({ id, ...rest }, override);
+  if (blocked) return blocked;
+
+  try {
+    await prisma.$transaction([
+      prisma.lesson.update({ where: { id }, data: rest }),
+      // Live sessions still to come follow the lesson's teacher and class
+      prisma.liveSession.updateMany({
+        where: { lessonId: id, endTime: { gt: new Date() } },
+        data: { teacherId: rest.teacherId, classId: rest.classId },
+      }),
+    ]);
+    await clearRankings();
+    revalidatePath("/list/lessons");
+    return ok("Lesson has been updated!");
+  } catch (err) {
+    return actionFailed(err, "Could not update lesson.");
+  }
+};
+
+export const deleteLesson = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("lesson");
+  if (denied) return denied;
+
+  try {
+    await prisma.lesson.delete({ where: { id: Number(id) } });
+    await clearRankings();
+    revalidatePath("/list/lessons");
+    return ok("Lesson has been deleted!");
+  } catch (err) {
+    return actionFailed(err, "Could not delete lesson.");
+  }
+};
+
+/* ========================================================================
+ * TEACHER SCOPE
+ * ======================================================================== */
+
+// Teachers may only change the records of lessons they teach (exams,
+// assignments, their results, attendance, live sessions); admins may
+// change any. null: a teacher not linked to a school record.
+const lessonScope = async (): Promise<Prisma.LessonWhereInput | null> => {
+  const { role } = await getCurrentUser();
+  if (role !== "teacher") return {};
+  const person = await getCurrentPerson();
+  return person ? { teacherId: person.id } : null;
+};
+
+const ownsLesson = async (scope: Prisma.LessonWhereInput, lessonId: number) =>
+  (await prisma.lesson.count({ where: { id: lessonId, ...scope } })) > 0;
+
+// The exam or assignment a result is for
+const ownsAssessment = async (
+  scope: Prisma.LessonWhereInput,
+  { examId, assignmentId }: { examId: number | null; assignmentId: number | null }
+) =>
+  examId !== null
+    ? (await prisma.exam.count({ where: { id: examId, lesson: scope } })) > 0
+    : assignmentId !== null &&
+      (await prisma.assignment.count({ where: { id: assignmentId, lesson: scope } })) > 0;
+
+const resultScope = (scope: Prisma.LessonWhereInput): Prisma.ResultWhereInput => ({
+  OR: [{ exam: { lesson: scope } }, { assignment: { lesson: scope } }],
+});
+
+// Events and announcements: teachers post to the classes they teach;
+// school-wide ones (no class) are the admins'
+const classScope = (scope: Prisma.LessonWhereInput) =>
+  scope.teacherId ? { class: { lessons: { some: scope } } } : {};
+
+const ownsClass = async (scope: Prisma.LessonWhereInput, classId: number | null) =>
+  !scope.teacherId ||
+  (classId !== null &&
+    (await prisma.class.count({
+      where: { id: classId, lessons: { some: scope } },
+    })) > 0);
+
+const notYours = (message: string): ActionState => ({
+  success: false,
+  error: true,
+  message,
+});
+
+/* ========================================================================
+ * ASSESSMENT COMPONENT CHECKS
+ * ======================================================================== */
+
+// An exam or assignment may only count towards a component of its own
+// subject, in the term its date falls in
+const checkComponent = async (
+  componentId: number | null,
+  lessonId: number,
+  termId: number | null
+): Promise<ActionState | null> => {
+  if (componentId === null) return null;
+
+  const [component, lesson] = await Promise.all([
+    prisma.assessmentComponent.findUnique({ where: { id: componentId } }),
+    prisma.lesson.findUnique({
+      where: { id: lessonId },
+      select: { subjectId: true },
+    }),
+  ]);
+  if (
+    component &&
+    component.subjectId === lesson?.subjectId &&
+    component.termId === termId
+  ) {
+    return null;
+  }
+  return {
+    success: false,
+    error: true,
+    message: "The component belongs to another subject or term.",
+    fieldErrors: {
+      componentId: ["Pick a component of this lesson's subject and term!"],
+    },
+  };
+};
+
+// Raw scores are marked out of the assessment component's max score
+const checkScore = async (
+  score: number,
+  assessment: { examId: number | null; assignmentId: number | null }
+): Promise<ActionState | null> => {
+  const maxScore = await maxScoreOf(assessment);
+  if (score <= maxScore) return null;
+  return {
+    success: false,
+    error: true,
+    message: `This assessment is marked out of ${maxScore}.`,
+    fieldErrors: { score: [`Score cannot be more than ${maxScore}!`] },
+  };
+};
+
+/* ========================================================================
+ * EXAM
+ * ======================================================================== */
+
+export const createExam = async (data: ExamSchema): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("exam");
+  if (denied) return denied;
+
+  const parsed = examSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id: _id, componentId: rawComponentId, ...rest } = parsed.data;
+
+  const scope = await lessonScope();
+  if (!scope || !(await ownsLesson(scope, rest.lessonId))) {
+    return notYours("You can only set exams for your own lessons.");
+  }
+
+  const termId = await termIdForDate(rest.startTime);
+  const componentId = optionalNumber(rawComponentId);
+  const invalid = await checkComponent(componentId, rest.lessonId, termId);
+  if (invalid) return invalid;
+
+  try {
+    await prisma.exam.create({ data: { ...rest, termId, componentId } });
+    await clearRankings();
+    revalidatePath("/list/exams");
+    return ok("Exam has been created!");
+  } catch (err) {
+    return actionFailed(err, "Could not create exam.");
+  }
+};
+
+export const updateExam = async (data: ExamSchema): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("exam");
+  if (denied) return denied;
+
+  const parsed = examSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id, componentId: rawComponentId, ...rest } = parsed.data;
+  if (!id) return { success: false, error: true, message: "Missing exam id." };
+
+  const scope = await lessonScope();
+  if (!scope || !(await ownsLesson(scope, rest.lessonId))) {
+    return notYours("You can only set exams for your own lessons.");
+  }
+
+  const termId = await termIdForDate(rest.startTime);
+  const componentId = optionalNumber(rawComponentId);
+  const invalid = await checkComponent(componentId, rest.lessonId, termId);
+  if (invalid) return invalid;
+
+  try {
+    const { count } = await prisma.exam.updateMany({
+      where: { id, lesson: scope },
+      data: { ...rest, termId, componentId },
+    });
+    if (!count) return notYours("You can only change exams of your own lessons.");
+    await clearRankings();
+    revalidatePath("/list/exams");
+    return ok("Exam has been updated!");
+  } catch (err) {
+    return actionFailed(err, "Could not update exam.");
+  }
+};
+
+export const deleteExam = async (id: number | string): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("exam");
+  if (denied) return denied;
+
+  try {
+    const scope = await lessonScope();
+    const { count } = scope
+      ? await prisma.exam.deleteMany({ where: { id: Number(id), lesson: scope } })
+      : { count: 0 };
+    if (!count) return notYours("You can only delete exams of your own lessons.");
+    await clearRankings();
+    revalidatePath("/list/exams");
+    return ok("Exam has been deleted!");
+  } catch (err) {
+    return actionFailed(err, "Could not delete exam.");
+  }
+};
+
+/* ========================================================================
+ * ASSIGNMENT
+ * ======================================================================== */
+
+export const createAssignment = async (
+  data: AssignmentSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("assignment");
+  if (denied) return denied;
+
+  const parsed = assignmentSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id: _id, componentId: rawComponentId, ...rest } = parsed.data;
+
+  const scope = await lessonScope();
+  if (!scope || !(await ownsLesson(scope, rest.lessonId))) {
+    return notYours("You can only set assignments for your own lessons.");
+  }
+
+  const termId = await termIdForDate(rest.startDate);
+  const componentId = optionalNumber(rawComponentId);
+  const invalid = await checkComponent(componentId, rest.lessonId, termId);
+  if (invalid) return invalid;
+
+  try {
+    await prisma.assignment.create({ data: { ...rest, termId, componentId } });
+    await clearRankings();
+    revalidatePath("/list/assignments");
+    return ok("Assignment has been created!");
+  } catch (err) {
+    return actionFailed(err, "Could not create assignment.");
+  }
+};
+
+export const updateAssignment = async (
+  data: AssignmentSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("assignment");
+  if (denied) return denied;
+
+  const parsed = assignmentSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id, componentId: rawComponentId, ...rest } = parsed.data;
+  if (!id) {
+    return { success: false, error: true, message: "Missing assignment id." };
+  }
+
+  const scope = await lessonScope();
+  if (!scope || !(await ownsLesson(scope, rest.lessonId))) {
+    return notYours("You can only set assignments for your own lessons.");
+  }
+
+  const termId = await termIdForDate(rest.startDate);
+  const componentId = optionalNumber(rawComponentId);
+  const invalid = await checkComponent(componentId, rest.lessonId, termId);
+  if (invalid) return invalid;
+
+  try {
+    const { count } = await prisma.assignment.updateMany({
+      where: { id, lesson: scope },
+      data: { ...rest, termId, componentId },
+    });
+    if (!count) {
+      return notYours("You can only change assignments of your own lessons.");
+    }
+    await clearRankings();
+    revalidatePath("/list/assignments");
+    return ok("Assignment has been updated!");
+  } catch (err) {
+    return actionFailed(err, "Could not update assignment.");
+  }
+};
+
+export const deleteAssignment = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("assignment");
+  if (denied) return denied;
+
+  try {
+    const scope = await lessonScope();
+    const { count } = scope
+      ? await prisma.assignment.deleteMany({
+          where: { id: Number(id), lesson: scope },
+        })
+      : { count: 0 };
+    if (!count) {
+      return notYours("You can only delete assignments of your own lessons.");
+    }
+    await clearRankings();
+    revalidatePath("/list/assignments");
+    return ok("Assignment has been deleted!");
+  } catch (err) {
+    return actionFailed(err, "Could not delete assignment.");
+  }
+};
+
+/* ========================================================================
+ * RESULT
+ * ======================================================================== */
+
+export const createResult = async (
+  data: ResultSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("result");
+  if (denied) return denied;
+
+  const parsed = resultSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { score, studentId, ...assessment } = parsed.data;
+  const examId = optionalNumber(assessment.examId);
+  const assignmentId = optionalNumber(assessment.assignmentId);
+
+  const scope = await lessonScope();
+  if (!scope || !(await ownsAssessment(scope, { examId, assignmentId }))) {
+    return notYours("You can only grade the exams and assignments of your own lessons.");
+  }
+
+  const invalid = await checkScore(score, { examId, assignmentId });
+  if (invalid) return invalid;
+
+  try {
+    await prisma.result.create({
+      data: { score, studentId, examId, assignmentId },
+    });
+    await clearRankings();
+    revalidatePath("/list/results");
+    return ok("Result has been created!");
+  } catch (err) {
+    return actionFailed(err, "Could not create result.");
+  }
+};
+
+export const updateResult = async (
+  data: ResultSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("result");
+  if (denied) return denied;
+
+  const parsed = resultSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id, score, studentId, ...assessment } = parsed.data;
+  if (!id) return { success: false, error: true, message: "Missing result id." };
+  const examId = optionalNumber(assessment.examId);
+  const assignmentId = optionalNumber(assessment.assignmentId);
+
+  const scope = await lessonScope();
+  if (!scope || !(await ownsAssessment(scope, { examId, assignmentId }))) {
+    return notYours("You can only grade the exams and assignments of your own lessons.");
+  }
+
+  const invalid = await checkScore(score, { examId, assignmentId });
+  if (invalid) return invalid;
+
+  try {
+    const { count } = await prisma.result.updateMany({
+      where: { id, ...resultScope(scope) },
+      data: { score, studentId, examId, assignmentId },
+    });
+    if (!count) return notYours("You can only change results of your own lessons.");
+    await clearRankings();
+    revalidatePath("/list/results");
+    return ok("Result has been updated!");
+  } catch (err) {
+    return actionFailed(err, "Could not update result.");
+  }
+};
+
+export const deleteResult = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("result");
+  if (denied) return denied;
+
+  try {
+    const scope = await lessonScope();
+    const { count } = scope
+      ? await prisma.result.deleteMany({
+          where: { id: Number(id), ...resultScope(scope) },
+        })
+      : { count: 0 };
+    if (!count) return notYours("You can only delete results of your own lessons.");
+    await clearRankings();
+    revalidatePath("/list/results");
+    return ok("Result has been deleted!");
+  } catch (err) {
+    return actionFailed(err, "Could not delete result.");
+  }
+};
+
+/* ========================================================================
+ * ATTENDANCE
+ * ======================================================================== */
+
+/**
+ * Save a whole roll call for one lesson on one day.
+ * Any marks already stored for those students on that lesson and day are
+ * replaced, so re-submitting the roll call edits it instead of duplicating.
+ */
+export const saveAttendance = async (
+  data: AttendanceSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("attendance");
+  if (denied) return denied;
+
+  const parsed = attendanceSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { lessonId, records } = parsed.data;
+  const date = parseDateOnly(parsed.data.date)!;
+
+  try {
+    const scope = await lessonScope();
+    const lesson = scope
+      ? await prisma.lesson.findFirst({
+          where: { id: lessonId, ...scope },
+          select: {
+            class: {
+              select: {
+                students: { where: { status: "ACTIVE" }, select: { id: true } },
+              },
+            },
+          },
+        })
+      : null;
+    if (!lesson) {
+      return {
+        success: false,
+        error: true,
+        message: "You can only take attendance for your own lessons.",
+      };
+    }
+
+    // Only students enrolled in the lesson's class can be marked
+    const roster = new Set(lesson.class.students.map((s) => s.id));
+    if (records.some((r) => !roster.has(r.studentId))) {
+      return {
+        success: false,
+        error: true,
+        message: "Some students are not in this lesson's class.",
+      };
+    }
+
+    const termId = await termIdForDate(date);
+    await prisma.$transaction([
+      prisma.attendance.deleteMany({
+        where: {
+          lessonId,
+          studentId: { in: records.map((r) => r.studentId) },
+          date: { gte: date, lt: nextDay(date) },
+        },
+      }),
+      prisma.attendance.createMany({
+        data: records.map((r) => ({
+          lessonId,
+          studentId: r.studentId,
+          present: r.present,
+          date,
+          termId,
+        })),
+      }),
+    ]);
+    revalidatePath("/list/attendance");
+
+    const present = records.filter((r) => r.present).length;
+    return ok(`Attendance saved: ${present}/${records.length} present.`);
+  } catch (err) {
+    return actionFailed(err, "Could not save attendance.");
+  }
+};
+
+export const deleteAttendance = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("attendance");
+  if (denied) return denied;
+
+  try {
+    const scope = await lessonScope();
+    const { count } = scope
+      ? await prisma.attendance.deleteMany({
+          where: { id: Number(id), lesson: scope },
+        })
+      : { count: 0 };
+    if (!count) {
+      return { success: false, error: true, message: "Record not found." };
+    }
+    revalidatePath("/list/attendance");
+    return ok("Attendance record has been deleted!");
+  } catch (err) {
+    return actionFailed(err, "Could not delete attendance record.");
+  }
+};
+
+/* ========================================================================
+ * EVENT
+ * ======================================================================== */
+
+export const createEvent = async (data: EventSchema): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("event");
+  if (denied) return denied;
+
+  const parsed = eventSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id: _id, classId, ...rest } = parsed.data;
+
+  const scope = await lessonScope();
+  if (!scope || !(await ownsClass(scope, optionalNumber(classId)))) {
+    return notYours("You can only post events to the classes you teach.");
+  }
+
+  try {
+    await prisma.event.create({
+      data: { ...rest, classId: optionalNumber(classId) },
+    });
+    revalidatePath("/list/events");
+    return ok("Event has been created!");
+  } catch (err) {
+    return actionFailed(err, "Could not create event.");
+  }
+};
+
+export const updateEvent = async (data: EventSchema): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("event");
+  if (denied) return denied;
+
+  const parsed = eventSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id, classId, ...rest } = parsed.data;
+  if (!id) return { success: false, error: true, message: "Missing event id." };
+
+  const scope = await lessonScope();
+  if (!scope || !(await ownsClass(scope, optionalNumber(classId)))) {
+    return notYours("You can only post events to the classes you teach.");
+  }
+
+  try {
+    const { count } = await prisma.event.updateMany({
+      where: { id, ...classScope(scope) },
+      data: { ...rest, classId: optionalNumber(classId) },
+    });
+    if (!count) {
+      return notYours("You can only change events of the classes you teach.");
+    }
+    revalidatePath("/list/events");
+    return ok("Event has been updated!");
+  } catch (err) {
+    return actionFailed(err, "Could not update event.");
+  }
+};
+
+export const deleteEvent = async (id: number | string): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("event");
+  if (denied) return denied;
+
+  try {
+    const scope = await lessonScope();
+    const { count } = scope
+      ? await prisma.event.deleteMany({
+          where: { id: Number(id), ...classScope(scope) },
+        })
+      : { count: 0 };
+    if (!count) {
+      return notYours("You can only delete events of the classes you teach.");
+    }
+    revalidatePath("/list/events");
+    return ok("Event has been deleted!");
+  } catch (err) {
+    return actionFailed(err, "Could not delete event.");
+  }
+};
+
+/* ========================================================================
+ * ANNOUNCEMENT
+ * ======================================================================== */
+
+export const createAnnouncement = async (
+  data: AnnouncementSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("announcement");
+  if (denied) return denied;
+
+  const parsed = announcementSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id: _id, classId, ...rest } = parsed.data;
+
+  const scope = await lessonScope();
+  if (!scope || !(await ownsClass(scope, optionalNumber(classId)))) {
+    return notYours("You can only post announcements to the classes you teach.");
+  }
+
+  try {
+    await prisma.announcement.create({
+      data: { ...rest, classId: optionalNumber(classId) },
+    });
+    revalidatePath("/list/announcements");
+    return ok("Announcement has been created!");
+  } catch (err) {
+    return actionFailed(err, "Could not create announcement.");
+  }
+};
+
+export const updateAnnouncement = async (
+  data: AnnouncementSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("announcement");
+  if (denied) return denied;
+
+  const parsed = announcementSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id, classId, ...rest } = parsed.data;
+  if (!id) {
+    return { success: false, error: true, message: "Missing announcement id." };
+  }
+
+  const scope = await lessonScope();
+  if (!scope || !(await ownsClass(scope, optionalNumber(classId)))) {
+    return notYours("You can only post announcements to the classes you teach.");
+  }
+
+  try {
+    const { count } = await prisma.announcement.updateMany({
+      where: { id, ...classScope(scope) },
+      data: { ...rest, classId: optionalNumber(classId) },
+    });
+    if (!count) {
+      return notYours("You can only change announcements of the classes you teach.");
+    }
+    revalidatePath("/list/announcements");
+    return ok("Announcement has been updated!");
+  } catch (err) {
+    return actionFailed(err, "Could not update announcement.");
+  }
+};
+
+export const deleteAnnouncement = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("announcement");
+  if (denied) return denied;
+
+  try {
+    const scope = await lessonScope();
+    const { count } = scope
+      ? await prisma.announcement.deleteMany({
+          where: { id: Number(id), ...classScope(scope) },
+        })
+      : { count: 0 };
+    if (!count) {
+      return notYours("You can only delete announcements of the classes you teach.");
+    }
+    revalidatePath("/list/announcements");
+    return ok("Announcement has been deleted!");
+  } catch (err) {
+    return actionFailed(err, "Could not delete announcement.");
+  }
+};
+
+/* ========================================================================
+ * ACADEMIC YEAR & TERM
+ * ======================================================================== */
+
+const TERMS_PATH = "/list/terms";
+
+export const createAcademicYear = async (
+  data: AcademicYearSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("academicYear");
+  if (denied) return denied;
+
+  const parsed = academicYearSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id: _id, ...rest } = parsed.data;
+
+  try {
+    await prisma.academicYear.create({ data: rest });
+    revalidatePath(TERMS_PATH);
+    return ok("Academic year has been created!");
+  } catch (err) {
+    return actionFailed(err, "Could not create academic year.");
+  }
+};
+
+export const updateAcademicYear = async (
+  data: AcademicYearSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("academicYear");
+  if (denied) return denied;
+
+  const parsed = academicYearSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id, ...rest } = parsed.data;
+  if (!id) {
+    return { success: false, error: true, message: "Missing academic year id." };
+  }
+
+  try {
+    await prisma.academicYear.update({ where: { id }, data: rest });
+    revalidatePath(TERMS_PATH);
+    return ok("Academic year has been updated!");
+  } catch (err) {
+    return actionFailed(err, "Could not update academic year.");
+  }
+};
+
+// Deleting a year deletes its terms; their records are left without one
+export const deleteAcademicYear = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("academicYear");
+  if (denied) return denied;
+
+  try {
+    await prisma.academicYear.delete({ where: { id: Number(id) } });
+    revalidatePath(TERMS_PATH);
+    return ok("Academic year has been deleted!");
+  } catch (err) {
+    return actionFailed(err, "Could not delete academic year.");
+  }
+};
+
+// A term must sit inside its year and not overlap another term
+const checkTermDates = async ({
+  id,
+  academicYearId,
+  startDate,
+  endDate,
+}: TermSchema): Promise<ActionState | null> => {
+  const year = await prisma.academicYear.findUnique({
+    where: { id: academicYearId },
+  });
+  if (!year) {
+    return { success: false, error: true, message: "Academic year not found." };
+  }
+  if (startDate < year.startDate || endDate > year.endDate) {
+    return {
+      success: false,
+      error: true,
+      message: `The term must fall within ${year.name}.`,
+      fieldErrors: { startDate: [`Must fall within ${year.name}!`] },
+    };
+  }
+
+  const overlapping = await prisma.term.findFirst({
+    where: {
+      id: id ? { not: id } : undefined,
+      startDate: { lte: endDate },
+      endDate: { gte: startDate },
+    },
+    include: { academicYear: { select: { name: true } } },
+  });
+  if (overlapping) {
+    const name = `${overlapping.academicYear.name} ${overlapping.name}`;
+    return {
+      success: false,
+      error: true,
+      message: `The dates overlap ${name}.`,
+      fieldErrors: { startDate: [`Overlaps ${name}!`] },
+    };
+  }
+  return null;
+};
+
+export const createTerm = async (data: TermSchema): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("term");
+  if (denied) return denied;
+
+  const parsed = termSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id: _id, ...rest } = parsed.data;
+
+  const invalid = await checkTermDates(parsed.data);
+  if (invalid) return invalid;
+
+  try {
+    await prisma.term.create({ data: rest });
+    await prisma.$transaction(await attributeToTerms());
+    revalidatePath(TERMS_PATH);
+    return ok("Term has been created!");
+  } catch (err) {
+    return actionFailed(err, "Could not create term.");
+  }
+};
+
+export const updateTerm = async (data: TermSchema): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("term");
+  if (denied) return denied;
+
+  const parsed = termSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id, ...rest } = parsed.data;
+  if (!id) return { success: false, error: true, message: "Missing term id." };
+
+  const invalid = await checkTermDates(parsed.data);
+  if (invalid) return invalid;
+
+  try {
+    await prisma.term.update({ where: { id }, data: rest });
+    await prisma.$transaction(await attributeToTerms());
+    revalidatePath(TERMS_PATH);
+    return ok("Term has been updated!");
+  } catch (err) {
+    return actionFailed(err, "Could not update term.");
+  }
+};
+
+export const deleteTerm = async (id: number | string): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("term");
+  if (denied) return denied;
+
+  try {
+    // Records of the term are left without one (termId is SET NULL)
+    await prisma.term.delete({ where: { id: Number(id) } });
+    await clearRankings();
+    revalidatePath(TERMS_PATH);
+    return ok("Term has been deleted!");
+  } catch (err) {
+    return actionFailed(err, "Could not delete term.");
+  }
+};
+
+// Make `id` the one current term that lists and dashboards default to
+export const setCurrentTerm = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("term");
+  if (denied) return denied;
+
+  try {
+    await prisma.$transaction([
+      prisma.term.updateMany({
+        where: { isCurrent: true },
+        data: { isCurrent: false },
+      }),
+      prisma.term.update({
+        where: { id: Number(id) },
+        data: { isCurrent: true },
+      }),
+    ]);
+    revalidatePath("/", "layout");
+    return ok("Current term has been changed!");
+  } catch (err) {
+    return actionFailed(err, "Could not change the current term.");
+  }
+};
+
+/* ========================================================================
+ * GRADING SCHEME
+ * ======================================================================== */
+
+const GRADING_PATH = "/list/grading";
+
+// Parsed form values → scheme columns, its bands and its grade levels
+const gradingSchemeData = ({ bands, grades = [] }: GradingSchemeSchema) => ({
+  bands: bands.map(({ grade, minScore, remark, gpa }) => ({
+    grade,
+    minScore,
+    remark: nullIfEmpty(remark),
+    gpa: gpa === "" || gpa === undefined ? null : gpa,
+  })),
+  grades: grades.map((id) => ({ id: Number(id) })),
+});
+
+// Only one scheme is the default
+const unflagDefaultSchemes = (exceptId?: number) =>
+  prisma.gradingScheme.updateMany({
+    where: { isDefault: true, ...(exceptId && { id: { not: exceptId } }) },
+    data: { isDefault: false },
+  });
+
+export const createGradingScheme = async (
+  data: GradingSchemeSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("gradingScheme");
+  if (denied) return denied;
+
+  const parsed = gradingSchemeSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { name, isDefault = false } = parsed.data;
+  const { bands, grades } = gradingSchemeData(parsed.data);
+
+  try {
+    await prisma.$transaction([
+      ...(isDefault ? [unflagDefaultSchemes()] : []),
+      prisma.gradingScheme.create({
+        data: {
+          name,
+          isDefault,
+          bands: { create: bands },
+          grades: { connect: grades },
+        },
+      }),
+    ]);
+    revalidatePath(GRADING_PATH);
+    return ok("Grading scheme has been created!");
+  } catch (err) {
+    return actionFailed(err, "Could not create grading scheme.");
+  }
+};
+
+export const updateGradingScheme = async (
+  data: GradingSchemeSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("gradingScheme");
+  if (denied) return denied;
+
+  const parsed = gradingSchemeSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id, name, isDefault = false } = parsed.data;
+  if (!id) {
+    return { success: false, error: true, message: "Missing scheme id." };
+  }
+  const { bands, grades } = gradingSchemeData(parsed.data);
+
+  try {
+    // The bands are replaced as a whole
+    await prisma.$transaction([
+      ...(isDefault ? [unflagDefaultSchemes(id)] : []),
+      prisma.gradingScheme.update({
+        where: { id },
+        data: {
+          name,
+          isDefault,
+          bands: { deleteMany: {}, create: bands },
+          grades: { set: grades },
+        },
+      }),
+    ]);
+    revalidatePath(GRADING_PATH);
+    return ok("Grading scheme has been updated!");
+  } catch (err) {
+    return actionFailed(err, "Could not update grading scheme.");
+  }
+};
+
+export const deleteGradingScheme = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("gradingScheme");
+  if (denied) return denied;
+
+  try {
+    // Its grade levels fall back to the default scheme (SET NULL)
+    await prisma.gradingScheme.delete({ where: { id: Number(id) } });
+    revalidatePath(GRADING_PATH);
+    return ok("Grading scheme has been deleted!");
+  } catch (err) {
+    return actionFailed(err, "Could not delete grading scheme.");
+  }
+};
+
+/* ========================================================================
+ * ASSESSMENT COMPONENT
+ * ======================================================================== */
+
+const COMPONENTS_PATH = "/list/components";
+
+// A subject's components in a term may add up to at most 100 points
+const checkComponentWeights = async ({
+  id,
+  subjectId,
+  termId,
+  weight,
+}: AssessmentComponentSchema): Promise<ActionState | null> => {
+  const others = await prisma.assessmentComponent.aggregate({
+    where: { subjectId, termId, ...(id && { id: { not: id } }) },
+    _sum: { weight: true },
+  });
+  const left = 100 - (others._sum.weight ?? 0);
+  if (weight <= left) return null;
+  return {
+    success: false,
+    error: true,
+    message: `The subject's components would add up to more than 100.`,
+    fieldErrors: { weight: [`At most ${left} left for this subject and term!`] },
+  };
+};
+
+export const createAssessmentComponent = async (
+  data: AssessmentComponentSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("assessmentComponent");
+  if (denied) return denied;
+
+  const parsed = assessmentComponentSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id: _id, ...rest } = parsed.data;
+
+  const invalid = await checkComponentWeights(parsed.data);
+  if (invalid) return invalid;
+
+  try {
+    await prisma.assessmentComponent.create({ data: rest });
+    await clearRankings();
+    revalidatePath(COMPONENTS_PATH);
+    return ok("Component has been created!");
+  } catch (err) {
+    return actionFailed(err, "Could not create component.");
+  }
+};
+
+export const updateAssessmentComponent = async (
+  data: AssessmentComponentSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("assessmentComponent");
+  if (denied) return denied;
+
+  const parsed = assessmentComponentSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id, ...rest } = parsed.data;
+  if (!id) {
+    return { success: false, error: true, message: "Missing component id." };
+  }
+
+  const invalid = await checkComponentWeights(parsed.data);
+  if (invalid) return invalid;
+
+  try {
+    await prisma.assessmentComponent.update({ where: { id }, data: rest });
+    await clearRankings();
+    revalidatePath(COMPONENTS_PATH);
+    return ok("Component has been updated!");
+  } catch (err) {
+    return actionFailed(err, "Could not update component.");
+  }
+};
+
+export const deleteAssessmentComponent = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("assessmentComponent");
+  if (denied) return denied;
+
+  try {
+    // Its exams and assignments are left without a component (SET NULL)
+    await prisma.assessmentComponent.delete({ where: { id: Number(id) } });
+    await clearRankings();
+    revalidatePath(COMPONENTS_PATH);
+    return ok("Component has been deleted!");
+  } catch (err) {
+    return actionFailed(err, "Could not delete component.");
+  }
+};
+
+/* ========================================================================
+ * REPORT CARD REMARKS
+ * ======================================================================== */
+
+/**
+ * Save the remarks on a student's report card for a term. Teachers write
+ * the class teacher's remark; only admins write the principal's.
+ */
+export const saveReportCardRemark = async (
+  data: ReportCardRemarkSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("result");
+  if (denied) return denied;
+
+  const parsed = reportCardRemarkSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { studentId, termId, teacherRemark, principalRemark } = parsed.data;
+
+  const { role } = await getCurrentUser();
+  const remarks = {
+    teacherRemark: nullIfEmpty(teacherRemark),
+    ...(role === "admin" && { principalRemark: nullIfEmpty(principalRemark) }),
+  };
+
+  try {
+    await prisma.reportCardRemark.upsert({
+      where: { studentId_termId: { studentId, termId } },
+      create: { studentId, termId, ...remarks },
+      update: remarks,
+    });
+    revalidatePath(`/list/students/${studentId}`);
+    return ok("Remarks have been saved!");
+  } catch (err) {
+    return actionFailed(err, "Could not save remarks.");
+  }
+};
+
+/* ========================================================================
+ * FEES
+ * ======================================================================== */
+
+const FEES_PATH = "/list/fees";
+const INVOICES_PATH = "/list/invoices";
+
+export const createFeeStructure = async (
+  data: FeeStructureSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("feeStructure");
+  if (denied) return denied;
+
+  const parsed = feeStructureSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id: _id, amount, ...rest } = parsed.data;
+
+  try {
+    await prisma.feeStructure.create({ data: { ...rest, amount: toMinor(amount) } });
+    revalidatePath(FEES_PATH);
+    return ok("Fee has been created!");
+  } catch (err) {
+    return actionFailed(err, "Could not create fee.");
+  }
+};
+
+export const updateFeeStructure = async (
+  data: FeeStructureSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("feeStructure");
+  if (denied) return denied;
+
+  const parsed = feeStructureSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id, amount, ...rest } = parsed.data;
+  if (!id) {
+    return { success: false, error: true, message: "Missing fee id." };
+  }
+
+  try {
+    // Invoices already issued keep the old amount (their items are copies)
+    await prisma.feeStructure.update({
+      where: { id },
+      data: { ...rest, amount: toMinor(amount) },
+    });
+    revalidatePath(FEES_PATH);
+    return ok("Fee has been updated!");
+  } catch (err) {
+    return actionFailed(err, "Could not update fee.");
+  }
+};
+
+export const deleteFeeStructure = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("feeStructure");
+  if (denied) return denied;
+
+  try {
+    await prisma.feeStructure.delete({ where: { id: Number(id) } });
+    revalidatePath(FEES_PATH);
+    return ok("Fee has been deleted!");
+  } catch (err) {
+    return actionFailed(err, "Could not delete fee.");
+  }
+};
+
+/**
+ * Invoice every active student of a grade level with fees in the term who
+ * has no invoice for it yet (lib/fees.ts).
+ */
+export const generateInvoices = async (
+  data: GenerateInvoicesSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("invoice");
+  if (denied) return denied;
+
+  const parsed = generateInvoicesSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+
+  try {
+    const writes = await planInvoices(parsed.data.termId, parsed.data.dueDate);
+    if (writes.length === 0) {
+      return ok("Every student with fees this term already has an invoice.");
+    }
+    await prisma.$transaction(writes);
+    revalidatePath(INVOICES_PATH);
+    return ok(`${writes.length} invoice(s) have been issued!`);
+  } catch (err) {
+    return actionFailed(err, "Could not issue invoices.");
+  }
+};
+
+export const deleteInvoice = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("invoice");
+  if (denied) return denied;
+
+  try {
+    // Paid money is never deleted with its invoice: remove the payments first
+    const { count } = await prisma.invoice.deleteMany({
+      where: { id: Number(id), payments: { none: {} } },
+    });
+    if (count === 0) {
+      return {
+        success: false,
+        error: true,
+        message: "This invoice has payments. Remove them before the invoice.",
+      };
+    }
+    revalidatePath(INVOICES_PATH);
+    return ok("Invoice has been deleted!");
+  } catch (err) {
+    return actionFailed(err, "Could not delete invoice.");
+  }
+};
+
+export const createPayment = async (
+  data: PaymentSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("payment");
+  if (denied) return denied;
+
+  const parsed = paymentSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { amount, reference, ...rest } = parsed.data;
+
+  try {
+    const { userId } = await getCurrentUser();
+    await addPayment({
+      ...rest,
+      amount: toMinor(amount),
+      reference: nullIfEmpty(reference),
+      recordedBy: userId,
+    });
+    revalidatePath(INVOICES_PATH);
+    revalidatePath(`${INVOICES_PATH}/${rest.invoiceId}`);
+    return ok("Payment has been recorded!");
+  } catch (err) {
+    if (err instanceof PaymentError) {
+      return {
+        success: false,
+        error: true,
+        message: err.message,
+        fieldErrors: { amount: [err.message] },
+      };
+    }
+    return actionFailed(err, "Could not record payment.");
+  }
+};
+
+// Removes a payment recorded by mistake and lowers its invoice's amount paid
+export const deletePayment = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("payment");
+  if (denied) return denied;
+
+  try {
+    const payment = await prisma.payment.findUnique({
+      where: { id: Number(id) },
+      select: { invoiceId: true, amount: true },
+    });
+    if (!payment) {
+      return { success: false, error: true, message: "Record not found." };
+    }
+
+    await prisma.$transaction([
+      prisma.payment.delete({ where: { id: Number(id) } }),
+      prisma.invoice.update({
+        where: { id: payment.invoiceId },
+        data: { amountPaid: { decrement: payment.amount } },
+      }),
+    ]);
+    revalidatePath(INVOICES_PATH);
+    revalidatePath(`${INVOICES_PATH}/${payment.invoiceId}`);
+    return ok("Payment has been removed!");
+  } catch (err) {
+    return actionFailed(err, "Could not remove payment.");
+  }
+};
+
+/* ========================================================================
+ * LIVE SESSIONS
+ * ======================================================================== */
+
+const LIVE_SESSIONS_PATH = "/list/live-sessions";
+
+// The lesson a live session is for, if the caller may schedule it (teachers:
+// their own lessons, like attendance)
+const liveSessionLesson = async (lessonId: number) => {
+  const scope = await lessonScope();
+  return scope
+    ? prisma.lesson.findFirst({
+        where: { id: lessonId, ...scope },
+        select: {
+          teacherId: true,
+          classId: true,
+          class: { select: { name: true } },
+          subject: { select: { name: true } },
+        },
+      })
+    : null;
+};
+
+// Co-teachers to link, leaving out the session's own teacher
+const coTeacherIds = (ids: string[], teacherId: string) =>
+  Array.from(new Set(ids))
+    .filter((id) => id && id !== teacherId)
+    .map((id) => ({ id }));
+
+// One class, one live room at a time: overlapping sessions would leave
+// students unsure which one to join
+const checkLiveSessionOverlap = async ({
+  id,
+  classId,
+  startTime,
+  endTime,
+}: {
+  id?: number;
+  classId: number;
+  startTime: Date;
+  endTime: Date;
+}): Promise<ActionState | null> => {
+  const clash = await prisma.liveSession.findFirst({
+    where: {
+      classId,
+      startTime: { lt: endTime },
+      endTime: { gt: startTime },
+      ...(id && { id: { not: id } }),
+    },
+    include: { lesson: { select: { subject: { select: { name: true } } } } },
+  });
+  if (!clash) return null;
+  return {
+    success: false,
+    error: true,
+    message: `The class already has a live session then (${clash.lesson.subject.name}).`,
+    fieldErrors: { startTime: ["Overlaps another live session!"] },
+  };
+};
+
+export const createLiveSession = async (
+  data: LiveSessionSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("liveSession");
+  if (denied) return denied;
+
+  const parsed = liveSessionSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { lessonId, startTime, endTime, coTeachers = [] } = parsed.data;
+
+  try {
+    const lesson = await liveSessionLesson(lessonId);
+    if (!lesson) {
+      return {
+        success: false,
+        error: true,
+        message: "You can only schedule live sessions for your own lessons.",
+      };
+    }
+
+    const overlap = await checkLiveSessionOverlap({
+      classId: lesson.classId,
+      startTime,
+      endTime,
+    });
+    if (overlap) return overlap;
+
+    await prisma.liveSession.create({
+      data: {
+        lessonId,
+        teacherId: lesson.teacherId,
+        classId: lesson.classId,
+        startTime,
+        endTime,
+        roomName: roomNameFor(lesson.class.name, lesson.subject.name),
+        coTeachers: { connect: coTeacherIds(coTeachers, lesson.teacherId) },
+      },
+    });
+    revalidatePath(LIVE_SESSIONS_PATH);
+    return ok("Live session has been scheduled!");
+  } catch (err) {
+    return actionFailed(err, "Could not schedule live session.");
+  }
+};
+
+export const updateLiveSession = async (
+  data: LiveSessionSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("liveSession");
+  if (denied) return denied;
+
+  const parsed = liveSessionSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { id, lessonId, startTime, endTime, coTeachers = [] } = parsed.data;
+  if (!id) {
+    return { success: false, error: true, message: "Missing live session id." };
+  }
+
+  try {
+    const scope = await lessonScope();
+    const [session, lesson] = await Promise.all([
+      scope
+        ? prisma.liveSession.findFirst({ where: { id, lesson: scope } })
+        : null,
+      liveSessionLesson(lessonId),
+    ]);
+    if (!session || !lesson) {
+      return {
+        success: false,
+        error: true,
+        message: "You can only schedule live sessions for your own lessons.",
+      };
+    }
+
+    const overlap = await checkLiveSessionOverlap({
+      id,
+      classId: lesson.classId,
+      startTime,
+      endTime,
+    });
+    if (overlap) return overlap;
+
+    // The room name stays: links already shared keep working
+    await prisma.liveSession.update({
+      where: { id },
+      data: {
+        lessonId,
+        teacherId: lesson.teacherId,
+        classId: lesson.classId,
+        startTime,
+        endTime,
+        coTeachers: { set: coTeacherIds(coTeachers, lesson.teacherId) },
+      },
+    });
+    revalidatePath(LIVE_SESSIONS_PATH);
+    return ok("Live session has been updated!");
+  } catch (err) {
+    return actionFailed(err, "Could not update live session.");
+  }
+};
+
+export const deleteLiveSession = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("liveSession");
+  if (denied) return denied;
+
+  try {
+    const scope = await lessonScope();
+    const { count } = scope
+      ? await prisma.liveSession.deleteMany({
+          where: { id: Number(id), lesson: scope },
+        })
+      : { count: 0 };
+    if (!count) {
+      return { success: false, error: true, message: "Live session not found." };
+    }
+    revalidatePath(LIVE_SESSIONS_PATH);
+    return ok("Live session has been deleted!");
+  } catch (err) {
+    return actionFailed(err, "Could not delete live session.");
+  }
+};
+
+// The session's teacher or a co-teacher opens the room; the first time is
+// recorded
+export const startLiveSession = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("liveSession");
+  if (denied) return denied;
+
+  try {
+    const person = await getCurrentPerson();
+    const session =
+      person?.role === "teacher"
+        ? await prisma.liveSession.findFirst({
+            where: { id: Number(id), ...teacherSessions(person.id) },
+          })
+        : null;
+    if (!session) {
+      return {
+        success: false,
+        error: true,
+        message: "Only the session's teachers can start it.",
+      };
+    }
+    if (!isOpen(session)) {
+      return {
+        success: false,
+        error: true,
+        message: "This session is not open yet or is already over.",
+      };
+    }
+
+    if (!session.startedAt) {
+      await prisma.liveSession.update({
+        where: { id: session.id },
+        data: { startedAt: new Date() },
+      });
+      revalidatePath(LIVE_SESSIONS_PATH);
+    }
+    return ok("Live session started!");
+  } catch (err) {
+    return actionFailed(err, "Could not start live session.");
+  }
+};
+
+/**
+ * Save the reviewed marks of a live session that has ended as the lesson's
+ * attendance on the day of the session (see lib/liveAttendance.ts for the
+ * suggested marks). Saving again edits the marks, like a roll call.
+ */
+export const finalizeLiveAttendance = async (
+  data: LiveAttendanceSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("attendance");
+  if (denied) return denied;
+
+  const parsed = liveAttendanceSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { sessionId, records } = parsed.data;
+
+  try {
+    const scope = await lessonScope();
+    const session = scope
+      ? await prisma.liveSession.findFirst({
+          where: { id: sessionId, lesson: scope },
+        })
+      : null;
+    if (!session) {
+      return {
+        success: false,
+        error: true,
+        message: "You can only take attendance for your own lessons.",
+      };
+    }
+    const now = new Date();
+    if (session.endTime > now) {
+      return {
+        success: false,
+        error: true,
+        message: "Attendance can be taken once the session has ended.",
+      };
+    }
+
+    const state = await saveAttendance({
+      lessonId: session.lessonId,
+      date: toDateInputValue(session.startTime)!,
+      records,
+    });
+    if (!state.success) return state;
+
+    await prisma.liveSession.update({
+      where: { id: session.id },
+      data: { attendanceTakenAt: now },
+    });
+    revalidatePath(LIVE_SESSIONS_PATH);
+    return state;
+  } catch (err) {
+    return actionFailed(err, "Could not save attendance.");
+  }
+};
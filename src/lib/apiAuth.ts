@@ -0,0 +1,47 @@
+/**
+ * API AUTH: Caller resolution for Pages Router API routes
+ * ============================================================================
+ *
+ * Purpose:
+ * `pages/api/*` handlers cannot call the App Router `auth()` helper, so this
+ * is the Pages Router counterpart of `lib/serverAuth.ts`. The caller always
+ * comes from the Clerk session attached to the request by the middleware,
+ * never from the request body.
+ *
+ * Role lookup order matches `serverAuth.getCurrentUser`:
+ * 1. Session token claims (when the Clerk session token includes metadata)
+ * 2. The Clerk user's `publicMetadata.role` via the Backend API
+ *
+ * ============================================================================
+ */
+
+import type { NextApiRequest } from "next";
+import { clerkClient, getAuth } from "@clerk/nextjs/server";
+import { Role, isRole } from "@/lib/roles";
+
+/**
+ * Resolve the Clerk user making this API request and their role.
+ *
+ * @returns userId is null when signed out; role is null when the user has
+ *          no (or an unknown) role in publicMetadata.
+ */
+export async function getApiCaller(
+  req: NextApiRequest
+): Promise<{ userId: string | null; role: Role | null }> {
+  const { userId, sessionClaims } = getAuth(req);
+  if (!userId) return { userId: null, role: null };
+
+  const claims = sessionClaims as
+    | {
+        publicMetadata?: { role?: unknown };
+        metadata?: { role?: unknown };
+      }
+    | null;
+  const claimedRole = claims?.publicMetadata?.role ?? claims?.metadata?.role;
+  if (isRole(claimedRole)) return { userId, role: claimedRole };
+
+  const client = await clerkClient();
+  const user = await client.users.getUser(userId);
+  const role = user.publicMetadata?.role;
+  return { userId, role: isRole(role) ? role : null };
+}
@@ -0,0 +1,41 @@
+/**
+ * API ERRORS: Shared error shape for Pages Router API routes
+ *
+ * Every error response from `pages/api/*` uses the same body:
+ *   { error: "Human readable message", code: "MACHINE_READABLE_CODE" }
+ *
+ * `error` stays a plain string so existing clients that only read
+ * `response.error` keep working; `code` lets clients branch reliably.
+ */
+
+import type { NextApiResponse } from "next";
+
+export type ApiErrorCode =
+  | "METHOD_NOT_ALLOWED"
+  | "UNAUTHENTICATED"
+  | "FORBIDDEN"
+  | "BAD_REQUEST"
+  | "NOT_FOUND"
+  | "INTERNAL_ERROR";
+
+export type ApiError = { error: string; code: ApiErrorCode };
+
+const STATUS: Record<ApiErrorCode, number> = {
+  METHOD_NOT_ALLOWED: 405,
+  UNAUTHENTICATED: 401,
+  FORBIDDEN: 403,
+  BAD_REQUEST: 400,
+  NOT_FOUND: 404,
+  INTERNAL_ERROR: 500,
+};
+
+/**
+ * Send a typed error response with the status code matching `code`.
+ */
+export function sendApiError(
+  res: NextApiResponse,
+  code: ApiErrorCode,
+  message: string
+) {
+  return res.status(STATUS[code]).json({ error: message, code } satisfies ApiError);
+}
@@ -0,0 +1,153 @@
+/**
+ * ASSESSMENT: Weighted subject totals from raw scores
+ * ============================================================================
+ *
+ * Purpose:
+ * A subject's total for a term is made of assessment components, e.g.
+ * CA1 (20) + CA2 (20) + Exam (60). Every exam or assignment counts towards
+ * one component and its results are raw scores out of the component's max
+ * score. Per student:
+ * - component points = average raw score / max score × weight
+ * - total = sum of the component points (a missing component counts as 0)
+ *
+ * Subjects without components in a term use DEFAULT_ASSESSMENT_COMPONENTS
+ * (lib/settings.ts): assignments are the CA, exams the exam. When a subject
+ * has components, exams and assignments not mapped to one of them do not
+ * count.
+ *
+ * ============================================================================
+ */
+
+import prisma from "@/lib/prisma";
+import { DEFAULT_ASSESSMENT_COMPONENTS } from "@/lib/settings";
+
+export type AssessmentKind = "exam" | "assignment";
+
+export type AssessmentComponentDef = {
+  id: number | null; // null: a default component from settings
+  name: string;
+  weight: number;
+  maxScore: number;
+  kind?: AssessmentKind; // default components: the assessments they take
+};
+
+// One result, as the calculation needs it
+export type RawScore = {
+  score: number;
+  kind: AssessmentKind;
+  componentId: number | null;
+};
+
+// A Result with the component of its exam or assignment selected
+export const rawScoreOf = (result: {
+  score: number;
+  exam: { componentId: number | null } | null;
+  assignment: { componentId: number | null } | null;
+}): RawScore => ({
+  score: result.score,
+  kind: result.exam ? "exam" : "assignment",
+  componentId: (result.exam ?? result.assignment)?.componentId ?? null,
+});
+
+export type ComponentPoints = {
+  name: string;
+  weight: number;
+  points: number | null; // null: no results in this component
+};
+
+export type SubjectTotal = {
+  parts: ComponentPoints[];
+  total: number; // out of the sum of weights (100 when fully set up)
+};
+
+const DEFAULT_COMPONENTS: AssessmentComponentDef[] =
+  DEFAULT_ASSESSMENT_COMPONENTS.map((component) => ({
+    id: null,
+    ...component,
+  }));
+
+const componentKey = (subjectId: number, termId: number) =>
+  `${subjectId}|${termId}`;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Components of every subject in the given terms; look one up with
+ * `componentsFor`.
+ */
+export async function getAssessmentComponents(termIds: number[]) {
+  const components = await prisma.assessmentComponent.findMany({
+    where: { termId: { in: termIds } },
+    orderBy: { id: "asc" },
+  });
+
+  const bySubjectTerm = new Map<string, AssessmentComponentDef[]>();
+  for (const { id, name, weight, maxScore, subjectId, termId } of components) {
+    const key = componentKey(subjectId, termId);
+    bySubjectTerm.set(key, [
+      ...(bySubjectTerm.get(key) ?? []),
+      { id, name, weight, maxScore },
+    ]);
+  }
+  return bySubjectTerm;
+}
+
+export const componentsFor = (
+  components: Map<string, AssessmentComponentDef[]>,
+  subjectId: number,
+  termId: number
+) => components.get(componentKey(subjectId, termId)) ?? DEFAULT_COMPONENTS;
+
+// The component a score counts towards, or undefined when it counts nowhere
+const componentOf = (components: AssessmentComponentDef[], raw: RawScore) =>
+  components.find((component) =>
+    component.id === null
+      ? component.kind === raw.kind
+      : component.id === raw.componentId
+  );
+
+/**
+ * Weighted subject total of one student's raw scores in a subject and term.
+ */
+export const subjectTotal = (
+  components: AssessmentComponentDef[],
+  scores: RawScore[]
+): SubjectTotal => {
+  const parts = components.map((component) => {
+    const own = scores
+      .filter((raw) => componentOf(components, raw) === component)
+      .map((raw) => raw.score);
+    const points = own.length
+      ? round1(
+          (own.reduce((sum, s) => sum + s, 0) / own.length / component.maxScore) *
+            component.weight
+        )
+      : null;
+    return { name: component.name, weight: component.weight, points };
+  });
+
+  return {
+    parts,
+    total: round1(parts.reduce((sum, part) => sum + (part.points ?? 0), 0)),
+  };
+};
+
+/**
+ * Highest raw score allowed for a result of an assessment: its component's
+ * max score, or 100 for assessments without one.
+ */
+export async function maxScoreOf(assessment: {
+  examId?: number | null;
+  assignmentId?: number | null;
+}): Promise<number> {
+  const select = { component: { select: { maxScore: true } } };
+  const found = assessment.examId
+    ? await prisma.exam.findUnique({ where: { id: assessment.examId }, select })
+    : assessment.assignmentId
+      ? await prisma.assignment.findUnique({
+          where: { id: assessment.assignmentId },
+          select,
+        })
+      : null;
+  return found?.component?.maxScore ?? 100;
+}
@@ -0,0 +1,33 @@
+/**
+ * AUDIT: Record who did what outside the normal rules
+ * ============================================================================
+ *
+ * Purpose:
+ * Admin overrides (enrolling past class capacity, saving a conflicting
+ * lesson), role changes and links between Clerk accounts and school records
+ * are stored as `AuditLog` rows, so they survive on hosts where server logs
+ * are not kept.
+ *
+ * Pass the transaction doing the change as `db` so the entry is rolled back
+ * with it.
+ *
+ * Framework-free so API routes can use it.
+ *
+ * ============================================================================
+ */
+
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+
+export type AuditAction =
+  | "capacity-override"
+  | "lesson-override"
+  | "role-change"
+  | "person-link";
+
+export const audit = (
+  action: AuditAction,
+  detail: string,
+  actorId: string | null = null,
+  db: Prisma.TransactionClient = prisma
+) => db.auditLog.create({ data: { action, detail, actorId } });
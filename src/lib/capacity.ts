@@ -0,0 +1,116 @@
+/**
+ * CAPACITY: Class seats and the class waitlist
+ * ============================================================================
+ *
+ * Purpose:
+ * - `classSeats`: capacity, enrolled students and seats held by waitlist
+ *   offers of classes; a class is full when enrolled + held = capacity
+ * - `offerSeats`: offers the free seats of classes to their waitlist,
+ *   oldest entry first. Run it after anything that frees a seat (a student
+ *   moved out, deleted or promoted, a capacity raised, an offer removed).
+ *
+ * Only active students take a seat; alumni and waitlisted students do not.
+ * Admins may enrol over capacity (an override), which leaves no free seats
+ * to offer until enough students leave.
+ *
+ * ============================================================================
+ */
+
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+
+export type ClassSeats = {
+  capacity: number;
+  enrolled: number; // active students
+  held: number; // seats offered to the waitlist, not accepted yet
+  free: number; // never below 0, even over capacity
+};
+
+/**
+ * Seats of `classIds`. `leaving` students are counted out, e.g. the
+ * student being moved out of the class by the save being checked.
+ *
+ * @param db pass the transaction that also writes the enrolment, so two
+ * saves at once cannot both take the last seat
+ */
+export async function classSeats(
+  classIds: number[],
+  leaving: string[] = [],
+  db: Prisma.TransactionClient = prisma
+): Promise<Map<number, ClassSeats>> {
+  const [classes, enrolled, held] = await Promise.all([
+    db.class.findMany({
+      where: { id: { in: classIds } },
+      select: { id: true, capacity: true },
+    }),
+    db.student.groupBy({
+      by: ["classId"],
+      where: {
+        classId: { in: classIds },
+        status: "ACTIVE",
+        id: { notIn: leaving },
+      },
+      _count: { _all: true },
+    }),
+    db.waitlistEntry.groupBy({
+      by: ["classId"],
+      where: {
+        classId: { in: classIds },
+        offeredAt: { not: null },
+        studentId: { notIn: leaving },
+      },
+      _count: { _all: true },
+    }),
+  ]);
+
+  return new Map(
+    classes.map(({ id, capacity }) => {
+      const count = enrolled.find((e) => e.classId === id)?._count._all ?? 0;
+      const offers = held.find((h) => h.classId === id)?._count._all ?? 0;
+      return [
+        id,
+        {
+          capacity,
+          enrolled: count,
+          held: offers,
+          free: Math.max(capacity - count - offers, 0),
+        },
+      ];
+    })
+  );
+}
+
+// "1A is full (20 of 20 seats taken)."
+export const fullMessage = (className: string, seats: ClassSeats) =>
+  `${className} is full (${seats.enrolled + seats.held} of ${seats.capacity} seats taken).`;
+
+/**
+ * Offer the free seats of `classIds` (every class when omitted) to the
+ * oldest waiting entries.
+ *
+ * @returns how many offers were made
+ */
+export async function offerSeats(classIds?: number[]): Promise<number> {
+  const waiting = await prisma.waitlistEntry.findMany({
+    where: { offeredAt: null, ...(classIds && { classId: { in: classIds } }) },
+    select: { id: true, classId: true },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  });
+  if (waiting.length === 0) return 0;
+
+  const seats = await classSeats(Array.from(new Set(waiting.map((w) => w.classId))));
+  const offered: number[] = [];
+  for (const entry of waiting) {
+    const classSeat = seats.get(entry.classId);
+    if (!classSeat || classSeat.free === 0) continue;
+    classSeat.free--;
+    offered.push(entry.id);
+  }
+  if (offered.length === 0) return 0;
+
+  await prisma.waitlistEntry.updateMany({
+    where: { id: { in: offered } },
+    data: { offeredAt: new Date() },
+  });
+  return offered.length;
+}
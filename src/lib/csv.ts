@@ -0,0 +1,93 @@
+// Minimal RFC 4180 CSV helpers shared by the bulk import and list exports.
+// Handles quoted fields, escaped quotes (""), commas and newlines inside
+// quotes, CRLF line endings and a leading UTF-8 BOM (Excel adds one).
+
+/**
+ * Parse CSV text into rows of raw string cells.
+ * Completely empty lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== "")) rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') inQuotes = true;
+    else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n") endRow();
+    else if (char !== "\r") cell += char;
+  }
+
+  if (cell !== "" || row.length) endRow();
+  return rows;
+}
+
+/**
+ * Parse CSV text whose first row is a header into one object per row,
+ * keyed by the header cell (trimmed). Each object also carries the
+ * 1-based line number of the row in the file for error messages.
+ */
+export function parseCsvWithHeader(
+  text: string
+): { line: number; values: Record<string, string> }[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const keys = header.map((key) => key.trim());
+
+  return rows.map((cells, index) => ({
+    line: index + 2,
+    values: Object.fromEntries(
+      keys.map((key, i) => [key, (cells[i] ?? "").trim()])
+    ),
+  }));
+}
+
+// Quote a cell when it contains a delimiter, quote or newline. Text that a
+// spreadsheet would run as a formula (=, +, -, @, tab, CR) is prefixed with
+// an apostrophe so it opens as plain text; numbers and dates are left alone.
+const escapeCell = (value: unknown) => {
+  const text =
+    value === null || value === undefined
+      ? ""
+      : value instanceof Date
+      ? value.toISOString()
+      : typeof value === "string" && /^[=+\-@\t\r]/.test(value)
+      ? `'${value}`
+      : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialize a header row plus data rows to CSV text (CRLF line endings).
+ */
+export function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows]
+    .map((row) => row.map(escapeCell).join(","))
+    .join("\r\n");
+}
@@ -0,0 +1,461 @@
+/**
+ * CSV IMPORT: Bulk create/update of students, teachers and parents
+ * ============================================================================
+ *
+ * Purpose:
+ * Turns an uploaded CSV file into a plan of creates and updates for one
+ * table. The same plan drives both steps of the import dialog:
+ * 1. Preview (dry run): every row with its action and errors, nothing saved
+ * 2. Commit: the plan is rebuilt from the same file on the server and, only
+ *    when no row has errors, written in a single transaction
+ *
+ * Matching:
+ * Rows are matched to existing records by `username`. A known username is
+ * an update, anything else is a create.
+ *
+ * Columns (header names are case-insensitive, spaces/underscores ignored):
+ * - all:      username, name (first name), surname (last name), email,
+ *             phone, address
+ * - students: sex, bloodType, birthday, classId or class (class name),
+ *             parentPhone / parentUsername / parentId. The grade is taken
+ *             from the class. A new student, or an active one moving class,
+ *             needs a free seat (lib/capacity.ts); over-capacity and
+ *             waitlist placements are done from the student form, and
+ *             waitlisted students and alumni cannot change class here.
+ * - teachers: sex, bloodType, birthday, subjects (names separated by ";")
+ *
+ * Every row is validated with the same zod schema as the create/edit forms
+ * (lib/formValidationSchemas.ts). Optional columns left out of the file are
+ * not touched on update.
+ *
+ * ============================================================================
+ */
+
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { parseCsvWithHeader } from "@/lib/csv";
+import { ClassSeats, classSeats, fullMessage } from "@/lib/capacity";
+import { nullIfEmpty } from "@/lib/actionHelpers";
+import {
+  parentSchema,
+  studentSchema,
+  teacherSchema,
+} from "@/lib/formValidationSchemas";
+
+export type ImportTable = "student" | "teacher" | "parent";
+
+export const MAX_IMPORT_ROWS = 500;
+
+/**
+ * One CSV row in the dry-run preview.
+ */
+export type ImportRow = {
+  line: number; // line in the file (header is line 1)
+  username: string;
+  name: string;
+  action: "create" | "update" | "error";
+  errors: string[];
+};
+
+export type ImportPreview = {
+  rows: ImportRow[];
+  creates: number;
+  updates: number;
+  errors: number;
+};
+
+type PlannedRow = ImportRow & { write?: () => Prisma.PrismaPromise<unknown> };
+
+export type ImportPlan = {
+  preview: ImportPreview;
+  writes: Prisma.PrismaPromise<unknown>[];
+};
+
+/**
+ * The uploaded file cannot be imported at all (empty, missing the username
+ * column, too large). Row-level problems are reported per row instead.
+ */
+export class ImportFileError extends Error {}
+
+/* COLUMN MAPPING */
+
+// Normalized header → field name
+const COLUMNS: Record<string, string> = {
+  username: "username",
+  name: "name",
+  firstname: "name",
+  surname: "surname",
+  lastname: "surname",
+  email: "email",
+  phone: "phone",
+  address: "address",
+  sex: "sex",
+  gender: "sex",
+  bloodtype: "bloodType",
+  birthday: "birthday",
+  dateofbirth: "birthday",
+  dob: "birthday",
+  classid: "classId",
+  class: "className",
+  classname: "className",
+  parentid: "parentId",
+  parentphone: "parentPhone",
+  parentusername: "parentUsername",
+  subjects: "subjects",
+};
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[\s_-]/g, "");
+
+// "m", "Male", "FEMALE" → the UserSex enum; anything else is left for zod
+const normalizeSex = (value: string) => {
+  const upper = value.toUpperCase();
+  if (upper === "M") return "MALE";
+  if (upper === "F") return "FEMALE";
+  return upper;
+};
+
+const zodMessages = (error: z.ZodError) =>
+  error.issues.map((issue) =>
+    issue.path.length
+      ? `${issue.path.join(".")}: ${issue.message}`
+      : issue.message
+  );
+
+/* PLAN */
+
+/**
+ * Parse `csvText` and work out what importing it into `table` would do.
+ * Nothing is written; `writes` holds the queries to run in a transaction.
+ */
+export async function planImport(
+  table: ImportTable,
+  csvText: string
+): Promise<ImportPlan> {
+  const parsed = parseCsvWithHeader(csvText);
+  if (parsed.length > MAX_IMPORT_ROWS) {
+    throw new ImportFileError(
+      `Too many rows (${parsed.length}). Import at most ${MAX_IMPORT_ROWS} at a time.`
+    );
+  }
+
+  // Map each row onto field names, remembering which fields the file has
+  const present = new Set<string>();
+  const rows = parsed.map(({ line, values }) => {
+    const fields: Record<string, string> = {};
+    for (const [header, value] of Object.entries(values)) {
+      const field = COLUMNS[normalizeHeader(header)];
+      if (!field) continue;
+      fields[field] = value;
+      present.add(field);
+    }
+    return { line, fields };
+  });
+
+  if (!rows.length) {
+    throw new ImportFileError("The file has no data rows.");
+  }
+  if (!present.has("username")) {
+    throw new ImportFileError("The file needs a \"username\" column.");
+  }
+
+  const lookups = await loadLookups(table, rows.map((r) => r.fields));
+
+  // Optional unique columns: only touched when the file has the column
+  const optional = (field: string, value?: string) =>
+    present.has(field) ? nullIfEmpty(value) : undefined;
+
+  const seen = {
+    username: new Set<string>(),
+    email: new Set<string>(),
+    phone: new Set<string>(),
+  };
+
+  const planned: PlannedRow[] = rows.map(({ line, fields }) => {
+    const username = fields.username ?? "";
+    const errors: string[] = [];
+    const existingId = lookups.existing.get(username);
+
+    // Duplicates inside the file
+    for (const key of ["username", "email", "phone"] as const) {
+      const value = fields[key];
+      if (!value) continue;
+      if (seen[key].has(value)) {
+        errors.push(`${key}: "${value}" appears more than once in the file`);
+      }
+      seen[key].add(value);
+    }
+
+    // Duplicates against other existing records
+    for (const key of ["email", "phone"] as const) {
+      const owner = fields[key] && lookups.taken[key].get(fields[key]);
+      if (owner && owner !== username) {
+        errors.push(`${key}: "${fields[key]}" is already used by ${owner}`);
+      }
+    }
+
+    const row: PlannedRow = {
+      line,
+      username,
+      name: [fields.name, fields.surname].filter(Boolean).join(" "),
+      action: existingId ? "update" : "create",
+      errors,
+    };
+
+    const fail = (more: string[] = []) => {
+      row.errors.push(...more);
+      row.action = "error";
+      delete row.write;
+      return row;
+    };
+
+    switch (table) {
+      case "parent": {
+        const result = parentSchema.safeParse(fields);
+        if (!result.success) return fail(zodMessages(result.error));
+        const { id: _id, clerkUserId: _c, email, ...rest } = result.data;
+        const data = { ...rest, email: optional("email", email) };
+
+        row.write = existingId
+          ? () => prisma.parent.update({ where: { id: existingId }, data })
+          : () =>
+              prisma.parent.create({
+                data: { ...data, id: crypto.randomUUID() },
+              });
+        break;
+      }
+
+      case "student": {
+        const cls = fields.classId
+          ? lookups.classes.byId.get(Number(fields.classId))
+          : fields.className
+          ? lookups.classes.byName.get(fields.className.toLowerCase())
+          : undefined;
+        if ((fields.classId || fields.className) && !cls) {
+          errors.push(`class: "${fields.classId || fields.className}" not found`);
+        }
+
+        const parentRef =
+          fields.parentId || fields.parentPhone || fields.parentUsername;
+        const parentId = fields.parentId
+          ? lookups.parents.byId.has(fields.parentId)
+            ? fields.parentId
+            : undefined
+          : fields.parentPhone
+          ? lookups.parents.byPhone.get(fields.parentPhone)
+          : fields.parentUsername
+          ? lookups.parents.byUsername.get(fields.parentUsername)
+          : undefined;
+        if (parentRef && !parentId) {
+          errors.push(`parent: "${parentRef}" not found`);
+        }
+
+        // The grade always follows the class
+        const result = studentSchema.omit({ gradeId: true }).safeParse({
+          ...fields,
+          sex: normalizeSex(fields.sex ?? ""),
+          classId: cls?.id,
+          parentId: parentId ?? "",
+        });
+        if (!result.success) return fail(zodMessages(result.error));
+        if (errors.length || !cls) return fail();
+
+        // Waitlisted students are placed from the student form, and alumni
+        // keep the last class they were in
+        const placed = existingId && lookups.placements.get(existingId);
+        if (placed && placed.status !== "ACTIVE" && placed.classId !== cls.id) {
+          return fail([
+            placed.status === "WAITLISTED"
+              ? "class: waitlisted students are placed from the student form"
+              : "class: alumni keep their last class",
+          ]);
+        }
+
+        // Seats are counted down row by row across the file
+        if (!placed || (placed.status === "ACTIVE" && placed.classId !== cls.id)) {
+          const seats = lookups.seats.get(cls.id);
+          if (seats && seats.free === 0) {
+            return fail([`class: ${fullMessage(cls.name, seats)}`]);
+          }
+          if (seats) seats.free--;
+        }
+
+        const { id: _id, clerkUserId: _c, email, phone, img: _img, ...rest } =
+          result.data;
+        const data = {
+          ...rest,
+          gradeId: cls.gradeId,
+          email: optional("email", email),
+          phone: optional("phone", phone),
+        };
+
+        row.write = existingId
+          ? () => prisma.student.update({ where: { id: existingId }, data })
+          : () =>
+              prisma.student.create({
+                data: { ...data, id: crypto.randomUUID() },
+              });
+        break;
+      }
+
+      case "teacher": {
+        const subjectNames = (fields.subjects ?? "")
+          .split(/[;|]/)
+          .map((s) => s.trim())
+          .filter(Boolean);
+        const subjectIds = subjectNames.map((s) =>
+          lookups.subjects.get(s.toLowerCase())
+        );
+        subjectNames.forEach((s, i) => {
+          if (!subjectIds[i]) errors.push(`subjects: "${s}" not found`);
+        });
+
+        const result = teacherSchema.safeParse({
+          ...fields,
+          sex: normalizeSex(fields.sex ?? ""),
+          subjects: undefined,
+        });
+        if (!result.success) return fail(zodMessages(result.error));
+        if (errors.length) return fail();
+
+        const {
+          id: _id,
+          clerkUserId: _c,
+          email,
+          phone,
+          img: _img,
+          subjects: _s,
+          ...rest
+        } = result.data;
+        const data = {
+          ...rest,
+          email: optional("email", email),
+          phone: optional("phone", phone),
+        };
+        const ids = (subjectIds as number[]).map((id) => ({ id }));
+
+        row.write = existingId
+          ? () =>
+              prisma.teacher.update({
+                where: { id: existingId },
+                data: {
+                  ...data,
+                  subjects: present.has("subjects") ? { set: ids } : undefined,
+                },
+              })
+          : () =>
+              prisma.teacher.create({
+                data: {
+                  ...data,
+                  id: crypto.randomUUID(),
+                  subjects: { connect: ids },
+                },
+              });
+        break;
+      }
+    }
+
+    return errors.length ? fail() : row;
+  });
+
+  const count = (action: ImportRow["action"]) =>
+    planned.filter((r) => r.action === action).length;
+
+  return {
+    preview: {
+      rows: planned.map(({ write: _write, ...row }) => row),
+      creates: count("create"),
+      updates: count("update"),
+      errors: count("error"),
+    },
+    writes: planned.flatMap((r) => (r.write ? [r.write()] : [])),
+  };
+}
+
+/* LOOKUPS */
+
+// Everything the rows refer to, loaded once per import
+async function loadLookups(
+  table: ImportTable,
+  rows: Record<string, string>[]
+) {
+  const values = (field: string) =>
+    Array.from(new Set(rows.map((r) => r[field]).filter(Boolean)));
+  const usernames = values("username");
+  const emails = values("email");
+  const phones = values("phone");
+
+  const select = { id: true, username: true, email: true, phone: true };
+  const where = {
+    OR: [
+      { username: { in: usernames } },
+      { email: { in: emails } },
+      { phone: { in: phones } },
+    ],
+  };
+
+  const [people, classes, parents, subjects] = await Promise.all([
+    table === "student"
+      ? prisma.student.findMany({ where, select })
+      : table === "teacher"
+      ? prisma.teacher.findMany({ where, select })
+      : prisma.parent.findMany({ where, select }),
+    table === "student"
+      ? prisma.class.findMany({
+          select: { id: true, name: true, gradeId: true },
+        })
+      : [],
+    table === "student"
+      ? prisma.parent.findMany({
+          where: {
+            OR: [
+              { id: { in: values("parentId") } },
+              { phone: { in: values("parentPhone") } },
+              { username: { in: values("parentUsername") } },
+            ],
+          },
+          select: { id: true, phone: true, username: true },
+        })
+      : [],
+    table === "teacher"
+      ? prisma.subject.findMany({ select: { id: true, name: true } })
+      : [],
+  ]);
+  const [seats, placements] =
+    table === "student"
+      ? await Promise.all([
+          classSeats(classes.map((c) => c.id)),
+          prisma.student.findMany({
+            where: { id: { in: people.map((p) => p.id) } },
+            select: { id: true, classId: true, status: true },
+          }),
+        ])
+      : [new Map<number, ClassSeats>(), []];
+
+  const taken = {
+    email: new Map<string, string>(),
+    phone: new Map<string, string>(),
+  };
+  for (const p of people) {
+    if (p.email) taken.email.set(p.email, p.username);
+    if (p.phone) taken.phone.set(p.phone, p.username);
+  }
+
+  return {
+    existing: new Map(people.map((p) => [p.username, p.id])),
+    taken,
+    classes: {
+      byId: new Map(classes.map((c) => [c.id, c])),
+      byName: new Map(classes.map((c) => [c.name.toLowerCase(), c])),
+    },
+    parents: {
+      byId: new Set(parents.map((p) => p.id)),
+      byPhone: new Map(parents.map((p) => [p.phone, p.id])),
+      byUsername: new Map(parents.map((p) => [p.username, p.id])),
+    },
+    subjects: new Map(subjects.map((s) => [s.name.toLowerCase(), s.id])),
+    seats,
+    placements: new Map(placements.map((p) => [p.id, p])),
+  };
+}
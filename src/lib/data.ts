@@ -1,7 +1,5 @@
 // TEMPORARY DATA
 
-export let role = "admin";
-
 export const teachersData = [
   {
     id: 1,
@@ -914,107 +912,3 @@ export const announcementsData = [
     date: "2025-01-01",
   },
 ];
-
-// YOU CAN UPDATE THE SUBUJECTS IN THE OBJECT
-export const calendarEvents = [
-  // Each day displays all subjects, starting at 8am, each lasting 45 minutes
-  ...(() => {
-    
-    // Subjects for Monday–Friday (edit as needed)
-    const subjects = ["Math", "English", "Biology", "Physics", "Chemistry", "Music", "History", "Geography", "Art", "Literature"];
-    
-    // Type for custom schedule entry
-    type CustomScheduleEntry = { subject: string; hour: number };
-
-    // Custom schedule: set subject and hour for any day (0=Monday, 1=Tuesday, ...)
-    const customScheduleByDay: { [key: number]: CustomScheduleEntry[] } = {
-      // Example:
-      // 0: [ { subject: "Math", hour: 8 }, { subject: "English", hour: 9 }, { subject: "Break", hour: 10.5 }, ... ],
-      // 1: [ { subject: "Physics", hour: 8 }, ... ],
-    };
-
-    const events = [];
-    const today = new Date();
-
-    // Find the most recent Monday
-    const dayOfWeek = today.getDay(); // 0 (Sun) - 6 (Sat)
-    const firstMonday = new Date(today);
-    firstMonday.setDate(today.getDate() - ((dayOfWeek + 6) % 7));
-
-    // Generate events for every week in the year
-    for (let week = 0; week < 52; week++) {
-      for (let day = 0; day < 5; day++) { // Monday–Friday only
-        const date = new Date(firstMonday.getFullYear(), firstMonday.getMonth(), firstMonday.getDate() + week * 7 + day);
-
-        // If custom schedule exists for this day, use it
-        if (customScheduleByDay[day]) {
-          for (const entry of customScheduleByDay[day]) {
-            if (entry.subject === "Break") {
-              events.push({
-                title: "Break",
-                allDay: false,
-                start: new Date(date.getFullYear(), date.getMonth(), date.getDate(), Math.floor(entry.hour), (entry.hour % 1) * 60, 0, 0),
-                end: new Date(date.getFullYear(), date.getMonth(), date.getDate(), Math.floor(entry.hour + 0.5), ((entry.hour + 0.5) % 1) * 60, 0, 0)
-              });
-            } else {
-              events.push({
-                title: entry.subject,
-                allDay: false,
-                start: new Date(date.getFullYear(), date.getMonth(), date.getDate(), Math.floor(entry.hour), (entry.hour % 1) * 60, 0, 0),
-                end: new Date(date.getFullYear(), date.getMonth(), date.getDate(), Math.floor(entry.hour + 0.75), ((entry.hour + 0.75) % 1) * 60, 0, 0)
-              });
-            }
-          }
-          continue;
-        }
-
-        //for build purpose
-        // Otherwise, use rotation logic
-        let hour = 8;
-        const daySubjects = subjects.slice(day).concat(subjects.slice(0, day));
-        let subjectIndex = 0;
-        while (hour < 17) {
-          if (hour === 10) {
-            let endDate = new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour, 30, 0, 0);
-            events.push({
-              title: daySubjects[subjectIndex % daySubjects.length],
-              allDay: false,
-              start: new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour, 0, 0, 0),
-              end: endDate
-            });
-            subjectIndex++;
-            events.push({
-              title: "Break",
-              allDay: false,
-              start: new Date(date.getFullYear(), date.getMonth(), date.getDate(), 10, 30, 0, 0),
-              end: new Date(date.getFullYear(), date.getMonth(), date.getDate(), 11, 0, 0, 0)
-            });
-            hour = 11;
-            continue;
-          }
-          if (hour < 16) {
-            let endDate = new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour, 45, 0, 0);
-            events.push({
-              title: daySubjects[subjectIndex % daySubjects.length],
-              allDay: false,
-              start: new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour, 0, 0, 0),
-              end: endDate
-            });
-            subjectIndex++;
-          }
-          if (hour === 16) {
-            events.push({
-              title: daySubjects[subjectIndex % daySubjects.length],
-              allDay: false,
-              start: new Date(date.getFullYear(), date.getMonth(), date.getDate(), 16, 0, 0, 0),
-              end: new Date(date.getFullYear(), date.getMonth(), date.getDate(), 16, 45, 0, 0)
-            });
-            subjectIndex++;
-          }
-          hour++;
-        }
-      }
-    }
-    return events;
-  })()
-]
@@ -0,0 +1,217 @@
+/**
+ * FEES: Invoices, payments and balances
+ * ============================================================================
+ *
+ * Purpose:
+ * - `formatMoney` / `toMinor`: amounts are stored in minor units (kobo) and
+ *   typed and shown in naira (`CURRENCY` in lib/settings.ts)
+ * - `planInvoices`: invoices for a term, one per active student whose grade
+ *   level has fees in it and who has no invoice for it yet. The items are
+ *   copied from the fee structure, so re-running it later only invoices
+ *   students added since.
+ * - `addPayment`: records a payment, in full or in part, and raises the
+ *   invoice's `amountPaid` in the same transaction; never past the total
+ * - `getBalances`: what each student still owes over all their invoices
+ * - `monthlyIncome`: payments received per calendar month (FinanceChart)
+ *
+ * Framework-free so API routes (receipts) can use it too.
+ *
+ * ============================================================================
+ */
+
+import { Invoice, PaymentMethod, Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { CURRENCY } from "@/lib/settings";
+
+/* MONEY */
+
+// 2500050 → "₦25,000.50"; `code` prints "NGN 25,000.50" (PDFs have no ₦)
+export const formatMoney = (minor: number, display: "symbol" | "code" = "symbol") =>
+  new Intl.NumberFormat(CURRENCY.locale, {
+    style: "currency",
+    currency: CURRENCY.code,
+    currencyDisplay: display,
+  }).format(minor / CURRENCY.minorUnits);
+
+// 25000.5 → 2500050
+export const toMinor = (amount: number) => Math.round(amount * CURRENCY.minorUnits);
+
+// The same amount back in naira, for form inputs
+export const fromMinor = (minor: number) => minor / CURRENCY.minorUnits;
+
+export const invoiceNumber = (id: number) => `INV-${String(id).padStart(6, "0")}`;
+
+export const receiptNumber = (id: number) => `RCT-${String(id).padStart(6, "0")}`;
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  CASH: "Cash",
+  BANK_TRANSFER: "Bank transfer",
+  POS: "POS",
+  CHEQUE: "Cheque",
+};
+
+/* INVOICES */
+
+export type InvoiceStatus = "PAID" | "PARTLY_PAID" | "UNPAID";
+
+export const balanceOf = (invoice: Pick<Invoice, "total" | "amountPaid">) =>
+  invoice.total - invoice.amountPaid;
+
+export const invoiceStatus = (
+  invoice: Pick<Invoice, "total" | "amountPaid">
+): InvoiceStatus =>
+  invoice.amountPaid >= invoice.total
+    ? "PAID"
+    : invoice.amountPaid > 0
+    ? "PARTLY_PAID"
+    : "UNPAID";
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  PAID: "Paid",
+  PARTLY_PAID: "Part paid",
+  UNPAID: "Unpaid",
+};
+
+// Invoices with something left to pay
+export const outstandingInvoice = {
+  amountPaid: { lt: prisma.invoice.fields.total },
+} satisfies Prisma.InvoiceWhereInput;
+
+export const paidInvoice = {
+  amountPaid: { gte: prisma.invoice.fields.total },
+} satisfies Prisma.InvoiceWhereInput;
+
+/**
+ * The invoice writes for `termId`, for one transaction. Students already
+ * invoiced for the term are skipped.
+ */
+export async function planInvoices(termId: number, dueDate?: Date) {
+  const fees = await prisma.feeStructure.findMany({
+    where: { termId },
+    orderBy: [{ gradeId: "asc" }, { name: "asc" }],
+  });
+  const students = await prisma.student.findMany({
+    where: {
+      status: "ACTIVE",
+      gradeId: { in: Array.from(new Set(fees.map((f) => f.gradeId))) },
+      invoices: { none: { termId } },
+    },
+    select: { id: true, gradeId: true },
+  });
+
+  return students.map((student) => {
+    const items = fees
+      .filter((f) => f.gradeId === student.gradeId)
+      .map((f) => ({ description: f.name, amount: f.amount }));
+    return prisma.invoice.create({
+      data: {
+        studentId: student.id,
+        termId,
+        dueDate,
+        total: items.reduce((sum, item) => sum + item.amount, 0),
+        items: { createMany: { data: items } },
+      },
+    });
+  });
+}
+
+/* PAYMENTS */
+
+/**
+ * A payment that cannot be recorded (unknown invoice, more than the balance).
+ * The message is meant for the user.
+ */
+export class PaymentError extends Error {}
+
+/**
+ * Record a payment of `amount` (kobo) against an invoice. Two payments at
+ * the same time cannot both push the invoice past its total: the balance
+ * is checked by the same update that raises `amountPaid`.
+ */
+export async function addPayment(payment: {
+  invoiceId: number;
+  amount: number;
+  method: PaymentMethod;
+  reference?: string | null;
+  paidAt?: Date;
+  recordedBy?: string | null;
+}) {
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: payment.invoiceId },
+    select: { total: true, amountPaid: true },
+  });
+  if (!invoice) throw new PaymentError("Invoice not found.");
+
+  const overpaid = () =>
+    new PaymentError(
+      `The balance is ${formatMoney(balanceOf(invoice))}; a payment cannot be more than that.`
+    );
+  if (payment.amount > balanceOf(invoice)) throw overpaid();
+
+  return prisma.$transaction(async (tx) => {
+    const raised = await tx.invoice.updateMany({
+      where: {
+        id: payment.invoiceId,
+        amountPaid: { lte: invoice.total - payment.amount },
+      },
+      data: { amountPaid: { increment: payment.amount } },
+    });
+    if (raised.count === 0) throw overpaid();
+    return tx.payment.create({ data: payment });
+  });
+}
+
+/* BALANCES */
+
+/**
+ * Total invoiced, paid and still owed per student over all their invoices.
+ * Students without invoices are left out.
+ */
+export async function getBalances(studentIds: string[]) {
+  const sums = await prisma.invoice.groupBy({
+    by: ["studentId"],
+    where: { studentId: { in: studentIds } },
+    _sum: { total: true, amountPaid: true },
+  });
+  return new Map(
+    sums.map(({ studentId, _sum }) => {
+      const total = _sum.total ?? 0;
+      const paid = _sum.amountPaid ?? 0;
+      return [studentId, { total, paid, balance: total - paid }];
+    })
+  );
+}
+
+/* INCOME */
+
+/**
+ * Payments received in each of the last `months` calendar months (UTC, like
+ * the whole-day dates payments are recorded with), oldest first, this month
+ * included.
+ */
+export async function monthlyIncome(months = 12, now = new Date()) {
+  const start = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - months + 1, 1)
+  );
+  const payments = await prisma.payment.findMany({
+    where: { paidAt: { gte: start } },
+    select: { amount: true, paidAt: true },
+  });
+
+  return Array.from({ length: months }, (_, i) => {
+    const month = new Date(
+      Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + i, 1)
+    );
+    const income = payments
+      .filter(
+        (p) =>
+          p.paidAt.getUTCFullYear() === month.getUTCFullYear() &&
+          p.paidAt.getUTCMonth() === month.getUTCMonth()
+      )
+      .reduce((sum, p) => sum + p.amount, 0);
+    return {
+      name: month.toLocaleString("en-UK", { month: "short", timeZone: "UTC" }),
+      income: fromMinor(income),
+    };
+  });
+}
@@ -0,0 +1,37 @@
+// Client-side helper shared by every form in `src/components/forms/*`.
+// It turns the `ActionState` returned by a server action (see lib/actions.ts)
+// into UI feedback: sonner toasts for the overall outcome and react-hook-form
+// field errors for anything the server rejected.
+
+import { toast } from "sonner";
+import { FieldValues, Path, UseFormSetError } from "react-hook-form";
+import type { ActionState } from "@/lib/actions";
+
+export function handleActionResult<T extends FieldValues>(
+  state: ActionState,
+  {
+    setError,
+    onSuccess,
+  }: {
+    setError?: UseFormSetError<T>;
+    onSuccess?: () => void;
+  } = {}
+) {
+  if (state.success) {
+    toast.success(state.message ?? "Saved!");
+    onSuccess?.();
+    return;
+  }
+
+  // Push server-side field errors back into the form so they render
+  // under the matching input, exactly like client-side zod errors
+  if (setError && state.fieldErrors) {
+    for (const [field, messages] of Object.entries(state.fieldErrors)) {
+      if (messages?.length) {
+        setError(field as Path<T>, { type: "server", message: messages[0] });
+      }
+    }
+  }
+
+  toast.error(state.message ?? "Something went wrong!");
+}
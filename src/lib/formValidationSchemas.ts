@@ -0,0 +1,564 @@
+/**
+ * FORM VALIDATION SCHEMAS
+ * ============================================================================
+ *
+ * Purpose:
+ * Single source of truth for the zod schemas used by every form under
+ * `src/components/forms/*`. The same schema runs twice:
+ * 1. In the browser through react-hook-form's `zodResolver`
+ * 2. On the server inside the matching action in `src/lib/actions.ts`
+ *
+ * Field names mirror the Prisma models so a validated payload can be passed
+ * to Prisma with little or no reshaping.
+ *
+ * ============================================================================
+ */
+
+import { z } from "zod";
+import { LANDING_PAGES } from "@/lib/settings";
+
+/* SHARED FIELD HELPERS */
+
+// Optional text input: an empty string from the form means "not provided"
+const optionalText = z.string().optional().or(z.literal(""));
+
+// Optional email input with the same "empty string means nothing" rule
+const optionalEmail = z
+  .email({ message: "Invalid email address!" })
+  .optional()
+  .or(z.literal(""));
+
+// Optional numeric select (e.g. "no class" on an event)
+const optionalId = z
+  .union([z.coerce.number().int().positive(), z.literal("")])
+  .optional();
+
+// Weekday of a weekly slot (Prisma `Day`)
+const dayEnum = z.enum(["MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY"], {
+  message: "Day is required!",
+});
+
+/* SUBJECT */
+export const subjectSchema = z.object({
+  id: z.coerce.number().optional(),
+  name: z
+    .string()
+    .min(3, { message: "Subject name must be at least 3 characters long!" })
+    .max(20, { message: "Subject name must be at most 20 characters long!" }),
+  teachers: z.array(z.string()).optional(), // teacher ids
+});
+
+export type SubjectSchema = z.infer<typeof subjectSchema>;
+
+/* CLASS */
+export const classSchema = z.object({
+  id: z.coerce.number().optional(),
+  name: z.string().min(1, { message: "Class name is required!" }),
+  capacity: z.coerce
+    .number()
+    .int()
+    .min(1, { message: "Capacity must be at least 1!" }),
+  gradeId: z.coerce.number().int().positive({ message: "Grade is required!" }),
+  supervisorId: optionalText,
+});
+
+export type ClassSchema = z.infer<typeof classSchema>;
+
+/* TEACHER */
+export const teacherSchema = z.object({
+  id: z.string().optional(),
+  username: z
+    .string()
+    .min(3, { message: "Username must be at least 3 characters long!" })
+    .max(20, { message: "Username must be at most 20 characters long!" }),
+  email: optionalEmail,
+  clerkUserId: optionalText, // linked login (User.id), "" = not linked
+  name: z.string().min(1, { message: "First name is required!" }),
+  surname: z.string().min(1, { message: "Last name is required!" }),
+  phone: optionalText,
+  address: z.string().min(1, { message: "Address is required!" }),
+  img: z.string().optional(),
+  bloodType: z.string().min(1, { message: "Blood Type is required!" }),
+  birthday: z.coerce.date({ message: "Birthday is required!" }),
+  sex: z.enum(["MALE", "FEMALE"], { message: "Sex is required!" }),
+  subjects: z.array(z.string()).optional(), // subject ids
+});
+
+export type TeacherSchema = z.infer<typeof teacherSchema>;
+
+/* STUDENT */
+export const studentSchema = z.object({
+  id: z.string().optional(),
+  username: z
+    .string()
+    .min(3, { message: "Username must be at least 3 characters long!" })
+    .max(20, { message: "Username must be at most 20 characters long!" }),
+  email: optionalEmail,
+  clerkUserId: optionalText, // linked login (User.id), "" = not linked
+  name: z.string().min(1, { message: "First name is required!" }),
+  surname: z.string().min(1, { message: "Last name is required!" }),
+  phone: optionalText,
+  address: z.string().min(1, { message: "Address is required!" }),
+  img: z.string().optional(),
+  bloodType: z.string().min(1, { message: "Blood Type is required!" }),
+  birthday: z.coerce.date({ message: "Birthday is required!" }),
+  sex: z.enum(["MALE", "FEMALE"], { message: "Sex is required!" }),
+  gradeId: z.coerce.number().int().positive({ message: "Grade is required!" }),
+  classId: z.coerce.number().int().positive({ message: "Class is required!" }),
+  parentId: z.string().min(1, { message: "Parent is required!" }),
+  // when the class is full: enrol anyway (admins) or join its waitlist
+  whenFull: z.enum(["override", "waitlist"]).nullish(),
+});
+
+export type StudentSchema = z.infer<typeof studentSchema>;
+
+/* PARENT */
+export const parentSchema = z.object({
+  id: z.string().optional(),
+  username: z
+    .string()
+    .min(3, { message: "Username must be at least 3 characters long!" })
+    .max(20, { message: "Username must be at most 20 characters long!" }),
+  email: optionalEmail,
+  clerkUserId: optionalText, // linked login (User.id), "" = not linked
+  name: z.string().min(1, { message: "First Name is required!" }),
+  surname: z.string().min(1, { message: "Last Name is required!" }),
+  phone: z.string().min(1, { message: "Phone Number is required!" }),
+  address: z.string().min(1, { message: "Address is required!" }),
+});
+
+export type ParentSchema = z.infer<typeof parentSchema>;
+
+/* LESSON */
+export const lessonSchema = z
+  .object({
+    id: z.coerce.number().optional(),
+    name: z.string().min(1, { message: "Lesson name is required!" }),
+    day: dayEnum,
+    startTime: z.coerce.date({ message: "Start time is required!" }),
+    endTime: z.coerce.date({ message: "End time is required!" }),
+    subjectId: z.coerce.number().int().positive({ message: "Subject is required!" }),
+    classId: z.coerce.number().int().positive({ message: "Class is required!" }),
+    teacherId: z.string().min(1, { message: "Teacher is required!" }),
+    override: z.boolean().optional(), // admin: save despite timetable conflicts
+  })
+  // Lessons repeat weekly, so only the time of day of start/end matters
+  .refine(
+    ({ startTime, endTime }) =>
+      endTime.getHours() * 60 + endTime.getMinutes() >
+      startTime.getHours() * 60 + startTime.getMinutes(),
+    { message: "End time must be after start time!", path: ["endTime"] }
+  );
+
+export type LessonSchema = z.infer<typeof lessonSchema>;
+
+/* TIMETABLE GENERATOR */
+
+// "HH:MM" from <input type="time" />, stored as minutes since midnight
+const timeOfDay = (label: string) =>
+  z
+    .string()
+    .regex(/^\d{2}:\d{2}$/, { message: `${label} is required!` })
+    .transform((value) => {
+      const [hours, minutes] = value.split(":").map(Number);
+      return hours * 60 + minutes;
+    });
+
+export const schoolPeriodSchema = z
+  .object({
+    name: z.string().trim().min(1, { message: "Period name is required!" }),
+    start: timeOfDay("Start time"),
+    end: timeOfDay("End time"),
+  })
+  .refine(({ start, end }) => end > start, {
+    message: "End time must be after start time!",
+    path: ["end"],
+  });
+
+export type SchoolPeriodInput = z.input<typeof schoolPeriodSchema>;
+
+export const subjectRequirementSchema = z.object({
+  gradeId: z.coerce.number().int().positive({ message: "Grade is required!" }),
+  subjectId: z.coerce.number().int().positive({ message: "Subject is required!" }),
+  periodsPerWeek: z.coerce
+    .number()
+    .int()
+    .min(0, { message: "Periods cannot be negative!" })
+    .max(40, { message: "At most 40 periods a week!" }), // 0 removes the requirement
+});
+
+export type SubjectRequirementSchema = z.infer<typeof subjectRequirementSchema>;
+
+export const teacherUnavailabilitySchema = z.object({
+  teacherId: z.string().min(1, { message: "Teacher is required!" }),
+  day: dayEnum,
+  periodId: optionalId, // empty = the whole day
+});
+
+export type TeacherUnavailabilitySchema = z.infer<
+  typeof teacherUnavailabilitySchema
+>;
+
+export const timetableSchema = z.object({
+  gradeId: optionalId, // empty = the whole school
+  maxPerDay: z.coerce
+    .number()
+    .int()
+    .min(1, { message: "At least 1 period a day!" })
+    .max(12, { message: "At most 12 periods a day!" }),
+  noBackToBack: z.boolean(),
+  seed: z.coerce.number().int(),
+  locked: z.array(
+    z.object({
+      classId: z.number().int().positive(),
+      subjectId: z.number().int().positive(),
+      teacherId: z.string().min(1),
+      day: dayEnum,
+      periodId: z.number().int().positive(),
+    })
+  ),
+});
+
+export type TimetableSchema = z.infer<typeof timetableSchema>;
+
+/* PROMOTION (one outcome per student; see lib/promotion.ts) */
+export const promotionSchema = z.object({
+  academicYearId: z.coerce
+    .number()
+    .int()
+    .positive({ message: "Academic year is required!" }),
+  moves: z
+    .array(
+      z.object({
+        studentId: z.string().min(1),
+        outcome: z.enum(["PROMOTED", "REPEATED", "GRADUATED"]),
+        toClassId: z.number().int().positive().optional(), // PROMOTED only
+      })
+    )
+    .min(1, { message: "There are no students to promote!" })
+    // One outcome per student: a repeat would be counted and moved twice
+    .refine(
+      (moves) => new Set(moves.map((m) => m.studentId)).size === moves.length,
+      { message: "A student is listed more than once!" }
+    ),
+  overCapacity: z.boolean().optional(), // admin: fill classes past capacity
+});
+
+export type PromotionSchema = z.infer<typeof promotionSchema>;
+
+/* EXAM */
+export const examSchema = z.object({
+  id: z.coerce.number().optional(),
+  title: z.string().min(1, { message: "Title is required!" }),
+  startTime: z.coerce.date({ message: "Start time is required!" }),
+  endTime: z.coerce.date({ message: "End time is required!" }),
+  lessonId: z.coerce.number().int().positive({ message: "Lesson is required!" }),
+  componentId: optionalId, // assessment component of the subject and term
+});
+
+export type ExamSchema = z.infer<typeof examSchema>;
+
+/* ASSIGNMENT */
+export const assignmentSchema = z.object({
+  id: z.coerce.number().optional(),
+  title: z.string().min(1, { message: "Title is required!" }),
+  startDate: z.coerce.date({ message: "Start date is required!" }),
+  dueDate: z.coerce.date({ message: "Due date is required!" }),
+  lessonId: z.coerce.number().int().positive({ message: "Lesson is required!" }),
+  componentId: optionalId, // assessment component of the subject and term
+});
+
+export type AssignmentSchema = z.infer<typeof assignmentSchema>;
+
+/* RESULT */
+export const resultSchema = z
+  .object({
+    id: z.coerce.number().optional(),
+    score: z.coerce
+      .number()
+      .int()
+      .min(0, { message: "Score cannot be negative!" })
+      .max(100, { message: "Score cannot be more than 100!" }),
+    studentId: z.string().min(1, { message: "Student is required!" }),
+    examId: optionalId,
+    assignmentId: optionalId,
+  })
+  // A result belongs to exactly one assessment: an exam OR an assignment
+  .refine((data) => Boolean(data.examId) !== Boolean(data.assignmentId), {
+    message: "Pick either an exam or an assignment!",
+    path: ["examId"],
+  });
+
+export type ResultSchema = z.infer<typeof resultSchema>;
+
+/* ATTENDANCE (ROLL CALL) */
+export const attendanceSchema = z.object({
+  lessonId: z.coerce.number().int().positive({ message: "Lesson is required!" }),
+  date: z.iso.date({ message: "Date is required!" }), // YYYY-MM-DD
+  records: z
+    .array(
+      z.object({
+        studentId: z.string().min(1),
+        present: z.boolean(),
+      })
+    )
+    .min(1, { message: "This class has no students to mark!" }),
+});
+
+export type AttendanceSchema = z.infer<typeof attendanceSchema>;
+
+/* EVENT */
+export const eventSchema = z.object({
+  id: z.coerce.number().optional(),
+  title: z.string().min(1, { message: "Event title is required!" }),
+  description: z.string().min(1, { message: "Description is required!" }),
+  startTime: z.coerce.date({ message: "Start time is required!" }),
+  endTime: z.coerce.date({ message: "End time is required!" }),
+  classId: optionalId,
+});
+
+export type EventSchema = z.infer<typeof eventSchema>;
+
+/* ANNOUNCEMENT */
+export const announcementSchema = z.object({
+  id: z.coerce.number().optional(),
+  title: z.string().min(1, { message: "Title is required!" }),
+  description: z.string().min(1, { message: "Description is required!" }),
+  date: z.coerce.date({ message: "Date is required!" }),
+  classId: optionalId,
+});
+
+export type AnnouncementSchema = z.infer<typeof announcementSchema>;
+
+/* ACADEMIC YEAR & TERM (whole days; the end date is included) */
+const endsAfterStart = {
+  message: "End date must be after start date!",
+  path: ["endDate"],
+};
+
+export const academicYearSchema = z
+  .object({
+    id: z.coerce.number().optional(),
+    name: z
+      .string()
+      .trim()
+      .min(1, { message: "Name is required (e.g. 2025/26)!" }),
+    startDate: z.coerce.date({ message: "Start date is required!" }),
+    endDate: z.coerce.date({ message: "End date is required!" }),
+  })
+  .refine(({ startDate, endDate }) => endDate > startDate, endsAfterStart);
+
+export type AcademicYearSchema = z.infer<typeof academicYearSchema>;
+
+export const termSchema = z
+  .object({
+    id: z.coerce.number().optional(),
+    name: z
+      .string()
+      .trim()
+      .min(1, { message: "Name is required (e.g. First Term)!" }),
+    academicYearId: z.coerce
+      .number()
+      .int()
+      .positive({ message: "Academic year is required!" }),
+    startDate: z.coerce.date({ message: "Start date is required!" }),
+    endDate: z.coerce.date({ message: "End date is required!" }),
+  })
+  .refine(({ startDate, endDate }) => endDate > startDate, endsAfterStart);
+
+export type TermSchema = z.infer<typeof termSchema>;
+
+/* ASSESSMENT COMPONENT (weight: points of the subject total out of 100) */
+export const assessmentComponentSchema = z.object({
+  id: z.coerce.number().optional(),
+  name: z.string().trim().min(1, { message: "Name is required (e.g. CA1)!" }),
+  subjectId: z.coerce.number().int().positive({ message: "Subject is required!" }),
+  termId: z.coerce.number().int().positive({ message: "Term is required!" }),
+  weight: z.coerce
+    .number({ message: "Weight is required!" })
+    .positive({ message: "Weight must be more than 0!" })
+    .max(100, { message: "Weight cannot be more than 100!" }),
+  maxScore: z.coerce
+    .number({ message: "Max score is required!" })
+    .int()
+    .positive({ message: "Max score must be more than 0!" })
+    .max(100, { message: "Max score cannot be more than 100!" }),
+});
+
+export type AssessmentComponentSchema = z.infer<typeof assessmentComponentSchema>;
+
+/* REPORT CARD REMARKS */
+export const reportCardRemarkSchema = z.object({
+  studentId: z.string().min(1, { message: "Student is required!" }),
+  termId: z.coerce.number().int().positive({ message: "Term is required!" }),
+  teacherRemark: z
+    .string()
+    .trim()
+    .max(500, { message: "Keep the remark under 500 characters!" }),
+  principalRemark: z
+    .string()
+    .trim()
+    .max(500, { message: "Keep the remark under 500 characters!" }),
+});
+
+export type ReportCardRemarkSchema = z.infer<typeof reportCardRemarkSchema>;
+
+/* GRADING SCHEME (band minimums are totals out of 100) */
+const gradeBandSchema = z.object({
+  grade: z.string().trim().min(1, { message: "Grade is required!" }),
+  minScore: z.coerce
+    .number({ message: "Minimum is required!" })
+    .min(0, { message: "Minimum must be 0-100!" })
+    .max(100, { message: "Minimum must be 0-100!" }),
+  remark: optionalText,
+  gpa: z
+    .union([z.literal(""), z.coerce.number().min(0).max(10)])
+    .optional(), // "" = no GPA points
+});
+
+export const gradingSchemeSchema = z
+  .object({
+    id: z.coerce.number().optional(),
+    name: z.string().trim().min(1, { message: "Name is required!" }),
+    isDefault: z.boolean().optional(),
+    grades: z.array(z.string()).optional(), // grade level ids using it
+    bands: z.array(gradeBandSchema).min(1, { message: "Add at least one band!" }),
+  })
+  .superRefine(({ bands }, ctx) => {
+    const seen = { grades: new Set<string>(), mins: new Set<number>() };
+    bands.forEach((band, i) => {
+      if (seen.grades.has(band.grade)) {
+        ctx.addIssue({
+          code: "custom",
+          message: "Grade is used twice!",
+          path: ["bands", i, "grade"],
+        });
+      }
+      if (seen.mins.has(band.minScore)) {
+        ctx.addIssue({
+          code: "custom",
+          message: "Minimum is used twice!",
+          path: ["bands", i, "minScore"],
+        });
+      }
+      seen.grades.add(band.grade);
+      seen.mins.add(band.minScore);
+    });
+    // Every total must earn a band
+    if (bands.length && !seen.mins.has(0)) {
+      ctx.addIssue({
+        code: "custom",
+        message: "The lowest band must start at 0!",
+        path: ["bands"],
+      });
+    }
+  });
+
+export type GradingSchemeSchema = z.infer<typeof gradingSchemeSchema>;
+
+/* MESSAGES */
+export const newThreadSchema = z.object({
+  recipientId: z.string().min(1, { message: "Recipient is required!" }),
+  recipientRole: z.enum(["admin", "teacher", "student", "parent"], {
+    message: "Recipient is required!",
+  }),
+  subject: z
+    .string()
+    .trim()
+    .min(1, { message: "Subject is required!" })
+    .max(120, { message: "Subject must be at most 120 characters long!" }),
+  body: z.string().trim().min(1, { message: "Message is required!" }),
+});
+
+export type NewThreadSchema = z.infer<typeof newThreadSchema>;
+
+export const replySchema = z.object({
+  threadId: z.coerce.number().int().positive(),
+  body: z.string().trim().min(1, { message: "Message is required!" }),
+});
+
+export type ReplySchema = z.infer<typeof replySchema>;
+
+/* PROFILE (fields users may edit on their own record) */
+export const profileSchema = z.object({
+  phone: optionalText,
+  address: z.string().min(1, { message: "Address is required!" }),
+  img: z.string().optional(),
+});
+
+export type ProfileSchema = z.infer<typeof profileSchema>;
+
+/* SETTINGS */
+export const preferencesSchema = z.object({
+  theme: z.enum(["light", "dark"]),
+  landingPage: z.enum(LANDING_PAGES.map((page) => page.value)),
+  emailNotifications: z.boolean(),
+  messageNotifications: z.boolean(),
+  announcementNotifications: z.boolean(),
+});
+
+export type PreferencesSchema = z.infer<typeof preferencesSchema>;
+
+/* FEES */
+
+// Money is typed in naira (up to 2 decimals) and stored in kobo (lib/fees.ts)
+const moneyAmount = z.coerce
+  .number({ message: "Amount is required!" })
+  .positive({ message: "Amount must be more than 0!" })
+  .refine((value) => Math.abs(value * 100 - Math.round(value * 100)) < 1e-6, {
+    message: "At most 2 decimal places!",
+  });
+
+export const feeStructureSchema = z.object({
+  id: z.coerce.number().optional(),
+  name: z.string().trim().min(1, { message: "Name is required (e.g. Tuition)!" }),
+  amount: moneyAmount,
+  gradeId: z.coerce.number().int().positive({ message: "Grade is required!" }),
+  termId: z.coerce.number().int().positive({ message: "Term is required!" }),
+});
+
+export type FeeStructureSchema = z.infer<typeof feeStructureSchema>;
+
+export const generateInvoicesSchema = z.object({
+  termId: z.coerce.number().int().positive({ message: "Term is required!" }),
+  dueDate: z.coerce.date().optional(),
+});
+
+export type GenerateInvoicesSchema = z.infer<typeof generateInvoicesSchema>;
+
+export const paymentSchema = z.object({
+  invoiceId: z.coerce.number().int().positive({ message: "Invoice is required!" }),
+  amount: moneyAmount,
+  method: z.enum(["CASH", "BANK_TRANSFER", "POS", "CHEQUE"], {
+    message: "Payment method is required!",
+  }),
+  reference: optionalText,
+  paidAt: z.coerce.date({ message: "Payment date is required!" }),
+});
+
+export type PaymentSchema = z.infer<typeof paymentSchema>;
+
+/* LIVE SESSIONS */
+export const liveSessionSchema = z
+  .object({
+    id: z.coerce.number().optional(),
+    lessonId: z.coerce.number().int().positive({ message: "Lesson is required!" }),
+    startTime: z.coerce.date({ message: "Start time is required!" }),
+    endTime: z.coerce.date({ message: "End time is required!" }),
+    coTeachers: z.array(z.string()).optional(), // teacher ids
+  })
+  .refine(({ startTime, endTime }) => endTime > startTime, {
+    message: "End time must be after start time!",
+    path: ["endTime"],
+  });
+
+export type LiveSessionSchema = z.infer<typeof liveSessionSchema>;
+
+// The reviewed marks of a live session; saved as the lesson's attendance on
+// the day of the session
+export const liveAttendanceSchema = z.object({
+  sessionId: z.coerce.number().int().positive(),
+  records: attendanceSchema.shape.records,
+});
+
+export type LiveAttendanceSchema = z.infer<typeof liveAttendanceSchema>;
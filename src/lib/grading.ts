@@ -0,0 +1,135 @@
+/**
+ * GRADING: Grading schemes, grade bands and GPA
+ * ============================================================================
+ *
+ * Purpose:
+ * Turns a subject total (out of 100) into a grade, remark and GPA points
+ * using the grading scheme of the student's grade level. A grade level
+ * without its own scheme uses the scheme marked default, or
+ * DEFAULT_GRADING_SCHEME (lib/settings.ts) until an admin creates one.
+ *
+ * - `getGradingSchemes`: the scheme of each grade level
+ * - `bandFor`: the band a total earns (the highest minimum it reaches)
+ * - `bandTone`: top / middle / bottom band, for colouring grades
+ * - `performanceOf`: average GPA (or average total when the scheme has no
+ *   GPA) of a set of scores, for the Performance widget
+ *
+ * ============================================================================
+ */
+
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { DEFAULT_GRADING_SCHEME } from "@/lib/settings";
+
+export type GradingBand = {
+  grade: string;
+  minScore: number;
+  remark: string | null;
+  gpa: number | null;
+};
+
+export type GradingScheme = {
+  id: number | null; // null: DEFAULT_GRADING_SCHEME from settings
+  name: string;
+  bands: GradingBand[]; // highest minimum first
+};
+
+export type BandTone = "top" | "middle" | "bottom";
+
+const schemeSelect = {
+  id: true,
+  name: true,
+  bands: {
+    select: { grade: true, minScore: true, remark: true, gpa: true },
+    orderBy: { minScore: "desc" },
+  },
+} satisfies Prisma.GradingSchemeSelect;
+
+const fallbackScheme: GradingScheme = { id: null, ...DEFAULT_GRADING_SCHEME };
+
+// A scheme without bands cannot grade anything
+const usable = (scheme: GradingScheme | null) =>
+  scheme && scheme.bands.length > 0 ? scheme : null;
+
+export async function getDefaultGradingScheme(): Promise<GradingScheme> {
+  const scheme = await prisma.gradingScheme.findFirst({
+    where: { isDefault: true },
+    select: schemeSelect,
+  });
+  return usable(scheme) ?? fallbackScheme;
+}
+
+/**
+ * The grading scheme of each of `gradeIds` (grade level id → scheme).
+ */
+export async function getGradingSchemes(
+  gradeIds: number[]
+): Promise<Map<number, GradingScheme>> {
+  const [grades, fallback] = await Promise.all([
+    prisma.grade.findMany({
+      where: { id: { in: gradeIds } },
+      select: { id: true, gradingScheme: { select: schemeSelect } },
+    }),
+    getDefaultGradingScheme(),
+  ]);
+  return new Map(
+    grades.map((grade) => [grade.id, usable(grade.gradingScheme) ?? fallback])
+  );
+}
+
+export async function getGradingScheme(
+  gradeId: number
+): Promise<GradingScheme> {
+  const schemes = await getGradingSchemes([gradeId]);
+  return schemes.get(gradeId) ?? getDefaultGradingScheme();
+}
+
+// The band `total` earns; below every minimum it gets the lowest band
+export const bandFor = (scheme: GradingScheme, total: number): GradingBand =>
+  scheme.bands.find((band) => total >= band.minScore) ??
+  scheme.bands[scheme.bands.length - 1];
+
+export const bandTone = (scheme: GradingScheme, grade: string): BandTone => {
+  const index = scheme.bands.findIndex((band) => band.grade === grade);
+  if (index === 0) return "top";
+  return index === scheme.bands.length - 1 ? "bottom" : "middle";
+};
+
+// Highest GPA points of the scheme, or null when it reports no GPA
+export const maxGpa = (scheme: GradingScheme) =>
+  scheme.bands.every((band) => band.gpa !== null)
+    ? Math.max(...scheme.bands.map((band) => band.gpa!))
+    : null;
+
+export type Performance = {
+  value: number; // rounded to one decimal
+  max: number;
+  unit: "GPA" | "%";
+};
+
+/**
+ * Average GPA of `scores` on their scheme's scale. Scores graded by
+ * different schemes, or by a scheme without GPA points, average their
+ * totals out of 100 instead.
+ */
+export const performanceOf = (
+  scores: { total: number; scheme: GradingScheme }[]
+): Performance | null => {
+  if (scores.length === 0) return null;
+
+  const average = (values: number[]) =>
+    Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) /
+    10;
+
+  const scheme = scores[0].scheme;
+  const top = maxGpa(scheme);
+  const sameScheme = scores.every((s) => s.scheme.id === scheme.id);
+  if (sameScheme && top !== null) {
+    return {
+      value: average(scores.map((s) => bandFor(scheme, s.total).gpa!)),
+      max: top,
+      unit: "GPA",
+    };
+  }
+  return { value: average(scores.map((s) => s.total)), max: 100, unit: "%" };
+};
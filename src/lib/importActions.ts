@@ -0,0 +1,97 @@
+/**
+ * SERVER ACTIONS: Bulk CSV import
+ * ============================================================================
+ *
+ * Purpose:
+ * Actions behind the import dialog on the students, teachers and parents
+ * list pages. The browser only sends the raw CSV text; the plan is always
+ * built here (lib/csvImport.ts) so the commit never trusts a preview that
+ * may have gone stale or been tampered with.
+ *
+ * ============================================================================
+ */
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import prisma from "@/lib/prisma";
+import {
+  ActionState,
+  actionFailed,
+  denyUnlessAllowed,
+  ok,
+} from "@/lib/actionHelpers";
+import {
+  ImportFileError,
+  ImportPreview,
+  ImportTable,
+  planImport,
+} from "@/lib/csvImport";
+import { clearRankings } from "@/lib/ranking";
+import { offerSeats } from "@/lib/capacity";
+
+const LIST_PATHS: Record<ImportTable, string> = {
+  student: "/list/students",
+  teacher: "/list/teachers",
+  parent: "/list/parents",
+};
+
+const fileFailed = (err: unknown, fallback: string): ActionState =>
+  err instanceof ImportFileError
+    ? { success: false, error: true, message: err.message }
+    : actionFailed(err, fallback);
+
+/**
+ * Dry run: what importing `csvText` into `table` would create and update,
+ * with the errors of every row. Nothing is written.
+ */
+export const previewImport = async (
+  table: ImportTable,
+  csvText: string
+): Promise<ActionState & { preview?: ImportPreview }> => {
+  const denied = await denyUnlessAllowed(table);
+  if (denied) return denied;
+
+  try {
+    const { preview } = await planImport(table, csvText);
+    return { ...ok("Preview ready."), preview };
+  } catch (err) {
+    return fileFailed(err, "Could not read the file.");
+  }
+};
+
+/**
+ * Import `csvText` into `table` in a single transaction. Refuses to write
+ * anything while any row has errors.
+ */
+export const commitImport = async (
+  table: ImportTable,
+  csvText: string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed(table);
+  if (denied) return denied;
+
+  try {
+    const { preview, writes } = await planImport(table, csvText);
+    if (preview.errors) {
+      return {
+        success: false,
+        error: true,
+        message: `${preview.errors} row(s) have errors. Fix the file and preview again.`,
+      };
+    }
+
+    await prisma.$transaction(writes);
+    if (table === "student") {
+      // Class moves: rankings change and seats may free up
+      await clearRankings();
+      await offerSeats();
+    }
+    revalidatePath(LIST_PATHS[table]);
+    return ok(
+      `Import complete: ${preview.creates} created, ${preview.updates} updated.`
+    );
+  } catch (err) {
+    return fileFailed(err, "Import failed. Nothing was saved.");
+  }
+};
@@ -0,0 +1,184 @@
+/**
+ * LESSON CONFLICTS: Double bookings and out-of-hours lessons
+ * ============================================================================
+ *
+ * Purpose:
+ * A Lesson is a weekly slot (`day` + the time of day of `startTime` and
+ * `endTime`). Two slots clash when they are on the same day, their times
+ * overlap, and they share a teacher or a class. Lessons must also sit
+ * inside the school day (SCHOOL_DAY in lib/settings.ts).
+ *
+ * Used by:
+ * - createLesson / updateLesson (lib/actions.ts): reject a save that clashes,
+ *   unless an admin explicitly overrides
+ * - /list/lessons/conflicts: report of every clash in the existing timetable
+ *
+ * Times are compared as minutes since midnight in the server's local time,
+ * so the server should run in the school's time zone.
+ *
+ * ============================================================================
+ */
+
+import { Day } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { SCHOOL_DAY } from "@/lib/settings";
+
+export type LessonSlot = {
+  id?: number;
+  day: Day;
+  startTime: Date;
+  endTime: Date;
+  classId: number;
+  teacherId: string;
+};
+
+// A lesson with the names needed to describe it in a message
+type NamedLesson = LessonSlot & {
+  id: number;
+  name: string;
+  class: { name: string };
+  teacher: { name: string; surname: string };
+};
+
+export type LessonConflict = {
+  kind: "teacher" | "class" | "hours";
+  lesson?: { id: number; label: string }; // the lesson checked (report only)
+  otherId?: number; // the clashing lesson
+  message: string;
+};
+
+const namedLessonSelect = {
+  id: true,
+  name: true,
+  day: true,
+  startTime: true,
+  endTime: true,
+  classId: true,
+  teacherId: true,
+  class: { select: { name: true } },
+  teacher: { select: { name: true, surname: true } },
+} as const;
+
+/* TIME HELPERS */
+
+export const minutesOfDay = (d: Date) => d.getHours() * 60 + d.getMinutes();
+
+const pad = (n: number) => n.toString().padStart(2, "0");
+export const formatMinutes = (m: number) =>
+  `${pad(Math.floor(m / 60))}:${pad(m % 60)}`;
+
+const dayLabel = (day: Day) => day.charAt(0) + day.slice(1).toLowerCase();
+
+const timeRange = (start: number, end: number) =>
+  `${formatMinutes(start)}–${formatMinutes(end)}`;
+
+// "Monday 09:00–09:45"
+export const describeSlot = (
+  slot: Pick<LessonSlot, "day" | "startTime" | "endTime">
+) =>
+  `${dayLabel(slot.day)} ${timeRange(
+    minutesOfDay(slot.startTime),
+    minutesOfDay(slot.endTime)
+  )}`;
+
+// Half-open ranges: a lesson ending at 10:00 does not clash with one at 10:00
+export const slotsOverlap = (
+  a: Pick<LessonSlot, "day" | "startTime" | "endTime">,
+  b: Pick<LessonSlot, "day" | "startTime" | "endTime">
+) =>
+  a.day === b.day &&
+  minutesOfDay(a.startTime) < minutesOfDay(b.endTime) &&
+  minutesOfDay(b.startTime) < minutesOfDay(a.endTime);
+
+export const outsideSchoolHours = (
+  slot: Pick<LessonSlot, "startTime" | "endTime">
+) =>
+  minutesOfDay(slot.startTime) < SCHOOL_DAY.start ||
+  minutesOfDay(slot.endTime) > SCHOOL_DAY.end;
+
+/* CHECKS */
+
+const hoursConflict = (slot: LessonSlot): LessonConflict => ({
+  kind: "hours",
+  message: `${describeSlot(slot)} is outside school hours (${timeRange(
+    SCHOOL_DAY.start,
+    SCHOOL_DAY.end
+  )}).`,
+});
+
+// Conflicts between `slot` and an already saved lesson `other`
+const clashes = (slot: LessonSlot, other: NamedLesson): LessonConflict[] => {
+  if (!slotsOverlap(slot, other)) return [];
+  const when = describeSlot(other);
+  const conflicts: LessonConflict[] = [];
+
+  if (other.teacherId === slot.teacherId) {
+    conflicts.push({
+      kind: "teacher",
+      otherId: other.id,
+      message: `${other.teacher.name} ${other.teacher.surname} already teaches "${other.name}" (${other.class.name}) on ${when}.`,
+    });
+  }
+  if (other.classId === slot.classId) {
+    conflicts.push({
+      kind: "class",
+      otherId: other.id,
+      message: `Class ${other.class.name} already has "${other.name}" on ${when}.`,
+    });
+  }
+  return conflicts;
+};
+
+/**
+ * Everything wrong with saving `slot` against the current timetable.
+ * When `slot.id` is set (an update) the lesson is not compared with itself.
+ */
+export async function findLessonConflicts(
+  slot: LessonSlot
+): Promise<LessonConflict[]> {
+  const conflicts: LessonConflict[] = [];
+  if (outsideSchoolHours(slot)) conflicts.push(hoursConflict(slot));
+
+  const sameDay = await prisma.lesson.findMany({
+    where: {
+      day: slot.day,
+      id: slot.id ? { not: slot.id } : undefined,
+      OR: [{ teacherId: slot.teacherId }, { classId: slot.classId }],
+    },
+    select: namedLessonSelect,
+  });
+
+  for (const other of sameDay) {
+    conflicts.push(...clashes(slot, other));
+  }
+  return conflicts;
+}
+
+/**
+ * Every conflict in the saved timetable, for the conflict report. Each
+ * clashing pair is listed once.
+ */
+export async function findAllLessonConflicts(): Promise<LessonConflict[]> {
+  const lessons = await prisma.lesson.findMany({
+    select: namedLessonSelect,
+    orderBy: [{ day: "asc" }, { startTime: "asc" }, { id: "asc" }],
+  });
+
+  const conflicts: LessonConflict[] = [];
+  lessons.forEach((lesson, i) => {
+    const checked = {
+      id: lesson.id,
+      label: `"${lesson.name}" (${lesson.class.name}, ${describeSlot(lesson)})`,
+    };
+
+    if (outsideSchoolHours(lesson)) {
+      conflicts.push({ ...hoursConflict(lesson), lesson: checked });
+    }
+    for (const other of lessons.slice(i + 1)) {
+      for (const conflict of clashes(lesson, other)) {
+        conflicts.push({ ...conflict, lesson: checked });
+      }
+    }
+  });
+  return conflicts;
+}
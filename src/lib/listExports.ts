@@ -0,0 +1,400 @@
+/**
+ * LIST EXPORTS: Spreadsheet data for the /list pages
+ * ============================================================================
+ *
+ * Purpose:
+ * Builds the rows behind the "Export" menu in `ListHeader`. Every export
+ * runs the page's own query (lib/listQueries.ts) with the same URL filters,
+ * just without pagination, and flattens the joined records (class name,
+ * teacher name, ...) into plain columns that follow the on-screen table.
+ *
+ * Served as CSV or XLSX by `/api/export/[table]`. Framework-free so it can
+ * run from a Pages Router API route.
+ *
+ * ============================================================================
+ */
+
+import prisma from "@/lib/prisma";
+import { Person } from "@/lib/personLink";
+import { Role } from "@/lib/roles";
+import { withCurrentTerm } from "@/lib/terms";
+import {
+  ListParams,
+  announcementListInclude,
+  announcementListWhere,
+  assignmentListInclude,
+  assignmentListWhere,
+  attendanceListInclude,
+  attendanceListOrderBy,
+  attendanceListWhere,
+  classListInclude,
+  classListWhere,
+  eventListInclude,
+  eventListWhere,
+  examListInclude,
+  examListWhere,
+  lessonListInclude,
+  lessonListWhere,
+  parentListInclude,
+  parentListWhere,
+  resultListInclude,
+  resultListWhere,
+  studentListInclude,
+  studentListWhere,
+  subjectListInclude,
+  subjectListWhere,
+  teacherListInclude,
+  teacherListWhere,
+} from "@/lib/listQueries";
+import type { XlsxCell } from "@/lib/xlsx";
+
+// URL segment of each exportable /list page
+export const EXPORT_TABLES = [
+  "teachers",
+  "students",
+  "parents",
+  "subjects",
+  "classes",
+  "lessons",
+  "exams",
+  "assignments",
+  "results",
+  "attendance",
+  "events",
+  "announcements",
+] as const;
+
+export type ExportTable = (typeof EXPORT_TABLES)[number];
+
+export const isExportTable = (value: unknown): value is ExportTable =>
+  typeof value === "string" &&
+  (EXPORT_TABLES as readonly string[]).includes(value);
+
+export type ListExport = {
+  header: string[];
+  rows: XlsxCell[][];
+};
+
+/* FORMATTING */
+
+const fullName = (p?: { name: string; surname: string } | null) =>
+  p ? `${p.name} ${p.surname}` : "";
+
+// Spreadsheet-friendly, unambiguous UTC dates
+const isoDate = (d: Date) => d.toISOString().slice(0, 10);
+const isoTime = (d: Date) => d.toISOString().slice(11, 16);
+
+const joined = (items: { name: string }[]) =>
+  items.map((i) => i.name).join("; ");
+
+/* EXPORTS */
+
+/**
+ * Rows for `table` filtered by the page's URL params. Like the pages,
+ * term-scoped tables default to the current term.
+ *
+ * @param role/person only used by tables that scope rows to the caller
+ */
+export async function buildListExport(
+  table: ExportTable,
+  params: ListParams,
+  role: Role | null,
+  person: Person | null
+): Promise<ListExport> {
+  switch (table) {
+    case "teachers": {
+      const data = await prisma.teacher.findMany({
+        where: teacherListWhere(params),
+        include: teacherListInclude,
+      });
+      return {
+        header: [
+          "Teacher ID",
+          "Name",
+          "Surname",
+          "Email",
+          "Subjects",
+          "Classes",
+          "Phone",
+          "Address",
+        ],
+        rows: data.map((t) => [
+          t.username,
+          t.name,
+          t.surname,
+          t.email,
+          joined(t.subjects),
+          joined(t.classes),
+          t.phone,
+          t.address,
+        ]),
+      };
+    }
+
+    case "students": {
+      const data = await prisma.student.findMany({
+        where: studentListWhere(params),
+        include: studentListInclude,
+      });
+      return {
+        header: [
+          "Student ID",
+          "Name",
+          "Surname",
+          "Email",
+          "Class",
+          "Grade",
+          "Phone",
+          "Address",
+        ],
+        rows: data.map((s) => [
+          s.username,
+          s.name,
+          s.surname,
+          s.email,
+          s.class.name,
+          s.class.name[0],
+          s.phone,
+          s.address,
+        ]),
+      };
+    }
+
+    case "parents": {
+      const data = await prisma.parent.findMany({
+        where: parentListWhere(params),
+        include: parentListInclude,
+      });
+      return {
+        header: [
+          "Username",
+          "Name",
+          "Surname",
+          "Email",
+          "Student Names",
+          "Phone",
+          "Address",
+        ],
+        rows: data.map((p) => [
+          p.username,
+          p.name,
+          p.surname,
+          p.email,
+          p.students.map(fullName).join("; "),
+          p.phone,
+          p.address,
+        ]),
+      };
+    }
+
+    case "subjects": {
+      const data = await prisma.subject.findMany({
+        where: subjectListWhere(params),
+        include: subjectListInclude,
+      });
+      return {
+        header: ["Subject Name", "Teachers"],
+        rows: data.map((s) => [s.name, s.teachers.map(fullName).join("; ")]),
+      };
+    }
+
+    case "classes": {
+      const data = await prisma.class.findMany({
+        where: classListWhere(params),
+        include: classListInclude,
+      });
+      return {
+        header: ["Class Name", "Enrolled", "Capacity", "Waitlist", "Grade", "Supervisor"],
+        rows: data.map((c) => [
+          c.name,
+          c._count.students,
+          c.capacity,
+          c._count.waitlist,
+          c.name[0],
+          fullName(c.supervisor),
+        ]),
+      };
+    }
+
+    case "lessons": {
+      const data = await prisma.lesson.findMany({
+        where: lessonListWhere(params),
+        include: lessonListInclude,
+      });
+      return {
+        header: [
+          "Lesson",
+          "Subject Name",
+          "Class",
+          "Teacher",
+          "Day",
+          "Start Time",
+          "End Time",
+        ],
+        rows: data.map((l) => [
+          l.name,
+          l.subject.name,
+          l.class.name,
+          fullName(l.teacher),
+          l.day,
+          isoTime(l.startTime),
+          isoTime(l.endTime),
+        ]),
+      };
+    }
+
+    case "exams": {
+      const data = await prisma.exam.findMany({
+        where: examListWhere(await withCurrentTerm(params)),
+        include: examListInclude,
+      });
+      return {
+        header: [
+          "Title",
+          "Subject Name",
+          "Class",
+          "Teacher",
+          "Date",
+          "Start Time",
+          "End Time",
+        ],
+        rows: data.map((e) => [
+          e.title,
+          e.lesson.subject.name,
+          e.lesson.class.name,
+          fullName(e.lesson.teacher),
+          isoDate(e.startTime),
+          isoTime(e.startTime),
+          isoTime(e.endTime),
+        ]),
+      };
+    }
+
+    case "assignments": {
+      const data = await prisma.assignment.findMany({
+        where: assignmentListWhere(await withCurrentTerm(params)),
+        include: assignmentListInclude,
+      });
+      return {
+        header: [
+          "Title",
+          "Subject Name",
+          "Class",
+          "Teacher",
+          "Start Date",
+          "Due Date",
+        ],
+        rows: data.map((a) => [
+          a.title,
+          a.lesson.subject.name,
+          a.lesson.class.name,
+          fullName(a.lesson.teacher),
+          isoDate(a.startDate),
+          isoDate(a.dueDate),
+        ]),
+      };
+    }
+
+    case "results": {
+      const data = await prisma.result.findMany({
+        where: resultListWhere(await withCurrentTerm(params)),
+        include: resultListInclude,
+      });
+      return {
+        header: [
+          "Title",
+          "Type",
+          "Student",
+          "Score",
+          "Teacher",
+          "Class",
+          "Date",
+        ],
+        rows: data.map((r) => {
+          const exam = r.exam;
+          const assessment = exam ?? r.assignment;
+          return [
+            assessment?.title,
+            exam ? "Exam" : "Assignment",
+            fullName(r.student),
+            r.score,
+            fullName(assessment?.lesson.teacher),
+            assessment?.lesson.class.name,
+            exam
+              ? isoDate(exam.startTime)
+              : r.assignment && isoDate(r.assignment.startDate),
+          ];
+        }),
+      };
+    }
+
+    case "attendance": {
+      const data = await prisma.attendance.findMany({
+        where: attendanceListWhere(await withCurrentTerm(params), role, person),
+        include: attendanceListInclude,
+        orderBy: attendanceListOrderBy,
+      });
+      return {
+        header: [
+          "Student",
+          "Status",
+          "Lesson",
+          "Subject",
+          "Class",
+          "Teacher",
+          "Date",
+        ],
+        rows: data.map((a) => [
+          fullName(a.student),
+          a.present ? "Present" : "Absent",
+          a.lesson.name,
+          a.lesson.subject.name,
+          a.lesson.class.name,
+          fullName(a.lesson.teacher),
+          isoDate(a.date),
+        ]),
+      };
+    }
+
+    case "events": {
+      const data = await prisma.event.findMany({
+        where: eventListWhere(params),
+        include: eventListInclude,
+      });
+      return {
+        header: [
+          "Title",
+          "Description",
+          "Class",
+          "Date",
+          "Start Time",
+          "End Time",
+        ],
+        rows: data.map((e) => [
+          e.title,
+          e.description,
+          e.class?.name ?? "All classes",
+          isoDate(e.startTime),
+          isoTime(e.startTime),
+          isoTime(e.endTime),
+        ]),
+      };
+    }
+
+    case "announcements": {
+      const data = await prisma.announcement.findMany({
+        where: announcementListWhere(params),
+        include: announcementListInclude,
+      });
+      return {
+        header: ["Title", "Description", "Class", "Date"],
+        rows: data.map((a) => [
+          a.title,
+          a.description,
+          a.class?.name ?? "All classes",
+          isoDate(a.date),
+        ]),
+      };
+    }
+  }
+}
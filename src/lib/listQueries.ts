@@ -0,0 +1,644 @@
+/**
+ * LIST QUERIES: URL search params → Prisma filters for the /list pages
+ * ============================================================================
+ *
+ * Purpose:
+ * Each list page filters by its URL (`?search=`, `?classId=`, ...). The
+ * `where` builders and `include` clauses live here so the page and its
+ * CSV/XLSX export (lib/listExports.ts) always run exactly the same query;
+ * the export just drops the pagination.
+ *
+ * Builders take the search params without `page`. Exams, assignments,
+ * results, attendance, assessment components, fees and invoices also filter by `termId`, which callers default to
+ * the current term (`withCurrentTerm` in lib/terms.ts).
+ *
+ * ============================================================================
+ */
+
+import { Prisma } from "@prisma/client";
+import { Person } from "@/lib/personLink";
+import { outstandingInvoice, paidInvoice } from "@/lib/fees";
+import { liveSessionInclude, teacherSessions } from "@/lib/liveSessions";
+import { Role } from "@/lib/roles";
+import { nextDay, parseDateOnly } from "@/lib/utils";
+
+export type ListParams = { [key: string]: string | undefined };
+
+// Run `apply` for every param that has a value
+const eachParam = (
+  params: ListParams,
+  apply: (key: string, value: string) => void
+) => {
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) apply(key, value);
+  }
+};
+
+// `?termId=` value that lists every term (see lib/terms.ts)
+export const ALL_TERMS = "all";
+
+// The term id of a `termId` param, or undefined for "all"
+const termIdOf = (value: string) =>
+  value === ALL_TERMS ? undefined : parseInt(value);
+
+/* TEACHERS */
+
+export const teacherListInclude = {
+  subjects: true,
+  classes: true,
+} satisfies Prisma.TeacherInclude;
+
+export const teacherListWhere = (params: ListParams) => {
+  const query: Prisma.TeacherWhereInput = {};
+  eachParam(params, (key, value) => {
+    switch (key) {
+      case "classId":
+        query.lessons = {
+          some: {
+            classId: parseInt(value),
+          },
+        };
+        break;
+      case "search":
+        query.name = {
+          contains: value,
+          mode: "insensitive",
+        };
+        break;
+      default:
+        break;
+    }
+  });
+  return query;
+};
+
+/* STUDENTS */
+
+export const studentListInclude = {
+  class: true,
+} satisfies Prisma.StudentInclude;
+
+// Current students unless `?status=alumni` (graduates, see lib/promotion.ts)
+export const studentListWhere = (params: ListParams) => {
+  const query: Prisma.StudentWhereInput = {
+    status: params.status === "alumni" ? "ALUMNI" : "ACTIVE",
+  };
+  eachParam(params, (key, value) => {
+    switch (key) {
+      case "teacherId":
+        query.class = {
+          lessons: {
+            some: {
+              teacherId: value,
+            },
+          },
+        };
+        break;
+      case "search":
+        query.name = {
+          contains: value,
+          mode: "insensitive",
+        };
+        break;
+      default:
+        break;
+    }
+  });
+  return query;
+};
+
+/* PARENTS */
+
+export const parentListInclude = {
+  students: true,
+} satisfies Prisma.ParentInclude;
+
+export const parentListWhere = (params: ListParams) => {
+  const query: Prisma.ParentWhereInput = {};
+  eachParam(params, (key, value) => {
+    switch (key) {
+      case "search":
+        query.name = {
+          contains: value,
+          mode: "insensitive",
+        };
+        break;
+      default:
+        break;
+    }
+  });
+  return query;
+};
+
+/* SUBJECTS */
+
+export const subjectListInclude = {
+  teachers: true,
+} satisfies Prisma.SubjectInclude;
+
+export const subjectListWhere = (params: ListParams) => {
+  const query: Prisma.SubjectWhereInput = {};
+  eachParam(params, (key, value) => {
+    switch (key) {
+      case "search":
+        query.name = {
+          contains: value,
+          mode: "insensitive",
+        };
+        break;
+      default:
+        break;
+    }
+  });
+  return query;
+};
+
+/* CLASSES */
+
+export const classListInclude = {
+  supervisor: true,
+  _count: {
+    select: {
+      students: { where: { status: "ACTIVE" } }, // enrolled
+      waitlist: true,
+    },
+  },
+} satisfies Prisma.ClassInclude;
+
+export const classListWhere = (params: ListParams) => {
+  const query: Prisma.ClassWhereInput = {};
+  eachParam(params, (key, value) => {
+    switch (key) {
+      case "supervisorId":
+        query.supervisorId = value;
+        break;
+      case "search":
+        query.name = {
+          contains: value,
+          mode: "insensitive",
+        };
+        break;
+      default:
+        break;
+    }
+  });
+  return query;
+};
+
+/* LESSONS */
+
+export const lessonListInclude = {
+  subject: { select: { name: true } },
+  class: { select: { name: true } },
+  teacher: { select: { name: true, surname: true } },
+} satisfies Prisma.LessonInclude;
+
+export const lessonListWhere = (params: ListParams) => {
+  const query: Prisma.LessonWhereInput = {};
+  eachParam(params, (key, value) => {
+    switch (key) {
+      case "classId":
+        query.classId = parseInt(value);
+        break;
+      case "teacherId":
+        query.teacherId = value;
+        break;
+      case "search":
+        query.OR = [
+          { subject: { name: { contains: value, mode: "insensitive" } } },
+          { teacher: { name: { contains: value, mode: "insensitive" } } },
+        ];
+        break;
+      default:
+        break;
+    }
+  });
+  return query;
+};
+
+/* EXAMS & ASSIGNMENTS */
+
+// Both are attached to a lesson and are filtered the same way
+const assessmentLessonInclude = {
+  lesson: {
+    select: {
+      subject: { select: { name: true } },
+      teacher: { select: { name: true, surname: true } },
+      class: { select: { name: true } },
+    },
+  },
+};
+
+const assessmentLessonWhere = (params: ListParams) => {
+  let lesson: Prisma.LessonWhereInput | undefined;
+  eachParam(params, (key, value) => {
+    switch (key) {
+      case "classId":
+        lesson = { classId: parseInt(value) };
+        break;
+      case "teacherId":
+        lesson = { teacherId: value };
+        break;
+      case "search":
+        lesson = {
+          subject: { name: { contains: value, mode: "insensitive" } },
+          teacher: { name: { contains: value, mode: "insensitive" } },
+        };
+        break;
+      default:
+        break;
+    }
+  });
+  return lesson;
+};
+
+export const examListInclude =
+  assessmentLessonInclude satisfies Prisma.ExamInclude;
+
+export const examListWhere = (params: ListParams): Prisma.ExamWhereInput => {
+  const lesson = assessmentLessonWhere(params);
+  const termId = params.termId ? termIdOf(params.termId) : undefined;
+  return { ...(lesson && { lesson }), ...(termId && { termId }) };
+};
+
+export const assignmentListInclude =
+  assessmentLessonInclude satisfies Prisma.AssignmentInclude;
+
+export const assignmentListWhere = (
+  params: ListParams
+): Prisma.AssignmentWhereInput => {
+  const lesson = assessmentLessonWhere(params);
+  const termId = params.termId ? termIdOf(params.termId) : undefined;
+  return { ...(lesson && { lesson }), ...(termId && { termId }) };
+};
+
+/* ASSESSMENT COMPONENTS */
+
+export const assessmentComponentListInclude = {
+  subject: { select: { name: true } },
+  term: { include: { academicYear: { select: { id: true, name: true } } } },
+  _count: { select: { exams: true, assignments: true } },
+} satisfies Prisma.AssessmentComponentInclude;
+
+export const assessmentComponentListWhere = (params: ListParams) => {
+  const query: Prisma.AssessmentComponentWhereInput = {};
+  eachParam(params, (key, value) => {
+    switch (key) {
+      case "subjectId":
+        query.subjectId = parseInt(value);
+        break;
+      case "termId":
+        query.termId = termIdOf(value);
+        break;
+      case "search":
+        query.OR = [
+          { name: { contains: value, mode: "insensitive" } },
+          { subject: { name: { contains: value, mode: "insensitive" } } },
+        ];
+        break;
+      default:
+        break;
+    }
+  });
+  return query;
+};
+
+// Subject by subject, in the order the components were added
+export const assessmentComponentListOrderBy = [
+  { term: { startDate: "desc" } },
+  { subject: { name: "asc" } },
+  { id: "asc" },
+] satisfies Prisma.AssessmentComponentOrderByWithRelationInput[];
+
+/* RESULTS */
+
+const resultAssessmentInclude = {
+  include: {
+    lesson: {
+      select: {
+        class: { select: { name: true } },
+        teacher: { select: { name: true, surname: true } },
+      },
+    },
+  },
+};
+
+export const resultListInclude = {
+  student: { select: { name: true, surname: true } },
+  exam: resultAssessmentInclude,
+  assignment: resultAssessmentInclude,
+} satisfies Prisma.ResultInclude;
+
+export const resultListWhere = (params: ListParams) => {
+  const query: Prisma.ResultWhereInput = {};
+  eachParam(params, (key, value) => {
+    switch (key) {
+      case "StudentId":
+        query.studentId = value;
+        break;
+      case "termId": {
+        // A result belongs to the term of its exam or assignment
+        const termId = termIdOf(value);
+        if (termId) {
+          query.AND = [
+            { OR: [{ exam: { termId } }, { assignment: { termId } }] },
+          ];
+        }
+        break;
+      }
+      case "search":
+        query.OR = [
+          { exam: { title: { contains: value, mode: "insensitive" } } },
+          { student: { name: { contains: value, mode: "insensitive" } } },
+        ];
+        break;
+      default:
+        break;
+    }
+  });
+  return query;
+};
+
+/* ATTENDANCE */
+
+export const attendanceListInclude = {
+  student: { select: { name: true, surname: true } },
+  lesson: {
+    select: {
+      name: true,
+      subject: { select: { name: true } },
+      class: { select: { name: true } },
+      teacher: { select: { name: true, surname: true } },
+    },
+  },
+} satisfies Prisma.AttendanceInclude;
+
+/**
+ * Attendance is scoped by role: admins see everything, everyone else only
+ * their own. The scope is applied after the URL params so a crafted filter
+ * cannot widen it.
+ *
+ * @param person the caller's linked record (ignored for admins)
+ */
+export const attendanceListWhere = (
+  params: ListParams,
+  role: Role | null,
+  person: Person | null
+) => {
+  const query: Prisma.AttendanceWhereInput = {};
+  const lessonQuery: Prisma.LessonWhereInput = {};
+  const dateRange: Prisma.DateTimeFilter = {};
+
+  eachParam(params, (key, value) => {
+    switch (key) {
+      case "classId":
+        lessonQuery.classId = parseInt(value);
+        break;
+      case "studentId":
+        query.studentId = value;
+        break;
+      case "lessonId":
+        query.lessonId = parseInt(value);
+        break;
+      case "termId":
+        query.termId = termIdOf(value);
+        break;
+      case "from": {
+        const from = parseDateOnly(value);
+        if (from) dateRange.gte = from;
+        break;
+      }
+      case "to": {
+        const to = parseDateOnly(value);
+        if (to) dateRange.lt = nextDay(to);
+        break;
+      }
+      case "search":
+        query.OR = [
+          { student: { name: { contains: value, mode: "insensitive" } } },
+          { student: { surname: { contains: value, mode: "insensitive" } } },
+        ];
+        break;
+      default:
+        break;
+    }
+  });
+
+  if (dateRange.gte || dateRange.lt) query.date = dateRange;
+
+  // ROLE CONDITION
+  if (role !== "admin") {
+    if (!person) query.id = -1;
+    else if (role === "teacher") lessonQuery.teacherId = person.id;
+    else if (role === "student") query.studentId = person.id;
+    else if (role === "parent") query.student = { parentId: person.id };
+    else query.id = -1;
+  }
+
+  if (Object.keys(lessonQuery).length) query.lesson = lessonQuery;
+  return query;
+};
+
+export const attendanceListOrderBy = [
+  { date: "desc" },
+  { id: "desc" },
+] satisfies Prisma.AttendanceOrderByWithRelationInput[];
+
+/* EVENTS & ANNOUNCEMENTS */
+
+export const eventListInclude = {
+  class: true,
+} satisfies Prisma.EventInclude;
+
+export const eventListWhere = (params: ListParams) => {
+  const query: Prisma.EventWhereInput = {};
+  eachParam(params, (key, value) => {
+    switch (key) {
+      case "search":
+        query.title = {
+          contains: value,
+          mode: "insensitive",
+        };
+        break;
+      default:
+        break;
+    }
+  });
+  return query;
+};
+
+export const announcementListInclude = {
+  class: true,
+} satisfies Prisma.AnnouncementInclude;
+
+export const announcementListWhere = (params: ListParams) => {
+  const query: Prisma.AnnouncementWhereInput = {};
+  eachParam(params, (key, value) => {
+    switch (key) {
+      case "search":
+        query.title = {
+          contains: value,
+          mode: "insensitive",
+        };
+        break;
+      default:
+        break;
+    }
+  });
+  return query;
+};
+
+/* FEES & INVOICES */
+
+export const feeStructureListInclude = {
+  grade: { select: { level: true } },
+  term: { include: { academicYear: { select: { id: true, name: true } } } },
+} satisfies Prisma.FeeStructureInclude;
+
+export const feeStructureListWhere = (params: ListParams) => {
+  const query: Prisma.FeeStructureWhereInput = {};
+  eachParam(params, (key, value) => {
+    switch (key) {
+      case "gradeId":
+        query.gradeId = parseInt(value);
+        break;
+      case "termId":
+        query.termId = termIdOf(value);
+        break;
+      case "search":
+        query.name = { contains: value, mode: "insensitive" };
+        break;
+      default:
+        break;
+    }
+  });
+  return query;
+};
+
+// Grade by grade, items by name
+export const feeStructureListOrderBy = [
+  { term: { startDate: "desc" } },
+  { grade: { level: "asc" } },
+  { name: "asc" },
+] satisfies Prisma.FeeStructureOrderByWithRelationInput[];
+
+export const invoiceListInclude = {
+  student: {
+    select: {
+      name: true,
+      surname: true,
+      username: true,
+      class: { select: { name: true } },
+    },
+  },
+  term: { include: { academicYear: { select: { id: true, name: true } } } },
+} satisfies Prisma.InvoiceInclude;
+
+/**
+ * Invoices are scoped by role like attendance: admins see every invoice,
+ * students their own and parents their children's. Teachers see none.
+ *
+ * `?status=outstanding` or `?status=paid` filter by what is left to pay.
+ *
+ * @param person the caller's linked record (ignored for admins)
+ */
+export const invoiceListWhere = (
+  params: ListParams,
+  role: Role | null,
+  person: Person | null
+) => {
+  const query: Prisma.InvoiceWhereInput = {};
+  eachParam(params, (key, value) => {
+    switch (key) {
+      case "studentId":
+        query.studentId = value;
+        break;
+      case "termId":
+        query.termId = termIdOf(value);
+        break;
+      case "status":
+        if (value === "outstanding") Object.assign(query, outstandingInvoice);
+        if (value === "paid") Object.assign(query, paidInvoice);
+        break;
+      case "search":
+        query.OR = [
+          { student: { name: { contains: value, mode: "insensitive" } } },
+          { student: { surname: { contains: value, mode: "insensitive" } } },
+          { student: { username: { contains: value, mode: "insensitive" } } },
+        ];
+        break;
+      default:
+        break;
+    }
+  });
+
+  // ROLE CONDITION
+  if (role !== "admin") {
+    if (!person) query.id = -1;
+    else if (role === "student") query.studentId = person.id;
+    else if (role === "parent") query.student = { parentId: person.id };
+    else query.id = -1;
+  }
+
+  return query;
+};
+
+export const invoiceListOrderBy = [
+  { issuedAt: "desc" },
+  { id: "desc" },
+] satisfies Prisma.InvoiceOrderByWithRelationInput[];
+
+/* LIVE SESSIONS */
+
+export const liveSessionListInclude = liveSessionInclude;
+
+/**
+ * Live sessions are scoped by role: admins see all, teachers the ones they
+ * teach or co-teach, students their class's and parents their children's
+ * classes'.
+ *
+ * Sessions not yet over are listed unless `?when=past`.
+ *
+ * @param person the caller's linked record (ignored for admins)
+ */
+export const liveSessionListWhere = (
+  params: ListParams,
+  role: Role | null,
+  person: Person | null,
+  now = new Date()
+) => {
+  const query: Prisma.LiveSessionWhereInput = {
+    endTime: params.when === "past" ? { lte: now } : { gt: now },
+  };
+  eachParam(params, (key, value) => {
+    switch (key) {
+      case "classId":
+        query.classId = parseInt(value);
+        break;
+      case "teacherId":
+        query.teacherId = value;
+        break;
+      case "search":
+        query.OR = [
+          { lesson: { subject: { name: { contains: value, mode: "insensitive" } } } },
+          { class: { name: { contains: value, mode: "insensitive" } } },
+          { teacher: { name: { contains: value, mode: "insensitive" } } },
+        ];
+        break;
+      default:
+        break;
+    }
+  });
+
+  // ROLE CONDITION
+  if (role !== "admin") {
+    if (!person) query.id = -1;
+    else if (role === "teacher") query.AND = teacherSessions(person.id);
+    else if (role === "student") query.class = { students: { some: { id: person.id } } };
+    else if (role === "parent") {
+      query.class = { students: { some: { parentId: person.id } } };
+    } else query.id = -1;
+  }
+
+  return query;
+};
@@ -0,0 +1,123 @@
+/**
+ * LIVE ACCESS: Paid entitlements to a class's live classes
+ * ============================================================================
+ *
+ * Purpose:
+ * - `startLivePayment`: a PENDING payment with a fresh reference and the
+ *   fee from settings, for the browser to hand to Paystack. The amount is
+ *   decided here, never by the browser.
+ * - `settleLivePayment`: applies what Paystack says about a reference
+ *   (lib/paystack.ts). A successful charge of at least the amount asked
+ *   for, in the school's currency, marks the payment SUCCESS and grants the
+ *   entitlement. Safe to run twice for the same reference: the verify route
+ *   and the webhook both call it and whichever comes second changes nothing.
+ * - `getLiveEntitlement`: the student's entitlement to a class that is
+ *   still valid, if any (/api/livekit-token refuses viewers without one)
+ *
+ * Framework-free so API routes can use it.
+ *
+ * ============================================================================
+ */
+
+import { randomBytes } from "crypto";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { CURRENCY, LIVE_CLASS } from "@/lib/settings";
+import { getCurrentTerm } from "@/lib/terms";
+import { nextDay } from "@/lib/utils";
+import type { PaystackTransaction } from "@/lib/paystack";
+
+export async function getLiveEntitlement(
+  studentId: string,
+  classId: number,
+  now = new Date()
+) {
+  return prisma.liveClassEntitlement.findFirst({
+    where: { studentId, classId, validUntil: { gt: now } },
+    orderBy: { validUntil: "desc" },
+  });
+}
+
+export async function startLivePayment(student: { id: string; classId: number }) {
+  return prisma.liveClassPayment.create({
+    data: {
+      reference: `live-${student.classId}-${randomBytes(8).toString("hex")}`,
+      studentId: student.id,
+      classId: student.classId,
+      amount: LIVE_CLASS.fee,
+    },
+  });
+}
+
+// Access runs to the end of the current term, else for `fallbackDays`
+const accessEnd = async (paidAt: Date) => {
+  const term = await getCurrentTerm();
+  const termEnd = term ? nextDay(term.endDate) : null;
+  return termEnd && termEnd > paidAt
+    ? termEnd
+    : new Date(paidAt.getTime() + LIVE_CLASS.fallbackDays * 24 * 60 * 60 * 1000);
+};
+
+export type SettleResult =
+  | { outcome: "granted"; validUntil: Date }
+  | { outcome: "pending" | "rejected" | "unknown" };
+
+export async function settleLivePayment(
+  transaction: PaystackTransaction
+): Promise<SettleResult> {
+  const payment = await prisma.liveClassPayment.findUnique({
+    where: { reference: transaction.reference },
+    include: { entitlement: { select: { validUntil: true } } },
+  });
+  if (!payment) return { outcome: "unknown" };
+  if (payment.entitlement) {
+    return { outcome: "granted", validUntil: payment.entitlement.validUntil };
+  }
+
+  if (transaction.status !== "success") {
+    // Abandoned or still going: the student may yet pay with this reference
+    if (transaction.status === "failed" && payment.status === "PENDING") {
+      await prisma.liveClassPayment.update({
+        where: { id: payment.id },
+        data: { status: "FAILED" },
+      });
+    }
+    return { outcome: transaction.status === "failed" ? "rejected" : "pending" };
+  }
+
+  if (transaction.amount < payment.amount || transaction.currency !== CURRENCY.code) {
+    console.warn(
+      `[live-payment] ${payment.reference}: paid ${transaction.amount} ${transaction.currency}, expected ${payment.amount} ${CURRENCY.code}`
+    );
+    await prisma.liveClassPayment.update({
+      where: { id: payment.id },
+      data: { status: "FAILED" },
+    });
+    return { outcome: "rejected" };
+  }
+
+  const paidAt = transaction.paidAt ?? new Date();
+  const validUntil = await accessEnd(paidAt);
+  try {
+    await prisma.$transaction([
+      prisma.liveClassPayment.update({
+        where: { id: payment.id },
+        data: { status: "SUCCESS", paidAt },
+      }),
+      prisma.liveClassEntitlement.create({
+        data: {
+          studentId: payment.studentId,
+          classId: payment.classId,
+          paymentId: payment.id,
+          validUntil,
+        },
+      }),
+    ]);
+  } catch (err) {
+    // The verify route and the webhook settled it at the same moment
+    if (!(err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002")) {
+      throw err;
+    }
+  }
+  return { outcome: "granted", validUntil };
+}
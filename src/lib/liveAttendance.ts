@@ -0,0 +1,203 @@
+/**
+ * LIVE ATTENDANCE: Time in a live session's room → suggested attendance
+ * ============================================================================
+ *
+ * Purpose:
+ * - `recordJoin` / `recordLeave`: LiveKit's webhook (pages/api/webhooks/
+ *   livekit.ts) reports participants joining and leaving a room. Students
+ *   of the session's class get a LiveParticipation per stay; teachers and
+ *   anyone else are ignored. The participant identity is the Clerk user id
+ *   (see /api/livekit-token).
+ * - `getLiveAttendanceReview`: each student of the class with their time in
+ *   the room and a suggested mark: present when they stayed for
+ *   `minPresencePercent()` of the scheduled time. The teacher
+ *   reviews the marks and saves them as Attendance (`finalizeLiveAttendance`
+ *   in lib/actions.ts); nothing is written to Attendance before that.
+ *
+ * Only time within the scheduled start and end counts, and overlapping
+ * stays (two tabs, a reconnect before the leave arrived) count once.
+ *
+ * Framework-free so API routes can use it.
+ *
+ * ============================================================================
+ */
+
+import prisma from "@/lib/prisma";
+import { LIVE_CLASS } from "@/lib/settings";
+import { nextDay, parseDateOnly, toDateInputValue } from "@/lib/utils";
+
+type Stay = { joinedAt: Date; leftAt: Date | null };
+
+/**
+ * The share of the scheduled time (0-100) a student must be in the room to
+ * be suggested present: LIVE_MIN_PRESENCE_PERCENT when set, else
+ * `LIVE_CLASS.minPresencePercent`.
+ */
+export const minPresencePercent = () => {
+  const raw = process.env.LIVE_MIN_PRESENCE_PERCENT?.trim();
+  if (!raw) return LIVE_CLASS.minPresencePercent;
+  const percent = Number(raw);
+  if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+    throw new Error("LIVE_MIN_PRESENCE_PERCENT must be a number from 0 to 100");
+  }
+  return percent;
+};
+
+// The whole-day date (midnight UTC, like all attendance) of the day a
+// session starts, in local time
+export const attendanceDate = (startTime: Date) =>
+  parseDateOnly(toDateInputValue(startTime))!;
+
+// The session of `roomName` and the class student signed in as `identity`
+const findParticipant = async (roomName: string, identity: string) => {
+  const session = await prisma.liveSession.findUnique({
+    where: { roomName },
+    select: { id: true, classId: true },
+  });
+  if (!session) return null;
+
+  const student = await prisma.student.findFirst({
+    where: { clerkUserId: identity, classId: session.classId },
+    select: { id: true },
+  });
+  return student ? { sessionId: session.id, studentId: student.id } : null;
+};
+
+/**
+ * A student entered the room. A join while a stay is still open (LiveKit
+ * resending the event) changes nothing.
+ *
+ * @returns whether the participant is a student of the session's class
+ */
+export async function recordJoin(roomName: string, identity: string, at: Date) {
+  const participant = await findParticipant(roomName, identity);
+  if (!participant) return false;
+
+  const open = await prisma.liveParticipation.findFirst({
+    where: { ...participant, leftAt: null },
+  });
+  if (!open) {
+    await prisma.liveParticipation.create({
+      data: { ...participant, joinedAt: at },
+    });
+  }
+  return true;
+}
+
+/**
+ * A student left the room (or lost their connection): closes their open
+ * stay, if any.
+ *
+ * @returns whether the participant is a student of the session's class
+ */
+export async function recordLeave(roomName: string, identity: string, at: Date) {
+  const participant = await findParticipant(roomName, identity);
+  if (!participant) return false;
+
+  const open = await prisma.liveParticipation.findFirst({
+    where: { ...participant, leftAt: null },
+    orderBy: { joinedAt: "desc" },
+  });
+  if (open) {
+    await prisma.liveParticipation.update({
+      where: { id: open.id },
+      data: { leftAt: at < open.joinedAt ? open.joinedAt : at },
+    });
+  }
+  return true;
+}
+
+/**
+ * Milliseconds of `stays` inside [start, end). Stays still open run until
+ * `now`.
+ */
+export const timeInRoom = (stays: Stay[], start: Date, end: Date, now = new Date()) => {
+  const ranges = stays
+    .map((stay) => [
+      Math.max(stay.joinedAt.getTime(), start.getTime()),
+      Math.min((stay.leftAt ?? now).getTime(), end.getTime()),
+    ])
+    .filter(([from, to]) => to > from)
+    .sort((a, b) => a[0] - b[0]);
+
+  let total = 0;
+  let reached = -Infinity;
+  for (const [from, to] of ranges) {
+    const counted = Math.max(from, reached);
+    if (to > counted) total += to - counted;
+    reached = Math.max(reached, to);
+  }
+  return total;
+};
+
+export type LiveAttendanceRow = {
+  id: string;
+  name: string;
+  surname: string;
+  minutes: number; // in the room, within the scheduled time
+  suggested: boolean; // present by the presence threshold
+  saved: boolean | null; // the Attendance mark already saved, if any
+};
+
+/**
+ * The review of one session's attendance, or null when the session does
+ * not exist. Students are the class's active students.
+ */
+export async function getLiveAttendanceReview(sessionId: number, now = new Date()) {
+  const session = await prisma.liveSession.findUnique({
+    where: { id: sessionId },
+    include: {
+      lesson: {
+        select: { name: true, teacherId: true, subject: { select: { name: true } } },
+      },
+      class: {
+        select: {
+          name: true,
+          students: {
+            where: { status: "ACTIVE" },
+            select: { id: true, name: true, surname: true },
+            orderBy: [{ surname: "asc" }, { name: "asc" }],
+          },
+        },
+      },
+      participations: { select: { studentId: true, joinedAt: true, leftAt: true } },
+    },
+  });
+  if (!session) return null;
+
+  const percent = minPresencePercent();
+  const scheduled = session.endTime.getTime() - session.startTime.getTime();
+  const required = (scheduled * percent) / 100;
+
+  // Marks already saved for the lesson that day (a finalized review)
+  const day = attendanceDate(session.startTime);
+  const saved = session.attendanceTakenAt
+    ? await prisma.attendance.findMany({
+        where: {
+          lessonId: session.lessonId,
+          studentId: { in: session.class.students.map((s) => s.id) },
+          date: { gte: day, lt: nextDay(day) },
+        },
+        select: { studentId: true, present: true },
+      })
+    : [];
+  const savedMarks = new Map(saved.map((a) => [a.studentId, a.present]));
+
+  const rows: LiveAttendanceRow[] = session.class.students.map((student) => {
+    const stays = session.participations.filter((p) => p.studentId === student.id);
+    const time = timeInRoom(stays, session.startTime, session.endTime, now);
+    return {
+      ...student,
+      minutes: Math.round(time / 60000),
+      suggested: time > 0 && time >= required,
+      saved: savedMarks.get(student.id) ?? null,
+    };
+  });
+
+  return {
+    session,
+    rows,
+    minPresencePercent: percent,
+    requiredMinutes: Math.ceil(required / 60000),
+  };
+}
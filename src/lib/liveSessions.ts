@@ -0,0 +1,85 @@
+/**
+ * LIVE SESSIONS: Scheduled live classes and their LiveKit rooms
+ * ============================================================================
+ *
+ * Purpose:
+ * - `roomNameFor`: a fresh, unguessable LiveKit room name for a session
+ * - `nextTeacherSession`: the teacher's session on now, else their next one
+ *   ("start my next session"), including sessions they co-teach
+ * - `isSessionTeacher`: the session's teacher or one of its co-teachers, the
+ *   only people who may publish in its room
+ * - `currentClassSession`: the class's session that is open right now
+ *   ("join my class's live session now")
+ * - `isOpen`: sessions open `LIVE_CLASS.joinEarlyMinutes` before their start
+ *   and close at their scheduled end
+ *
+ * Framework-free so API routes can use it.
+ *
+ * ============================================================================
+ */
+
+import { randomBytes } from "crypto";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { LIVE_CLASS } from "@/lib/settings";
+
+// What the live class pages show about a session
+export const liveSessionInclude = {
+  lesson: { select: { name: true, teacherId: true, subject: { select: { name: true } } } },
+  class: { select: { name: true } },
+  teacher: { select: { name: true, surname: true } },
+  coTeachers: { select: { id: true, name: true, surname: true } },
+} satisfies Prisma.LiveSessionInclude;
+
+// Sessions a teacher runs or co-teaches
+export const teacherSessions = (teacherId: string): Prisma.LiveSessionWhereInput => ({
+  OR: [{ teacherId }, { coTeachers: { some: { id: teacherId } } }],
+});
+
+export const isSessionTeacher = (
+  session: { teacherId: string; coTeachers: { id: string }[] },
+  teacherId: string
+) =>
+  session.teacherId === teacherId ||
+  session.coTeachers.some((teacher) => teacher.id === teacherId);
+
+const slug = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+// "jss1a-mathematics-3f9c2e1a7b4d"
+export const roomNameFor = (className: string, subjectName: string) =>
+  [slug(className), slug(subjectName), randomBytes(6).toString("hex")]
+    .filter(Boolean)
+    .join("-");
+
+// Sessions a room is open for at `now`
+const openAt = (now: Date) => ({
+  startTime: { lte: new Date(now.getTime() + LIVE_CLASS.joinEarlyMinutes * 60 * 1000) },
+  endTime: { gt: now },
+});
+
+export const isOpen = (
+  session: { startTime: Date; endTime: Date },
+  now = new Date()
+) =>
+  session.startTime.getTime() - LIVE_CLASS.joinEarlyMinutes * 60 * 1000 <=
+    now.getTime() && session.endTime > now;
+
+export async function nextTeacherSession(teacherId: string, now = new Date()) {
+  return prisma.liveSession.findFirst({
+    where: { ...teacherSessions(teacherId), endTime: { gt: now } },
+    include: liveSessionInclude,
+    orderBy: { startTime: "asc" },
+  });
+}
+
+export async function currentClassSession(classId: number, now = new Date()) {
+  return prisma.liveSession.findFirst({
+    where: { classId, ...openAt(now) },
+    include: liveSessionInclude,
+    orderBy: { startTime: "asc" },
+  });
+}
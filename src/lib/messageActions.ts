@@ -0,0 +1,155 @@
+/**
+ * SERVER ACTIONS: Inbox (threads and messages)
+ * ============================================================================
+ *
+ * Purpose:
+ * Actions behind `/list/messages`. Every action resolves the caller with
+ * `getCurrentParticipant()` and enforces the visibility rules in
+ * `lib/messages.ts`; nothing about the sender is taken from the browser.
+ *
+ * ============================================================================
+ */
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import prisma from "@/lib/prisma";
+import {
+  ActionState,
+  actionFailed,
+  ok,
+  validationFailed,
+} from "@/lib/actionHelpers";
+import {
+  NewThreadSchema,
+  ReplySchema,
+  newThreadSchema,
+  replySchema,
+} from "@/lib/formValidationSchemas";
+import {
+  Participant,
+  findRecipient,
+  getCurrentParticipant,
+  searchRecipients,
+} from "@/lib/messages";
+
+const notInInbox: ActionState = {
+  success: false,
+  error: true,
+  message: "Your account is not linked to a school record yet.",
+};
+
+/**
+ * Recipients the caller may write to, for the compose dialog.
+ */
+export const findMessageRecipients = async (
+  search: string
+): Promise<(Participant & { detail?: string })[]> => {
+  const me = await getCurrentParticipant();
+  if (!me || search.trim().length < 2) return [];
+  return searchRecipients(me, search.trim());
+};
+
+/**
+ * Start a new thread with one recipient.
+ * On success `threadId` is returned so the dialog can open the thread.
+ */
+export const startThread = async (
+  data: NewThreadSchema
+): Promise<ActionState & { threadId?: number }> => {
+  const me = await getCurrentParticipant();
+  if (!me) return notInInbox;
+
+  const parsed = newThreadSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { recipientId, recipientRole, subject, body } = parsed.data;
+
+  const recipient = await findRecipient(me, recipientId, recipientRole);
+  if (!recipient) {
+    return {
+      success: false,
+      error: true,
+      message: "You cannot send messages to this person.",
+      fieldErrors: { recipientId: ["Not an allowed recipient!"] },
+    };
+  }
+
+  try {
+    const thread = await prisma.messageThread.create({
+      data: {
+        subject,
+        participants: {
+          create: [
+            { personId: me.id, role: me.role, name: me.name },
+            {
+              personId: recipient.id,
+              role: recipient.role,
+              name: recipient.name,
+              unreadCount: 1,
+            },
+          ],
+        },
+        messages: { create: { senderId: me.id, body } },
+      },
+      select: { id: true },
+    });
+    revalidatePath("/list/messages");
+    return { ...ok("Message sent!"), threadId: thread.id };
+  } catch (err) {
+    return actionFailed(err, "Could not send message.");
+  }
+};
+
+/**
+ * Reply in a thread the caller takes part in.
+ */
+export const sendReply = async (data: ReplySchema): Promise<ActionState> => {
+  const me = await getCurrentParticipant();
+  if (!me) return notInInbox;
+
+  const parsed = replySchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { threadId, body } = parsed.data;
+
+  try {
+    const membership = await prisma.threadParticipant.findUnique({
+      where: { threadId_personId: { threadId, personId: me.id } },
+    });
+    if (!membership) {
+      return { success: false, error: true, message: "Conversation not found." };
+    }
+
+    await prisma.$transaction([
+      prisma.message.create({ data: { threadId, senderId: me.id, body } }),
+      // Everyone else in the thread gets one more unread message
+      prisma.threadParticipant.updateMany({
+        where: { threadId, personId: { not: me.id } },
+        data: { unreadCount: { increment: 1 } },
+      }),
+      // Touch the thread so it moves to the top of the inbox
+      prisma.messageThread.update({
+        where: { id: threadId },
+        data: { updatedAt: new Date() },
+      }),
+    ]);
+    revalidatePath(`/list/messages/${threadId}`);
+    revalidatePath("/list/messages");
+    return ok("Message sent!");
+  } catch (err) {
+    return actionFailed(err, "Could not send message.");
+  }
+};
+
+/**
+ * Total unread messages for the caller, for the Navbar badge.
+ */
+export const getUnreadMessageCount = async (): Promise<number> => {
+  const me = await getCurrentParticipant();
+  if (!me) return 0;
+
+  const { _sum } = await prisma.threadParticipant.aggregate({
+    where: { personId: me.id },
+    _sum: { unreadCount: true },
+  });
+  return _sum.unreadCount ?? 0;
+};
@@ -0,0 +1,177 @@
+/**
+ * MESSAGES: Who you are in the inbox and who you may write to
+ * ============================================================================
+ *
+ * Purpose:
+ * Shared server-side rules for `/list/messages` and `lib/messageActions.ts`.
+ *
+ * Inbox identity:
+ * Threads are between Admin/Teacher/Student/Parent records, not Clerk users.
+ * The signed-in user is mapped to their record with `getCurrentPerson()`.
+ *
+ * Visibility rules (who may start a thread with whom):
+ * - admin   → anyone
+ * - teacher → admins, and parents of students they teach or supervise
+ * - parent  → admins, and teachers who teach or supervise their children
+ * - student → admins
+ *
+ * ============================================================================
+ */
+
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { Role } from "@/lib/roles";
+import { getCurrentPerson } from "@/lib/serverAuth";
+
+export type Participant = { id: string; role: Role; name: string };
+
+/**
+ * The signed-in user as an inbox participant.
+ *
+ * @returns null when signed out or not linked to a record yet.
+ */
+export const getCurrentParticipant = async (): Promise<Participant | null> => {
+  const person = await getCurrentPerson();
+  return person ? { id: person.id, role: person.role, name: person.name } : null;
+};
+
+/* RECIPIENT RULES */
+
+type RecipientFilters = {
+  admin?: Prisma.AdminWhereInput;
+  teacher?: Prisma.TeacherWhereInput;
+  student?: Prisma.StudentWhereInput;
+  parent?: Prisma.ParentWhereInput;
+};
+
+// Per-table filters for the people `me` may message. A missing key means
+// that table is off-limits.
+const recipientFilters = (me: Participant): RecipientFilters => {
+  switch (me.role) {
+    case "admin":
+      return { admin: {}, teacher: {}, student: {}, parent: {} };
+    case "teacher":
+      return {
+        admin: {},
+        parent: {
+          students: {
+            some: {
+              class: {
+                OR: [
+                  { lessons: { some: { teacherId: me.id } } },
+                  { supervisorId: me.id },
+                ],
+              },
+            },
+          },
+        },
+      };
+    case "parent":
+      return {
+        admin: {},
+        teacher: {
+          OR: [
+            { lessons: { some: { class: { students: { some: { parentId: me.id } } } } } },
+            { classes: { some: { students: { some: { parentId: me.id } } } } },
+          ],
+        },
+      };
+    case "student":
+      return { admin: {} };
+  }
+};
+
+const RESULTS_PER_ROLE = 5;
+
+/**
+ * Search the people `me` may message by name (username for admins).
+ * Used by the compose dialog.
+ */
+export async function searchRecipients(
+  me: Participant,
+  search: string
+): Promise<(Participant & { detail?: string })[]> {
+  const filters = recipientFilters(me);
+  const text = { contains: search, mode: "insensitive" as const };
+  const byName = { OR: [{ name: text }, { surname: text }] };
+  const notMe = { id: { not: me.id } };
+
+  const [admins, teachers, students, parents] = await Promise.all([
+    filters.admin
+      ? prisma.admin.findMany({
+          where: { AND: [filters.admin, notMe, { username: text }] },
+          take: RESULTS_PER_ROLE,
+        })
+      : [],
+    filters.teacher
+      ? prisma.teacher.findMany({
+          where: { AND: [filters.teacher, notMe, byName] },
+          select: { id: true, name: true, surname: true },
+          take: RESULTS_PER_ROLE,
+        })
+      : [],
+    filters.student
+      ? prisma.student.findMany({
+          where: { AND: [filters.student, notMe, byName] },
+          select: { id: true, name: true, surname: true, class: { select: { name: true } } },
+          take: RESULTS_PER_ROLE,
+        })
+      : [],
+    filters.parent
+      ? prisma.parent.findMany({
+          where: { AND: [filters.parent, notMe, byName] },
+          select: { id: true, name: true, surname: true },
+          take: RESULTS_PER_ROLE,
+        })
+      : [],
+  ]);
+
+  return [
+    ...admins.map((a) => ({ id: a.id, role: "admin" as const, name: a.username })),
+    ...teachers.map((t) => ({ id: t.id, role: "teacher" as const, name: `${t.name} ${t.surname}` })),
+    ...students.map((s) => ({
+      id: s.id,
+      role: "student" as const,
+      name: `${s.name} ${s.surname}`,
+      detail: s.class.name,
+    })),
+    ...parents.map((p) => ({ id: p.id, role: "parent" as const, name: `${p.name} ${p.surname}` })),
+  ];
+}
+
+/**
+ * Look up a single recipient, enforcing the visibility rules.
+ *
+ * @returns null when the record does not exist or `me` may not message it.
+ */
+export async function findRecipient(
+  me: Participant,
+  id: string,
+  role: Role
+): Promise<Participant | null> {
+  if (id === me.id) return null;
+  const filters = recipientFilters(me);
+
+  switch (role) {
+    case "admin": {
+      if (!filters.admin) return null;
+      const a = await prisma.admin.findFirst({ where: { AND: [filters.admin, { id }] } });
+      return a ? { id: a.id, role, name: a.username } : null;
+    }
+    case "teacher": {
+      if (!filters.teacher) return null;
+      const t = await prisma.teacher.findFirst({ where: { AND: [filters.teacher, { id }] } });
+      return t ? { id: t.id, role, name: `${t.name} ${t.surname}` } : null;
+    }
+    case "student": {
+      if (!filters.student) return null;
+      const s = await prisma.student.findFirst({ where: { AND: [filters.student, { id }] } });
+      return s ? { id: s.id, role, name: `${s.name} ${s.surname}` } : null;
+    }
+    case "parent": {
+      if (!filters.parent) return null;
+      const p = await prisma.parent.findFirst({ where: { AND: [filters.parent, { id }] } });
+      return p ? { id: p.id, role, name: `${p.name} ${p.surname}` } : null;
+    }
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * PAYSTACK: Server-side calls to Paystack
+ * ============================================================================
+ *
+ * Purpose:
+ * - `verifyTransaction`: asks Paystack what really happened to a
+ *   transaction reference (the browser's callback proves nothing)
+ * - `isValidSignature`: checks the `x-paystack-signature` header of a
+ *   webhook, an HMAC-SHA512 of the raw body keyed with the secret key
+ *
+ * Configuration (.env):
+ * - PAYSTACK_SECRET_KEY: sk_test_... / sk_live_...
+ * - PAYSTACK_BASE_URL: defaults to https://api.paystack.co; point it at the
+ *   local stub (scripts/paystack-stub.js) to test without Paystack
+ *
+ * Framework-free so API routes can use it.
+ *
+ * ============================================================================
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+const baseUrl = () =>
+  (process.env.PAYSTACK_BASE_URL || "https://api.paystack.co").replace(/\/$/, "");
+
+const secretKey = () => {
+  const key = process.env.PAYSTACK_SECRET_KEY;
+  if (!key) throw new Error("PAYSTACK_SECRET_KEY is not set");
+  return key;
+};
+
+/**
+ * The fields of a Paystack transaction the school relies on, from the
+ * verify endpoint or a `charge.success` webhook.
+ */
+export type PaystackTransaction = {
+  reference: string;
+  status: string; // "success", "failed", "abandoned", "ongoing"...
+  amount: number; // kobo
+  currency: string;
+  paidAt: Date | null;
+};
+
+// Paystack's `data` object → PaystackTransaction
+export const toTransaction = (data: {
+  reference: string;
+  status: string;
+  amount: number;
+  currency: string;
+  paid_at?: string | null;
+}): PaystackTransaction => ({
+  reference: data.reference,
+  status: data.status,
+  amount: data.amount,
+  currency: data.currency,
+  paidAt: data.paid_at ? new Date(data.paid_at) : null,
+});
+
+/**
+ * Look a transaction up by reference.
+ *
+ * @returns null when Paystack does not know the reference
+ * @throws when Paystack cannot be reached or answers with an error
+ */
+export async function verifyTransaction(
+  reference: string
+): Promise<PaystackTransaction | null> {
+  const response = await fetch(
+    `${baseUrl()}/transaction/verify/${encodeURIComponent(reference)}`,
+    {
+      headers: { Authorization: `Bearer ${secretKey()}` },
+      cache: "no-store",
+    }
+  );
+  if (response.status === 404) return null;
+
+  const body = await response.json();
+  if (!response.ok || !body.status) {
+    // Paystack answers an unknown reference with 400 "Transaction reference not found"
+    if (/not found/i.test(body.message ?? "")) return null;
+    throw new Error(`Paystack verify failed (${response.status}): ${body.message}`);
+  }
+  return toTransaction(body.data);
+}
+
+/**
+ * Whether `signature` is Paystack's signature of `rawBody`. The body must be
+ * the exact bytes received, before any JSON parsing.
+ */
+export function isValidSignature(rawBody: Buffer, signature: string | undefined) {
+  if (!signature) return false;
+  const expected = createHmac("sha512", secretKey()).update(rawBody).digest("hex");
+  const given = Buffer.from(signature, "utf8");
+  const wanted = Buffer.from(expected, "utf8");
+  return given.length === wanted.length && timingSafeEqual(given, wanted);
+}
@@ -0,0 +1,204 @@
+/**
+ * PDF: Minimal PDF writer for report cards and receipts
+ * ============================================================================
+ *
+ * Purpose:
+ * A4 pages with text in the standard Helvetica fonts, lines and filled
+ * rectangles. The standard fonts are built into every PDF reader, so
+ * nothing is embedded and no PDF dependency is needed.
+ *
+ * - Text is WinAnsi (Latin-1); other characters print as "?"
+ * - Coordinates are points from the top-left corner
+ *
+ * Server-only (uses Buffer).
+ *
+ * ============================================================================
+ */
+
+export const PAGE = { width: 595, height: 842 }; // A4
+
+export type Font = "regular" | "bold";
+
+export type Rgb = [number, number, number]; // 0–1 each
+
+type TextOptions = {
+  size?: number;
+  font?: Font;
+  color?: Rgb;
+  align?: "left" | "center" | "right"; // x is the left edge, centre or right edge
+};
+
+// Glyph widths (1/1000 em) of ASCII 32–126, from the standard font metrics
+const WIDTHS: Record<Font, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+    278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+    584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+    833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+    278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+    500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+    500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+    278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+    584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+    833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+    278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+    556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+    500, 389, 280, 389, 584,
+  ],
+};
+
+const FONT_NAMES: Record<Font, string> = { regular: "F1", bold: "F2" };
+
+// Latin-1 only; anything else would need an embedded font
+const latin1 = (text: string) =>
+  text.replace(/[^\u0020-\u007e\u00a0-\u00ff]/g, "?");
+
+export const textWidth = (text: string, size: number, font: Font = "regular") =>
+  (latin1(text)
+    .split("")
+    .reduce((sum, ch) => sum + (WIDTHS[font][ch.charCodeAt(0) - 32] ?? 556), 0) *
+    size) /
+  1000;
+
+/**
+ * Split `text` into lines no wider than `width`, breaking at spaces.
+ */
+export function wrapText(
+  text: string,
+  width: number,
+  size: number,
+  font: Font = "regular"
+): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const next = line ? `${line} ${word}` : word;
+      if (line && textWidth(next, size, font) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = next;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+// Shorten `text` with "..." until it fits `width`
+export function fitText(
+  text: string,
+  width: number,
+  size: number,
+  font: Font = "regular"
+): string {
+  if (textWidth(text, size, font) <= width) return text;
+  let cut = text;
+  while (cut && textWidth(`${cut}...`, size, font) > width) cut = cut.slice(0, -1);
+  return `${cut}...`;
+}
+
+const escapeText = (text: string) =>
+  latin1(text).replace(/[\\()]/g, (ch) => `\\${ch}`);
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+const rgb = ([r, g, b]: Rgb) => `${num(r)} ${num(g)} ${num(b)}`;
+
+export type PdfPage = {
+  text: (x: number, y: number, text: string, options?: TextOptions) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, width?: number) => void;
+  rect: (x: number, y: number, width: number, height: number, fill: Rgb) => void;
+};
+
+/**
+ * Start an empty document. Draw on the pages `addPage` returns, then call
+ * `toBuffer` for the file.
+ */
+export function createPdf(title: string) {
+  const pages: string[][] = [];
+
+  const addPage = (): PdfPage => {
+    const ops: string[] = [];
+    pages.push(ops);
+    const flip = (y: number) => PAGE.height - y;
+
+    return {
+      text: (x, y, text, { size = 10, font = "regular", color, align = "left" } = {}) => {
+        const width = textWidth(text, size, font);
+        const left =
+          align === "center" ? x - width / 2 : align === "right" ? x - width : x;
+        ops.push(
+          "BT",
+          `${rgb(color ?? [0, 0, 0])} rg`,
+          `/${FONT_NAMES[font]} ${num(size)} Tf`,
+          `${num(left)} ${num(flip(y))} Td`,
+          `(${escapeText(text)}) Tj`,
+          "ET"
+        );
+      },
+      line: (x1, y1, x2, y2, width = 0.5) => {
+        ops.push(
+          `${num(width)} w 0 0 0 RG`,
+          `${num(x1)} ${num(flip(y1))} m ${num(x2)} ${num(flip(y2))} l S`
+        );
+      },
+      rect: (x, y, width, height, fill) => {
+        ops.push(
+          `${rgb(fill)} rg`,
+          `${num(x)} ${num(flip(y + height))} ${num(width)} ${num(height)} re f`
+        );
+      },
+    };
+  };
+
+  const toBuffer = (): Buffer => {
+    // Objects: 1 catalog, 2 page tree, 3–4 fonts, 5 info, then page + content per page
+    const objects: string[] = [];
+    const pageIds = pages.map((_, i) => 6 + i * 2);
+
+    objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+    objects[2] = `<< /Type /Pages /Kids [${pageIds
+      .map((id) => `${id} 0 R`)
+      .join(" ")}] /Count ${pages.length} >>`;
+    objects[3] =
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+    objects[4] =
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+    objects[5] = `<< /Title (${escapeText(title)}) >>`;
+
+    pages.forEach((ops, i) => {
+      const content = ops.join("\n");
+      objects[pageIds[i]] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE.width} ${PAGE.height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+      objects[pageIds[i] + 1] =
+        `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`;
+    });
+
+    let body = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(body, "latin1");
+      body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xref = Buffer.byteLength(body, "latin1");
+    body +=
+      `xref\n0 ${objects.length}\n0000000000 65535 f \n` +
+      offsets
+        .slice(1)
+        .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+        .join("") +
+      `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\n` +
+      `startxref\n${xref}\n%%EOF\n`;
+
+    return Buffer.from(body, "latin1");
+  };
+
+  return { addPage, toBuffer };
+}
@@ -0,0 +1,176 @@
+/**
+ * PERSON LINK: Attach Clerk users to Admin/Teacher/Student/Parent records
+ * ============================================================================
+ *
+ * Purpose:
+ * A Clerk user (User table) signs in; the school data lives in the Admin,
+ * Teacher, Student and Parent tables. `clerkUserId` on those tables connects
+ * the two. This module owns reading and writing that link.
+ *
+ * How a link is made:
+ * 1. Already linked: the record with `clerkUserId = userId` in the table for
+ *    the user's role
+ * 2. Email match: an unlinked record in that table with the same email
+ *    (case-insensitive) gets linked. Callers only pass an email Clerk has
+ *    verified (or, for `/api/user/update-role`, one an admin vouches for),
+ *    never an address a user merely typed
+ * 3. Admins: Admin rows have no email, so an Admin row is created for the
+ *    user if none is linked
+ * 4. Anything else is left for an admin to link from the edit forms
+ *
+ * Called from the Clerk webhook, `/api/user/update-role` and
+ * `getCurrentPerson()` (lib/serverAuth.ts). Framework-free so it works from
+ * both Pages Router API routes and the App Router.
+ *
+ * ============================================================================
+ */
+
+import prisma from "@/lib/prisma";
+import { Role } from "@/lib/roles";
+import { audit } from "@/lib/audit";
+
+export type Person = {
+  role: Role;
+  id: string; // Admin/Teacher/Student/Parent id
+  name: string;
+  img?: string | null;
+};
+
+const insensitive = (email: string) => ({
+  equals: email,
+  mode: "insensitive" as const,
+});
+
+/**
+ * The record already linked to `userId` in the table for `role`.
+ */
+export async function findLinkedPerson(
+  userId: string,
+  role: Role
+): Promise<Person | null> {
+  const where = { clerkUserId: userId };
+
+  switch (role) {
+    case "admin": {
+      const a = await prisma.admin.findUnique({ where });
+      return a ? { role, id: a.id, name: a.username } : null;
+    }
+    case "teacher": {
+      const t = await prisma.teacher.findUnique({ where });
+      return t ? { role, id: t.id, name: `${t.name} ${t.surname}`, img: t.img } : null;
+    }
+    case "student": {
+      const s = await prisma.student.findUnique({ where });
+      return s ? { role, id: s.id, name: `${s.name} ${s.surname}`, img: s.img } : null;
+    }
+    case "parent": {
+      const p = await prisma.parent.findUnique({ where });
+      return p ? { role, id: p.id, name: `${p.name} ${p.surname}` } : null;
+    }
+  }
+}
+
+/**
+ * Link `userId` to its record for `role`, matching by email when it is not
+ * linked yet.
+ *
+ * @returns the linked record, or null when nothing matched
+ */
+export async function linkClerkUser(
+  userId: string,
+  email: string | null | undefined,
+  role: Role
+): Promise<Person | null> {
+  const linked = await findLinkedPerson(userId, role);
+  if (linked) return linked;
+
+  const data = { clerkUserId: userId };
+
+  if (role === "admin") {
+    // Legacy admins were created with the Clerk id as their id
+    const legacy = await prisma.admin.findFirst({
+      where: { id: userId, clerkUserId: null },
+    });
+    const a = legacy
+      ? await prisma.admin.update({ where: { id: legacy.id }, data })
+      : await prisma.admin.create({
+          data: { id: userId, username: email || userId, ...data },
+        });
+    await audit("person-link", `Linked Clerk user ${userId} to admin ${a.id}`);
+    return { role, id: a.id, name: a.username };
+  }
+
+  if (!email) return null;
+  const where = { email: insensitive(email), clerkUserId: null };
+
+  let person: Person | null = null;
+  switch (role) {
+    case "teacher": {
+      const t = await prisma.teacher.findFirst({ where });
+      if (t) {
+        await prisma.teacher.update({ where: { id: t.id }, data });
+        person = { role, id: t.id, name: `${t.name} ${t.surname}`, img: t.img };
+      }
+      break;
+    }
+    case "student": {
+      const s = await prisma.student.findFirst({ where });
+      if (s) {
+        await prisma.student.update({ where: { id: s.id }, data });
+        person = { role, id: s.id, name: `${s.name} ${s.surname}`, img: s.img };
+      }
+      break;
+    }
+    case "parent": {
+      const p = await prisma.parent.findFirst({ where });
+      if (p) {
+        await prisma.parent.update({ where: { id: p.id }, data });
+        person = { role, id: p.id, name: `${p.name} ${p.surname}` };
+      }
+      break;
+    }
+  }
+
+  if (person) {
+    await audit(
+      "person-link",
+      `Linked Clerk user ${userId} to ${role} ${person.id} by email`
+    );
+  }
+  return person;
+}
+
+/**
+ * The role whose table holds an unlinked record with this email, so a new
+ * sign-up can start with the right role. Teachers are checked first, then
+ * parents, then students.
+ */
+export async function findRoleByEmail(email: string): Promise<Role | null> {
+  const where = { email: insensitive(email), clerkUserId: null };
+
+  if (await prisma.teacher.findFirst({ where, select: { id: true } })) {
+    return "teacher";
+  }
+  if (await prisma.parent.findFirst({ where, select: { id: true } })) {
+    return "parent";
+  }
+  if (await prisma.student.findFirst({ where, select: { id: true } })) {
+    return "student";
+  }
+  return null;
+}
+
+/**
+ * Remove every link to `userId` (e.g. when the Clerk account is deleted).
+ */
+export async function unlinkClerkUser(userId: string) {
+  const where = { clerkUserId: userId };
+  const data = { clerkUserId: null };
+
+  await prisma.$transaction([
+    prisma.admin.updateMany({ where, data }),
+    prisma.teacher.updateMany({ where, data }),
+    prisma.student.updateMany({ where, data }),
+    prisma.parent.updateMany({ where, data }),
+  ]);
+}
@@ -0,0 +1,250 @@
+/**
+ * PROMOTION: End-of-year roll forward of students to the next grade level
+ * ============================================================================
+ *
+ * Purpose:
+ * - `proposePromotion`: every class with active students, the classes of
+ *   the next grade level they can move to and a default outcome per
+ *   student: promoted to the matching class ("2A" → "3A", else the first
+ *   class of the next level), or graduated from the top level
+ * - `planPromotion`: checks the outcomes the admin picked and returns the
+ *   writes that apply them, for one transaction
+ *
+ * Outcomes:
+ * - PROMOTED: moves to a class one grade level up
+ * - REPEATED: stays in their class
+ * - GRADUATED: top level only; becomes alumni (`Student.status`) and keeps
+ *   their last class, so past results and report cards still read right
+ *
+ * Each run is stored per academic year (`PromotionRun`) with a record per
+ * student, so a year cannot be rolled forward twice.
+ *
+ * Capacity: a class that ends up with more active students than seats is
+ * refused unless the admin ticks "overCapacity" (lib/capacity.ts). Students
+ * promoted or graduated leave any class waitlist they were on.
+ *
+ * ============================================================================
+ */
+
+import { Prisma, PromotionOutcome } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { classSeats } from "@/lib/capacity";
+import type { PromotionSchema } from "@/lib/formValidationSchemas";
+
+export type PromotionClass = {
+  id: number;
+  name: string;
+  gradeLevel: number;
+  isTopLevel: boolean;
+  targets: { id: number; name: string }[]; // classes of the next grade level
+  defaultTargetId: number | null;
+  students: { id: string; name: string; username: string }[];
+};
+
+// "2A" → "3A"; classes not named after their level get no match
+const matchingClass = (
+  name: string,
+  level: number,
+  targets: { id: number; name: string }[]
+) => {
+  const expected = name.replace(String(level), String(level + 1));
+  return targets.find((t) => t.name === expected) ?? null;
+};
+
+/**
+ * Classes with active students, lowest grade level first.
+ */
+export async function proposePromotion(): Promise<PromotionClass[]> {
+  const classes = await prisma.class.findMany({
+    where: { students: { some: { status: "ACTIVE" } } },
+    select: {
+      id: true,
+      name: true,
+      grade: { select: { level: true } },
+      students: {
+        where: { status: "ACTIVE" },
+        select: { id: true, name: true, surname: true, username: true },
+        orderBy: [{ surname: "asc" }, { name: "asc" }],
+      },
+    },
+  });
+  const allClasses = await prisma.class.findMany({
+    select: { id: true, name: true, grade: { select: { level: true } } },
+    orderBy: { name: "asc" },
+  });
+  const topLevel = Math.max(...allClasses.map((c) => c.grade.level));
+
+  return classes
+    .map((klass) => {
+      const level = klass.grade.level;
+      const targets = allClasses
+        .filter((c) => c.grade.level === level + 1)
+        .map(({ id, name }) => ({ id, name }));
+      return {
+        id: klass.id,
+        name: klass.name,
+        gradeLevel: level,
+        isTopLevel: level === topLevel,
+        targets,
+        defaultTargetId:
+          (matchingClass(klass.name, level, targets) ?? targets[0])?.id ?? null,
+        students: klass.students.map((s) => ({
+          id: s.id,
+          name: `${s.name} ${s.surname}`,
+          username: s.username,
+        })),
+      };
+    })
+    .sort((a, b) => a.gradeLevel - b.gradeLevel || a.name.localeCompare(b.name));
+}
+
+export type PromotionPlan = {
+  errors: string[];
+  counts: Record<PromotionOutcome, number>;
+  writes: Prisma.PrismaPromise<unknown>[];
+};
+
+/**
+ * Check `moves` against the students and classes as they are now and build
+ * the writes that apply them. Nothing is written while `errors` is not
+ * empty.
+ */
+export async function planPromotion(
+  { academicYearId, moves, overCapacity }: PromotionSchema,
+  createdBy: string | null
+): Promise<PromotionPlan> {
+  const counts: PromotionPlan["counts"] = {
+    PROMOTED: 0,
+    REPEATED: 0,
+    GRADUATED: 0,
+  };
+  const errors: string[] = [];
+
+  const [done, students, classes] = await Promise.all([
+    prisma.promotionRun.findUnique({
+      where: { academicYearId },
+      select: { academicYear: { select: { name: true } } },
+    }),
+    prisma.student.findMany({
+      where: { id: { in: moves.map((m) => m.studentId) } },
+      select: {
+        id: true,
+        name: true,
+        surname: true,
+        status: true,
+        classId: true,
+        class: { select: { name: true, grade: { select: { level: true } } } },
+      },
+    }),
+    prisma.class.findMany({
+      select: { id: true, name: true, gradeId: true, grade: { select: { level: true } } },
+    }),
+  ]);
+  if (done) {
+    errors.push(`Students were already promoted for ${done.academicYear.name}.`);
+  }
+  const topLevel = Math.max(...classes.map((c) => c.grade.level));
+
+  const writes: Prisma.PrismaPromise<unknown>[] = [];
+  const records: Prisma.PromotionRecordCreateManyRunInput[] = [];
+  const seatChange = new Map<number, number>(); // class id → students in - out
+  const leavingWaitlist: string[] = [];
+  const shift = (classId: number, by: number) =>
+    seatChange.set(classId, (seatChange.get(classId) ?? 0) + by);
+  for (const move of moves) {
+    const student = students.find((s) => s.id === move.studentId);
+    if (!student || student.status !== "ACTIVE") {
+      errors.push(`Student ${move.studentId} is not an active student.`);
+      continue;
+    }
+    const name = `${student.name} ${student.surname}`;
+    const from = {
+      fromClass: student.class.name,
+      fromGradeLevel: student.class.grade.level,
+    };
+
+    switch (move.outcome) {
+      case "PROMOTED": {
+        const target = classes.find((c) => c.id === move.toClassId);
+        if (!target || target.grade.level !== from.fromGradeLevel + 1) {
+          errors.push(`${name}: pick a class of grade ${from.fromGradeLevel + 1}.`);
+          continue;
+        }
+        writes.push(
+          prisma.student.update({
+            where: { id: student.id },
+            data: { classId: target.id, gradeId: target.gradeId },
+          })
+        );
+        shift(student.classId, -1);
+        shift(target.id, 1);
+        leavingWaitlist.push(student.id);
+        records.push({
+          studentId: student.id,
+          outcome: move.outcome,
+          ...from,
+          toClass: target.name,
+          toGradeLevel: target.grade.level,
+        });
+        break;
+      }
+      case "REPEATED":
+        records.push({
+          studentId: student.id,
+          outcome: move.outcome,
+          ...from,
+          toClass: from.fromClass,
+          toGradeLevel: from.fromGradeLevel,
+        });
+        break;
+      case "GRADUATED":
+        if (from.fromGradeLevel !== topLevel) {
+          errors.push(`${name}: only grade ${topLevel} students can graduate.`);
+          continue;
+        }
+        writes.push(
+          prisma.student.update({
+            where: { id: student.id },
+            data: { status: "ALUMNI", graduatedAt: new Date() },
+          })
+        );
+        shift(student.classId, -1);
+        leavingWaitlist.push(student.id);
+        records.push({ studentId: student.id, outcome: move.outcome, ...from });
+        break;
+    }
+    counts[move.outcome]++;
+  }
+
+  const filling = Array.from(seatChange).filter(([, by]) => by > 0);
+  if (filling.length && !overCapacity) {
+    const seats = await classSeats(filling.map(([id]) => id));
+    for (const [id, by] of filling) {
+      const classSeat = seats.get(id);
+      if (classSeat && by > classSeat.free) {
+        const name = classes.find((c) => c.id === id)?.name ?? `Class ${id}`;
+        errors.push(
+          `${name} has ${classSeat.free} free seat(s) of ${classSeat.capacity} but ${by} more student(s) would move in.`
+        );
+      }
+    }
+  }
+
+  if (leavingWaitlist.length) {
+    writes.push(
+      prisma.waitlistEntry.deleteMany({
+        where: { studentId: { in: leavingWaitlist } },
+      })
+    );
+  }
+  writes.push(
+    prisma.promotionRun.create({
+      data: {
+        academicYearId,
+        createdBy,
+        records: { createMany: { data: records } },
+      },
+    })
+  );
+  return { errors, counts, writes };
+}
@@ -0,0 +1,70 @@
+/**
+ * SERVER ACTIONS: End-of-year promotion
+ * ============================================================================
+ *
+ * Purpose:
+ * Applies the promotion wizard on /list/promotions (admins only, like every
+ * student change): all moves, the alumni updates and the run's history are
+ * written in one transaction, or nothing is. See lib/promotion.ts.
+ *
+ * ============================================================================
+ */
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import prisma from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/serverAuth";
+import {
+  ActionState,
+  actionFailed,
+  denyUnlessAllowed,
+  ok,
+  validationFailed,
+} from "@/lib/actionHelpers";
+import { PromotionSchema, promotionSchema } from "@/lib/formValidationSchemas";
+import { planPromotion } from "@/lib/promotion";
+import { clearRankings } from "@/lib/ranking";
+import { offerSeats } from "@/lib/capacity";
+import { audit } from "@/lib/audit";
+
+export const applyPromotion = async (
+  data: PromotionSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("student");
+  if (denied) return denied;
+
+  const parsed = promotionSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+
+  try {
+    const { userId } = await getCurrentUser();
+    const { errors, counts, writes } = await planPromotion(parsed.data, userId);
+    if (errors.length) {
+      return {
+        success: false,
+        error: true,
+        message:
+          errors.length === 1
+            ? errors[0]
+            : `${errors[0]} (and ${errors.length - 1} more problem(s))`,
+      };
+    }
+
+    await prisma.$transaction([
+      ...writes,
+      ...(parsed.data.overCapacity
+        ? [audit("capacity-override", "Promoted students past class capacity", userId)]
+        : []),
+    ]);
+    await clearRankings();
+    await offerSeats();
+    revalidatePath("/list/promotions");
+    revalidatePath("/list/students");
+    return ok(
+      `Promotion saved: ${counts.PROMOTED} promoted, ${counts.REPEATED} repeating, ${counts.GRADUATED} graduated.`
+    );
+  } catch (err) {
+    return actionFailed(err, "Could not save the promotion. Nothing was changed.");
+  }
+};
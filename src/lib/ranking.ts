@@ -0,0 +1,249 @@
+/**
+ * RANKING: Subject and class positions for a term
+ * ============================================================================
+ *
+ * Purpose:
+ * Ranks the students of a class for a term:
+ * - subject position: by the weighted subject total (lib/assessment.ts)
+ * - class position: by the average of the subject totals over every
+ *   subject the class was assessed in
+ *
+ * Equal scores share a position and the next one is skipped ("1, 2, 2, 4",
+ * standard competition ranking). A student counts as missing a score when
+ * classmates were scored in an assessment component (or subject) and they
+ * were not; RANKING_POLICY (lib/settings.ts) leaves them unranked or ranks
+ * them with 0 for it.
+ *
+ * The class is who was in it that term: today's roster while the term is
+ * running, and for a term that has ended the students with results or
+ * attendance in the class's lessons that term (promotions and transfers
+ * since then do not change a past term's positions).
+ *
+ * Rankings are stored per class and term (`RankingCache`) on first read.
+ * Anything that changes results, assessments, components, terms or class
+ * membership calls `clearRankings`, and the next read recomputes them.
+ *
+ * ============================================================================
+ */
+
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { RANKING_POLICY } from "@/lib/settings";
+import { nextDay } from "@/lib/utils";
+import {
+  RawScore,
+  SubjectTotal,
+  componentsFor,
+  getAssessmentComponents,
+  rawScoreOf,
+  subjectTotal,
+} from "@/lib/assessment";
+
+export type Ranking = {
+  outOf: number; // students ranked
+  positions: Record<string, { score: number; position: number }>; // by student id
+  excluded: string[]; // student ids left unranked for missing scores
+};
+
+export type ClassRankings = {
+  policy: (typeof RANKING_POLICY)["missingScores"];
+  subjects: Record<string, Ranking & { subject: string }>; // by subject id
+  overall: Ranking; // score: average subject total
+};
+
+export type Position = { position: number; outOf: number };
+
+/**
+ * Standard competition ranking: a position is 1 + the number of strictly
+ * higher scores.
+ */
+export const competitionRank = (
+  scores: { studentId: string; score: number }[]
+): Ranking["positions"] => {
+  const positions: Ranking["positions"] = {};
+  for (const { studentId, score } of scores) {
+    positions[studentId] = {
+      score,
+      position: scores.filter((other) => other.score > score).length + 1,
+    };
+  }
+  return positions;
+};
+
+const assessmentSelect = {
+  select: {
+    componentId: true,
+    lesson: {
+      select: { subjectId: true, subject: { select: { name: true } } },
+    },
+  },
+} as const;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Who was in the class during the term: the current roster for a term
+// still running, else whoever attended its lessons that term
+const termRoster = async (classId: number, termId: number) => {
+  const term = await prisma.term.findUnique({
+    where: { id: termId },
+    select: { endDate: true },
+  });
+  const ended = !!term && nextDay(term.endDate) <= new Date();
+  return prisma.student.findMany({
+    where: ended
+      ? { attendances: { some: { termId, lesson: { classId } } } }
+      : { classId, status: "ACTIVE" },
+    select: { id: true },
+  });
+};
+
+export async function computeClassRankings(
+  classId: number,
+  termId: number
+): Promise<ClassRankings> {
+  const assessed = { termId, lesson: { classId } };
+  const [results, enrolled, components] = await Promise.all([
+    prisma.result.findMany({
+      where: { OR: [{ exam: assessed }, { assignment: assessed }] },
+      select: {
+        score: true,
+        studentId: true,
+        exam: assessmentSelect,
+        assignment: assessmentSelect,
+      },
+    }),
+    termRoster(classId, termId),
+    getAssessmentComponents([termId]),
+  ]);
+
+  // subject → student → raw scores
+  const subjects = new Map<
+    number,
+    { name: string; scores: Map<string, RawScore[]> }
+  >();
+  for (const result of results) {
+    const { lesson } = (result.exam ?? result.assignment)!;
+    const subject = subjects.get(lesson.subjectId) ?? {
+      name: lesson.subject.name,
+      scores: new Map<string, RawScore[]>(),
+    };
+    subject.scores.set(result.studentId, [
+      ...(subject.scores.get(result.studentId) ?? []),
+      rawScoreOf(result),
+    ]);
+    subjects.set(lesson.subjectId, subject);
+  }
+
+  // Students with results rank with them, even if they left the class
+  const studentIds = Array.from(
+    new Set([...enrolled.map((s) => s.id), ...results.map((r) => r.studentId)])
+  );
+  const ranksZero = RANKING_POLICY.missingScores === "zero";
+
+  const rankings: ClassRankings = {
+    policy: RANKING_POLICY.missingScores,
+    subjects: {},
+    overall: { outOf: 0, positions: {}, excluded: [] },
+  };
+  const complete = new Map(studentIds.map((id) => [id, true]));
+  const totals = new Map<string, number[]>();
+
+  Array.from(subjects).forEach(([subjectId, { name, scores }]) => {
+    const parts = componentsFor(components, subjectId, termId);
+    const byStudent = new Map<string, SubjectTotal>(
+      studentIds.map((id) => [id, subjectTotal(parts, scores.get(id) ?? [])])
+    );
+
+    // Components anyone in the class was scored in
+    const scored = parts.map((_, i) =>
+      Array.from(byStudent.values()).some((t) => t.parts[i].points !== null)
+    );
+    const isComplete = (total: SubjectTotal) =>
+      total.parts.every((part, i) => !scored[i] || part.points !== null);
+
+    const ranked: { studentId: string; score: number }[] = [];
+    const excluded: string[] = [];
+    byStudent.forEach((total, studentId) => {
+      if (ranksZero || isComplete(total)) {
+        ranked.push({ studentId, score: total.total });
+      } else {
+        excluded.push(studentId);
+        complete.set(studentId, false);
+      }
+      totals.set(studentId, [...(totals.get(studentId) ?? []), total.total]);
+    });
+
+    rankings.subjects[subjectId] = {
+      subject: name,
+      outOf: ranked.length,
+      positions: competitionRank(ranked),
+      excluded,
+    };
+  });
+
+  // Class position: average subject total, complete students only
+  if (subjects.size > 0) {
+    const ranked = studentIds
+      .filter((id) => complete.get(id))
+      .map((studentId) => {
+        const own = totals.get(studentId) ?? [];
+        const sum = own.reduce((acc, total) => acc + total, 0);
+        return { studentId, score: round2(sum / subjects.size) };
+      });
+    rankings.overall = {
+      outOf: ranked.length,
+      positions: competitionRank(ranked),
+      excluded: studentIds.filter((id) => !complete.get(id)),
+    };
+  }
+
+  return rankings;
+}
+
+/**
+ * Rankings of a class for a term, from the cache when they are there and
+ * were computed under the current policy.
+ */
+export async function getClassRankings(
+  classId: number,
+  termId: number
+): Promise<ClassRankings> {
+  const where = { classId_termId: { classId, termId } };
+  const cached = await prisma.rankingCache.findUnique({ where });
+  const stored = cached?.rankings as unknown as ClassRankings | undefined;
+  if (stored && stored.policy === RANKING_POLICY.missingScores) return stored;
+
+  const rankings = await computeClassRankings(classId, termId);
+  const json = rankings as unknown as Prisma.InputJsonValue;
+  try {
+    await prisma.rankingCache.upsert({
+      where,
+      create: { classId, termId, rankings: json },
+      update: { rankings: json, computedAt: new Date() },
+    });
+  } catch (err) {
+    // Another request stored the same rankings first: use theirs
+    if (
+      err instanceof Prisma.PrismaClientKnownRequestError &&
+      err.code === "P2002"
+    ) {
+      const stored = await prisma.rankingCache.findUnique({ where });
+      if (stored) return stored.rankings as unknown as ClassRankings;
+    }
+    throw err;
+  }
+  return rankings;
+}
+
+// Drop every cached ranking; the next read recomputes what it needs
+export const clearRankings = () => prisma.rankingCache.deleteMany();
+
+export const positionIn = (
+  ranking: Ranking | undefined,
+  studentId: string
+): Position | null => {
+  const entry = ranking?.positions[studentId];
+  return entry && ranking
+    ? { position: entry.position, outOf: ranking.outOf }
+    : null;
+};
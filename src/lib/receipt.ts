@@ -0,0 +1,176 @@
+/**
+ * RECEIPT: A payment's receipt as PDF
+ * ============================================================================
+ *
+ * Purpose:
+ * One A4 page per payment: who paid for which invoice, how, and the
+ * invoice's balance after the payment (later payments are not counted, so
+ * a reprinted receipt reads the same). Served by /api/receipts.
+ * Framework-free so the API route can use it.
+ *
+ * ============================================================================
+ */
+
+import prisma from "@/lib/prisma";
+import { termLabel } from "@/lib/terms";
+import { REPORT_CARD } from "@/lib/settings";
+import { PAGE, PdfPage, Rgb, createPdf, fitText } from "@/lib/pdf";
+import {
+  PAYMENT_METHOD_LABELS,
+  formatMoney,
+  invoiceNumber,
+  receiptNumber,
+} from "@/lib/fees";
+
+export type Receipt = {
+  number: string; // "RCT-000012"
+  invoice: string; // "INV-000004"
+  student: { id: string; parentId: string; username: string; name: string };
+  className: string;
+  term: string;
+  paidAt: Date;
+  method: string;
+  reference: string | null;
+  amount: number; // kobo
+  invoiceTotal: number;
+  paidToDate: number; // this payment and the ones before it
+};
+
+export async function getReceipt(paymentId: number): Promise<Receipt | null> {
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    include: {
+      invoice: {
+        include: {
+          student: {
+            select: {
+              id: true,
+              parentId: true,
+              username: true,
+              name: true,
+              surname: true,
+              class: { select: { name: true } },
+            },
+          },
+          term: { include: { academicYear: { select: { name: true } } } },
+        },
+      },
+    },
+  });
+  if (!payment) return null;
+
+  const before = await prisma.payment.aggregate({
+    where: {
+      invoiceId: payment.invoiceId,
+      OR: [
+        { paidAt: { lt: payment.paidAt } },
+        { paidAt: payment.paidAt, id: { lt: payment.id } },
+      ],
+    },
+    _sum: { amount: true },
+  });
+
+  const { invoice } = payment;
+  const { student } = invoice;
+  return {
+    number: receiptNumber(payment.id),
+    invoice: invoiceNumber(invoice.id),
+    student: {
+      id: student.id,
+      parentId: student.parentId,
+      username: student.username,
+      name: `${student.name} ${student.surname}`,
+    },
+    className: student.class.name,
+    term: termLabel(invoice.term),
+    paidAt: payment.paidAt,
+    method: PAYMENT_METHOD_LABELS[payment.method],
+    reference: payment.reference,
+    amount: payment.amount,
+    invoiceTotal: invoice.total,
+    paidToDate: (before._sum.amount ?? 0) + payment.amount,
+  };
+}
+
+/* DRAWING */
+
+const MARGIN = 40;
+const WIDTH = PAGE.width - MARGIN * 2;
+
+const GREY: Rgb = [0.45, 0.45, 0.45];
+const HEADER_FILL: Rgb = [0.93, 0.94, 0.96];
+
+const formatDate = (date: Date) =>
+  new Intl.DateTimeFormat("en-GB", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  }).format(date);
+
+// Label above, value below
+const field = (page: PdfPage, x: number, y: number, label: string, value: string) => {
+  page.text(x, y, label, { size: 8, color: GREY });
+  page.text(x, y + 13, value, { size: 11, font: "bold" });
+};
+
+// Label on the left, amount on the right
+const amountRow = (page: PdfPage, y: number, label: string, minor: number, bold = false) => {
+  const font = bold ? "bold" : "regular";
+  page.text(MARGIN + 8, y, label, { size: 11, font });
+  page.text(MARGIN + WIDTH - 8, y, formatMoney(minor, "code"), {
+    size: 11,
+    font,
+    align: "right",
+  });
+};
+
+export function receiptPdf(receipt: Receipt): Buffer {
+  const pdf = createPdf(`Receipt ${receipt.number}`);
+  const page = pdf.addPage();
+
+  // SCHOOL AND RECEIPT NUMBER
+  page.text(PAGE.width / 2, 50, REPORT_CARD.schoolName, {
+    size: 18,
+    font: "bold",
+    align: "center",
+  });
+  page.text(PAGE.width / 2, 70, `Payment Receipt ${receipt.number}`, {
+    size: 12,
+    align: "center",
+  });
+  page.line(MARGIN, 82, MARGIN + WIDTH, 82, 1);
+
+  // STUDENT AND PAYMENT
+  const quarter = WIDTH / 4;
+  field(page, MARGIN, 100, "Student", fitText(receipt.student.name, quarter * 2 - 10, 11, "bold"));
+  field(page, MARGIN + quarter * 2, 100, "Student ID", receipt.student.username);
+  field(page, MARGIN + quarter * 3, 100, "Class", receipt.className);
+
+  field(page, MARGIN, 136, "Invoice", receipt.invoice);
+  field(page, MARGIN + quarter, 136, "Term", fitText(receipt.term, quarter * 2 - 10, 11, "bold"));
+  field(page, MARGIN + quarter * 3, 136, "Date paid", formatDate(receipt.paidAt));
+
+  field(page, MARGIN, 172, "Method", receipt.method);
+  field(page, MARGIN + quarter, 172, "Reference", receipt.reference ?? "-");
+
+  // AMOUNTS
+  page.rect(MARGIN, 212, WIDTH, 24, HEADER_FILL);
+  amountRow(page, 228, "Amount received", receipt.amount, true);
+  amountRow(page, 256, "Invoice total", receipt.invoiceTotal);
+  amountRow(page, 276, "Paid to date", receipt.paidToDate);
+  page.line(MARGIN, 286, MARGIN + WIDTH, 286);
+  amountRow(page, 304, "Balance", receipt.invoiceTotal - receipt.paidToDate, true);
+
+  page.text(MARGIN + WIDTH - 160, 360, "Signature: ____________________", {
+    size: 9,
+    color: GREY,
+  });
+
+  page.text(PAGE.width / 2, PAGE.height - 30, `Printed ${formatDate(new Date())}`, {
+    size: 8,
+    color: GREY,
+    align: "center",
+  });
+
+  return pdf.toBuffer();
+}
@@ -0,0 +1,309 @@
+/**
+ * REPORT CARD: End-of-term report cards as PDF
+ * ============================================================================
+ *
+ * Purpose:
+ * One A4 page per student for a term, built from what `ResultSheet` shows
+ * (lib/resultSheet.ts) plus:
+ * - attendance: lessons attended out of lessons marked in the term
+ * - the class teacher's and principal's remarks (`ReportCardRemark`)
+ * - the start date of the next term
+ *
+ * `getReportCards` gathers the data and `reportCardsPdf` draws it
+ * (lib/pdf.ts); a class's cards come out as one merged PDF for printing.
+ * Served by /api/report-cards. Framework-free so the API route can use it.
+ *
+ * ============================================================================
+ */
+
+import prisma from "@/lib/prisma";
+import { ResultSheetTerm, getResultSheets } from "@/lib/resultSheet";
+import { termLabel } from "@/lib/terms";
+import { REPORT_CARD } from "@/lib/settings";
+import { PAGE, PdfPage, Rgb, createPdf, fitText, wrapText } from "@/lib/pdf";
+
+export type ReportCard = {
+  student: { id: string; username: string; name: string };
+  className: string;
+  classTeacher: string | null;
+  term: string; // "2025/26 First Term"
+  sheet: ResultSheetTerm | null; // null: no results this term
+  attendance: { present: number; total: number };
+  teacherRemark: string | null;
+  principalRemark: string | null;
+  nextTermBegins: Date | null;
+};
+
+/**
+ * Report cards of `studentIds` for `termId`, in the order given. Unknown
+ * students are skipped.
+ */
+export async function getReportCards(
+  studentIds: string[],
+  termId: number
+): Promise<ReportCard[]> {
+  const term = await prisma.term.findUnique({
+    where: { id: termId },
+    include: { academicYear: { select: { name: true } } },
+  });
+  if (!term) return [];
+
+  const [students, attendance, remarks, nextTerm] = await Promise.all([
+    prisma.student.findMany({
+      where: { id: { in: studentIds } },
+      select: {
+        id: true,
+        username: true,
+        name: true,
+        surname: true,
+        class: {
+          select: { name: true, supervisor: { select: { name: true, surname: true } } },
+        },
+      },
+    }),
+    prisma.attendance.groupBy({
+      by: ["studentId", "present"],
+      where: { termId, studentId: { in: studentIds } },
+      _count: { _all: true },
+    }),
+    prisma.reportCardRemark.findMany({
+      where: { termId, studentId: { in: studentIds } },
+    }),
+    prisma.term.findFirst({
+      where: { startDate: { gt: term.startDate } },
+      orderBy: { startDate: "asc" },
+      select: { startDate: true },
+    }),
+  ]);
+
+  const cards: ReportCard[] = [];
+  for (const id of studentIds) {
+    const student = students.find((s) => s.id === id);
+    if (!student) continue;
+
+    // One at a time: each sheet reads (and may fill) the ranking cache
+    const sheets = await getResultSheets(id);
+    const sheet = sheets.find((s) => s.key === String(termId)) ?? null;
+    const counts = attendance.filter((a) => a.studentId === id);
+    const remark = remarks.find((r) => r.studentId === id);
+    const supervisor = student.class.supervisor;
+
+    cards.push({
+      student: {
+        id,
+        username: student.username,
+        name: `${student.name} ${student.surname}`,
+      },
+      className: sheet?.className ?? student.class.name,
+      classTeacher: supervisor ? `${supervisor.name} ${supervisor.surname}` : null,
+      term: termLabel(term),
+      sheet,
+      attendance: {
+        present: counts.find((a) => a.present)?._count._all ?? 0,
+        total: counts.reduce((sum, a) => sum + a._count._all, 0),
+      },
+      teacherRemark: remark?.teacherRemark ?? null,
+      principalRemark: remark?.principalRemark ?? null,
+      nextTermBegins: nextTerm?.startDate ?? null,
+    });
+  }
+  return cards;
+}
+
+/* DRAWING */
+
+const MARGIN = 40;
+const WIDTH = PAGE.width - MARGIN * 2;
+const ROW = 18;
+
+const GREY: Rgb = [0.45, 0.45, 0.45];
+const HEADER_FILL: Rgb = [0.93, 0.94, 0.96];
+
+const formatDate = (date: Date) =>
+  new Intl.DateTimeFormat("en-GB", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  }).format(date);
+
+const positionText = (position: { position: number; outOf: number } | null) =>
+  position ? `${position.position} of ${position.outOf}` : "-";
+
+// Label above, value below
+const field = (page: PdfPage, x: number, y: number, label: string, value: string) => {
+  page.text(x, y, label, { size: 8, color: GREY });
+  page.text(x, y + 13, value, { size: 11, font: "bold" });
+};
+
+const drawSubjects = (page: PdfPage, top: number, sheet: ResultSheetTerm) => {
+  // Subject | components... | Total | Grade | Remark | Position
+  const fixed = [
+    { title: "Total", width: 45 },
+    { title: "Grade", width: 40 },
+    { title: "Remark", width: 90 },
+    { title: "Position", width: 55 },
+  ];
+  const subjectWidth = 120;
+  const partWidth =
+    (WIDTH - subjectWidth - fixed.reduce((sum, c) => sum + c.width, 0)) /
+    Math.max(sheet.columns.length, 1);
+  const columns = [
+    { title: "Subject", width: subjectWidth },
+    ...sheet.columns.map((c) => ({
+      title: c.weight !== null ? `${c.name} (${c.weight})` : c.name,
+      width: partWidth,
+    })),
+    ...fixed,
+  ];
+
+  const cell = (x: number, y: number, width: number, text: string, bold = false) =>
+    page.text(x + 4, y + 12, fitText(text, width - 8, 9, bold ? "bold" : "regular"), {
+      size: 9,
+      font: bold ? "bold" : "regular",
+    });
+
+  page.rect(MARGIN, top, WIDTH, ROW, HEADER_FILL);
+  let x = MARGIN;
+  for (const column of columns) {
+    cell(x, top, column.width, column.title, true);
+    x += column.width;
+  }
+
+  let y = top + ROW;
+  for (const row of sheet.rows) {
+    const values = [
+      row.subject,
+      ...sheet.columns.map(
+        (c) => String(row.parts.find((p) => p.name === c.name)?.points ?? "-")
+      ),
+      String(row.total),
+      row.grade,
+      row.remark ?? "-",
+      positionText(row.position),
+    ];
+    x = MARGIN;
+    values.forEach((value, i) => {
+      cell(x, y, columns[i].width, value, i === 0);
+      x += columns[i].width;
+    });
+    page.line(MARGIN, y + ROW, MARGIN + WIDTH, y + ROW);
+    y += ROW;
+  }
+
+  page.line(MARGIN, top, MARGIN + WIDTH, top);
+  page.line(MARGIN, top + ROW, MARGIN + WIDTH, top + ROW);
+  return y;
+};
+
+// A remark box: title, then the text (or blank lines to write on)
+const drawRemark = (
+  page: PdfPage,
+  top: number,
+  title: string,
+  text: string | null
+) => {
+  page.text(MARGIN, top, title, { size: 10, font: "bold" });
+  let y = top + 16;
+  if (text) {
+    for (const line of wrapText(text, WIDTH, 10).slice(0, 4)) {
+      page.text(MARGIN, y, line, { size: 10 });
+      y += 14;
+    }
+  } else {
+    for (let i = 0; i < 2; i++) {
+      page.line(MARGIN, y + 4, MARGIN + WIDTH, y + 4);
+      y += 18;
+    }
+  }
+  page.text(MARGIN + WIDTH - 160, y + 14, "Signature: ____________________", {
+    size: 9,
+    color: GREY,
+  });
+  return y + 30;
+};
+
+const drawCard = (page: PdfPage, card: ReportCard) => {
+  // SCHOOL AND TERM
+  page.text(PAGE.width / 2, 50, REPORT_CARD.schoolName, {
+    size: 18,
+    font: "bold",
+    align: "center",
+  });
+  page.text(PAGE.width / 2, 70, `Report Card - ${card.term}`, {
+    size: 12,
+    align: "center",
+  });
+  page.line(MARGIN, 82, MARGIN + WIDTH, 82, 1);
+
+  // STUDENT
+  const quarter = WIDTH / 4;
+  field(page, MARGIN, 100, "Student", fitText(card.student.name, quarter * 2 - 10, 11, "bold"));
+  field(page, MARGIN + quarter * 2, 100, "Student ID", card.student.username);
+  field(page, MARGIN + quarter * 3, 100, "Class", card.className);
+
+  const { sheet } = card;
+  const { present, total } = card.attendance;
+  field(page, MARGIN, 136, "Class position", positionText(sheet?.classPosition ?? null));
+  field(
+    page,
+    MARGIN + quarter,
+    136,
+    sheet?.performance?.unit === "GPA" ? "Term GPA" : "Term average",
+    sheet?.performance
+      ? `${sheet.performance.value} of ${sheet.performance.max}`
+      : "-"
+  );
+  field(
+    page,
+    MARGIN + quarter * 2,
+    136,
+    "Attendance",
+    total ? `${present} of ${total} (${Math.round((present / total) * 100)}%)` : "-"
+  );
+  field(
+    page,
+    MARGIN + quarter * 3,
+    136,
+    "Next term begins",
+    card.nextTermBegins ? formatDate(card.nextTermBegins) : "To be announced"
+  );
+
+  // SUBJECTS
+  let y = 172;
+  if (sheet && sheet.rows.length > 0) {
+    y = drawSubjects(page, y, sheet);
+    page.text(MARGIN, y + 14, `Grading scheme: ${sheet.gradingScheme}`, {
+      size: 8,
+      color: GREY,
+    });
+    y += 40;
+  } else {
+    page.text(MARGIN, y + 12, "No results recorded this term.", { color: GREY });
+    y += 40;
+  }
+
+  // REMARKS
+  y = drawRemark(
+    page,
+    y,
+    `Class teacher's remark${card.classTeacher ? ` (${card.classTeacher})` : ""}`,
+    card.teacherRemark
+  );
+  drawRemark(page, y, `${REPORT_CARD.principalTitle}'s remark`, card.principalRemark);
+
+  page.text(PAGE.width / 2, PAGE.height - 30, `Printed ${formatDate(new Date())}`, {
+    size: 8,
+    color: GREY,
+    align: "center",
+  });
+};
+
+/**
+ * One page per card, in order, as a single PDF.
+ */
+export function reportCardsPdf(title: string, cards: ReportCard[]): Buffer {
+  const pdf = createPdf(title);
+  for (const card of cards) drawCard(pdf.addPage(), card);
+  return pdf.toBuffer();
+}
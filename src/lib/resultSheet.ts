@@ -0,0 +1,259 @@
+/**
+ * RESULT SHEET: A student's term results per subject
+ * ============================================================================
+ *
+ * Purpose:
+ * Builds the rows of `ResultSheet` from the student's `Result` records. Each
+ * result reaches its subject and class through its exam or assignment →
+ * lesson, and its term through the assessment's `termId` (lib/terms.ts).
+ * Per subject and term:
+ * - Component points and total: the weighted assessment components of the
+ *   subject in that term (lib/assessment.ts), e.g. CA1 + CA2 + Exam
+ * - Grade, remark and GPA points: the band the total earns in the grading
+ *   scheme of the class's grade level (lib/grading.ts)
+ * - Position: subject position in the class for the term, and the class
+ *   position for the whole term, from the ranking service (lib/ranking.ts)
+ *
+ * ============================================================================
+ */
+
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import {
+  AssessmentComponentDef,
+  ComponentPoints,
+  RawScore,
+  componentsFor,
+  getAssessmentComponents,
+  rawScoreOf,
+  subjectTotal,
+} from "@/lib/assessment";
+import {
+  BandTone,
+  GradingScheme,
+  Performance,
+  bandFor,
+  bandTone,
+  getGradingSchemes,
+  performanceOf,
+} from "@/lib/grading";
+import { termLabel } from "@/lib/terms";
+import { Position, getClassRankings, positionIn } from "@/lib/ranking";
+
+export type ResultSheetRow = {
+  subject: string;
+  parts: ComponentPoints[];
+  total: number;
+  grade: string;
+  remark: string | null;
+  gpa: number | null;
+  tone: BandTone;
+  position: Position | null; // null: unranked (see RANKING_POLICY)
+};
+
+export type ResultSheetTerm = {
+  key: string; // term id
+  label: string; // "2025/26 First Term"
+  className: string;
+  gradingScheme: string;
+  columns: { name: string; weight: number | null }[]; // null: differs by subject
+  rows: ResultSheetRow[];
+  classPosition: Position | null;
+  performance: Performance | null; // term GPA or average total
+};
+
+/* SCORES */
+
+const lessonSelect = {
+  select: {
+    subjectId: true,
+    classId: true,
+    subject: { select: { name: true } },
+    class: { select: { name: true, gradeId: true } },
+  },
+} as const;
+
+const termSelect = {
+  select: {
+    id: true,
+    name: true,
+    startDate: true,
+    academicYear: { select: { id: true, name: true } },
+  },
+} as const;
+
+const resultSelect = {
+  score: true,
+  studentId: true,
+  exam: {
+    select: { componentId: true, term: termSelect, lesson: lessonSelect },
+  },
+  assignment: {
+    select: { componentId: true, term: termSelect, lesson: lessonSelect },
+  },
+} satisfies Prisma.ResultSelect;
+
+type ScoredResult = Prisma.ResultGetPayload<{ select: typeof resultSelect }>;
+
+// Where a result counts: its term, class and subject
+const placeOf = (result: ScoredResult) => {
+  const assessment = result.exam ?? result.assignment;
+  if (!assessment?.term) return null;
+  return { term: assessment.term, lesson: assessment.lesson };
+};
+
+// Component columns of a sheet, in the order the subjects list them
+const columnsOf = (rows: ResultSheetRow[]) => {
+  const columns = new Map<string, number | null>();
+  for (const { name, weight } of rows.flatMap((row) => row.parts)) {
+    const seen = columns.get(name);
+    columns.set(name, seen === undefined || seen === weight ? weight : null);
+  }
+  return Array.from(columns, ([name, weight]) => ({ name, weight }));
+};
+
+/**
+ * The student's result sheet for every term they have results in, newest
+ * term first. Results dated outside every term are left out.
+ */
+export async function getResultSheets(
+  studentId: string
+): Promise<ResultSheetTerm[]> {
+  const own = await prisma.result.findMany({
+    where: { studentId },
+    select: resultSelect,
+  });
+
+  // term|class|subject → the student's raw scores
+  const groups = new Map<
+    string,
+    { place: NonNullable<ReturnType<typeof placeOf>>; scores: RawScore[] }
+  >();
+  for (const result of own) {
+    const place = placeOf(result);
+    if (!place) continue;
+    const groupKey = `${place.term.id}|${place.lesson.classId}|${place.lesson.subjectId}`;
+    const group = groups.get(groupKey) ?? { place, scores: [] };
+    group.scores.push(rawScoreOf(result));
+    groups.set(groupKey, group);
+  }
+  const places = Array.from(groups.values(), (group) => group.place);
+
+  const [components, schemes, rankings] = await Promise.all([
+    getAssessmentComponents(Array.from(new Set(places.map((p) => p.term.id)))),
+    getGradingSchemes(
+      Array.from(new Set(places.map((p) => p.lesson.class.gradeId)))
+    ),
+    // term|class → rankings
+    Promise.all(
+      Array.from(
+        new Set(places.map((p) => `${p.term.id}|${p.lesson.classId}`)),
+        async (key) => {
+          const [termId, classId] = key.split("|").map(Number);
+          return [key, await getClassRankings(classId, termId)] as const;
+        }
+      )
+    ).then((entries) => new Map(entries)),
+  ]);
+
+  type Sheet = Omit<ResultSheetTerm, "performance" | "columns"> & {
+    startDate: Date;
+    scheme: GradingScheme;
+  };
+  const terms = new Map<string, Sheet>();
+  groups.forEach(({ place: { term, lesson }, scores }) => {
+    const parts = componentsFor(components, lesson.subjectId, term.id);
+    const mine = subjectTotal(parts, scores);
+    const ranking = rankings.get(`${term.id}|${lesson.classId}`)!;
+
+    const scheme = schemes.get(lesson.class.gradeId)!;
+    const sheet = terms.get(String(term.id)) ?? {
+      key: String(term.id),
+      label: termLabel(term),
+      className: lesson.class.name,
+      gradingScheme: scheme.name,
+      rows: [],
+      classPosition: positionIn(ranking.overall, studentId),
+      startDate: term.startDate,
+      scheme,
+    };
+    const band = bandFor(scheme, mine.total);
+    sheet.rows.push({
+      subject: lesson.subject.name,
+      ...mine,
+      grade: band.grade,
+      remark: band.remark,
+      gpa: band.gpa,
+      tone: bandTone(scheme, band.grade),
+      position: positionIn(ranking.subjects[lesson.subjectId], studentId),
+    });
+    terms.set(sheet.key, sheet);
+  });
+
+  return Array.from(terms.values())
+    .sort((a, b) => b.startDate.getTime() - a.startDate.getTime())
+    .map(({ startDate: _startDate, scheme, ...sheet }) => ({
+      ...sheet,
+      rows: sheet.rows.sort((a, b) => a.subject.localeCompare(b.subject)),
+      columns: columnsOf(sheet.rows),
+      performance: performanceOf(
+        sheet.rows.map((row) => ({ total: row.total, scheme }))
+      ),
+    }));
+}
+
+/* PERFORMANCE */
+
+// Term GPA (or average total) of a student, from their result sheet
+export async function getStudentPerformance(
+  studentId: string,
+  termId: number
+): Promise<Performance | null> {
+  const sheets = await getResultSheets(studentId);
+  return sheets.find((s) => s.key === String(termId))?.performance ?? null;
+}
+
+/**
+ * Average subject total of every student a teacher assessed in a term,
+ * as GPA where the classes share a scheme with GPA points.
+ */
+export async function getTeacherPerformance(
+  teacherId: string,
+  termId: number
+): Promise<Performance | null> {
+  const assessed = { termId, lesson: { teacherId } };
+  const results = await prisma.result.findMany({
+    where: { OR: [{ exam: assessed }, { assignment: assessed }] },
+    select: resultSelect,
+  });
+
+  // class|subject|student → raw scores
+  const groups = new Map<
+    string,
+    { gradeId: number; parts: AssessmentComponentDef[]; scores: RawScore[] }
+  >();
+  const components = await getAssessmentComponents([termId]);
+  for (const result of results) {
+    const place = placeOf(result);
+    if (!place) continue;
+    const { lesson } = place;
+    const key = `${lesson.classId}|${lesson.subjectId}|${result.studentId}`;
+    const group = groups.get(key) ?? {
+      gradeId: lesson.class.gradeId,
+      parts: componentsFor(components, lesson.subjectId, termId),
+      scores: [],
+    };
+    group.scores.push(rawScoreOf(result));
+    groups.set(key, group);
+  }
+
+  const schemes = await getGradingSchemes(
+    Array.from(new Set(Array.from(groups.values()).map((g) => g.gradeId)))
+  );
+  return performanceOf(
+    Array.from(groups.values()).map((group) => ({
+      total: subjectTotal(group.parts, group.scores).total,
+      scheme: schemes.get(group.gradeId)!,
+    }))
+  );
+}
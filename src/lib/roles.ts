@@ -0,0 +1,90 @@
+/**
+ * ROLES & PERMISSIONS
+ * ============================================================================
+ *
+ * Plain role definitions with no framework imports, so they can be shared by
+ * App Router code (lib/serverAuth.ts), Pages Router API routes
+ * (lib/apiAuth.ts) and client components alike.
+ *
+ * ============================================================================
+ */
+
+export const ROLES = ["admin", "teacher", "student", "parent"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const isRole = (value: unknown): value is Role =>
+  typeof value === "string" && (ROLES as readonly string[]).includes(value);
+
+/**
+ * Tables managed through FormModal / server actions.
+ */
+export type MutationTable =
+  | "teacher"
+  | "student"
+  | "parent"
+  | "subject"
+  | "class"
+  | "lesson"
+  | "exam"
+  | "assignment"
+  | "result"
+  | "attendance"
+  | "event"
+  | "announcement"
+  | "academicYear"
+  | "term"
+  | "gradingScheme"
+  | "assessmentComponent"
+  | "feeStructure"
+  | "invoice"
+  | "payment"
+  | "liveSession";
+
+/**
+ * MUTATION_ROLES: Which roles may create/update/delete each table
+ *
+ * Admins manage everything. Teachers additionally run their own day-to-day
+ * records (assessments, results, attendance, class events and notices, live
+ * sessions).
+ * Students and parents are read-only everywhere.
+ *
+ * This is the single source of truth used by list pages (to show buttons)
+ * and by server actions (to reject callers).
+ */
+const MUTATION_ROLES: Record<MutationTable, Role[]> = {
+  teacher: ["admin"],
+  student: ["admin"],
+  parent: ["admin"],
+  subject: ["admin"],
+  class: ["admin"],
+  lesson: ["admin"],
+  exam: ["admin", "teacher"],
+  assignment: ["admin", "teacher"],
+  result: ["admin", "teacher"],
+  attendance: ["admin", "teacher"],
+  event: ["admin", "teacher"],
+  announcement: ["admin", "teacher"],
+  academicYear: ["admin"],
+  term: ["admin"],
+  gradingScheme: ["admin"],
+  assessmentComponent: ["admin"],
+  feeStructure: ["admin"],
+  invoice: ["admin"],
+  payment: ["admin"],
+  liveSession: ["admin", "teacher"],
+};
+
+export const canMutate = (
+  role: Role | null | undefined,
+  table: MutationTable
+): boolean => !!role && MUTATION_ROLES[table].includes(role);
+
+/**
+ * Roles that may download a /list page as CSV/XLSX (staff only; students
+ * and parents can still read the pages themselves).
+ */
+const EXPORT_ROLES: Role[] = ["admin", "teacher"];
+
+export const canExport = (role: Role | null | undefined): boolean =>
+  !!role && EXPORT_ROLES.includes(role);
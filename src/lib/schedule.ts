@@ -0,0 +1,58 @@
+/**
+ * SCHEDULE: Which timetables a signed-in user sees
+ * ============================================================================
+ *
+ * Purpose:
+ * Dashboards render `BigCalendar` for "my" timetable. This maps the linked
+ * record (lib/personLink.ts) to the BigCalendar props and a heading label:
+ * - teacher → their own lessons
+ * - student → their class's lessons
+ * - parent  → one timetable per child (their child's class)
+ * - admin   → none
+ *
+ * ============================================================================
+ */
+
+import prisma from "@/lib/prisma";
+import { Person } from "@/lib/personLink";
+import type { BigCalendarProps } from "@/components/BigCalendar";
+
+export type Schedule = { label: string; calendar: BigCalendarProps };
+
+export async function getSchedulesFor(
+  person: Person | null
+): Promise<Schedule[]> {
+  switch (person?.role) {
+    case "teacher":
+      return [
+        { label: person.name, calendar: { type: "teacherId", id: person.id } },
+      ];
+    case "student": {
+      const student = await prisma.student.findUnique({
+        where: { id: person.id },
+        select: { classId: true, class: { select: { name: true } } },
+      });
+      return student
+        ? [
+            {
+              label: student.class.name,
+              calendar: { type: "classId", id: student.classId },
+            },
+          ]
+        : [];
+    }
+    case "parent": {
+      const children = await prisma.student.findMany({
+        where: { parentId: person.id },
+        select: { name: true, surname: true, classId: true },
+        orderBy: { name: "asc" },
+      });
+      return children.map((child) => ({
+        label: `${child.name} ${child.surname}`,
+        calendar: { type: "classId", id: child.classId },
+      }));
+    }
+    default:
+      return [];
+  }
+}
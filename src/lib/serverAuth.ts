@@ -0,0 +1,90 @@
+/**
+ * SERVER AUTH: Role resolution for Server Components and Server Actions
+ * ============================================================================
+ *
+ * Purpose:
+ * Replaces the old hard-coded `role = "admin"` from `lib/data.ts`.
+ * The role comes from the signed-in Clerk user's `publicMetadata.role`,
+ * which is the same value the client reads in
+ * `RouteProtector.getUserRoleFromClaims` (set by the Clerk webhook and
+ * `/api/user/update-role`).
+ *
+ * Lookup order:
+ * 1. Session token claims (free, no network) when the Clerk session token
+ *    is customised to include `publicMetadata`
+ * 2. `currentUser()` from the Clerk Backend API as a fallback
+ *
+ * The result is cached per request with React `cache()` so a list page that
+ * renders many rows only resolves the role once.
+ *
+ * ============================================================================
+ */
+
+import { cache } from "react";
+import { auth, currentUser } from "@clerk/nextjs/server";
+import { Role, isRole } from "@/lib/roles";
+import { Person, findLinkedPerson, linkClerkUser } from "@/lib/personLink";
+
+export { ROLES, isRole, canMutate, canExport } from "@/lib/roles";
+export type { Role, MutationTable } from "@/lib/roles";
+export type { Person } from "@/lib/personLink";
+
+/**
+ * Resolve the signed-in user and their role.
+ *
+ * @returns userId is null when signed out; role is null when the user has
+ *          no (or an unknown) role in publicMetadata.
+ */
+export const getCurrentUser = cache(
+  async (): Promise<{ userId: string | null; role: Role | null }> => {
+    const { userId, sessionClaims } = await auth();
+    if (!userId) return { userId: null, role: null };
+
+    // 1) Custom session token claims, if configured in the Clerk dashboard
+    const claims = sessionClaims as
+      | {
+          publicMetadata?: { role?: unknown };
+          metadata?: { role?: unknown };
+        }
+      | null;
+    const claimedRole = claims?.publicMetadata?.role ?? claims?.metadata?.role;
+    if (isRole(claimedRole)) return { userId, role: claimedRole };
+
+    // 2) Fall back to the Clerk user object
+    const user = await currentUser();
+    const role = user?.publicMetadata?.role;
+    return { userId, role: isRole(role) ? role : null };
+  }
+);
+
+/**
+ * Convenience wrapper for pages that only need the role.
+ */
+export const getCurrentRole = async (): Promise<Role | null> =>
+  (await getCurrentUser()).role;
+
+/**
+ * The Admin / Teacher / Student / Parent record of the signed-in user, for
+ * scoping dashboard data to "me".
+ *
+ * Uses the `clerkUserId` link (lib/personLink.ts). Users signed in before
+ * they were linked are matched by their verified primary email on first
+ * use.
+ *
+ * @returns null when signed out, without a role, or not linked to a record.
+ */
+export const getCurrentPerson = cache(async (): Promise<Person | null> => {
+  const { userId, role } = await getCurrentUser();
+  if (!userId || !role) return null;
+
+  const linked = await findLinkedPerson(userId, role);
+  if (linked) return linked;
+
+  const user = await currentUser();
+  const primary = user?.primaryEmailAddress;
+  return linkClerkUser(
+    userId,
+    primary?.verification?.status === "verified" ? primary.emailAddress : null,
+    role
+  );
+});
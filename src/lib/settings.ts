@@ -1 +1,89 @@
 export const ITEMS_PER_PAGE = 9;
+
+// Pages a user can pick as their landing page on /settings.
+// "dashboard" means the dashboard for their role (/admin, /teacher, ...).
+export const LANDING_PAGES = [
+  { value: "dashboard", label: "My dashboard" },
+  { value: "/list/messages", label: "Messages" },
+  { value: "/list/announcements", label: "Announcements" },
+  { value: "/list/events", label: "Events" },
+  { value: "/list/attendance", label: "Attendance" },
+  { value: "/list/results", label: "Results" },
+  { value: "/profile", label: "Profile" },
+] as const;
+
+// Preferences used until a user saves their own on /settings
+export const DEFAULT_PREFERENCES = {
+  theme: "light" as "light" | "dark",
+  landingPage: "dashboard" as (typeof LANDING_PAGES)[number]["value"],
+  emailNotifications: true,
+  messageNotifications: true,
+  announcementNotifications: true,
+};
+
+// School day in minutes since midnight (08:00–17:00). Lessons outside it are
+// flagged as conflicts, and BigCalendar shows the same range.
+export const SCHOOL_DAY = { start: 8 * 60, end: 17 * 60 };
+
+// Starting options of the timetable generator on /list/timetable
+export const TIMETABLE_DEFAULTS = {
+  maxPerDay: 6, // most periods a teacher teaches in one day
+  noBackToBack: true, // a class never has the same subject in two adjacent periods
+};
+
+// Parts of a subject's total (out of 100) for subjects without assessment
+// components of their own in a term (/list/components): assignments are
+// continuous assessment, exams the exam. Results are marked out of 100.
+export const DEFAULT_ASSESSMENT_COMPONENTS = [
+  { name: "CA", weight: 60, maxScore: 100, kind: "assignment" },
+  { name: "Exam", weight: 40, maxScore: 100, kind: "exam" },
+] as const;
+
+// Grading scheme used until an admin marks one as the default on
+// /list/grading. A total (out of 100) earns the first band it reaches.
+export const DEFAULT_GRADING_SCHEME = {
+  name: "Standard A-D",
+  bands: [
+    { grade: "A", minScore: 70, remark: "Excellent", gpa: 4 },
+    { grade: "B", minScore: 60, remark: "Very good", gpa: 3 },
+    { grade: "C", minScore: 50, remark: "Credit", gpa: 2 },
+    { grade: "D", minScore: 0, remark: "Needs improvement", gpa: 1 },
+  ],
+};
+
+// How class and subject positions treat a student who has no score in an
+// assessment component (or subject) that classmates were scored in:
+// "exclude" leaves them unranked, "zero" ranks them with 0 for it.
+export const RANKING_POLICY = {
+  missingScores: "exclude" as "exclude" | "zero",
+};
+
+// Printed at the top of every report card (/api/report-cards)
+export const REPORT_CARD = {
+  schoolName: "Pato Smart School",
+  principalTitle: "Principal",
+};
+
+// Fees and payments (/list/fees, /list/invoices). Amounts are stored in
+// minor units: `minorUnits` of them make one `code` (100 kobo = 1 naira).
+export const CURRENCY = {
+  code: "NGN",
+  locale: "en-NG",
+  minorUnits: 100,
+};
+
+// Paid live classes (/list/liveclass). A payment gives the student access
+// to their class's live classes until the end of the current term, or for
+// `fallbackDays` when no term is running. Sessions open `joinEarlyMinutes`
+// before their scheduled start. LiveKit tokens are only good for joining
+// within `tokenTtlMinutes` of being issued. A student is suggested present
+// when they were in the room for `minPresencePercent` of the scheduled time;
+// the LIVE_MIN_PRESENCE_PERCENT env var (0-100) replaces it without a code
+// change (see `minPresencePercent` in lib/liveAttendance.ts).
+export const LIVE_CLASS = {
+  fee: 1000 * 100, // kobo (₦1,000)
+  fallbackDays: 30,
+  joinEarlyMinutes: 10,
+  tokenTtlMinutes: 10,
+  minPresencePercent: 75,
+};
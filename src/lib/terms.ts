@@ -0,0 +1,179 @@
+/**
+ * TERMS: Academic years, terms and the current term
+ * ============================================================================
+ *
+ * Purpose:
+ * - `getCurrentTerm`: the term flagged current by an admin, or else the term
+ *   today falls in. Lists and dashboards default to it.
+ * - `termIdForDate`: the term an exam, assignment or attendance record
+ *   belongs to, stored on the record when it is saved
+ * - `attributeToTerms`: re-files every record after terms are added,
+ *   moved or removed
+ * - `withCurrentTerm`: fills in the `termId` list param (lib/listQueries.ts)
+ *   when the URL has none; `?termId=all` shows every term
+ *
+ * Term dates are whole days (midnight UTC, like attendance dates); a term
+ * includes its end date.
+ *
+ * Framework-free so the export API route can use it too.
+ *
+ * ============================================================================
+ */
+
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { ListParams } from "@/lib/listQueries";
+import { nextDay } from "@/lib/utils";
+import { clearRankings } from "@/lib/ranking";
+
+const termInclude = {
+  academicYear: { select: { id: true, name: true } },
+} satisfies Prisma.TermInclude;
+
+export type TermWithYear = Prisma.TermGetPayload<{
+  include: typeof termInclude;
+}>;
+
+// "2025/26 First Term"
+export const termLabel = (term: {
+  name: string;
+  academicYear: { name: string };
+}) =>
+  `${term.academicYear.name} ${term.name}`;
+
+// Every term, newest first, for term pickers
+export const getTerms = () =>
+  prisma.term.findMany({
+    include: termInclude,
+    orderBy: { startDate: "desc" },
+  });
+
+const containing = (date: Date): Prisma.TermWhereInput => ({
+  startDate: { lte: date },
+  endDate: { gt: new Date(date.getTime() - 24 * 60 * 60 * 1000) },
+});
+
+export async function getCurrentTerm(): Promise<TermWithYear | null> {
+  const flagged = await prisma.term.findFirst({
+    where: { isCurrent: true },
+    include: termInclude,
+  });
+  if (flagged) return flagged;
+
+  return prisma.term.findFirst({
+    where: containing(new Date()),
+    include: termInclude,
+    orderBy: { startDate: "desc" },
+  });
+}
+
+export async function termIdForDate(date: Date): Promise<number | null> {
+  const term = await prisma.term.findFirst({
+    where: containing(date),
+    select: { id: true },
+    orderBy: { startDate: "desc" },
+  });
+  return term?.id ?? null;
+}
+
+// An exam or assignment, dated, with the component it counts towards
+type FiledRecord = {
+  id: number;
+  date: Date;
+  component: { termId: number; subjectId: number; name: string } | null;
+};
+
+/**
+ * Writes that point every exam, assignment and attendance record at the
+ * term its date falls in (or none). Run them in one transaction after any
+ * term change.
+ *
+ * An exam or assignment that changes term also changes assessment
+ * component: to the component of the same subject and name in its new term
+ * (CA1 → CA1), or none, so it never counts towards another term's
+ * components. Cached rankings are cleared with them.
+ */
+export async function attributeToTerms(): Promise<
+  Prisma.PrismaPromise<unknown>[]
+> {
+  const component = { select: { termId: true, subjectId: true, name: true } };
+  const [terms, components, exams, assignments] = await Promise.all([
+    prisma.term.findMany({
+      select: { id: true, startDate: true, endDate: true },
+    }),
+    prisma.assessmentComponent.findMany({
+      select: { id: true, termId: true, subjectId: true, name: true },
+    }),
+    prisma.exam.findMany({
+      where: { componentId: { not: null } },
+      select: { id: true, startTime: true, component },
+    }),
+    prisma.assignment.findMany({
+      where: { componentId: { not: null } },
+      select: { id: true, startDate: true, component },
+    }),
+  ]);
+
+  const writes: Prisma.PrismaPromise<unknown>[] = [
+    prisma.exam.updateMany({ data: { termId: null } }),
+    prisma.assignment.updateMany({ data: { termId: null } }),
+    prisma.attendance.updateMany({ data: { termId: null } }),
+  ];
+  for (const term of terms) {
+    const range = { gte: term.startDate, lt: nextDay(term.endDate) };
+    const data = { termId: term.id };
+    writes.push(
+      prisma.exam.updateMany({ where: { startTime: range }, data }),
+      prisma.assignment.updateMany({ where: { startDate: range }, data }),
+      prisma.attendance.updateMany({ where: { date: range }, data })
+    );
+  }
+
+  // The component a record keeps or moves to (null: none), by record id
+  const termOf = (date: Date) =>
+    terms.find((t) => date >= t.startDate && date < nextDay(t.endDate))?.id ?? null;
+  const moves = (records: FiledRecord[]) => {
+    const byComponent = new Map<number | null, number[]>();
+    for (const { id, date, component: current } of records) {
+      const termId = termOf(date);
+      if (!current || current.termId === termId) continue;
+      const next =
+        components.find(
+          (c) =>
+            c.termId === termId &&
+            c.subjectId === current.subjectId &&
+            c.name === current.name
+        )?.id ?? null;
+      byComponent.set(next, [...(byComponent.get(next) ?? []), id]);
+    }
+    return Array.from(byComponent);
+  };
+
+  for (const [componentId, ids] of moves(
+    exams.map((e) => ({ id: e.id, date: e.startTime, component: e.component }))
+  )) {
+    writes.push(
+      prisma.exam.updateMany({ where: { id: { in: ids } }, data: { componentId } })
+    );
+  }
+  for (const [componentId, ids] of moves(
+    assignments.map((a) => ({ id: a.id, date: a.startDate, component: a.component }))
+  )) {
+    writes.push(
+      prisma.assignment.updateMany({
+        where: { id: { in: ids } },
+        data: { componentId },
+      })
+    );
+  }
+
+  writes.push(clearRankings());
+  return writes;
+}
+
+// List params with `termId` defaulted to the current term
+export async function withCurrentTerm(params: ListParams): Promise<ListParams> {
+  if (params.termId) return params;
+  const current = await getCurrentTerm();
+  return current ? { ...params, termId: String(current.id) } : params;
+}
@@ -0,0 +1,543 @@
+/**
+ * TIMETABLE GENERATOR: Clash-free weekly lessons for a grade or the school
+ * ============================================================================
+ *
+ * Purpose:
+ * Builds the weekly Lesson rows of every class in scope from the generator
+ * inputs (see the TIMETABLE section of prisma/schema.prisma):
+ * - SubjectRequirement: periods per week of each subject, per grade
+ * - Teacher.subjects: who is qualified to teach a subject
+ * - SchoolPeriod: the slots of a school day
+ * - TeacherUnavailability: days / periods a teacher cannot teach
+ *
+ * Hard rules: no teacher or class is double-booked (also against lessons
+ * outside the scope), unavailable teachers are never used, a teacher teaches
+ * at most `maxPerDay` periods a day and, with `noBackToBack`, a class never
+ * has the same subject in two adjacent periods. Softer preferences: one
+ * teacher per class and subject, and a subject spread over the week.
+ *
+ * The search is a randomised greedy fill retried with several seeds; the
+ * best attempt wins. The same seed, options and locked slots always give
+ * the same timetable, which is what lets the commit rebuild the previewed
+ * plan on the server (like lib/csvImport.ts) instead of trusting the
+ * browser.
+ *
+ * Scope lessons that already have exams, assignments, attendance or live
+ * sessions are kept as they are (and count towards the requirement); every other lesson
+ * of the classes in scope is replaced.
+ *
+ * ============================================================================
+ */
+
+import { createHash } from "crypto";
+import { Day, Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { minutesOfDay } from "@/lib/lessonConflicts";
+import { toCurrentWeek } from "@/lib/utils";
+
+export const DAYS = Object.values(Day);
+
+// Attempts per generation; each uses a seed derived from the requested one
+const ATTEMPTS = 30;
+
+export type TimetableOptions = {
+  gradeId?: number; // undefined = whole school
+  maxPerDay: number;
+  noBackToBack: boolean;
+  seed: number;
+};
+
+// One generated lesson: a class has a subject with a teacher in a period
+export type TimetableSlot = {
+  classId: number;
+  subjectId: number;
+  teacherId: string;
+  day: Day;
+  periodId: number;
+};
+
+export type TimetablePeriod = {
+  id: number;
+  name: string;
+  start: number; // minutes since midnight
+  end: number;
+};
+
+export type TimetableCell = TimetableSlot & {
+  subject: string;
+  teacher: string;
+  kind: "new" | "locked" | "kept"; // kept = existing lesson with records
+};
+
+export type UnplacedRequirement = {
+  className: string;
+  subject: string;
+  missing: number; // periods that could not be placed
+  reason: string;
+};
+
+export type TimetablePreview = {
+  days: Day[];
+  periods: TimetablePeriod[];
+  classes: { id: number; name: string }[];
+  cells: TimetableCell[];
+  unplaced: UnplacedRequirement[];
+  rejectedLocks: number; // locked slots that no longer fit
+  replaced: number; // existing lessons the commit deletes
+  kept: number; // existing lessons kept because records point at them
+  fingerprint: string; // hash of the above; the commit must match it
+};
+
+export type TimetablePlan = {
+  preview: TimetablePreview;
+  writes: Prisma.PrismaPromise<unknown>[];
+};
+
+/* RANDOM */
+
+// Small seeded PRNG (mulberry32) so a seed always gives the same timetable
+const seededRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const shuffle = <T>(items: T[], random: () => number) => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+/* GENERATOR */
+
+// An existing lesson the generator must work around
+type BusySlot = {
+  classId: number;
+  teacherId: string;
+  subjectId: number;
+  day: Day;
+  start: number;
+  end: number;
+};
+
+type Requirement = { classId: number; subjectId: number; periods: number };
+
+type GeneratorInput = {
+  periods: TimetablePeriod[]; // sorted by start
+  requirements: Requirement[]; // periods still to place
+  teachersBySubject: Map<number, string[]>;
+  unavailable: { teacherId: string; day: Day; periodId: number | null }[];
+  busy: BusySlot[];
+  locked: TimetableSlot[];
+  maxPerDay: number;
+  noBackToBack: boolean;
+};
+
+type GeneratorResult = {
+  slots: TimetableSlot[];
+  locked: TimetableSlot[];
+  rejectedLocks: number;
+  unplaced: (Requirement & { reason: string })[];
+};
+
+const key = (...parts: (string | number)[]) => parts.join("|");
+
+// One greedy fill of the week
+const generateOnce = (
+  input: GeneratorInput,
+  random: () => number
+): GeneratorResult => {
+  const { periods, maxPerDay, noBackToBack } = input;
+
+  const classTaken = new Set<string>(); // class|day|period
+  const teacherTaken = new Set<string>(); // teacher|day|period
+  const subjectAt = new Map<string, number>(); // class|day|period → subject
+  const teacherLoad = new Map<string, number>(); // teacher|day → periods
+  const subjectPerDay = new Map<string, number>(); // class|subject|day → periods
+  const usualTeacher = new Map<string, string>(); // class|subject → teacher
+
+  const bump = (map: Map<string, number>, k: string) =>
+    map.set(k, (map.get(k) ?? 0) + 1);
+
+  // Existing lessons block every period they overlap, and each of those
+  // periods counts towards the teacher's load (a double period is two)
+  for (const b of input.busy) {
+    periods.forEach((p, index) => {
+      if (b.start >= p.end || p.start >= b.end) return;
+      classTaken.add(key(b.classId, b.day, index));
+      subjectAt.set(key(b.classId, b.day, index), b.subjectId);
+      const teacherSlot = key(b.teacherId, b.day, index);
+      if (!teacherTaken.has(teacherSlot)) {
+        teacherTaken.add(teacherSlot);
+        bump(teacherLoad, key(b.teacherId, b.day));
+      }
+    });
+  }
+
+  const blocked = new Set(
+    input.unavailable.map((u) =>
+      key(u.teacherId, u.day, u.periodId === null ? "*" : u.periodId)
+    )
+  );
+
+  const fits = (slot: TimetableSlot, index: number) => {
+    const { classId, teacherId, subjectId, day, periodId } = slot;
+    if (classTaken.has(key(classId, day, index))) return false;
+    if (teacherTaken.has(key(teacherId, day, index))) return false;
+    if (blocked.has(key(teacherId, day, "*"))) return false;
+    if (blocked.has(key(teacherId, day, periodId))) return false;
+    if ((teacherLoad.get(key(teacherId, day)) ?? 0) >= maxPerDay) return false;
+    if (
+      noBackToBack &&
+      (subjectAt.get(key(classId, day, index - 1)) === subjectId ||
+        subjectAt.get(key(classId, day, index + 1)) === subjectId)
+    ) {
+      return false;
+    }
+    return true;
+  };
+
+  const place = (slot: TimetableSlot, index: number) => {
+    classTaken.add(key(slot.classId, slot.day, index));
+    teacherTaken.add(key(slot.teacherId, slot.day, index));
+    subjectAt.set(key(slot.classId, slot.day, index), slot.subjectId);
+    bump(teacherLoad, key(slot.teacherId, slot.day));
+    bump(subjectPerDay, key(slot.classId, slot.subjectId, slot.day));
+    if (!usualTeacher.has(key(slot.classId, slot.subjectId))) {
+      usualTeacher.set(key(slot.classId, slot.subjectId), slot.teacherId);
+    }
+  };
+
+  const periodIndex = new Map(periods.map((p, index) => [p.id, index]));
+  const remaining = new Map(
+    input.requirements.map((r) => [key(r.classId, r.subjectId), r.periods])
+  );
+
+  // Locked slots go in first, exactly where the admin put them
+  const locked: TimetableSlot[] = [];
+  let rejectedLocks = 0;
+  for (const slot of input.locked) {
+    const index = periodIndex.get(slot.periodId);
+    const qualified = input.teachersBySubject.get(slot.subjectId) ?? [];
+    if (
+      index === undefined ||
+      !qualified.includes(slot.teacherId) ||
+      !fits(slot, index)
+    ) {
+      rejectedLocks++;
+      continue;
+    }
+    place(slot, index);
+    locked.push(slot);
+    const k = key(slot.classId, slot.subjectId);
+    if (remaining.has(k)) remaining.set(k, Math.max(0, remaining.get(k)! - 1));
+  }
+
+  // Hardest first: fewest qualified teachers, then most periods
+  const teacherCount = (r: Requirement) =>
+    input.teachersBySubject.get(r.subjectId)?.length ?? 0;
+  const queue = shuffle(input.requirements, random).sort(
+    (a, b) => teacherCount(a) - teacherCount(b) || b.periods - a.periods
+  );
+
+  const slots: TimetableSlot[] = [];
+  const unplaced: GeneratorResult["unplaced"] = [];
+
+  for (const requirement of queue) {
+    const { classId, subjectId } = requirement;
+    const qualified = input.teachersBySubject.get(subjectId) ?? [];
+    let missing = remaining.get(key(classId, subjectId)) ?? 0;
+
+    if (missing > 0 && !qualified.length) {
+      unplaced.push({
+        ...requirement,
+        periods: missing,
+        reason: "No teacher is assigned this subject.",
+      });
+      continue;
+    }
+
+    while (missing > 0) {
+      const usual = usualTeacher.get(key(classId, subjectId));
+      let best: { slot: TimetableSlot; index: number; score: number } | null =
+        null;
+
+      for (const teacherId of qualified) {
+        for (const day of DAYS) {
+          for (let index = 0; index < periods.length; index++) {
+            const slot = {
+              classId,
+              subjectId,
+              teacherId,
+              day,
+              periodId: periods[index].id,
+            };
+            if (!fits(slot, index)) continue;
+            const score =
+              (usual && usual !== teacherId ? 10 : 0) +
+              (subjectPerDay.get(key(classId, subjectId, day)) ?? 0) * 3 +
+              (teacherLoad.get(key(teacherId, day)) ?? 0) * 0.5 +
+              random();
+            if (!best || score < best.score) best = { slot, index, score };
+          }
+        }
+      }
+
+      if (!best) break;
+      const { slot, index } = best;
+      place(slot, index);
+      slots.push(slot);
+      missing--;
+    }
+
+    if (missing > 0) {
+      unplaced.push({
+        ...requirement,
+        periods: missing,
+        reason: "No free period for a qualified teacher and the class.",
+      });
+    }
+  }
+
+  return { slots, locked, rejectedLocks, unplaced };
+};
+
+const unplacedPeriods = (result: GeneratorResult) =>
+  result.unplaced.reduce((sum, r) => sum + r.periods, 0);
+
+// Best of several attempts: fewest periods left unplaced
+const generate = (input: GeneratorInput, seed: number) => {
+  let best: GeneratorResult | null = null;
+  for (let attempt = 0; attempt < ATTEMPTS; attempt++) {
+    const result = generateOnce(input, seededRandom(seed + attempt * 7919));
+    if (!best || unplacedPeriods(result) < unplacedPeriods(best)) best = result;
+    if (!unplacedPeriods(best)) break;
+  }
+  return best!;
+};
+
+/* PLAN */
+
+// The weekday of this week at `minutes` past midnight (server local time),
+// the same convention lesson forms and conflict checks use
+const lessonTime = (day: Day, minutes: number) => {
+  const time = new Date();
+  time.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return toCurrentWeek(day, time);
+};
+
+const fullName = (t: { name: string; surname: string }) =>
+  `${t.name} ${t.surname}`;
+
+// What the commit checks the regenerated plan against: the same inputs and
+// seed give the same hash, any change to the data in between does not
+const fingerprintOf = (preview: Omit<TimetablePreview, "fingerprint">) =>
+  createHash("sha256").update(JSON.stringify(preview)).digest("hex");
+
+/**
+ * Generate the timetable for `options.gradeId` (or the whole school) and
+ * the writes that would replace the scope's current lessons with it.
+ * Nothing is written until the caller runs `writes` in a transaction.
+ */
+export async function planTimetable(
+  options: TimetableOptions,
+  locked: TimetableSlot[] = []
+): Promise<TimetablePlan> {
+  const scopeWhere: Prisma.ClassWhereInput = options.gradeId
+    ? { gradeId: options.gradeId }
+    : {};
+
+  const [periods, classes, subjects, teachers, unavailable, lessons] =
+    await Promise.all([
+      prisma.schoolPeriod.findMany({
+        select: { id: true, name: true, start: true, end: true },
+        orderBy: { start: "asc" },
+      }),
+      prisma.class.findMany({
+        where: scopeWhere,
+        select: {
+          id: true,
+          name: true,
+          grade: {
+            select: {
+              subjectRequirements: {
+                select: { subjectId: true, periodsPerWeek: true },
+                orderBy: { subjectId: "asc" },
+              },
+            },
+          },
+        },
+        orderBy: [{ name: "asc" }, { id: "asc" }],
+      }),
+      prisma.subject.findMany({
+        select: { id: true, name: true },
+        orderBy: { id: "asc" },
+      }),
+      prisma.teacher.findMany({
+        select: {
+          id: true,
+          name: true,
+          surname: true,
+          subjects: { select: { id: true }, orderBy: { id: "asc" } },
+        },
+        orderBy: { username: "asc" },
+      }),
+      prisma.teacherUnavailability.findMany({
+        select: { teacherId: true, day: true, periodId: true },
+        orderBy: { id: "asc" },
+      }),
+      prisma.lesson.findMany({
+        select: {
+          id: true,
+          day: true,
+          startTime: true,
+          endTime: true,
+          classId: true,
+          teacherId: true,
+          subjectId: true,
+          _count: {
+            select: {
+              exams: true,
+              assignments: true,
+              attendances: true,
+              liveSessions: true,
+            },
+          },
+        },
+        orderBy: { id: "asc" },
+      }),
+    ]);
+
+  const inScope = new Set(classes.map((c) => c.id));
+  const hasRecords = (l: (typeof lessons)[number]) =>
+    l._count.exams + l._count.assignments + l._count.attendances + l._count.liveSessions > 0;
+
+  // Out-of-scope lessons and scope lessons with records stay
+  const stays = lessons.filter((l) => !inScope.has(l.classId) || hasRecords(l));
+  const replaced = lessons.filter((l) => inScope.has(l.classId) && !hasRecords(l));
+  const busy: BusySlot[] = stays.map((l) => ({
+    classId: l.classId,
+    teacherId: l.teacherId,
+    subjectId: l.subjectId,
+    day: l.day,
+    start: minutesOfDay(l.startTime),
+    end: minutesOfDay(l.endTime),
+  }));
+  const kept = stays.filter((l) => inScope.has(l.classId));
+
+  // The periods a lesson overlaps (a double lesson takes two)
+  const periodsOf = (l: (typeof lessons)[number]) => {
+    const start = minutesOfDay(l.startTime);
+    const end = minutesOfDay(l.endTime);
+    return periods.filter((p) => start < p.end && p.start < end);
+  };
+
+  // Periods per week still needed once kept lessons are counted
+  const requirements: Requirement[] = classes.flatMap((c) =>
+    c.grade.subjectRequirements.map((r) => ({
+      classId: c.id,
+      subjectId: r.subjectId,
+      periods: Math.max(
+        0,
+        r.periodsPerWeek -
+          kept
+            .filter((l) => l.classId === c.id && l.subjectId === r.subjectId)
+            .reduce((sum, l) => sum + periodsOf(l).length, 0)
+      ),
+    }))
+  );
+
+  const teachersBySubject = new Map<number, string[]>();
+  for (const teacher of teachers) {
+    for (const subject of teacher.subjects) {
+      teachersBySubject.set(subject.id, [
+        ...(teachersBySubject.get(subject.id) ?? []),
+        teacher.id,
+      ]);
+    }
+  }
+
+  const result = generate(
+    {
+      periods,
+      requirements,
+      teachersBySubject,
+      unavailable,
+      busy,
+      locked: locked.filter((slot) => inScope.has(slot.classId)),
+      maxPerDay: options.maxPerDay,
+      noBackToBack: options.noBackToBack,
+    },
+    options.seed
+  );
+
+  /* PREVIEW */
+
+  const subjectName = new Map(subjects.map((s) => [s.id, s.name]));
+  const teacherName = new Map(teachers.map((t) => [t.id, fullName(t)]));
+  const className = new Map(classes.map((c) => [c.id, c.name]));
+
+  const cell = (slot: TimetableSlot, kind: TimetableCell["kind"]) => ({
+    ...slot,
+    subject: subjectName.get(slot.subjectId) ?? "",
+    teacher: teacherName.get(slot.teacherId) ?? "",
+    kind,
+  });
+
+  // Kept lessons are shown in the first period they overlap
+  const keptCells = kept.flatMap((l) => {
+    const [period] = periodsOf(l);
+    return period ? [cell({ ...l, periodId: period.id }, "kept")] : [];
+  });
+
+  const shown: Omit<TimetablePreview, "fingerprint"> = {
+    days: DAYS,
+    periods,
+    classes: classes.map((c) => ({ id: c.id, name: c.name })),
+    cells: [
+      ...keptCells,
+      ...result.locked.map((slot) => cell(slot, "locked")),
+      ...result.slots.map((slot) => cell(slot, "new")),
+    ],
+    unplaced: result.unplaced.map((r) => ({
+      className: className.get(r.classId) ?? "",
+      subject: subjectName.get(r.subjectId) ?? "",
+      missing: r.periods,
+      reason: r.reason,
+    })),
+    rejectedLocks: result.rejectedLocks,
+    replaced: replaced.length,
+    kept: kept.length,
+  };
+  const preview: TimetablePreview = { ...shown, fingerprint: fingerprintOf(shown) };
+
+  /* WRITES */
+
+  const period = new Map(periods.map((p) => [p.id, p]));
+  const writes = [
+    prisma.lesson.deleteMany({
+      where: { id: { in: replaced.map((l) => l.id) } },
+    }),
+    prisma.lesson.createMany({
+      data: [...result.locked, ...result.slots].map((slot) => ({
+        name: `${subjectName.get(slot.subjectId)} ${className.get(slot.classId)}`,
+        day: slot.day,
+        startTime: lessonTime(slot.day, period.get(slot.periodId)!.start),
+        endTime: lessonTime(slot.day, period.get(slot.periodId)!.end),
+        subjectId: slot.subjectId,
+        classId: slot.classId,
+        teacherId: slot.teacherId,
+      })),
+    }),
+  ];
+
+  return { preview, writes };
+}
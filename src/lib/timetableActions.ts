@@ -0,0 +1,239 @@
+/**
+ * SERVER ACTIONS: Timetable generator
+ * ============================================================================
+ *
+ * Purpose:
+ * Actions behind /list/timetable (admins only, like every lesson change):
+ * - the generator inputs: school periods, periods per week of each subject
+ *   per grade, and teacher unavailability
+ * - previewing a generated timetable and committing it as Lesson rows
+ *
+ * The commit never trusts the previewed grid: it regenerates the plan from
+ * the same seed, options and locked slots (lib/timetable.ts) and writes it
+ * in one transaction, and only if it is still the timetable that was
+ * previewed (its fingerprint matches).
+ *
+ * ============================================================================
+ */
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import prisma from "@/lib/prisma";
+import {
+  ActionState,
+  actionFailed,
+  denyUnlessAllowed,
+  ok,
+  optionalNumber,
+  validationFailed,
+} from "@/lib/actionHelpers";
+import {
+  SchoolPeriodInput,
+  SubjectRequirementSchema,
+  TeacherUnavailabilitySchema,
+  TimetableSchema,
+  schoolPeriodSchema,
+  subjectRequirementSchema,
+  teacherUnavailabilitySchema,
+  timetableSchema,
+} from "@/lib/formValidationSchemas";
+import { TimetablePreview, planTimetable } from "@/lib/timetable";
+
+const TIMETABLE_PATH = "/list/timetable";
+
+/* ========================================================================
+ * SCHOOL PERIODS
+ * ======================================================================== */
+
+export const createSchoolPeriod = async (
+  data: SchoolPeriodInput
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("lesson");
+  if (denied) return denied;
+
+  const parsed = schoolPeriodSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { name, start, end } = parsed.data;
+
+  // Periods may not overlap, or the generator could double-book a slot
+  const overlapping = await prisma.schoolPeriod.findFirst({
+    where: { start: { lt: end }, end: { gt: start } },
+  });
+  if (overlapping) {
+    return {
+      success: false,
+      error: true,
+      message: `Overlaps "${overlapping.name}".`,
+      fieldErrors: { start: [`Overlaps "${overlapping.name}"!`] },
+    };
+  }
+
+  try {
+    await prisma.schoolPeriod.create({ data: { name, start, end } });
+    revalidatePath(TIMETABLE_PATH);
+    return ok("Period has been added!");
+  } catch (err) {
+    return actionFailed(err, "Could not add period.");
+  }
+};
+
+export const deleteSchoolPeriod = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("lesson");
+  if (denied) return denied;
+
+  try {
+    await prisma.schoolPeriod.delete({ where: { id: Number(id) } });
+    revalidatePath(TIMETABLE_PATH);
+    return ok("Period has been deleted!");
+  } catch (err) {
+    return actionFailed(err, "Could not delete period.");
+  }
+};
+
+/* ========================================================================
+ * SUBJECT REQUIREMENTS
+ * ======================================================================== */
+
+// Set the periods per week of a subject for a grade; 0 removes it
+export const saveSubjectRequirement = async (
+  data: SubjectRequirementSchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("lesson");
+  if (denied) return denied;
+
+  const parsed = subjectRequirementSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { gradeId, subjectId, periodsPerWeek } = parsed.data;
+
+  try {
+    if (periodsPerWeek === 0) {
+      await prisma.subjectRequirement.deleteMany({
+        where: { gradeId, subjectId },
+      });
+    } else {
+      await prisma.subjectRequirement.upsert({
+        where: { gradeId_subjectId: { gradeId, subjectId } },
+        create: { gradeId, subjectId, periodsPerWeek },
+        update: { periodsPerWeek },
+      });
+    }
+    revalidatePath(TIMETABLE_PATH);
+    return ok("Periods per week have been saved!");
+  } catch (err) {
+    return actionFailed(err, "Could not save periods per week.");
+  }
+};
+
+/* ========================================================================
+ * TEACHER UNAVAILABILITY
+ * ======================================================================== */
+
+export const createTeacherUnavailability = async (
+  data: TeacherUnavailabilitySchema
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("lesson");
+  if (denied) return denied;
+
+  const parsed = teacherUnavailabilitySchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { teacherId, day, periodId } = parsed.data;
+
+  try {
+    await prisma.teacherUnavailability.create({
+      data: { teacherId, day, periodId: optionalNumber(periodId) },
+    });
+    revalidatePath(TIMETABLE_PATH);
+    return ok("Unavailability has been added!");
+  } catch (err) {
+    return actionFailed(err, "Could not add unavailability.");
+  }
+};
+
+export const deleteTeacherUnavailability = async (
+  id: number | string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("lesson");
+  if (denied) return denied;
+
+  try {
+    await prisma.teacherUnavailability.delete({ where: { id: Number(id) } });
+    revalidatePath(TIMETABLE_PATH);
+    return ok("Unavailability has been removed!");
+  } catch (err) {
+    return actionFailed(err, "Could not remove unavailability.");
+  }
+};
+
+/* ========================================================================
+ * GENERATE / COMMIT
+ * ======================================================================== */
+
+// Parsed form values → generator options and locked slots
+const generatorInput = ({ gradeId, locked, ...options }: TimetableSchema) => ({
+  options: { ...options, gradeId: optionalNumber(gradeId) ?? undefined },
+  locked,
+});
+
+/**
+ * Generate a timetable for a grade (or the whole school) without saving
+ * it. Locked slots from an earlier preview are kept where they are.
+ */
+export const previewTimetable = async (
+  data: TimetableSchema
+): Promise<ActionState & { preview?: TimetablePreview }> => {
+  const denied = await denyUnlessAllowed("lesson");
+  if (denied) return denied;
+
+  const parsed = timetableSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { options, locked } = generatorInput(parsed.data);
+
+  try {
+    const { preview } = await planTimetable(options, locked);
+    return { ...ok("Timetable generated."), preview };
+  } catch (err) {
+    return actionFailed(err, "Could not generate the timetable.");
+  }
+};
+
+/**
+ * Replace the scope's lessons with the generated timetable in a single
+ * transaction. Lessons with exams, assignments, attendance or live sessions
+ * are kept.
+ *
+ * @param fingerprint the previewed plan's; when lessons, requirements or
+ * teachers changed since, the regenerated plan differs and nothing is saved
+ */
+export const commitTimetable = async (
+  data: TimetableSchema,
+  fingerprint: string
+): Promise<ActionState> => {
+  const denied = await denyUnlessAllowed("lesson");
+  if (denied) return denied;
+
+  const parsed = timetableSchema.safeParse(data);
+  if (!parsed.success) return validationFailed(parsed.error);
+  const { options, locked } = generatorInput(parsed.data);
+
+  try {
+    const { preview, writes } = await planTimetable(options, locked);
+    if (preview.fingerprint !== fingerprint) {
+      return {
+        success: false,
+        error: true,
+        message: "The timetable data changed since this preview. Generate it again.",
+      };
+    }
+    await prisma.$transaction(writes);
+    revalidatePath("/list/lessons");
+    revalidatePath(TIMETABLE_PATH);
+
+    const created = preview.cells.filter((c) => c.kind !== "kept").length;
+    return ok(`Timetable saved: ${created} lesson(s) created.`);
+  } catch (err) {
+    return actionFailed(err, "Could not save the timetable.");
+  }
+};
@@ -0,0 +1,51 @@
+// Small shared helpers used across server and client components.
+
+const pad = (n: number) => n.toString().padStart(2, "0");
+
+// Format a Date (or ISO string) for <input type="date" /> in local time
+export const toDateInputValue = (value?: Date | string | null) => {
+  if (!value) return undefined;
+  const d = new Date(value);
+  if (isNaN(d.getTime())) return undefined;
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+// Format a Date (or ISO string) for <input type="datetime-local" /> in local time
+export const toDateTimeInputValue = (value?: Date | string | null) => {
+  const date = toDateInputValue(value);
+  if (!date) return undefined;
+  const d = new Date(value!);
+  return `${date}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+// Format a whole-day date (stored as midnight UTC, see parseDateOnly) for
+// <input type="date" />
+export const toDateOnlyInputValue = (value?: Date | string | null) => {
+  if (!value) return undefined;
+  const d = new Date(value);
+  return isNaN(d.getTime()) ? undefined : d.toISOString().slice(0, 10);
+};
+
+// Parse a "YYYY-MM-DD" value (from a date input or URL param) as midnight UTC,
+// which is how whole-day dates such as attendance are stored
+export const parseDateOnly = (value?: string | null) => {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const d = new Date(`${value}T00:00:00.000Z`);
+  return isNaN(d.getTime()) ? null : d;
+};
+
+// The instant one day after `date`, for [date, nextDay) range queries
+export const nextDay = (date: Date) =>
+  new Date(date.getTime() + 24 * 60 * 60 * 1000);
+
+const WEEKDAYS = ["MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY"];
+
+// Place a weekly time slot (a Lesson's `day` + the time-of-day of
+// `time`) on that weekday of the week containing `weekOf`, in local time
+export const toCurrentWeek = (day: string, time: Date, weekOf = new Date()) => {
+  const sinceMonday = (weekOf.getDay() + 6) % 7; // Monday = 0 ... Sunday = 6
+  const d = new Date(weekOf);
+  d.setDate(weekOf.getDate() - sinceMonday + WEEKDAYS.indexOf(day));
+  d.setHours(time.getHours(), time.getMinutes(), 0, 0);
+  return d;
+};
@@ -31,12 +31,16 @@ import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
  * - "/" (landing page)
  * - "/sign-in" and "/sign-up" (auth pages)
  * - "/api/webhooks/clerk" (Clerk webhook - must be public)
+ * - "/api/webhooks/paystack" (Paystack webhook - checks its own signature)
+ * - "/api/webhooks/livekit" (LiveKit webhook - checks its own signature)
  */
 const isPublicRoute = createRouteMatcher([
   "/",
   "/sign-in(.*)",
   "/sign-up(.*)",
   "/api/webhooks/clerk(.*)",
+  "/api/webhooks/paystack(.*)",
+  "/api/webhooks/livekit(.*)",
 ]);
 
 /**